@@ -0,0 +1,23 @@
+import { ConfigContext, ExpoConfig } from 'expo/config';
+
+// Adds the settings that come from the environment to app.json. The Google
+// Maps API key for Android is read from GOOGLE_MAPS_API_KEY when building,
+// e.g. from .env.local or an EAS secret, so it isn't committed.
+export default ({ config }: ConfigContext): ExpoConfig => {
+  const googleMapsApiKey = process.env.GOOGLE_MAPS_API_KEY;
+
+  return {
+    ...(config as ExpoConfig),
+    android: {
+      ...config.android,
+      config: {
+        ...config.android?.config,
+        ...(googleMapsApiKey && { googleMaps: { apiKey: googleMapsApiKey } }),
+      },
+    },
+    extra: {
+      ...config.extra,
+      googleMapsConfigured: Boolean(googleMapsApiKey),
+    },
+  };
+};
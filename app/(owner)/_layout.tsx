@@ -0,0 +1,18 @@
+import React from 'react';
+import { Stack } from 'expo-router';
+import RoleGuard from '../../src/components/RoleGuard';
+import { Role } from '../../src/api/types';
+
+// Vehicle owner routes. The group keeps their URLs unchanged (/vehicles, /fine-history, ...)
+export default function OwnerLayout() {
+  return (
+    <RoleGuard allowedRoles={[Role.Owner]}>
+      <Stack
+        screenOptions={{
+          headerShown: false,
+          contentStyle: { backgroundColor: 'white' },
+        }}
+      />
+    </RoleGuard>
+  );
+}
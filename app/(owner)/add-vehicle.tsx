@@ -1,6 +1,6 @@
 import React from 'react';
 import { Stack } from 'expo-router';
-import AddVehicleScreen from '../src/screens/AddVehicleScreen';
+import AddVehicleScreen from '../../src/screens/AddVehicleScreen';
 
 export default function AddVehiclePage() {
   return <AddVehicleScreen />;
@@ -0,0 +1,6 @@
+import React from 'react';
+import ClaimVehicleScreen from '../../src/screens/ClaimVehicleScreen';
+
+export default function ClaimVehiclePage() {
+  return <ClaimVehicleScreen />;
+}
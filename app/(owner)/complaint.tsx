@@ -1,5 +1,5 @@
 import React from 'react';
-import ComplaintScreen from '../src/screens/ComplaintScreen';
+import ComplaintScreen from '../../src/screens/ComplaintScreen';
 
 export default function ComplaintPage() {
   return <ComplaintScreen />;
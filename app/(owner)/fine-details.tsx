@@ -1,5 +1,5 @@
 import React from 'react';
-import FineDetailsScreen from '../src/screens/FineDetailsScreen';
+import FineDetailsScreen from '../../src/screens/FineDetailsScreen';
 
 export default function FineDetailsPage() {
   return <FineDetailsScreen />;
@@ -1,6 +1,6 @@
 import React from 'react';
 import { Stack } from 'expo-router';
-import FineHistoryScreen from '../src/screens/FineHistoryScreen';
+import FineHistoryScreen from '../../src/screens/FineHistoryScreen';
 
 export default function FineHistoryPage() {
   return (
@@ -1,6 +1,6 @@
 import React from 'react';
 import { Stack } from 'expo-router';
-import MyComplaintsScreen from '../src/screens/MyComplaintsScreen';
+import MyComplaintsScreen from '../../src/screens/MyComplaintsScreen';
 
 export default function MyComplaintsPage() {
   return (
@@ -2,8 +2,11 @@ import React, { useEffect, useState } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
 import { useRouter } from 'expo-router';
 import { FontAwesome5 } from '@expo/vector-icons';
-import { useSession } from '../src/context/SessionContext';
-import { supabase } from '../src/api/supabase';
+import { useSession } from '../../src/context/SessionContext';
+import { useNotifications } from '../../src/context/NotificationContext';
+import NotificationBadge from '../../src/components/NotificationBadge';
+import { countVehicles } from '../../src/api/repository';
+import { Role } from '../../src/api/types';
 
 interface DashboardStats {
   vehicleCount: number;
@@ -23,11 +26,13 @@ interface MenuOptionProps {
   title: string;
   icon: string;
   onPress: () => void;
+  badgeCount?: number;
 }
 
 export default function OwnerDashboard() {
   const router = useRouter();
-  const { signOut, session } = useSession();
+  const { signOut, session, profile } = useSession();
+  const { unreadCount } = useNotifications();
   const [stats, setStats] = useState<DashboardStats>({
     vehicleCount: 0,
     activeFines: 0,
@@ -48,18 +53,13 @@ export default function OwnerDashboard() {
       setLoading(true);
       
       // Fetch vehicle count
-      const { data: vehicles, error: vehicleError } = await supabase
-        .from('vehicles')
-        .select('id', { count: 'exact' })
-        .eq('owner_id', session.user.id);
-
-      if (vehicleError) throw vehicleError;
+      const vehicleCount = await countVehicles(session.user.id);
 
       // Just placeholder stats for now - these tables don't exist yet
       // Will be implemented when we create these features
 
       setStats({
-        vehicleCount: vehicles?.length || 0,
+        vehicleCount,
         activeFines: 0, // Will be implemented later
         towCount: 0, // Will be implemented later
       });
@@ -84,12 +84,13 @@ export default function OwnerDashboard() {
     </TouchableOpacity>
   );
 
-  const MenuOption: React.FC<MenuOptionProps> = ({ title, icon, onPress }) => (
+  const MenuOption: React.FC<MenuOptionProps> = ({ title, icon, onPress, badgeCount = 0 }) => (
     <TouchableOpacity style={styles.menuOption} onPress={onPress}>
       <View style={styles.menuIconContainer}>
         <FontAwesome5 name={icon} size={18} color="#4F46E5" />
       </View>
       <Text style={styles.menuTitle}>{title}</Text>
+      <NotificationBadge count={badgeCount} style={styles.menuBadge} />
       <FontAwesome5 name="chevron-right" size={14} color="#9CA3AF" />
     </TouchableOpacity>
   );
@@ -99,7 +100,7 @@ export default function OwnerDashboard() {
       <View style={styles.header}>
         <View>
           <Text style={styles.greeting}>Hello,</Text>
-          <Text style={styles.title}>Vehicle Owner</Text>
+          <Text style={styles.title}>{profile?.full_name || 'Vehicle Owner'}</Text>
         </View>
         <TouchableOpacity onPress={signOut} style={styles.logoutButton}>
           <Text style={styles.logoutText}>Logout</Text>
@@ -107,6 +108,18 @@ export default function OwnerDashboard() {
       </View>
 
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {profile?.approval_status === 'pending' && (
+          <TouchableOpacity
+            style={styles.pendingBanner}
+            onPress={() => router.push({ pathname: '/pending-approval' })}
+          >
+            <FontAwesome5 name="user-clock" size={16} color="#92400E" />
+            <Text style={styles.pendingText}>
+              Your {profile?.requested_role === Role.Officer ? 'officer' : 'tow staff'} access request is awaiting approval.
+            </Text>
+          </TouchableOpacity>
+        )}
+
         <View style={styles.statsContainer}>
           <DashboardCard
             title="Vehicles"
@@ -139,6 +152,11 @@ export default function OwnerDashboard() {
             icon="car"
             onPress={navigateToVehicles}
           />
+          <MenuOption
+            title="Vehicle Transfers"
+            icon="exchange-alt"
+            onPress={() => router.push({ pathname: '/vehicle-transfers' })}
+          />
           <MenuOption
             title="Fine History"
             icon="money-bill-wave"
@@ -153,6 +171,12 @@ export default function OwnerDashboard() {
             title="Notifications"
             icon="bell"
             onPress={() => router.push({ pathname: '/notifications' })}
+            badgeCount={unreadCount}
+          />
+          <MenuOption
+            title="My Profile"
+            icon="user-cog"
+            onPress={() => router.push({ pathname: '/profile' })}
           />
           <MenuOption
             title="Submit Complaint"
@@ -212,6 +236,20 @@ const styles = StyleSheet.create({
     flex: 1,
     padding: 16,
   },
+  pendingBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FEF3C7',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  pendingText: {
+    flex: 1,
+    marginLeft: 10,
+    fontSize: 14,
+    color: '#92400E',
+  },
   statsContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -285,4 +323,7 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     flex: 1,
   },
+  menuBadge: {
+    marginRight: 8,
+  },
 }); 
\ No newline at end of file
@@ -0,0 +1,552 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { FontAwesome5 } from '@expo/vector-icons';
+import {
+  getTowWithVehicle,
+  listTowStatusHistory,
+  getImpoundLot,
+  getTowUnpaidFines,
+  getTowRelease,
+  getTowStorageCharges,
+} from '../../src/api/repository';
+import {
+  ImpoundLot,
+  Tow,
+  TowRelease,
+  TowStatus,
+  TowStatusHistoryEntry,
+  TowStorageCharges,
+  TowUnpaidFines,
+  VehicleSummary,
+} from '../../src/api/types';
+import { useSession } from '../../src/context/SessionContext';
+import TowTimeline from '../../src/components/TowTimeline';
+import TowLocationMap from '../../src/components/TowLocationMap';
+import { TOW_STATUS_COLORS, TOW_STATUS_LABELS } from '../../src/utils/tows';
+import { coordinatesOf } from '../../src/utils/location';
+import { format } from 'date-fns';
+
+type TowDetails = Tow & Pick<VehicleSummary, 'license_plate' | 'model' | 'color' | 'registered_name'>;
+
+export default function TowDetailsScreen() {
+  const { id } = useLocalSearchParams();
+  const router = useRouter();
+  const { session } = useSession();
+  const [towDetails, setTowDetails] = useState<TowDetails | null>(null);
+  const [history, setHistory] = useState<TowStatusHistoryEntry[]>([]);
+  const [lot, setLot] = useState<ImpoundLot | null>(null);
+  const [unpaidFines, setUnpaidFines] = useState<TowUnpaidFines | null>(null);
+  const [release, setRelease] = useState<TowRelease | null>(null);
+  const [storage, setStorage] = useState<TowStorageCharges | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchTowDetails();
+  }, [id]);
+
+  const fetchTowDetails = async () => {
+    if (!id || !session?.user) return;
+
+    try {
+      setLoading(true);
+      const { vehicle: vehicleData, ...tow } = await getTowWithVehicle(id as string);
+
+      if (!vehicleData) {
+        throw new Error('Vehicle information not found');
+      }
+
+      // Check if this tow record belongs to the user. Records of a vehicle
+      // the user has since transferred still do.
+      if (tow.owner_id !== session.user.id) {
+        throw new Error('Unauthorized');
+      }
+
+      // Transform data to include vehicle details in the main tow object
+      const towWithVehicleDetails = {
+        ...tow,
+        license_plate: vehicleData.license_plate,
+        model: vehicleData.model,
+        color: vehicleData.color,
+        registered_name: vehicleData.registered_name,
+      };
+
+      const [historyData, lotData, finesData, releaseData, storageData] = await Promise.all([
+        listTowStatusHistory(tow.id),
+        tow.impound_lot_id ? getImpoundLot(tow.impound_lot_id) : Promise.resolve(null),
+        tow.status === 'impounded' ? getTowUnpaidFines(tow.id) : Promise.resolve(null),
+        tow.status === 'released' ? getTowRelease(tow.id) : Promise.resolve(null),
+        tow.impounded_at ? getTowStorageCharges(tow.id) : Promise.resolve(null),
+      ]);
+
+      setTowDetails(towWithVehicleDetails);
+      setHistory(historyData);
+      setLot(lotData);
+      setUnpaidFines(finesData);
+      setRelease(releaseData);
+      setStorage(storageData);
+    } catch (error: any) {
+      console.error('Error fetching tow details:', error.message);
+      
+      if (error.message === 'Unauthorized') {
+        Alert.alert('Error', 'You are not authorized to view this tow record');
+      } else {
+        Alert.alert('Error', 'Failed to load tow details');
+      }
+      
+      router.back();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmitComplaint = () => {
+    if (!towDetails) return;
+    
+    router.push({
+      pathname: '/complaint',
+      params: { 
+        tow_id: towDetails.id,
+        vehicle_id: towDetails.vehicle_id,
+        type: 'tow'
+      }
+    });
+  };
+
+  const handleViewFines = () => {
+    if (!towDetails?.vehicle_id) return;
+    router.push({
+      pathname: '/fine-history',
+      params: { vehicle_id: towDetails.vehicle_id, plate: towDetails.license_plate }
+    });
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#4F46E5" />
+      </View>
+    );
+  }
+
+  if (!towDetails) {
+    return (
+      <View style={styles.errorContainer}>
+        <Text style={styles.errorText}>Tow record not found</Text>
+      </View>
+    );
+  }
+
+  const StatusIndicator = ({ status }: { status: TowStatus }) => (
+    <View style={styles.statusContainer}>
+      <View style={[styles.statusDot, { backgroundColor: TOW_STATUS_COLORS[status] }]} />
+      <Text style={styles.statusText}>{TOW_STATUS_LABELS[status]}</Text>
+    </View>
+  );
+
+  const towCoordinates = coordinatesOf(towDetails);
+  const lotCoordinates = coordinatesOf(lot);
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'Tow Details',
+          headerShown: true,
+          headerStyle: {
+            backgroundColor: '#F7F9FC',
+          },
+          headerTitleStyle: {
+            fontWeight: 'bold',
+          },
+          headerShadowVisible: false,
+        }}
+      />
+      <ScrollView style={styles.container}>
+        <View style={styles.header}>
+          <FontAwesome5 name="truck-pickup" size={24} color="#4F46E5" style={styles.headerIcon} />
+          <Text style={styles.headerTitle}>Tow Report</Text>
+          <StatusIndicator status={towDetails.status} />
+        </View>
+
+        <View style={styles.card}>
+          <View style={styles.sectionHeader}>
+            <FontAwesome5 name="car" size={16} color="#4F46E5" />
+            <Text style={styles.sectionTitle}>Vehicle Information</Text>
+          </View>
+          
+          <View style={styles.dataRow}>
+            <Text style={styles.dataLabel}>License Plate:</Text>
+            <Text style={styles.dataValue}>{towDetails.license_plate}</Text>
+          </View>
+          
+          <View style={styles.dataRow}>
+            <Text style={styles.dataLabel}>Model:</Text>
+            <Text style={styles.dataValue}>{towDetails.model}</Text>
+          </View>
+          
+          <View style={styles.dataRow}>
+            <Text style={styles.dataLabel}>Color:</Text>
+            <View style={styles.colorContainer}>
+              <View
+                style={[
+                  styles.colorDot,
+                  { backgroundColor: towDetails.color === 'white' ? '#F9FAFB' : towDetails.color },
+                ]}
+              />
+              <Text style={styles.dataValue}>
+                {towDetails.color.charAt(0).toUpperCase() + towDetails.color.slice(1)}
+              </Text>
+            </View>
+          </View>
+        </View>
+
+        <View style={styles.card}>
+          <View style={styles.sectionHeader}>
+            <FontAwesome5 name="map-marker-alt" size={16} color="#4F46E5" />
+            <Text style={styles.sectionTitle}>Tow Information</Text>
+          </View>
+          
+          <View style={styles.dataRow}>
+            <Text style={styles.dataLabel}>Location:</Text>
+            <Text style={styles.dataValue}>{towDetails.location}</Text>
+          </View>
+          
+          <View style={styles.dataRow}>
+            <Text style={styles.dataLabel}>Date & Time:</Text>
+            <Text style={styles.dataValue}>
+              {format(new Date(towDetails.tow_date), 'MMM dd, yyyy • h:mm a')}
+            </Text>
+          </View>
+          
+          {towDetails.reason && (
+            <View style={styles.dataRow}>
+              <Text style={styles.dataLabel}>Reason:</Text>
+              <Text style={styles.dataValue}>{towDetails.reason}</Text>
+            </View>
+          )}
+
+          {(towCoordinates || lotCoordinates) && (
+            <View style={styles.mapContainer}>
+              <TowLocationMap
+                towCoordinates={towCoordinates}
+                towAddress={towDetails.location}
+                lotCoordinates={lotCoordinates}
+                lotName={lot?.name}
+              />
+            </View>
+          )}
+        </View>
+
+        {lot && towDetails.status === 'impounded' && (
+          <View style={styles.card}>
+            <View style={styles.sectionHeader}>
+              <FontAwesome5 name="warehouse" size={16} color="#4F46E5" />
+              <Text style={styles.sectionTitle}>Where to Pick Up</Text>
+            </View>
+
+            <View style={styles.dataRow}>
+              <Text style={styles.dataLabel}>Lot:</Text>
+              <Text style={styles.dataValue}>{lot.name}</Text>
+            </View>
+
+            <View style={styles.dataRow}>
+              <Text style={styles.dataLabel}>Address:</Text>
+              <Text style={styles.dataValue}>{lot.address}</Text>
+            </View>
+
+            <View style={styles.dataRow}>
+              <Text style={styles.dataLabel}>Hours:</Text>
+              <Text style={styles.dataValue}>{lot.hours}</Text>
+            </View>
+
+            {towDetails.lot_space && (
+              <View style={styles.dataRow}>
+                <Text style={styles.dataLabel}>Space:</Text>
+                <Text style={styles.dataValue}>{towDetails.lot_space}</Text>
+              </View>
+            )}
+
+            {storage?.daily_rate != null && (
+              <View style={styles.dataRow}>
+                <Text style={styles.dataLabel}>Storage:</Text>
+                <Text style={styles.dataValue}>
+                  ${Number(storage.daily_rate).toFixed(2)} a day, ${Number(storage.accrued).toFixed(2)} for{' '}
+                  {storage.storage_days} day{storage.storage_days === 1 ? '' : 's'} so far
+                </Text>
+              </View>
+            )}
+
+            <Text style={styles.requirementsTitle}>What you need</Text>
+
+            <View style={styles.requirementRow}>
+              <FontAwesome5 name="id-card" size={14} color="#4F46E5" style={styles.requirementIcon} />
+              <Text style={styles.requirementText}>
+                A driver's license, passport or state ID in your account name
+                {towDetails.registered_name ? ` or the registered name (${towDetails.registered_name})` : ''}
+              </Text>
+            </View>
+
+            <View style={styles.requirementRow}>
+              <FontAwesome5
+                name={unpaidFines?.fine_count ? 'money-bill' : 'check-circle'}
+                size={14}
+                color={unpaidFines?.fine_count ? '#F59E0B' : '#10B981'}
+                style={styles.requirementIcon}
+              />
+              <Text style={styles.requirementText}>
+                {unpaidFines?.fine_count
+                  ? `Pay the ${unpaidFines.fine_count === 1 ? 'fine' : `${unpaidFines.fine_count} fines`} for this tow ($${Number(unpaidFines.amount_due).toFixed(2)}) before you go`
+                  : 'The fines for this tow are paid'}
+                {storage?.daily_rate != null ? '. Storage goes up each day until you pick it up.' : ''}
+              </Text>
+            </View>
+
+            {!!unpaidFines?.fine_count && (
+              <TouchableOpacity style={styles.linkButton} onPress={handleViewFines}>
+                <Text style={styles.linkButtonText}>View Fines</Text>
+                <FontAwesome5 name="chevron-right" size={12} color="#4F46E5" />
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
+        {release && (
+          <View style={styles.card}>
+            <View style={styles.sectionHeader}>
+              <FontAwesome5 name="check-circle" size={16} color="#10B981" />
+              <Text style={styles.sectionTitle}>Released</Text>
+            </View>
+
+            <View style={styles.dataRow}>
+              <Text style={styles.dataLabel}>Released To:</Text>
+              <Text style={styles.dataValue}>{release.released_to}</Text>
+            </View>
+
+            <View style={styles.dataRow}>
+              <Text style={styles.dataLabel}>Date & Time:</Text>
+              <Text style={styles.dataValue}>
+                {format(new Date(release.created_at), 'MMM dd, yyyy • h:mm a')}
+              </Text>
+            </View>
+
+            {lot && (
+              <View style={styles.dataRow}>
+                <Text style={styles.dataLabel}>From:</Text>
+                <Text style={styles.dataValue}>{lot.name}</Text>
+              </View>
+            )}
+
+            {!!storage?.storage_days && (
+              <View style={styles.dataRow}>
+                <Text style={styles.dataLabel}>Storage:</Text>
+                <Text style={styles.dataValue}>
+                  ${Number(storage.accrued).toFixed(2)} for {storage.storage_days} day
+                  {storage.storage_days === 1 ? '' : 's'}
+                </Text>
+              </View>
+            )}
+          </View>
+        )}
+
+        <View style={styles.card}>
+          <View style={styles.sectionHeader}>
+            <FontAwesome5 name="stream" size={16} color="#4F46E5" />
+            <Text style={styles.sectionTitle}>Timeline</Text>
+          </View>
+          <TowTimeline history={history} status={towDetails.status} />
+        </View>
+
+        <View style={styles.actionCard}>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={handleSubmitComplaint}
+          >
+            <FontAwesome5 name="comment-alt" size={16} color="white" style={styles.actionIcon} />
+            <Text style={styles.actionText}>Submit Complaint</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F7F9FC',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F7F9FC',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F7F9FC',
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#EF4444',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    marginBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  headerIcon: {
+    marginRight: 12,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    flex: 1,
+  },
+  statusContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F3F4F6',
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+  },
+  statusDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 6,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: '#374151',
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    margin: 12,
+    marginTop: 0,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  mapContainer: {
+    marginTop: 12,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+    marginLeft: 8,
+  },
+  dataRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  dataLabel: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  dataValue: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#111827',
+    maxWidth: '60%',
+    textAlign: 'right',
+  },
+  requirementsTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  requirementRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 6,
+  },
+  requirementIcon: {
+    width: 20,
+    marginTop: 2,
+    marginRight: 8,
+  },
+  requirementText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+  },
+  linkButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    marginTop: 8,
+  },
+  linkButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4F46E5',
+    marginRight: 6,
+  },
+  colorContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  colorDot: {
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+    marginRight: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  actionCard: {
+    margin: 12,
+    marginTop: 4,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#4F46E5',
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  actionIcon: {
+    marginRight: 8,
+  },
+  actionText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+}); 
\ No newline at end of file
@@ -1,6 +1,6 @@
 import React from 'react';
 import { Stack } from 'expo-router';
-import TowHistoryScreen from '../src/screens/TowHistoryScreen';
+import TowHistoryScreen from '../../src/screens/TowHistoryScreen';
 
 export default function TowHistoryPage() {
   return (
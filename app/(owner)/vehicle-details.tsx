@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -10,15 +10,19 @@ import {
 } from 'react-native';
 import { Stack, useRouter, useLocalSearchParams } from 'expo-router';
 import { FontAwesome5 } from '@expo/vector-icons';
-import { supabase } from '../src/api/supabase';
-import { useSession } from '../src/context/SessionContext';
-
-interface Vehicle {
-  id: string;
-  license_plate: string;
-  model: string;
-  color: string;
-}
+import {
+  getOwnerVehicle,
+  archiveVehicle,
+  restoreVehicle,
+  listVehiclePhotos,
+  uploadVehiclePhoto,
+  deleteVehiclePhoto,
+} from '../../src/api/repository';
+import { Vehicle, VehiclePhotoWithUrl } from '../../src/api/types';
+import { useSession } from '../../src/context/SessionContext';
+import VehiclePhotos from '../../src/components/VehiclePhotos';
+import { PickedImage } from '../../src/utils/imagePicker';
+import { BODY_TYPE_LABELS } from '../../src/utils/vehicles';
 
 interface ActionButtonProps {
   icon: string;
@@ -33,27 +37,17 @@ export default function VehicleDetailsScreen() {
   const { session } = useSession();
   const [vehicle, setVehicle] = useState<Vehicle | null>(null);
   const [loading, setLoading] = useState(true);
+  const [photos, setPhotos] = useState<VehiclePhotoWithUrl[]>([]);
+  const [uploadingPhoto, setUploadingPhoto] = useState(false);
 
-  useEffect(() => {
-    fetchVehicleDetails();
-  }, [id]);
+  const userId = session?.user?.id;
 
-  const fetchVehicleDetails = async () => {
-    if (!id || !session?.user) return;
+  const fetchVehicleDetails = useCallback(async () => {
+    if (!id || !userId) return;
 
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('vehicles')
-        .select('*')
-        .eq('id', id)
-        .eq('owner_id', session.user.id)
-        .single();
-
-      if (error) {
-        throw error;
-      }
-
+      const data = await getOwnerVehicle(id as string, userId);
       setVehicle(data);
     } catch (error: any) {
       console.error('Error fetching vehicle details:', error);
@@ -62,46 +56,109 @@ export default function VehicleDetailsScreen() {
     } finally {
       setLoading(false);
     }
+  }, [id, userId, router]);
+
+  const fetchPhotos = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      setPhotos(await listVehiclePhotos(id as string));
+    } catch (error: any) {
+      console.error('Error fetching vehicle photos:', error.message);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchVehicleDetails();
+    fetchPhotos();
+  }, [fetchVehicleDetails, fetchPhotos]);
+
+  const handleAddPhoto = async (image: PickedImage) => {
+    if (!vehicle?.id || !session?.user) return;
+
+    try {
+      setUploadingPhoto(true);
+      await uploadVehiclePhoto(vehicle.id, session.user.id, image.uri, image.mimeType);
+      await fetchPhotos();
+    } catch (error: any) {
+      console.error('Error uploading vehicle photo:', error.message);
+      Alert.alert('Error', 'Failed to upload photo');
+    } finally {
+      setUploadingPhoto(false);
+    }
   };
 
-  const handleDeleteVehicle = () => {
+  const handleRemovePhoto = (photoId: string) => {
+    const photo = photos.find(item => item.id === photoId);
+    if (!photo) return;
+
+    Alert.alert('Remove Photo', 'Remove this photo of your vehicle?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteVehiclePhoto(photo);
+            setPhotos(current => current.filter(item => item.id !== photoId));
+          } catch (error: any) {
+            console.error('Error removing vehicle photo:', error.message);
+            Alert.alert('Error', 'Failed to remove photo');
+          }
+        },
+      },
+    ]);
+  };
+
+  // Vehicles are archived rather than deleted, so their tows and fines keep
+  // pointing at them
+  const handleRemoveVehicle = () => {
     Alert.alert(
-      'Delete Vehicle',
-      'Are you sure you want to delete this vehicle? This action cannot be undone.',
+      'Remove Vehicle',
+      'Remove this vehicle from your list? Its tow and fine history is kept, and adding the plate again restores it. If you sold it, transfer it to the new owner instead.',
       [
         {
           text: 'Cancel',
           style: 'cancel',
         },
         {
-          text: 'Delete',
+          text: 'Remove',
           style: 'destructive',
-          onPress: confirmDeleteVehicle,
+          onPress: confirmRemoveVehicle,
         },
       ]
     );
   };
 
-  const confirmDeleteVehicle = async () => {
-    if (!vehicle?.id || !session?.user) return;
+  const confirmRemoveVehicle = async () => {
+    if (!vehicle?.id) return;
 
     try {
       setLoading(true);
-      const { error } = await supabase
-        .from('vehicles')
-        .delete()
-        .eq('id', vehicle.id)
-        .eq('owner_id', session.user.id);
-
-      if (error) {
-        throw error;
-      }
+      await archiveVehicle(vehicle.id);
 
-      Alert.alert('Success', 'Vehicle deleted successfully');
+      Alert.alert('Success', 'Vehicle removed successfully');
       router.back();
     } catch (error: any) {
-      console.error('Error deleting vehicle:', error);
-      Alert.alert('Error', 'Failed to delete vehicle');
+      console.error('Error removing vehicle:', error);
+      // Unpaid fines, active tows and pending transfers are explained by the
+      // database
+      Alert.alert('Error', error.code === 'P0001' ? error.message : 'Failed to remove vehicle');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestoreVehicle = async () => {
+    if (!vehicle?.id) return;
+
+    try {
+      setLoading(true);
+      await restoreVehicle(vehicle.id);
+      await fetchVehicleDetails();
+    } catch (error: any) {
+      console.error('Error restoring vehicle:', error);
+      Alert.alert('Error', 'Failed to restore vehicle');
     } finally {
       setLoading(false);
     }
@@ -123,6 +180,14 @@ export default function VehicleDetailsScreen() {
     });
   };
 
+  const handleTransferVehicle = () => {
+    if (!vehicle) return;
+    router.push({
+      pathname: '/vehicle-transfers',
+      params: { vehicle_id: vehicle.id, plate: vehicle.license_plate }
+    });
+  };
+
   if (loading) {
     return (
       <View style={styles.loadingContainer}>
@@ -168,6 +233,12 @@ export default function VehicleDetailsScreen() {
         <View style={styles.vehicleInfoCard}>
           <View style={styles.plateContainer}>
             <Text style={styles.plateText}>{vehicle.license_plate}</Text>
+            {vehicle.plate_jurisdiction && (
+              <Text style={styles.jurisdictionText}>Issued in {vehicle.plate_jurisdiction}</Text>
+            )}
+            {vehicle.archived_at && (
+              <Text style={styles.archivedText}>Removed from your vehicles</Text>
+            )}
           </View>
           
           <View style={styles.infoRow}>
@@ -175,6 +246,25 @@ export default function VehicleDetailsScreen() {
             <Text style={styles.infoValue}>{vehicle.model}</Text>
           </View>
           
+          <View style={styles.infoRow}>
+            <Text style={styles.infoLabel}>Type:</Text>
+            <Text style={styles.infoValue}>{BODY_TYPE_LABELS[vehicle.body_type]}</Text>
+          </View>
+          
+          {vehicle.year && (
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>Year:</Text>
+              <Text style={styles.infoValue}>{vehicle.year}</Text>
+            </View>
+          )}
+          
+          {vehicle.vin && (
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>VIN:</Text>
+              <Text style={styles.infoValue}>{vehicle.vin}</Text>
+            </View>
+          )}
+          
           <View style={styles.infoRow}>
             <Text style={styles.infoLabel}>Color:</Text>
             <View style={styles.colorInfo}>
@@ -191,6 +281,16 @@ export default function VehicleDetailsScreen() {
           </View>
         </View>
         
+        <View style={styles.actionsContainer}>
+          <Text style={styles.sectionTitle}>Photos</Text>
+          <VehiclePhotos
+            photos={photos.map(photo => ({ key: photo.id, uri: photo.url }))}
+            onAdd={vehicle.archived_at ? undefined : handleAddPhoto}
+            onRemove={vehicle.archived_at ? undefined : handleRemovePhoto}
+            uploading={uploadingPhoto}
+          />
+        </View>
+        
         <View style={styles.actionsContainer}>
           <Text style={styles.sectionTitle}>Actions</Text>
           
@@ -207,12 +307,28 @@ export default function VehicleDetailsScreen() {
               onPress={handleViewFines} 
             />
             
-            <ActionButton 
-              icon="trash-alt" 
-              label="Delete Vehicle" 
-              onPress={handleDeleteVehicle}
-              color="#EF4444" 
-            />
+            {vehicle.archived_at ? (
+              <ActionButton 
+                icon="undo" 
+                label="Restore Vehicle" 
+                onPress={handleRestoreVehicle} 
+              />
+            ) : (
+              <>
+                <ActionButton 
+                  icon="exchange-alt" 
+                  label="Transfer Ownership" 
+                  onPress={handleTransferVehicle} 
+                />
+                
+                <ActionButton 
+                  icon="trash-alt" 
+                  label="Remove Vehicle" 
+                  onPress={handleRemoveVehicle}
+                  color="#EF4444" 
+                />
+              </>
+            )}
           </View>
         </View>
       </ScrollView>
@@ -262,6 +378,17 @@ const styles = StyleSheet.create({
     letterSpacing: 2,
     color: '#111827',
   },
+  jurisdictionText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#4B5563',
+    marginTop: 4,
+  },
+  archivedText: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 4,
+  },
   infoRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
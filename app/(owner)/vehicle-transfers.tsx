@@ -0,0 +1,6 @@
+import React from 'react';
+import VehicleTransfersScreen from '../../src/screens/VehicleTransfersScreen';
+
+export default function VehicleTransfersPage() {
+  return <VehicleTransfersScreen />;
+}
@@ -1,6 +1,6 @@
 import React from 'react';
 import { Stack } from 'expo-router';
-import VehicleListScreen from '../src/screens/VehicleListScreen';
+import VehicleListScreen from '../../src/screens/VehicleListScreen';
 
 export default function VehiclesScreen() {
   return (
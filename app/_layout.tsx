@@ -1,6 +1,11 @@
 import React, { useEffect } from 'react';
 import { Stack } from "expo-router";
 import { SessionProvider } from '../src/context/SessionContext';
+import { NotificationProvider } from '../src/context/NotificationContext';
+import { AppLockProvider } from '../src/context/AppLockContext';
+import NotificationBanner from '../src/components/NotificationBanner';
+import ConfigErrorScreen from '../src/screens/ConfigErrorScreen';
+import { isConfigured } from '../src/api/config';
 import * as SplashScreen from 'expo-splash-screen';
 
 // Keep the splash screen visible while we initialize the app
@@ -16,14 +21,24 @@ export default function RootLayout() {
     hideAsync();
   }, []);
 
+  // Without a Supabase URL and key nothing else can work
+  if (!isConfigured) {
+    return <ConfigErrorScreen />;
+  }
+
   return (
     <SessionProvider>
-      <Stack
-        screenOptions={{
-          headerShown: false,
-          contentStyle: { backgroundColor: 'white' }
-        }}
-      />
+      <NotificationProvider>
+        <AppLockProvider>
+          <Stack
+            screenOptions={{
+              headerShown: false,
+              contentStyle: { backgroundColor: 'white' }
+            }}
+          />
+          <NotificationBanner />
+        </AppLockProvider>
+      </NotificationProvider>
     </SessionProvider>
   );
 }
@@ -0,0 +1,18 @@
+import React from 'react';
+import { Stack } from 'expo-router';
+import RoleGuard from '../../src/components/RoleGuard';
+import { Role } from '../../src/api/types';
+
+// User management is limited to admins
+export default function AdminLayout() {
+  return (
+    <RoleGuard allowedRoles={[Role.Admin]}>
+      <Stack
+        screenOptions={{
+          headerShown: false,
+          contentStyle: { backgroundColor: 'white' },
+        }}
+      />
+    </RoleGuard>
+  );
+}
@@ -0,0 +1,6 @@
+import React from 'react';
+import AuditLogScreen from '../../src/screens/AuditLogScreen';
+
+export default function AuditLogPage() {
+  return <AuditLogScreen />;
+}
@@ -0,0 +1,16 @@
+import React from 'react';
+import { Stack } from 'expo-router';
+import AdminDashboardScreen from '../../src/screens/AdminDashboardScreen';
+
+export default function AdminDashboardPage() {
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          headerShown: false, // Hide header as our component has its own header
+        }}
+      />
+      <AdminDashboardScreen />
+    </>
+  );
+}
@@ -0,0 +1,6 @@
+import React from 'react';
+import AdminUserDetailsScreen from '../../src/screens/AdminUserDetailsScreen';
+
+export default function AdminUserDetailsPage() {
+  return <AdminUserDetailsScreen />;
+}
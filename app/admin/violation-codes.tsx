@@ -0,0 +1,6 @@
+import React from 'react';
+import ViolationCodesScreen from '../../src/screens/ViolationCodesScreen';
+
+export default function ViolationCodesPage() {
+  return <ViolationCodesScreen />;
+}
@@ -0,0 +1,5 @@
+import ForgotPasswordScreen from "../src/screens/ForgotPasswordScreen";
+
+export default function ForgotPassword() {
+  return <ForgotPasswordScreen />;
+}
@@ -1,28 +1,49 @@
 import React, { useState } from 'react';
 import { View, Text, StyleSheet, TextInput, TouchableOpacity, KeyboardAvoidingView, Platform, ActivityIndicator, Alert } from 'react-native';
-import { Link, router } from 'expo-router';
+import { Link } from 'expo-router';
 import { supabase } from '../src/api/supabase';
+import {
+  isEmailNotConfirmedError,
+  isNoAccountError,
+  resendVerificationEmail,
+  sendMagicLink,
+} from '../src/api/authLinks';
+import { isValidPhone, sendLoginCode, verifyLoginCode } from '../src/api/phoneAuth';
+import { useSession } from '../src/context/SessionContext';
 
+type LoginMethod = 'password' | 'link' | 'phone';
+
+// Signing in only starts the session. SessionContext loads the profile and
+// moves the user on to their dashboard, or reports why it couldn't.
 export default function LoginScreen() {
+  const { session, profileLoading, profileError, refreshProfile, signOut } = useSession();
+  const [method, setMethod] = useState<LoginMethod>('password');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [phone, setPhone] = useState('');
+  const [code, setCode] = useState('');
+  const [codeSent, setCodeSent] = useState(false);
   const [loading, setLoading] = useState(false);
   const [emailError, setEmailError] = useState('');
   const [passwordError, setPasswordError] = useState('');
+  const [phoneError, setPhoneError] = useState('');
 
-  const validateForm = () => {
-    let isValid = true;
-    
-    // Validate email
+  const validateEmail = () => {
     if (!email.trim()) {
       setEmailError('Email is required');
-      isValid = false;
+      return false;
     } else if (!/\S+@\S+\.\S+/.test(email)) {
       setEmailError('Email is invalid');
-      isValid = false;
-    } else {
-      setEmailError('');
+      return false;
     }
+
+    setEmailError('');
+    return true;
+  };
+
+  const validateForm = () => {
+    // Validate email
+    let isValid = validateEmail();
     
     // Validate password
     if (!password) {
@@ -38,6 +59,16 @@ export default function LoginScreen() {
     return isValid;
   };
 
+  const handleResendVerification = async () => {
+    try {
+      await resendVerificationEmail(email);
+      Alert.alert('Email Sent', 'We sent a new verification link. Please check your inbox.');
+    } catch (error: any) {
+      console.error('Error resending verification:', error.message);
+      Alert.alert('Error', error.message || 'Failed to resend the verification email');
+    }
+  };
+
   const handleLogin = async () => {
     if (!validateForm()) return;
     
@@ -50,60 +81,256 @@ export default function LoginScreen() {
         password,
       });
       
-      console.log('Login response:', { data, error });
-      
       if (error) {
         console.error('Login error:', error);
         throw error;
       }
       
-      if (data?.user) {
-        console.log('Login successful, user:', data.user);
-        
-        // Fetch user role directly here to ensure it's set
-        const { data: profileData, error: profileError } = await supabase
-          .from('profiles')
-          .select('role')
-          .eq('id', data.user.id)
-          .single();
-          
-        if (profileError) {
-          console.error('Error fetching profile:', profileError);
-          Alert.alert('Profile Error', 'Could not fetch user profile');
-        } else {
-          console.log('User role:', profileData?.role);
-          
-          // Manually navigate based on role
-          const role = profileData?.role;
-          if (role) {
-            switch (role.toLowerCase()) {
-              case 'owner':
-                router.replace('/owner');
-                break;
-              case 'staff':
-                router.replace('/staff');
-                break;
-              case 'officer':
-                router.replace('/officer');
-                break;
-              default:
-                Alert.alert('Role Error', `Unknown role: ${role}`);
-            }
-          } else {
-            Alert.alert('Role Error', 'No role assigned to user');
-          }
-        }
-      } else {
+      if (!data?.user) {
         Alert.alert('Login Error', 'No user data returned');
       }
     } catch (error: any) {
       console.error('Caught login error:', error);
+
+      if (isEmailNotConfirmedError(error)) {
+        Alert.alert(
+          'Email Not Verified',
+          'Please confirm your email address using the link we sent you before logging in.',
+          [
+            { text: 'OK', style: 'cancel' },
+            { text: 'Resend Email', onPress: handleResendVerification },
+          ]
+        );
+        return;
+      }
+
       Alert.alert('Login Error', error.message || 'Failed to sign in');
     } finally {
       setLoading(false);
     }
   };
 
+  const handleSendLink = async () => {
+    if (!validateEmail()) return;
+
+    setLoading(true);
+    try {
+      await sendMagicLink(email);
+      Alert.alert('Check Your Email', `We sent a login link to ${email.trim()}. Open it on this device to log in.`);
+    } catch (error: any) {
+      console.error('Error sending login link:', error);
+      Alert.alert(
+        'Login Error',
+        isNoAccountError(error) ? 'No account found for this email.' : error.message || 'Failed to send the login link'
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSendCode = async () => {
+    if (!isValidPhone(phone)) {
+      setPhoneError('Enter your phone number with country code, e.g. +15555550102');
+      return;
+    }
+    setPhoneError('');
+
+    setLoading(true);
+    try {
+      await sendLoginCode(phone);
+      setCodeSent(true);
+    } catch (error: any) {
+      console.error('Error sending login code:', error);
+      Alert.alert(
+        'Login Error',
+        isNoAccountError(error)
+          ? 'No account uses this phone number. Log in with your email and link your number on your profile first.'
+          : error.message || 'Failed to send the code'
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleVerifyCode = async () => {
+    if (!/^\d{6}$/.test(code.trim())) {
+      setPhoneError('Enter the 6-digit code from the SMS');
+      return;
+    }
+    setPhoneError('');
+
+    setLoading(true);
+    try {
+      const user = await verifyLoginCode(phone, code);
+      if (!user) {
+        Alert.alert('Login Error', 'No user data returned');
+      }
+    } catch (error: any) {
+      console.error('Error verifying login code:', error);
+      Alert.alert('Login Error', error.message || 'The code is invalid or has expired');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // While the profile loads the forms stay disabled; the redirect follows
+  const busy = loading || profileLoading;
+
+  const changeMethod = (nextMethod: LoginMethod) => {
+    setMethod(nextMethod);
+    setEmailError('');
+    setPasswordError('');
+    setPhoneError('');
+  };
+
+  // Login method selection component
+  const MethodButton = ({ title, value }: { title: string, value: LoginMethod }) => (
+    <TouchableOpacity
+      style={[styles.methodButton, method === value && styles.methodButtonSelected]}
+      onPress={() => changeMethod(value)}
+    >
+      <Text style={[styles.methodButtonText, method === value && styles.methodButtonTextSelected]}>
+        {title}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderPasswordForm = () => (
+    <>
+      <View style={styles.inputContainer}>
+        <Text style={styles.label}>Email</Text>
+        <TextInput
+          value={email}
+          onChangeText={setEmail}
+          placeholder="Enter your email"
+          keyboardType="email-address"
+          autoCapitalize="none"
+          style={styles.input}
+        />
+        {emailError ? <Text style={styles.errorText}>{emailError}</Text> : null}
+      </View>
+      
+      <View style={styles.inputContainer}>
+        <Text style={styles.label}>Password</Text>
+        <TextInput
+          value={password}
+          onChangeText={setPassword}
+          placeholder="Enter your password"
+          secureTextEntry
+          style={styles.input}
+        />
+        {passwordError ? <Text style={styles.errorText}>{passwordError}</Text> : null}
+      </View>
+
+      <Link href={{ pathname: '/forgot-password', params: { email } }} asChild>
+        <TouchableOpacity style={styles.forgotPassword}>
+          <Text style={styles.linkText}>Forgot password?</Text>
+        </TouchableOpacity>
+      </Link>
+      
+      <TouchableOpacity
+        style={styles.button}
+        onPress={handleLogin}
+        disabled={busy}
+      >
+        {busy ? (
+          <ActivityIndicator color="#fff" />
+        ) : (
+          <Text style={styles.buttonText}>Log In</Text>
+        )}
+      </TouchableOpacity>
+    </>
+  );
+
+  const renderLinkForm = () => (
+    <>
+      <View style={styles.inputContainer}>
+        <Text style={styles.label}>Email</Text>
+        <TextInput
+          value={email}
+          onChangeText={setEmail}
+          placeholder="Enter your email"
+          keyboardType="email-address"
+          autoCapitalize="none"
+          style={styles.input}
+        />
+        {emailError ? <Text style={styles.errorText}>{emailError}</Text> : null}
+      </View>
+
+      <Text style={styles.hintText}>
+        We'll email you a link that logs you in without a password.
+      </Text>
+
+      <TouchableOpacity
+        style={styles.button}
+        onPress={handleSendLink}
+        disabled={busy}
+      >
+        {busy ? (
+          <ActivityIndicator color="#fff" />
+        ) : (
+          <Text style={styles.buttonText}>Email Me a Login Link</Text>
+        )}
+      </TouchableOpacity>
+    </>
+  );
+
+  const renderPhoneForm = () => (
+    <>
+      <View style={styles.inputContainer}>
+        <Text style={styles.label}>Phone Number</Text>
+        <TextInput
+          value={phone}
+          onChangeText={setPhone}
+          placeholder="+1 555 555 0102"
+          keyboardType="phone-pad"
+          editable={!codeSent}
+          style={[styles.input, codeSent && styles.inputDisabled]}
+        />
+      </View>
+
+      {codeSent && (
+        <View style={styles.inputContainer}>
+          <Text style={styles.label}>Code</Text>
+          <TextInput
+            value={code}
+            onChangeText={setCode}
+            placeholder="6-digit code"
+            keyboardType="number-pad"
+            maxLength={6}
+            style={styles.input}
+          />
+        </View>
+      )}
+
+      {phoneError ? <Text style={[styles.errorText, styles.formError]}>{phoneError}</Text> : null}
+
+      <TouchableOpacity
+        style={styles.button}
+        onPress={codeSent ? handleVerifyCode : handleSendCode}
+        disabled={busy}
+      >
+        {busy ? (
+          <ActivityIndicator color="#fff" />
+        ) : (
+          <Text style={styles.buttonText}>{codeSent ? 'Verify & Log In' : 'Send Code'}</Text>
+        )}
+      </TouchableOpacity>
+
+      {codeSent && (
+        <TouchableOpacity
+          style={styles.secondaryAction}
+          onPress={() => {
+            setCodeSent(false);
+            setCode('');
+          }}
+        >
+          <Text style={styles.linkText}>Use a different number</Text>
+        </TouchableOpacity>
+      )}
+    </>
+  );
+
   return (
     <KeyboardAvoidingView 
       behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
@@ -112,43 +339,30 @@ export default function LoginScreen() {
       <View style={styles.formContainer}>
         <Text style={styles.logoText}>TOWIFY</Text>
         <Text style={styles.subtitle}>Vehicle Towing Management</Text>
-        
-        <View style={styles.inputContainer}>
-          <Text style={styles.label}>Email</Text>
-          <TextInput
-            value={email}
-            onChangeText={setEmail}
-            placeholder="Enter your email"
-            keyboardType="email-address"
-            autoCapitalize="none"
-            style={styles.input}
-          />
-          {emailError ? <Text style={styles.errorText}>{emailError}</Text> : null}
-        </View>
-        
-        <View style={styles.inputContainer}>
-          <Text style={styles.label}>Password</Text>
-          <TextInput
-            value={password}
-            onChangeText={setPassword}
-            placeholder="Enter your password"
-            secureTextEntry
-            style={styles.input}
-          />
-          {passwordError ? <Text style={styles.errorText}>{passwordError}</Text> : null}
+
+        <View style={styles.methodContainer}>
+          <MethodButton title="Password" value="password" />
+          <MethodButton title="Email Link" value="link" />
+          <MethodButton title="Phone Code" value="phone" />
         </View>
         
-        <TouchableOpacity
-          style={styles.button}
-          onPress={handleLogin}
-          disabled={loading}
-        >
-          {loading ? (
-            <ActivityIndicator color="#fff" />
-          ) : (
-            <Text style={styles.buttonText}>Log In</Text>
-          )}
-        </TouchableOpacity>
+        {session && profileError ? (
+          <View style={styles.profileErrorBox}>
+            <Text style={styles.profileErrorText}>{profileError}</Text>
+            <View style={styles.profileErrorActions}>
+              <TouchableOpacity onPress={refreshProfile}>
+                <Text style={styles.linkText}>Try Again</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={signOut}>
+                <Text style={styles.linkText}>Log Out</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ) : null}
+
+        {method === 'password' && renderPasswordForm()}
+        {method === 'link' && renderLinkForm()}
+        {method === 'phone' && renderPhoneForm()}
         
         <View style={styles.footer}>
           <Text style={styles.footerText}>Don't have an account? </Text>
@@ -210,6 +424,72 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginTop: 4,
   },
+  methodContainer: {
+    flexDirection: 'row',
+    width: '100%',
+    marginBottom: 24,
+  },
+  methodButton: {
+    flex: 1,
+    padding: 10,
+    marginHorizontal: 4,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+    alignItems: 'center',
+  },
+  methodButtonSelected: {
+    backgroundColor: '#4F46E5',
+    borderColor: '#4F46E5',
+  },
+  methodButtonText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  methodButtonTextSelected: {
+    color: '#FFFFFF',
+  },
+  inputDisabled: {
+    backgroundColor: '#F3F4F6',
+    color: '#6B7280',
+  },
+  hintText: {
+    alignSelf: 'flex-start',
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  formError: {
+    alignSelf: 'flex-start',
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  secondaryAction: {
+    marginTop: 16,
+  },
+  profileErrorBox: {
+    width: '100%',
+    backgroundColor: '#FEE2E2',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 20,
+  },
+  profileErrorText: {
+    fontSize: 14,
+    color: '#B91C1C',
+    marginBottom: 8,
+  },
+  profileErrorActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  forgotPassword: {
+    alignSelf: 'flex-end',
+    marginTop: -8,
+    marginBottom: 12,
+  },
   button: {
     backgroundColor: '#4F46E5',
     width: '100%',
@@ -0,0 +1,5 @@
+import MagicLinkScreen from "../src/screens/MagicLinkScreen";
+
+export default function MagicLink() {
+  return <MagicLinkScreen />;
+}
@@ -1,32 +1,24 @@
 import React from 'react';
-import { View, Text, StyleSheet } from 'react-native';
 import { Stack } from 'expo-router';
+import NotificationsScreen from '../src/screens/NotificationsScreen';
 
-export default function NotificationsScreen() {
+export default function NotificationsPage() {
   return (
     <>
       <Stack.Screen
         options={{
           title: 'Notifications',
           headerShown: true,
+          headerStyle: {
+            backgroundColor: '#F7F9FC',
+          },
+          headerTitleStyle: {
+            fontWeight: 'bold',
+          },
+          headerShadowVisible: false,
         }}
       />
-      <View style={styles.container}>
-        <Text style={styles.text}>Notifications - Coming Soon</Text>
-      </View>
+      <NotificationsScreen />
     </>
   );
 }
-
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-    backgroundColor: '#F7F9FC',
-  },
-  text: {
-    fontSize: 18,
-    color: '#4B5563',
-  },
-}); 
\ No newline at end of file
@@ -0,0 +1,18 @@
+import React from 'react';
+import { Stack } from 'expo-router';
+import RoleGuard from '../../src/components/RoleGuard';
+import { Role } from '../../src/api/types';
+
+// Only officers issue fines from here; staff use /staff/issue-fine
+export default function OfficerLayout() {
+  return (
+    <RoleGuard allowedRoles={[Role.Officer]}>
+      <Stack
+        screenOptions={{
+          headerShown: false,
+          contentStyle: { backgroundColor: 'white' },
+        }}
+      />
+    </RoleGuard>
+  );
+}
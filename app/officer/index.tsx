@@ -1,5 +1,5 @@
 import { Stack } from 'expo-router';
-import OfficerDashboardScreen from '../src/screens/OfficerDashboardScreen';
+import OfficerDashboardScreen from '../../src/screens/OfficerDashboardScreen';
 
 export default function OfficerDashboard() {
   return (
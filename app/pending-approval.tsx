@@ -0,0 +1,5 @@
+import PendingApprovalScreen from "../src/screens/PendingApprovalScreen";
+
+export default function PendingApproval() {
+  return <PendingApprovalScreen />;
+}
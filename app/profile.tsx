@@ -0,0 +1,24 @@
+import React from 'react';
+import { Stack } from 'expo-router';
+import ProfileScreen from '../src/screens/ProfileScreen';
+
+export default function ProfilePage() {
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'My Profile',
+          headerShown: true,
+          headerStyle: {
+            backgroundColor: '#F7F9FC',
+          },
+          headerTitleStyle: {
+            fontWeight: 'bold',
+          },
+          headerShadowVisible: false,
+        }}
+      />
+      <ProfileScreen />
+    </>
+  );
+}
@@ -0,0 +1,5 @@
+import ResetPasswordScreen from "../src/screens/ResetPasswordScreen";
+
+export default function ResetPassword() {
+  return <ResetPasswordScreen />;
+}
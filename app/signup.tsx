@@ -2,19 +2,29 @@ import React, { useState } from 'react';
 import { View, Text, StyleSheet, TextInput, TouchableOpacity, KeyboardAvoidingView, Platform, ActivityIndicator, Alert, ScrollView } from 'react-native';
 import { Link, router } from 'expo-router';
 import { supabase } from '../src/api/supabase';
+import { checkInviteCode } from '../src/api/repository';
+import { getAuthRedirectUrl, resendVerificationEmail } from '../src/api/authLinks';
+import { InviteDetails, UserRole } from '../src/api/types';
+
+type AccountType = 'owner' | 'staff';
 
 export default function SignupScreen() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [fullName, setFullName] = useState('');
-  const [role, setRole] = useState('owner'); // Default role
+  // Everyone signs up as an owner. Staff and officer access comes from an
+  // invite code, or from a role request that an admin has to approve.
+  const [accountType, setAccountType] = useState<AccountType>('owner');
+  const [inviteCode, setInviteCode] = useState('');
+  const [requestedRole, setRequestedRole] = useState<UserRole>('staff');
   const [loading, setLoading] = useState(false);
   const [errors, setErrors] = useState({
     email: '',
     password: '',
     confirmPassword: '',
     fullName: '',
+    inviteCode: '',
   });
 
   const validateForm = () => {
@@ -23,6 +33,7 @@ export default function SignupScreen() {
       password: '',
       confirmPassword: '',
       fullName: '',
+      inviteCode: '',
     };
     let isValid = true;
     
@@ -60,21 +71,51 @@ export default function SignupScreen() {
     return isValid;
   };
 
+  const handleResendVerification = async () => {
+    try {
+      await resendVerificationEmail(email);
+      Alert.alert('Email Sent', 'We sent a new verification link. Please check your inbox.');
+    } catch (error: any) {
+      console.error('Error resending verification:', error.message);
+      Alert.alert('Error', error.message || 'Failed to resend the verification email');
+    } finally {
+      router.replace('/login');
+    }
+  };
+
   const handleSignup = async () => {
     if (!validateForm()) return;
     
     setLoading(true);
-    console.log('Attempting to sign up with:', { email, role });
+    console.log('Attempting to sign up with:', { email, accountType });
     
     try {
-      // Register user with Supabase Auth
+      const code = accountType === 'staff' ? inviteCode.trim().toUpperCase() : '';
+      let invite: InviteDetails | null = null;
+
+      // Check the code first so a typo doesn't silently become a pending request
+      if (code) {
+        invite = await checkInviteCode(code);
+        if (!invite) {
+          setErrors((prev) => ({ ...prev, inviteCode: 'This invite code is invalid or has already been used' }));
+          return;
+        }
+      }
+
+      const roleRequest = accountType === 'staff' && !invite ? requestedRole : null;
+
+      // Register user with Supabase Auth. The profile is created by the
+      // database, which decides the role from the invite code.
       const { data, error } = await supabase.auth.signUp({
         email,
         password,
         options: {
+          // The confirmation link opens the verify-email screen in the app
+          emailRedirectTo: getAuthRedirectUrl('verify-email'),
           data: {
             full_name: fullName,
-            role: role,
+            invite_code: code || null,
+            requested_role: roleRequest,
           },
         },
       });
@@ -89,25 +130,6 @@ export default function SignupScreen() {
       if (data?.user) {
         console.log('User created with ID:', data.user.id);
         
-        // Create entry in profiles table
-        const { error: profileError } = await supabase
-          .from('profiles')
-          .insert([
-            {
-              id: data.user.id,
-              full_name: fullName,
-              email: email,
-              role: role,
-            },
-          ]);
-        
-        if (profileError) {
-          console.error('Profile creation error:', profileError);
-          throw profileError;
-        }
-        
-        console.log('Profile created successfully');
-        
         // Check if email confirmation is required
         if (data?.user?.identities?.length === 0) {
           Alert.alert(
@@ -122,20 +144,31 @@ export default function SignupScreen() {
           );
         } else {
           // Show a success message with different text based on if email confirmation is required
-          const message = data?.user?.confirmed_at 
+          let message = data?.user?.confirmed_at 
             ? 'Your account has been created successfully! You can now log in.' 
             : 'Your account has been created! Please check your email to confirm your account before logging in.';
+
+          if (invite) {
+            message += ` You have joined ${invite.organization} as ${invite.role === 'officer' ? 'an officer' : 'tow staff'}.`;
+          } else if (roleRequest) {
+            message += ' Your request for staff access will be reviewed by an administrator. Until then you can use Towify as a vehicle owner.';
+          }
             
-          Alert.alert(
-            'Registration Successful',
-            message,
-            [
-              {
-                text: 'OK',
-                onPress: () => router.replace('/login'),
-              },
-            ]
-          );
+          const buttons = [
+            {
+              text: 'OK',
+              onPress: () => router.replace('/login'),
+            },
+          ];
+
+          if (!data.user.confirmed_at) {
+            buttons.unshift({
+              text: 'Resend Email',
+              onPress: () => handleResendVerification(),
+            });
+          }
+
+          Alert.alert('Registration Successful', message, buttons);
         }
       } else {
         Alert.alert('Signup Error', 'Failed to create user account');
@@ -219,25 +252,57 @@ export default function SignupScreen() {
           </View>
           
           <View style={styles.inputContainer}>
-            <Text style={styles.label}>Select Role</Text>
+            <Text style={styles.label}>Account Type</Text>
             <View style={styles.roleContainer}>
               <RoleButton 
                 title="Vehicle Owner" 
-                isSelected={role === 'owner'} 
-                onPress={() => setRole('owner')} 
+                isSelected={accountType === 'owner'} 
+                onPress={() => setAccountType('owner')} 
               />
               <RoleButton 
-                title="Tow Staff" 
-                isSelected={role === 'staff'} 
-                onPress={() => setRole('staff')} 
-              />
-              <RoleButton 
-                title="Officer" 
-                isSelected={role === 'officer'} 
-                onPress={() => setRole('officer')} 
+                title="Tow Staff / Officer" 
+                isSelected={accountType === 'staff'} 
+                onPress={() => setAccountType('staff')} 
               />
             </View>
           </View>
+
+          {accountType === 'staff' && (
+            <>
+              <View style={styles.inputContainer}>
+                <Text style={styles.label}>Invite Code</Text>
+                <TextInput
+                  value={inviteCode}
+                  onChangeText={setInviteCode}
+                  placeholder="Code from your organization"
+                  autoCapitalize="characters"
+                  style={styles.input}
+                />
+                {errors.inviteCode ? <Text style={styles.errorText}>{errors.inviteCode}</Text> : null}
+              </View>
+
+              {!inviteCode.trim() && (
+                <View style={styles.inputContainer}>
+                  <Text style={styles.label}>Request Access As</Text>
+                  <View style={styles.roleContainer}>
+                    <RoleButton 
+                      title="Tow Staff" 
+                      isSelected={requestedRole === 'staff'} 
+                      onPress={() => setRequestedRole('staff')} 
+                    />
+                    <RoleButton 
+                      title="Officer" 
+                      isSelected={requestedRole === 'officer'} 
+                      onPress={() => setRequestedRole('officer')} 
+                    />
+                  </View>
+                  <Text style={styles.hintText}>
+                    Without an invite code your account starts as a vehicle owner until an administrator approves the request.
+                  </Text>
+                </View>
+              )}
+            </>
+          )}
           
           <TouchableOpacity
             style={styles.button}
@@ -315,6 +380,11 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginTop: 4,
   },
+  hintText: {
+    color: '#6B7280',
+    fontSize: 12,
+    marginTop: 8,
+  },
   roleContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -0,0 +1,18 @@
+import React from 'react';
+import { Stack } from 'expo-router';
+import RoleGuard from '../../src/components/RoleGuard';
+import { Role } from '../../src/api/types';
+
+// Officers share the vehicle search, record tow and complaint screens
+export default function StaffLayout() {
+  return (
+    <RoleGuard allowedRoles={[Role.Staff, Role.Officer]}>
+      <Stack
+        screenOptions={{
+          headerShown: false,
+          contentStyle: { backgroundColor: 'white' },
+        }}
+      />
+    </RoleGuard>
+  );
+}
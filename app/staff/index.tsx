@@ -1,6 +1,6 @@
 import React from 'react';
 import { Stack } from 'expo-router';
-import StaffDashboardScreen from '../src/screens/StaffDashboardScreen';
+import StaffDashboardScreen from '../../src/screens/StaffDashboardScreen';
 
 export default function StaffDashboardPage() {
   return (
@@ -0,0 +1,6 @@
+import React from 'react';
+import ReleaseVehicleScreen from '../../src/screens/ReleaseVehicleScreen';
+
+export default function ReleaseVehiclePage() {
+  return <ReleaseVehicleScreen />;
+}
@@ -0,0 +1,6 @@
+import React from 'react';
+import ReasonCodeReportScreen from '../../src/screens/ReasonCodeReportScreen';
+
+export default function ReportsPage() {
+  return <ReasonCodeReportScreen />;
+}
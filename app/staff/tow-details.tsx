@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useState } from 'react';
 import {
   View,
   Text,
@@ -8,101 +8,95 @@ import {
   ActivityIndicator,
   Alert,
 } from 'react-native';
-import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { Stack, useFocusEffect, useLocalSearchParams, useRouter } from 'expo-router';
 import { FontAwesome5 } from '@expo/vector-icons';
-import { supabase } from '../../src/api/supabase';
+import {
+  getTow,
+  getVehicle,
+  getProfileContact,
+  updateTow,
+  notifyUser,
+  listTowStatusHistory,
+  listImpoundLots,
+  getImpoundLot,
+  impoundTow,
+  getTowRelease,
+  getTowStorageCharges,
+  getViolationCode,
+} from '../../src/api/repository';
+import {
+  ImpoundLot,
+  ProfileContact,
+  Tow,
+  TowRelease,
+  TowStatus,
+  TowStatusHistoryEntry,
+  TowStorageCharges,
+  Vehicle,
+  ViolationCode,
+} from '../../src/api/types';
 import { useSession } from '../../src/context/SessionContext';
+import TowTimeline from '../../src/components/TowTimeline';
+import TowLocationMap from '../../src/components/TowLocationMap';
+import ImpoundLotPicker from '../../src/components/ImpoundLotPicker';
+import {
+  TOW_STATUS_ACTIONS,
+  TOW_STATUS_COLORS,
+  TOW_STATUS_ICONS,
+  TOW_STATUS_LABELS,
+  canChangeTowStatus,
+  isTowClosed,
+  towStatusesAvailableTo,
+} from '../../src/utils/tows';
+import { coordinatesOf } from '../../src/utils/location';
 import { format } from 'date-fns';
 
-interface TowDetails {
-  id: string;
-  vehicle_id: string;
-  location: string;
-  tow_date: string;
-  reason: string | null;
-  status: string;
-  request_status: string;
-  license_plate: string;
-  model: string;
-  color: string;
-  registered_name?: string;
-  vehicle_owner?: {
-    id: string;
-    email: string;
-    full_name: string | null;
-    phone: string | null;
-  } | null;
-}
+type TowDetails = Tow & Pick<Vehicle, 'license_plate' | 'model' | 'color' | 'registered_name'> & {
+  vehicle_owner: ProfileContact | null;
+};
 
 export default function StaffTowDetailsScreen() {
   const { id } = useLocalSearchParams();
   const router = useRouter();
-  const { session } = useSession();
+  const { session, profile } = useSession();
+  const userId = session?.user?.id;
   const [towDetails, setTowDetails] = useState<TowDetails | null>(null);
+  const [history, setHistory] = useState<TowStatusHistoryEntry[]>([]);
+  const [lot, setLot] = useState<ImpoundLot | null>(null);
+  const [release, setRelease] = useState<TowRelease | null>(null);
+  const [storage, setStorage] = useState<TowStorageCharges | null>(null);
+  const [reasonCode, setReasonCode] = useState<ViolationCode | null>(null);
+  const [companyLots, setCompanyLots] = useState<ImpoundLot[]>([]);
+  const [lotPickerVisible, setLotPickerVisible] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
 
-  useEffect(() => {
-    fetchTowDetails();
-  }, [id]);
 
-  const fetchTowDetails = async () => {
-    if (!id || !session?.user) return;
+  const fetchTowDetails = useCallback(async () => {
+    if (!id || !userId) return;
 
     try {
       setLoading(true);
-      // First fetch the basic tow data
-      const { data: towData, error: towError } = await supabase
-        .from('tows')
-        .select(`
-          id,
-          vehicle_id,
-          location,
-          tow_date,
-          reason,
-          status,
-          request_status,
-          notes,
-          created_at,
-          created_by,
-          assigned_to
-        `)
-        .eq('id', id)
-        .single();
-
-      if (towError) throw towError;
+      // First fetch the basic tow data and its status history
+      const [towData, historyData] = await Promise.all([
+        getTow(id as string),
+        listTowStatusHistory(id as string),
+      ]);
+
+      if (!towData.vehicle_id) {
+        throw new Error('Vehicle information not found');
+      }
 
       // Fetch the vehicle data separately
-      const { data: vehicleData, error: vehicleError } = await supabase
-        .from('vehicles')
-        .select(`
-          license_plate,
-          model,
-          make,
-          color,
-          registered_name,
-          owner_id
-        `)
-        .eq('id', towData.vehicle_id)
-        .single();
-
-      if (vehicleError) throw vehicleError;
+      const vehicleData = await getVehicle(towData.vehicle_id);
 
       // Fetch owner profile if available
       let ownerProfile = null;
       if (vehicleData.owner_id) {
-        const { data: profileData, error: profileError } = await supabase
-          .from('profiles')
-          .select(`
-            id,
-            email,
-            full_name,
-            phone
-          `)
-          .eq('id', vehicleData.owner_id)
-          .single();
-
-        if (!profileError && profileData) {
-          ownerProfile = profileData;
+        try {
+          ownerProfile = await getProfileContact(vehicleData.owner_id);
+        } catch (profileError: any) {
+          console.error('Error fetching vehicle owner:', profileError.message);
         }
       }
 
@@ -117,6 +111,11 @@ export default function StaffTowDetailsScreen() {
       };
 
       setTowDetails(towWithVehicleDetails);
+      setHistory(historyData);
+      setLot(towData.impound_lot_id ? await getImpoundLot(towData.impound_lot_id) : null);
+      setRelease(towData.status === 'released' ? await getTowRelease(towData.id) : null);
+      setStorage(towData.impounded_at ? await getTowStorageCharges(towData.id) : null);
+      setReasonCode(towData.reason_code_id ? await getViolationCode(towData.reason_code_id) : null);
     } catch (error: any) {
       console.error('Error fetching tow details:', error.message);
       Alert.alert('Error', 'Failed to load tow details');
@@ -124,42 +123,113 @@ export default function StaffTowDetailsScreen() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [id, userId, router]);
+
+  // Also refreshes after a release on the release screen
+  useFocusEffect(
+    useCallback(() => {
+      fetchTowDetails();
+    }, [fetchTowDetails])
+  );
 
-  const handleUpdateStatus = async (newStatus: string) => {
+  // Impounding also records the lot and space the vehicle is kept in
+  const updateStatus = async (newStatus: TowStatus, impound?: { lot: ImpoundLot; space: string }) => {
     if (!towDetails || !session?.user) return;
-    
+
     try {
-      const { error } = await supabase
-        .from('tows')
-        .update({ 
-          status: newStatus,
-          request_status: newStatus === 'completed' ? 'completed' : towDetails.request_status
-        })
-        .eq('id', towDetails.id);
-        
-      if (error) throw error;
+      setUpdating(true);
+      // The request status follows along in the database
+      if (impound) {
+        await impoundTow(towDetails.id, impound.lot.id, impound.space);
+      } else {
+        await updateTow(towDetails.id, { status: newStatus });
+      }
+      setLotPickerVisible(false);
       
       // Create notification for vehicle owner
       if (towDetails.vehicle_owner?.id) {
-        const notificationData = {
+        await notifyUser({
           user_id: towDetails.vehicle_owner.id,
           type: 'tow_update',
-          title: `Tow ${newStatus.charAt(0).toUpperCase() + newStatus.slice(1)}`,
-          message: `The status of your vehicle (${towDetails.license_plate}) tow has been updated to ${newStatus}.`,
+          title: `Tow ${TOW_STATUS_LABELS[newStatus]}`,
+          message: impound
+            ? `Your vehicle (${towDetails.license_plate}) is at ${impound.lot.name}, ${impound.lot.address}.`
+            : `The status of your vehicle (${towDetails.license_plate}) tow has been updated to ${TOW_STATUS_LABELS[newStatus].toLowerCase()}.`,
           related_id: towDetails.id,
-          is_read: false,
-        };
-        
-        await supabase.from('notifications').insert(notificationData);
+        });
       }
       
       Alert.alert('Success', 'Tow status updated successfully');
       fetchTowDetails();
     } catch (error: any) {
       console.error('Error updating tow status:', error.message);
-      Alert.alert('Error', 'Failed to update tow status');
+      if (error.code === '23505' && error.message?.includes('tows_impound_lot_space_key')) {
+        Alert.alert('Error', `Space ${impound?.space} is already taken at ${impound?.lot.name}`);
+      } else {
+        // The database rejects steps that skip or reverse the lifecycle, and
+        // lots that are full
+        Alert.alert('Error', error.code === 'P0001' ? error.message : 'Failed to update tow status');
+      }
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const openLotPicker = async () => {
+    if (!towDetails?.tow_company_id) {
+      Alert.alert('Error', 'This tow has no tow company to keep the vehicle');
+      return;
+    }
+
+    try {
+      setCompanyLots(await listImpoundLots(towDetails.tow_company_id));
+      setLotPickerVisible(true);
+    } catch (error: any) {
+      console.error('Error fetching impound lots:', error.message);
+      Alert.alert('Error', 'Failed to load impound lots');
+    }
+  };
+
+  const handleImpound = (lotId: string, space: string) => {
+    const chosenLot = companyLots.find(companyLot => companyLot.id === lotId);
+    if (chosenLot) updateStatus('impounded', { lot: chosenLot, space });
+  };
+
+  const handleUpdateStatus = (newStatus: TowStatus) => {
+    if (!towDetails || !canChangeTowStatus(towDetails.status, newStatus)) {
+      Alert.alert('Error', 'This tow can no longer move to that status');
+      return;
+    }
+
+    if (newStatus === 'impounded') {
+      openLotPicker();
+      return;
+    }
+
+    // Releasing checks the owner's ID and the fines first
+    if (newStatus === 'released') {
+      router.push({ pathname: '/staff/release-vehicle', params: { id: towDetails.id } });
+      return;
+    }
+
+    // Closing a tow can't be undone
+    if (!isTowClosed(newStatus)) {
+      updateStatus(newStatus);
+      return;
     }
+
+    Alert.alert(
+      TOW_STATUS_ACTIONS[newStatus],
+      `Mark the tow of ${towDetails.license_plate} as ${TOW_STATUS_LABELS[newStatus].toLowerCase()}? This can't be undone.`,
+      [
+        { text: 'Back', style: 'cancel' },
+        {
+          text: TOW_STATUS_ACTIONS[newStatus],
+          style: newStatus === 'cancelled' ? 'destructive' : 'default',
+          onPress: () => updateStatus(newStatus),
+        },
+      ]
+    );
   };
 
   if (loading) {
@@ -178,29 +248,17 @@ export default function StaffTowDetailsScreen() {
     );
   }
 
-  const StatusIndicator = ({ status }: { status: string }) => {
-    const getStatusColor = (status: string) => {
-      switch (status) {
-        case 'pending':
-          return '#F59E0B'; // Amber
-        case 'active':
-          return '#EF4444'; // Red
-        case 'completed':
-          return '#10B981'; // Green
-        default:
-          return '#6B7280'; // Gray
-      }
-    };
+  const StatusIndicator = ({ status }: { status: TowStatus }) => (
+    <View style={styles.statusContainer}>
+      <View style={[styles.statusDot, { backgroundColor: TOW_STATUS_COLORS[status] }]} />
+      <Text style={styles.statusText}>{TOW_STATUS_LABELS[status]}</Text>
+    </View>
+  );
 
-    return (
-      <View style={styles.statusContainer}>
-        <View style={[styles.statusDot, { backgroundColor: getStatusColor(status) }]} />
-        <Text style={styles.statusText}>
-          {status.charAt(0).toUpperCase() + status.slice(1)}
-        </Text>
-      </View>
-    );
-  };
+  const isTowCompany = !!towDetails.tow_company_id && towDetails.tow_company_id === profile?.organization?.id;
+  const nextStatuses = towStatusesAvailableTo(towDetails.status, isTowCompany);
+  const towCoordinates = coordinatesOf(towDetails);
+  const lotCoordinates = coordinatesOf(lot);
 
   return (
     <>
@@ -313,30 +371,163 @@ export default function StaffTowDetailsScreen() {
               <Text style={styles.dataValue}>{towDetails.reason}</Text>
             </View>
           )}
-        </View>
 
-        <View style={styles.actionCard}>
-          {towDetails.status !== 'completed' && (
-            <TouchableOpacity
-              style={[styles.actionButton, { backgroundColor: '#10B981' }]}
-              onPress={() => handleUpdateStatus('completed')}
-            >
-              <FontAwesome5 name="check-circle" size={16} color="white" style={styles.actionIcon} />
-              <Text style={styles.actionText}>Mark as Completed</Text>
-            </TouchableOpacity>
+          {reasonCode && (
+            <View style={styles.dataRow}>
+              <Text style={styles.dataLabel}>Code:</Text>
+              <Text style={styles.dataValue}>
+                {reasonCode.statute ? `${reasonCode.code} • ${reasonCode.statute}` : reasonCode.code}
+              </Text>
+            </View>
           )}
-          
-          {towDetails.status === 'pending' && (
-            <TouchableOpacity
-              style={[styles.actionButton, { backgroundColor: '#EF4444', marginTop: 12 }]}
-              onPress={() => handleUpdateStatus('active')}
-            >
-              <FontAwesome5 name="truck-pickup" size={16} color="white" style={styles.actionIcon} />
-              <Text style={styles.actionText}>Start Towing</Text>
-            </TouchableOpacity>
+
+          {(towCoordinates || lotCoordinates) && (
+            <View style={styles.mapContainer}>
+              <TowLocationMap
+                towCoordinates={towCoordinates}
+                towAddress={towDetails.location}
+                lotCoordinates={lotCoordinates}
+                lotName={lot?.name}
+              />
+            </View>
           )}
         </View>
+
+        {lot && (
+          <View style={styles.card}>
+            <View style={styles.sectionHeader}>
+              <FontAwesome5 name="warehouse" size={16} color="#4F46E5" />
+              <Text style={styles.sectionTitle}>Impound Lot</Text>
+            </View>
+
+            <View style={styles.dataRow}>
+              <Text style={styles.dataLabel}>Lot:</Text>
+              <Text style={styles.dataValue}>{lot.name}</Text>
+            </View>
+
+            <View style={styles.dataRow}>
+              <Text style={styles.dataLabel}>Space:</Text>
+              <Text style={styles.dataValue}>{towDetails.lot_space || 'N/A'}</Text>
+            </View>
+
+            <View style={styles.dataRow}>
+              <Text style={styles.dataLabel}>Address:</Text>
+              <Text style={styles.dataValue}>{lot.address}</Text>
+            </View>
+
+            <View style={styles.dataRow}>
+              <Text style={styles.dataLabel}>Hours:</Text>
+              <Text style={styles.dataValue}>{lot.hours}</Text>
+            </View>
+          </View>
+        )}
+
+        {storage && (
+          <View style={styles.card}>
+            <View style={styles.sectionHeader}>
+              <FontAwesome5 name="calendar-day" size={16} color="#4F46E5" />
+              <Text style={styles.sectionTitle}>Storage</Text>
+            </View>
+
+            <View style={styles.dataRow}>
+              <Text style={styles.dataLabel}>Daily Rate:</Text>
+              <Text style={styles.dataValue}>
+                {storage.daily_rate !== null ? `$${Number(storage.daily_rate).toFixed(2)}` : 'No rate for this vehicle'}
+              </Text>
+            </View>
+
+            <View style={styles.dataRow}>
+              <Text style={styles.dataLabel}>Days Charged:</Text>
+              <Text style={styles.dataValue}>{storage.storage_days}</Text>
+            </View>
+
+            <View style={styles.dataRow}>
+              <Text style={styles.dataLabel}>Accrued:</Text>
+              <Text style={styles.dataValue}>${Number(storage.accrued).toFixed(2)}</Text>
+            </View>
+
+            <View style={styles.dataRow}>
+              <Text style={styles.dataLabel}>Unpaid:</Text>
+              <Text style={[styles.dataValue, storage.amount_due > 0 && styles.amountDue]}>
+                ${Number(storage.amount_due).toFixed(2)}
+              </Text>
+            </View>
+          </View>
+        )}
+
+        {release && (
+          <View style={styles.card}>
+            <View style={styles.sectionHeader}>
+              <FontAwesome5 name="id-card" size={16} color="#4F46E5" />
+              <Text style={styles.sectionTitle}>Release</Text>
+            </View>
+
+            <View style={styles.dataRow}>
+              <Text style={styles.dataLabel}>Released To:</Text>
+              <Text style={styles.dataValue}>{release.released_to}</Text>
+            </View>
+
+            <View style={styles.dataRow}>
+              <Text style={styles.dataLabel}>ID:</Text>
+              <Text style={styles.dataValue}>
+                {release.id_type} ending {release.id_number_last4}
+              </Text>
+            </View>
+
+            <View style={styles.dataRow}>
+              <Text style={styles.dataLabel}>Matched:</Text>
+              <Text style={styles.dataValue}>
+                {release.verified_against === 'owner' ? 'Owner account' : 'Registered name'}
+              </Text>
+            </View>
+
+            <View style={styles.dataRow}>
+              <Text style={styles.dataLabel}>Released:</Text>
+              <Text style={styles.dataValue}>
+                {format(new Date(release.created_at), 'MMM dd, yyyy • h:mm a')}
+                {release.released_by_name ? ` by ${release.released_by_name}` : ''}
+              </Text>
+            </View>
+          </View>
+        )}
+
+        <View style={styles.card}>
+          <View style={styles.sectionHeader}>
+            <FontAwesome5 name="stream" size={16} color="#4F46E5" />
+            <Text style={styles.sectionTitle}>Timeline</Text>
+          </View>
+          <TowTimeline history={history} status={towDetails.status} />
+        </View>
+
+        {nextStatuses.length > 0 && (
+          <View style={styles.actionCard}>
+            {nextStatuses.map((nextStatus, index) => (
+              <TouchableOpacity
+                key={nextStatus}
+                style={[
+                  styles.actionButton,
+                  { backgroundColor: nextStatus === 'cancelled' ? '#EF4444' : TOW_STATUS_COLORS[nextStatus] },
+                  index > 0 && { marginTop: 12 },
+                ]}
+                onPress={() => handleUpdateStatus(nextStatus)}
+                disabled={updating}
+              >
+                <FontAwesome5 name={TOW_STATUS_ICONS[nextStatus]} size={16} color="white" style={styles.actionIcon} />
+                <Text style={styles.actionText}>{TOW_STATUS_ACTIONS[nextStatus]}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
       </ScrollView>
+
+      <ImpoundLotPicker
+        visible={lotPickerVisible}
+        licensePlate={towDetails.license_plate}
+        lots={companyLots}
+        saving={updating}
+        onConfirm={handleImpound}
+        onClose={() => setLotPickerVisible(false)}
+      />
     </>
   );
 }
@@ -416,6 +607,9 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 16,
   },
+  mapContainer: {
+    marginTop: 12,
+  },
   sectionTitle: {
     fontSize: 16,
     fontWeight: 'bold',
@@ -437,6 +631,9 @@ const styles = StyleSheet.create({
     color: '#111827',
     fontWeight: '500',
   },
+  amountDue: {
+    color: '#EF4444',
+  },
   colorContainer: {
     flexDirection: 'row',
     alignItems: 'center',
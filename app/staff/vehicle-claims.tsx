@@ -0,0 +1,6 @@
+import React from 'react';
+import VehicleClaimsScreen from '../../src/screens/VehicleClaimsScreen';
+
+export default function VehicleClaimsPage() {
+  return <VehicleClaimsScreen />;
+}
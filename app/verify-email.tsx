@@ -0,0 +1,5 @@
+import VerifyEmailScreen from "../src/screens/VerifyEmailScreen";
+
+export default function VerifyEmail() {
+  return <VerifyEmailScreen />;
+}
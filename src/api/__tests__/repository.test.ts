@@ -0,0 +1,211 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../database.types';
+import { createRepository, normalizeJurisdiction, normalizePlate } from '../repository';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+interface FakeResult {
+  data?: unknown;
+  error?: { code?: string; message: string } | null;
+}
+
+interface FakeCall {
+  target: string;
+  method: string;
+  args: unknown[];
+}
+
+// A stand-in for the Supabase client. Every query builder method is recorded
+// and returns the builder; awaiting the builder, or calling rpc, resolves to
+// the next result queued for that table or function.
+const createFakeClient = () => {
+  const queued: Record<string, FakeResult[]> = {};
+  const calls: FakeCall[] = [];
+
+  const next = (target: string) =>
+    Promise.resolve({ data: null, error: null, ...queued[target]?.shift() });
+
+  const builder = (target: string): any => {
+    const proxy: any = new Proxy(
+      {},
+      {
+        get: (_, method) => {
+          if (method === 'then') {
+            return (resolve: any, reject: any) => next(target).then(resolve, reject);
+          }
+          return (...args: unknown[]) => {
+            calls.push({ target, method: String(method), args });
+            return proxy;
+          };
+        },
+      }
+    );
+    return proxy;
+  };
+
+  const client = {
+    from: (table: string) => builder(table),
+    rpc: (name: string, args: unknown) => {
+      calls.push({ target: `rpc:${name}`, method: 'rpc', args: [args] });
+      return next(`rpc:${name}`);
+    },
+  };
+
+  return {
+    client: client as unknown as SupabaseClient<Database>,
+    // Queues results for a table, or for a function as "rpc:<name>"
+    respond: (target: string, ...results: FakeResult[]) => {
+      queued[target] = [...(queued[target] || []), ...results];
+    },
+    callsTo: (target: string) => calls.filter(call => call.target === target),
+  };
+};
+
+describe('normalizePlate', () => {
+  it('drops spaces and dashes and uses capitals', () => {
+    expect(normalizePlate('abc-12 3')).toBe('ABC123');
+  });
+});
+
+describe('normalizeJurisdiction', () => {
+  it('trims and uses capitals', () => {
+    expect(normalizeJurisdiction(' ca ')).toBe('CA');
+  });
+
+  it('treats a blank jurisdiction as unknown', () => {
+    expect(normalizeJurisdiction('  ')).toBeNull();
+    expect(normalizeJurisdiction(null)).toBeNull();
+    expect(normalizeJurisdiction(undefined)).toBeNull();
+  });
+});
+
+describe('createRepository', () => {
+  describe('findVehicleByPlate', () => {
+    it('returns exact matches without a partial search', async () => {
+      const fake = createFakeClient();
+      const vehicle = { id: 'vehicle-1', license_plate: 'ABC123' };
+      fake.respond('vehicles', { data: [vehicle] });
+
+      const result = await createRepository(fake.client).findVehicleByPlate('abc-123');
+
+      expect(result).toEqual([vehicle]);
+      expect(fake.callsTo('vehicles')).toEqual([
+        { target: 'vehicles', method: 'select', args: ['*'] },
+        { target: 'vehicles', method: 'eq', args: ['license_plate', 'ABC123'] },
+      ]);
+    });
+
+    it('falls back to a partial match', async () => {
+      const fake = createFakeClient();
+      const vehicle = { id: 'vehicle-1', license_plate: 'ABC1234' };
+      fake.respond('vehicles', { data: [] }, { data: [vehicle] });
+
+      const result = await createRepository(fake.client).findVehicleByPlate('ABC123');
+
+      expect(result).toEqual([vehicle]);
+      expect(fake.callsTo('vehicles')).toContainEqual({
+        target: 'vehicles',
+        method: 'ilike',
+        args: ['license_plate', '%ABC123%'],
+      });
+    });
+
+    it('only matches plates from the given jurisdiction', async () => {
+      const fake = createFakeClient();
+      fake.respond('vehicles', { data: [] }, { data: [] });
+
+      await createRepository(fake.client).findVehicleByPlate('ABC123', 'ca');
+
+      const jurisdictionFilters = fake
+        .callsTo('vehicles')
+        .filter(call => call.method === 'eq' && call.args[0] === 'plate_jurisdiction');
+      expect(jurisdictionFilters).toHaveLength(2);
+      expect(jurisdictionFilters[0].args).toEqual(['plate_jurisdiction', 'CA']);
+    });
+
+    it('throws the query error', async () => {
+      const fake = createFakeClient();
+      const error = { code: '42501', message: 'permission denied' };
+      fake.respond('vehicles', { error });
+
+      await expect(createRepository(fake.client).findVehicleByPlate('ABC123')).rejects.toBe(error);
+    });
+  });
+
+  describe('getOwnerVehicleByPlate', () => {
+    it('matches vehicles without a jurisdiction when none is given', async () => {
+      const fake = createFakeClient();
+      fake.respond('vehicles', { data: null });
+
+      const result = await createRepository(fake.client).getOwnerVehicleByPlate('ABC123', '', 'owner-1');
+
+      expect(result).toBeNull();
+      expect(fake.callsTo('vehicles')).toContainEqual({
+        target: 'vehicles',
+        method: 'is',
+        args: ['plate_jurisdiction', null],
+      });
+    });
+  });
+
+  describe('findClaimableVehicle', () => {
+    it('passes the plate and jurisdiction to find_claimable_vehicle', async () => {
+      const fake = createFakeClient();
+      const vehicle = { id: 'vehicle-1', license_plate: 'ABC123', plate_jurisdiction: 'CA' };
+      fake.respond('rpc:find_claimable_vehicle', { data: [vehicle] });
+
+      const result = await createRepository(fake.client).findClaimableVehicle('ABC123', 'CA');
+
+      expect(result).toEqual(vehicle);
+      expect(fake.callsTo('rpc:find_claimable_vehicle')[0].args).toEqual([
+        { plate_number: 'ABC123', jurisdiction: 'CA' },
+      ]);
+    });
+
+    it('returns null when no vehicle can be claimed', async () => {
+      const fake = createFakeClient();
+      fake.respond('rpc:find_claimable_vehicle', { data: [] });
+
+      await expect(createRepository(fake.client).findClaimableVehicle('ABC123', null)).resolves.toBeNull();
+      expect(fake.callsTo('rpc:find_claimable_vehicle')[0].args).toEqual([
+        { plate_number: 'ABC123', jurisdiction: '' },
+      ]);
+    });
+  });
+
+  describe('recordTow', () => {
+    it('stores the plate normalized', async () => {
+      const fake = createFakeClient();
+      fake.respond('tows', { data: { id: 'tow-1' } });
+
+      await createRepository(fake.client).recordTow({
+        vehicle_id: null,
+        license_plate: 'abc 123',
+        location: '123 Main St',
+        reason: 'Parked in a fire lane',
+        reason_code_id: 'code-1',
+        tow_date: '2026-10-19T12:00:00.000Z',
+        status: 'hooked',
+        notes: '',
+        created_by: 'staff-1',
+      });
+
+      const [insert] = fake.callsTo('tows').filter(call => call.method === 'insert');
+      expect(insert.args[0]).toMatchObject({ license_plate: 'ABC123' });
+    });
+  });
+
+  describe('listOwnerTows', () => {
+    it('exposes the embedded vehicle as vehicle', async () => {
+      const fake = createFakeClient();
+      const vehicle = { id: 'vehicle-1', license_plate: 'ABC123' };
+      fake.respond('tows', { data: [{ id: 'tow-1', vehicles: vehicle }] });
+
+      const result = await createRepository(fake.client).listOwnerTows('owner-1');
+
+      expect(result).toEqual([{ id: 'tow-1', vehicle }]);
+    });
+  });
+});
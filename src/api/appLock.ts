@@ -0,0 +1,79 @@
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as LocalAuthentication from 'expo-local-authentication';
+import { Role } from './types';
+
+// App lock settings are stored per user on the device, since whether a
+// device has biometrics or a PIN says nothing about the user's other devices.
+
+export interface AppLockSettings {
+  enabled: boolean;
+  // How long the app may stay in the background before it has to be unlocked
+  timeoutMinutes: number;
+}
+
+export const APP_LOCK_TIMEOUT_OPTIONS = [0, 1, 5, 15, 30];
+
+// Staff, officers and administrators work with other people's records on
+// shared or unattended devices, so their sessions are locked unless they opt
+// out
+const LOCKED_BY_DEFAULT: Role[] = [Role.Staff, Role.Officer, Role.Admin];
+
+const settingsKey = (userId: string) => `towify.app-lock.${userId}`;
+
+export const getDefaultAppLockSettings = (role: Role | null): AppLockSettings => ({
+  enabled: !!role && LOCKED_BY_DEFAULT.includes(role),
+  timeoutMinutes: 5,
+});
+
+// Whether a due lock signs the user out when the device can't be unlocked
+export const signsOutWithoutDeviceAuth = (role: Role | null) => !!role && LOCKED_BY_DEFAULT.includes(role);
+
+export const loadAppLockSettings = async (userId: string, role: Role | null): Promise<AppLockSettings> => {
+  const defaults = getDefaultAppLockSettings(role);
+
+  try {
+    const value = await AsyncStorage.getItem(settingsKey(userId));
+    return value ? { ...defaults, ...JSON.parse(value) } : defaults;
+  } catch (error) {
+    console.error('Error reading app lock settings:', error);
+    return defaults;
+  }
+};
+
+export const saveAppLockSettings = async (userId: string, settings: AppLockSettings) => {
+  await AsyncStorage.setItem(settingsKey(userId), JSON.stringify(settings));
+};
+
+// expo-local-authentication has no web implementation, so the web app is
+// never locked
+export const isAppLockSupported = Platform.OS !== 'web';
+
+// True when the device has a biometric or at least a PIN / passcode set up.
+// Without either there is nothing to unlock with, so a lock that comes due
+// after the idle timeout is skipped for owners and signs the other roles out.
+export const isDeviceAuthAvailable = async () => {
+  if (!isAppLockSupported) return false;
+
+  try {
+    const level = await LocalAuthentication.getEnrolledLevelAsync();
+    return level !== LocalAuthentication.SecurityLevel.NONE;
+  } catch {
+    return false;
+  }
+};
+
+export type DeviceAuthResult = 'success' | 'cancelled' | 'failed';
+
+// Biometrics first, with the device PIN / passcode as the fallback
+export const authenticateWithDevice = async (promptMessage: string): Promise<DeviceAuthResult> => {
+  const result = await LocalAuthentication.authenticateAsync({
+    promptMessage,
+    cancelLabel: 'Cancel',
+    disableDeviceFallback: false,
+  });
+
+  if (result.success) return 'success';
+
+  return ['user_cancel', 'system_cancel', 'app_cancel'].includes(result.error) ? 'cancelled' : 'failed';
+};
@@ -0,0 +1,108 @@
+import * as Linking from 'expo-linking';
+import { AuthError } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+
+// Password reset, signup confirmation, email change and magic link emails
+// link back into the app through the towify:// scheme (or the exp:// URL in Expo Go).
+// Every redirect URL has to be allowed in the Supabase Auth settings; see
+// additional_redirect_urls in supabase/config.toml.
+
+export type AuthLinkPath = 'reset-password' | 'verify-email' | 'magic-link';
+
+export const getAuthRedirectUrl = (path: AuthLinkPath) => Linking.createURL(`/${path}`);
+
+// Supabase returns the result of an email link either as tokens in the URL
+// fragment (implicit flow) or as a one-time code in the query (PKCE flow).
+// Errors such as an expired link come back the same way.
+const getAuthParams = (url: string) => {
+  const params = new URLSearchParams();
+
+  const [withoutHash, hash = ''] = url.split('#');
+  const query = withoutHash.split('?')[1] || '';
+
+  new URLSearchParams(query).forEach((value, key) => params.set(key, value));
+  new URLSearchParams(hash).forEach((value, key) => params.set(key, value));
+
+  return params;
+};
+
+// Signs the user in with the session carried by an email link. Returns false
+// when the URL doesn't contain auth parameters at all.
+export const createSessionFromUrl = async (url: string) => {
+  const params = getAuthParams(url);
+
+  const errorDescription = params.get('error_description');
+  if (errorDescription) {
+    throw new Error(errorDescription.replace(/\+/g, ' '));
+  }
+
+  const code = params.get('code');
+  if (code) {
+    const { error } = await supabase.auth.exchangeCodeForSession(code);
+    if (error) throw error;
+    return true;
+  }
+
+  const accessToken = params.get('access_token');
+  const refreshToken = params.get('refresh_token');
+  if (accessToken && refreshToken) {
+    const { error } = await supabase.auth.setSession({
+      access_token: accessToken,
+      refresh_token: refreshToken,
+    });
+    if (error) throw error;
+    return true;
+  }
+
+  return false;
+};
+
+export const sendPasswordResetEmail = async (email: string) => {
+  const { error } = await supabase.auth.resetPasswordForEmail(email.trim(), {
+    redirectTo: getAuthRedirectUrl('reset-password'),
+  });
+  if (error) throw error;
+};
+
+// Passwordless login. Only existing accounts can sign in this way; new
+// accounts still go through signup so the profile gets the right role.
+export const sendMagicLink = async (email: string) => {
+  const { error } = await supabase.auth.signInWithOtp({
+    email: email.trim(),
+    options: {
+      shouldCreateUser: false,
+      emailRedirectTo: getAuthRedirectUrl('magic-link'),
+    },
+  });
+  if (error) throw error;
+};
+
+export const resendVerificationEmail = async (email: string) => {
+  const { error } = await supabase.auth.resend({
+    type: 'signup',
+    email: email.trim(),
+    options: { emailRedirectTo: getAuthRedirectUrl('verify-email') },
+  });
+  if (error) throw error;
+};
+
+// The new address only takes effect once the link sent to it is opened. That
+// link also goes through the verify-email screen.
+export const requestEmailChange = async (email: string) => {
+  const { error } = await supabase.auth.updateUser(
+    { email: email.trim() },
+    { emailRedirectTo: getAuthRedirectUrl('verify-email') }
+  );
+  if (error) throw error;
+};
+
+// signInWithPassword fails with this code until the signup email is confirmed
+export const isEmailNotConfirmedError = (error: unknown) =>
+  error instanceof AuthError &&
+  (error.code === 'email_not_confirmed' || /email not confirmed/i.test(error.message));
+
+// Magic link and SMS code logins never create accounts, so an unknown email
+// or phone number fails this way
+export const isNoAccountError = (error: unknown) =>
+  error instanceof AuthError &&
+  (error.code === 'otp_disabled' || /signups not allowed/i.test(error.message));
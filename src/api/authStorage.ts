@@ -0,0 +1,81 @@
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+
+// Storage adapter for the Supabase auth session.
+//
+// The session is persisted in AsyncStorage so it survives restarts, but the
+// refresh token is split out into SecureStore (Keychain / Keystore) where the
+// platform supports it. SecureStore values are size-limited, so the rest of
+// the session stays in AsyncStorage. On web everything falls back to
+// AsyncStorage.
+
+// The static web export renders pages in Node, where there is no window for
+// AsyncStorage to use; there's no session to restore there anyway
+const isStaticRendering = Platform.OS === 'web' && typeof window === 'undefined';
+
+// SecureStore keys may only contain alphanumerics, ".", "-" and "_"
+const refreshTokenKey = (key: string) => `${key.replace(/[^\w.-]/g, '_')}.refresh-token`;
+
+let secureStoreAvailable: Promise<boolean> | null = null;
+
+const canUseSecureStore = () => {
+  if (!secureStoreAvailable) {
+    secureStoreAvailable = SecureStore.isAvailableAsync().catch(() => false);
+  }
+  return secureStoreAvailable;
+};
+
+const parseSession = (value: string) => {
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+export const authStorage = {
+  getItem: async (key: string): Promise<string | null> => {
+    if (isStaticRendering) return null;
+
+    const value = await AsyncStorage.getItem(key);
+    if (value === null || !(await canUseSecureStore())) return value;
+
+    const session = parseSession(value);
+    if (!session || session.refresh_token !== undefined) return value;
+
+    const refreshToken = await SecureStore.getItemAsync(refreshTokenKey(key));
+    if (!refreshToken) {
+      // Without the refresh token the stored session can't be renewed
+      return null;
+    }
+
+    return JSON.stringify({ ...session, refresh_token: refreshToken });
+  },
+
+  setItem: async (key: string, value: string): Promise<void> => {
+    if (isStaticRendering) return;
+
+    const session = parseSession(value);
+
+    if (!session?.refresh_token || !(await canUseSecureStore())) {
+      await AsyncStorage.setItem(key, value);
+      return;
+    }
+
+    const { refresh_token, ...rest } = session;
+    await SecureStore.setItemAsync(refreshTokenKey(key), refresh_token);
+    await AsyncStorage.setItem(key, JSON.stringify(rest));
+  },
+
+  removeItem: async (key: string): Promise<void> => {
+    if (isStaticRendering) return;
+
+    await AsyncStorage.removeItem(key);
+
+    if (await canUseSecureStore()) {
+      await SecureStore.deleteItemAsync(refreshTokenKey(key));
+    }
+  },
+};
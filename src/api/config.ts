@@ -0,0 +1,37 @@
+import Constants from 'expo-constants';
+
+// Runtime configuration. Values come from EXPO_PUBLIC_* variables (set in
+// .env.local or per build profile in eas.json) and fall back to `extra` in
+// the Expo config.
+
+export type AppEnv = 'development' | 'preview' | 'production';
+
+interface AppConfig {
+  appEnv: AppEnv;
+  supabaseUrl: string;
+  supabaseAnonKey: string;
+  // Report a fixed demo position instead of the device's GPS
+  mockLocation: boolean;
+  // Whether the build has a Google Maps API key, set by app.config.ts
+  googleMapsConfigured: boolean;
+}
+
+const extra = Constants.expoConfig?.extra ?? {};
+
+// EXPO_PUBLIC_* values are inlined at build time, so each one has to be
+// referenced by its full name
+export const config: AppConfig = {
+  appEnv: (process.env.EXPO_PUBLIC_APP_ENV || extra.appEnv || 'development') as AppEnv,
+  supabaseUrl: process.env.EXPO_PUBLIC_SUPABASE_URL || extra.supabaseUrl || '',
+  supabaseAnonKey: process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY || extra.supabaseAnonKey || '',
+  mockLocation: (process.env.EXPO_PUBLIC_MOCK_LOCATION || String(extra.mockLocation ?? 'false')) === 'true',
+  googleMapsConfigured: extra.googleMapsConfigured === true,
+};
+
+// Names of the required variables that are not set
+export const missingConfig: string[] = [
+  !config.supabaseUrl && 'EXPO_PUBLIC_SUPABASE_URL',
+  !config.supabaseAnonKey && 'EXPO_PUBLIC_SUPABASE_ANON_KEY',
+].filter((name): name is string => Boolean(name));
+
+export const isConfigured = missingConfig.length === 0;
@@ -0,0 +1,1303 @@
+// Generated from the local Supabase schema. Regenerate after adding a migration:
+//   npx supabase db reset && npx supabase gen types typescript --local > src/api/database.types.ts
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          created_at: string
+          details: Json
+          id: string
+          target_id: string | null
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          created_at?: string
+          details?: Json
+          id?: string
+          target_id?: string | null
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          created_at?: string
+          details?: Json
+          id?: string
+          target_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audit_log_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "audit_log_target_id_fkey"
+            columns: ["target_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      complaints: {
+        Row: {
+          created_at: string
+          description: string
+          fine_id: string | null
+          id: string
+          organization_id: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          response: string | null
+          status: Database["public"]["Enums"]["complaint_status"]
+          subject: string
+          tow_id: string | null
+          type: Database["public"]["Enums"]["complaint_type"]
+          user_id: string
+          vehicle_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          description: string
+          fine_id?: string | null
+          id?: string
+          organization_id?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          response?: string | null
+          status?: Database["public"]["Enums"]["complaint_status"]
+          subject: string
+          tow_id?: string | null
+          type?: Database["public"]["Enums"]["complaint_type"]
+          user_id: string
+          vehicle_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          fine_id?: string | null
+          id?: string
+          organization_id?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          response?: string | null
+          status?: Database["public"]["Enums"]["complaint_status"]
+          subject?: string
+          tow_id?: string | null
+          type?: Database["public"]["Enums"]["complaint_type"]
+          user_id?: string
+          vehicle_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "complaints_fine_id_fkey"
+            columns: ["fine_id"]
+            isOneToOne: false
+            referencedRelation: "fines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaints_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaints_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaints_tow_id_fkey"
+            columns: ["tow_id"]
+            isOneToOne: false
+            referencedRelation: "tows"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaints_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaints_vehicle_id_fkey"
+            columns: ["vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "vehicles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fines: {
+        Row: {
+          amount: number
+          amount_justification: string | null
+          created_at: string
+          created_by: string | null
+          description: string
+          due_date: string | null
+          id: string
+          issue_date: string
+          kind: Database["public"]["Enums"]["fine_kind"]
+          organization_id: string | null
+          owner_id: string | null
+          payment_date: string | null
+          status: Database["public"]["Enums"]["fine_status"]
+          storage_days: number | null
+          tow_id: string | null
+          transaction_id: string | null
+          vehicle_id: string
+          violation_code_id: string | null
+        }
+        Insert: {
+          amount: number
+          amount_justification?: string | null
+          created_at?: string
+          created_by?: string | null
+          description: string
+          due_date?: string | null
+          id?: string
+          issue_date?: string
+          kind?: Database["public"]["Enums"]["fine_kind"]
+          organization_id?: string | null
+          owner_id?: string | null
+          payment_date?: string | null
+          status?: Database["public"]["Enums"]["fine_status"]
+          storage_days?: number | null
+          tow_id?: string | null
+          transaction_id?: string | null
+          vehicle_id: string
+          violation_code_id?: string | null
+        }
+        Update: {
+          amount?: number
+          amount_justification?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string
+          due_date?: string | null
+          id?: string
+          issue_date?: string
+          kind?: Database["public"]["Enums"]["fine_kind"]
+          organization_id?: string | null
+          owner_id?: string | null
+          payment_date?: string | null
+          status?: Database["public"]["Enums"]["fine_status"]
+          storage_days?: number | null
+          tow_id?: string | null
+          transaction_id?: string | null
+          vehicle_id?: string
+          violation_code_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fines_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fines_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fines_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fines_tow_id_fkey"
+            columns: ["tow_id"]
+            isOneToOne: false
+            referencedRelation: "tows"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fines_vehicle_id_fkey"
+            columns: ["vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "vehicles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fines_violation_code_id_fkey"
+            columns: ["violation_code_id"]
+            isOneToOne: false
+            referencedRelation: "violation_codes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      impound_lot_storage_rates: {
+        Row: {
+          body_type: Database["public"]["Enums"]["vehicle_body_type"] | null
+          created_at: string
+          daily_rate: number
+          id: string
+          impound_lot_id: string
+        }
+        Insert: {
+          body_type?: Database["public"]["Enums"]["vehicle_body_type"] | null
+          created_at?: string
+          daily_rate: number
+          id?: string
+          impound_lot_id: string
+        }
+        Update: {
+          body_type?: Database["public"]["Enums"]["vehicle_body_type"] | null
+          created_at?: string
+          daily_rate?: number
+          id?: string
+          impound_lot_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "impound_lot_storage_rates_impound_lot_id_fkey"
+            columns: ["impound_lot_id"]
+            isOneToOne: false
+            referencedRelation: "impound_lots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      impound_lots: {
+        Row: {
+          address: string
+          capacity: number
+          created_at: string
+          hours: string
+          id: string
+          latitude: number | null
+          longitude: number | null
+          name: string
+          organization_id: string
+        }
+        Insert: {
+          address: string
+          capacity: number
+          created_at?: string
+          hours: string
+          id?: string
+          latitude?: number | null
+          longitude?: number | null
+          name: string
+          organization_id: string
+        }
+        Update: {
+          address?: string
+          capacity?: number
+          created_at?: string
+          hours?: string
+          id?: string
+          latitude?: number | null
+          longitude?: number | null
+          name?: string
+          organization_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "impound_lots_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invitations: {
+        Row: {
+          code: string
+          created_at: string
+          created_by: string | null
+          expires_at: string | null
+          organization_id: string
+          role: Database["public"]["Enums"]["user_role"]
+          used_at: string | null
+          used_by: string | null
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          organization_id: string
+          role: Database["public"]["Enums"]["user_role"]
+          used_at?: string | null
+          used_by?: string | null
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          organization_id?: string
+          role?: Database["public"]["Enums"]["user_role"]
+          used_at?: string | null
+          used_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invitations_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invitations_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invitations_used_by_fkey"
+            columns: ["used_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          created_at: string
+          id: string
+          is_read: boolean
+          message: string
+          related_id: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_read?: boolean
+          message: string
+          related_id?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_read?: boolean
+          message?: string
+          related_id?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          type: Database["public"]["Enums"]["organization_type"]
+          unpaid_fine_policy: Database["public"]["Enums"]["unpaid_fine_policy"]
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          type: Database["public"]["Enums"]["organization_type"]
+          unpaid_fine_policy?: Database["public"]["Enums"]["unpaid_fine_policy"]
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          type?: Database["public"]["Enums"]["organization_type"]
+          unpaid_fine_policy?: Database["public"]["Enums"]["unpaid_fine_policy"]
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          approval_status: Database["public"]["Enums"]["approval_status"]
+          created_at: string
+          deactivated_at: string | null
+          email: string
+          full_name: string | null
+          id: string
+          is_active: boolean
+          notify_complaints: boolean
+          notify_fines: boolean
+          notify_tows: boolean
+          organization_id: string | null
+          phone: string | null
+          requested_role: Database["public"]["Enums"]["user_role"] | null
+          role: Database["public"]["Enums"]["user_role"]
+        }
+        Insert: {
+          approval_status?: Database["public"]["Enums"]["approval_status"]
+          created_at?: string
+          deactivated_at?: string | null
+          email: string
+          full_name?: string | null
+          id: string
+          is_active?: boolean
+          notify_complaints?: boolean
+          notify_fines?: boolean
+          notify_tows?: boolean
+          organization_id?: string | null
+          phone?: string | null
+          requested_role?: Database["public"]["Enums"]["user_role"] | null
+          role?: Database["public"]["Enums"]["user_role"]
+        }
+        Update: {
+          approval_status?: Database["public"]["Enums"]["approval_status"]
+          created_at?: string
+          deactivated_at?: string | null
+          email?: string
+          full_name?: string | null
+          id?: string
+          is_active?: boolean
+          notify_complaints?: boolean
+          notify_fines?: boolean
+          notify_tows?: boolean
+          organization_id?: string | null
+          phone?: string | null
+          requested_role?: Database["public"]["Enums"]["user_role"] | null
+          role?: Database["public"]["Enums"]["user_role"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tow_releases: {
+        Row: {
+          created_at: string
+          id: string
+          id_number_last4: string
+          id_type: string
+          released_by: string | null
+          released_by_name: string | null
+          released_to: string
+          tow_id: string
+          verified_against: Database["public"]["Enums"]["tow_release_verification"]
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          id_number_last4: string
+          id_type: string
+          released_by?: string | null
+          released_by_name?: string | null
+          released_to: string
+          tow_id: string
+          verified_against: Database["public"]["Enums"]["tow_release_verification"]
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          id_number_last4?: string
+          id_type?: string
+          released_by?: string | null
+          released_by_name?: string | null
+          released_to?: string
+          tow_id?: string
+          verified_against?: Database["public"]["Enums"]["tow_release_verification"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tow_releases_released_by_fkey"
+            columns: ["released_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tow_releases_tow_id_fkey"
+            columns: ["tow_id"]
+            isOneToOne: true
+            referencedRelation: "tows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tow_status_history: {
+        Row: {
+          changed_by: string | null
+          changed_by_name: string | null
+          created_at: string
+          from_status: Database["public"]["Enums"]["tow_status"] | null
+          id: string
+          to_status: Database["public"]["Enums"]["tow_status"]
+          tow_id: string
+        }
+        Insert: {
+          changed_by?: string | null
+          changed_by_name?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["tow_status"] | null
+          id?: string
+          to_status: Database["public"]["Enums"]["tow_status"]
+          tow_id: string
+        }
+        Update: {
+          changed_by?: string | null
+          changed_by_name?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["tow_status"] | null
+          id?: string
+          to_status?: Database["public"]["Enums"]["tow_status"]
+          tow_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tow_status_history_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tow_status_history_tow_id_fkey"
+            columns: ["tow_id"]
+            isOneToOne: false
+            referencedRelation: "tows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tows: {
+        Row: {
+          assigned_to: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          impound_lot_id: string | null
+          impounded_at: string | null
+          latitude: number | null
+          license_plate: string
+          location: string
+          longitude: number | null
+          lot_space: string | null
+          notes: string | null
+          organization_id: string | null
+          owner_id: string | null
+          reason: string | null
+          reason_code_id: string | null
+          request_status: Database["public"]["Enums"]["tow_request_status"] | null
+          status: Database["public"]["Enums"]["tow_status"]
+          tow_company_id: string | null
+          tow_date: string
+          vehicle_id: string | null
+        }
+        Insert: {
+          assigned_to?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          impound_lot_id?: string | null
+          impounded_at?: string | null
+          latitude?: number | null
+          license_plate: string
+          location: string
+          longitude?: number | null
+          lot_space?: string | null
+          notes?: string | null
+          organization_id?: string | null
+          owner_id?: string | null
+          reason?: string | null
+          reason_code_id?: string | null
+          request_status?: Database["public"]["Enums"]["tow_request_status"] | null
+          status?: Database["public"]["Enums"]["tow_status"]
+          tow_company_id?: string | null
+          tow_date?: string
+          vehicle_id?: string | null
+        }
+        Update: {
+          assigned_to?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          impound_lot_id?: string | null
+          impounded_at?: string | null
+          latitude?: number | null
+          license_plate?: string
+          location?: string
+          longitude?: number | null
+          lot_space?: string | null
+          notes?: string | null
+          organization_id?: string | null
+          owner_id?: string | null
+          reason?: string | null
+          reason_code_id?: string | null
+          request_status?: Database["public"]["Enums"]["tow_request_status"] | null
+          status?: Database["public"]["Enums"]["tow_status"]
+          tow_company_id?: string | null
+          tow_date?: string
+          vehicle_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tows_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tows_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tows_impound_lot_id_fkey"
+            columns: ["impound_lot_id"]
+            isOneToOne: false
+            referencedRelation: "impound_lots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tows_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tows_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tows_reason_code_id_fkey"
+            columns: ["reason_code_id"]
+            isOneToOne: false
+            referencedRelation: "violation_codes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tows_tow_company_id_fkey"
+            columns: ["tow_company_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tows_vehicle_id_fkey"
+            columns: ["vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "vehicles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      vehicle_claims: {
+        Row: {
+          claimant_id: string
+          claimant_note: string | null
+          created_at: string
+          document_path: string
+          id: string
+          license_plate: string
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: Database["public"]["Enums"]["vehicle_claim_status"]
+          vehicle_id: string
+        }
+        Insert: {
+          claimant_id: string
+          claimant_note?: string | null
+          created_at?: string
+          document_path: string
+          id?: string
+          license_plate: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["vehicle_claim_status"]
+          vehicle_id: string
+        }
+        Update: {
+          claimant_id?: string
+          claimant_note?: string | null
+          created_at?: string
+          document_path?: string
+          id?: string
+          license_plate?: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["vehicle_claim_status"]
+          vehicle_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vehicle_claims_claimant_id_fkey"
+            columns: ["claimant_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vehicle_claims_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vehicle_claims_vehicle_id_fkey"
+            columns: ["vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "vehicles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      vehicle_photos: {
+        Row: {
+          created_at: string
+          id: string
+          storage_path: string
+          uploaded_by: string | null
+          vehicle_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          storage_path: string
+          uploaded_by?: string | null
+          vehicle_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          storage_path?: string
+          uploaded_by?: string | null
+          vehicle_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vehicle_photos_uploaded_by_fkey"
+            columns: ["uploaded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vehicle_photos_vehicle_id_fkey"
+            columns: ["vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "vehicles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      vehicle_transfers: {
+        Row: {
+          created_at: string
+          from_owner_id: string
+          id: string
+          recipient_email: string
+          responded_at: string | null
+          status: Database["public"]["Enums"]["vehicle_transfer_status"]
+          to_owner_id: string | null
+          vehicle_id: string
+        }
+        Insert: {
+          created_at?: string
+          from_owner_id: string
+          id?: string
+          recipient_email: string
+          responded_at?: string | null
+          status?: Database["public"]["Enums"]["vehicle_transfer_status"]
+          to_owner_id?: string | null
+          vehicle_id: string
+        }
+        Update: {
+          created_at?: string
+          from_owner_id?: string
+          id?: string
+          recipient_email?: string
+          responded_at?: string | null
+          status?: Database["public"]["Enums"]["vehicle_transfer_status"]
+          to_owner_id?: string | null
+          vehicle_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vehicle_transfers_from_owner_id_fkey"
+            columns: ["from_owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vehicle_transfers_to_owner_id_fkey"
+            columns: ["to_owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "vehicle_transfers_vehicle_id_fkey"
+            columns: ["vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "vehicles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      vehicles: {
+        Row: {
+          archived_at: string | null
+          body_type: Database["public"]["Enums"]["vehicle_body_type"]
+          color: string
+          created_at: string
+          id: string
+          license_plate: string
+          make: string | null
+          model: string
+          owner_id: string | null
+          plate_jurisdiction: string | null
+          registered_name: string | null
+          vin: string | null
+          year: number | null
+        }
+        Insert: {
+          archived_at?: string | null
+          body_type?: Database["public"]["Enums"]["vehicle_body_type"]
+          color: string
+          created_at?: string
+          id?: string
+          license_plate: string
+          make?: string | null
+          model: string
+          owner_id?: string | null
+          plate_jurisdiction?: string | null
+          registered_name?: string | null
+          vin?: string | null
+          year?: number | null
+        }
+        Update: {
+          archived_at?: string | null
+          body_type?: Database["public"]["Enums"]["vehicle_body_type"]
+          color?: string
+          created_at?: string
+          id?: string
+          license_plate?: string
+          make?: string | null
+          model?: string
+          owner_id?: string | null
+          plate_jurisdiction?: string | null
+          registered_name?: string | null
+          vin?: string | null
+          year?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vehicles_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      violation_code_amounts: {
+        Row: {
+          amount: number
+          body_type: Database["public"]["Enums"]["vehicle_body_type"]
+          id: string
+          violation_code_id: string
+        }
+        Insert: {
+          amount: number
+          body_type: Database["public"]["Enums"]["vehicle_body_type"]
+          id?: string
+          violation_code_id: string
+        }
+        Update: {
+          amount?: number
+          body_type?: Database["public"]["Enums"]["vehicle_body_type"]
+          id?: string
+          violation_code_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "violation_code_amounts_violation_code_id_fkey"
+            columns: ["violation_code_id"]
+            isOneToOne: false
+            referencedRelation: "violation_codes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      violation_codes: {
+        Row: {
+          code: string
+          created_at: string
+          default_amount: number
+          id: string
+          is_active: boolean
+          statute: string | null
+          title: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          default_amount: number
+          id?: string
+          is_active?: boolean
+          statute?: string | null
+          title: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          default_amount?: number
+          id?: string
+          is_active?: boolean
+          statute?: string | null
+          title?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      admin_review_role_request: {
+        Args: {
+          target_id: string
+          approve: boolean
+          new_organization_id?: string
+        }
+        Returns: undefined
+      }
+      admin_set_active: {
+        Args: {
+          target_id: string
+          active: boolean
+        }
+        Returns: undefined
+      }
+      admin_set_role: {
+        Args: {
+          target_id: string
+          new_role: Database["public"]["Enums"]["user_role"]
+        }
+        Returns: undefined
+      }
+      admin_update_profile: {
+        Args: {
+          target_id: string
+          new_full_name: string
+          new_phone: string
+          new_organization_id: string | null
+        }
+        Returns: undefined
+      }
+      archive_vehicle: {
+        Args: {
+          target_vehicle_id: string
+        }
+        Returns: undefined
+      }
+      can_review_vehicle_claim: {
+        Args: {
+          target_vehicle_id: string
+        }
+        Returns: boolean
+      }
+      cancel_vehicle_transfer: {
+        Args: {
+          target_transfer_id: string
+        }
+        Returns: undefined
+      }
+      check_invite_code: {
+        Args: {
+          invite_code: string
+        }
+        Returns: {
+          role: Database["public"]["Enums"]["user_role"]
+          organization: string
+        }[]
+      }
+      current_user_organization: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      current_user_role: {
+        Args: Record<PropertyKey, never>
+        Returns: Database["public"]["Enums"]["user_role"]
+      }
+      find_claimable_vehicle: {
+        Args: {
+          plate_number: string
+          jurisdiction: string
+        }
+        Returns: {
+          id: string
+          license_plate: string
+          plate_jurisdiction: string | null
+          make: string | null
+          model: string
+          color: string
+        }[]
+      }
+      has_blocking_fines: {
+        Args: {
+          target_vehicle_id: string
+        }
+        Returns: boolean
+      }
+      has_vehicle_history: {
+        Args: {
+          target_vehicle_id: string
+        }
+        Returns: boolean
+      }
+      is_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      in_my_organization: {
+        Args: {
+          target_organization_id: string
+        }
+        Returns: boolean
+      }
+      is_staff_or_officer: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      list_vehicle_transfers: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          id: string
+          vehicle_id: string
+          license_plate: string
+          make: string | null
+          model: string
+          color: string
+          status: Database["public"]["Enums"]["vehicle_transfer_status"]
+          outgoing: boolean
+          other_party_name: string | null
+          other_party_email: string | null
+          created_at: string
+          responded_at: string | null
+        }[]
+      }
+      normalize_person_name: {
+        Args: {
+          name: string
+        }
+        Returns: string
+      }
+      normalize_plate: {
+        Args: {
+          plate: string
+        }
+        Returns: string
+      }
+      normalize_plate_jurisdiction: {
+        Args: {
+          jurisdiction: string
+        }
+        Returns: string
+      }
+      owns_vehicle: {
+        Args: {
+          target_vehicle_id: string
+        }
+        Returns: boolean
+      }
+      owns_vehicle_folder: {
+        Args: {
+          folder: string
+        }
+        Returns: boolean
+      }
+      release_tow: {
+        Args: {
+          target_tow_id: string
+          id_name: string
+          id_type: string
+          id_number: string
+        }
+        Returns: string
+      }
+      respond_to_vehicle_transfer: {
+        Args: {
+          target_transfer_id: string
+          accept: boolean
+        }
+        Returns: undefined
+      }
+      restore_vehicle: {
+        Args: {
+          target_vehicle_id: string
+        }
+        Returns: undefined
+      }
+      review_vehicle_claim: {
+        Args: {
+          target_claim_id: string
+          approve: boolean
+          note: string
+        }
+        Returns: undefined
+      }
+      start_vehicle_transfer: {
+        Args: {
+          target_vehicle_id: string
+          recipient_email: string
+        }
+        Returns: string
+      }
+      storage_daily_rate: {
+        Args: {
+          target_lot_id: string
+          target_body_type: Database["public"]["Enums"]["vehicle_body_type"]
+        }
+        Returns: number
+      }
+      submit_vehicle_claim: {
+        Args: {
+          plate_number: string
+          jurisdiction: string
+          document: string
+          note: string
+        }
+        Returns: string
+      }
+      tow_status_transition_allowed: {
+        Args: {
+          from_status: Database["public"]["Enums"]["tow_status"]
+          to_status: Database["public"]["Enums"]["tow_status"]
+        }
+        Returns: boolean
+      }
+      tow_storage_charges: {
+        Args: {
+          target_tow_id: string
+        }
+        Returns: {
+          daily_rate: number
+          storage_days: number
+          accrued: number
+          amount_due: number
+        }[]
+      }
+      tow_unpaid_fines: {
+        Args: {
+          target_tow_id: string
+        }
+        Returns: {
+          fine_count: number
+          amount_due: number
+        }[]
+      }
+      violation_code_report: {
+        Args: {
+          since: string
+        }
+        Returns: {
+          violation_code_id: string
+          code: string
+          title: string
+          tow_count: number
+          fine_count: number
+          fine_total: number
+        }[]
+      }
+      violation_fine_amount: {
+        Args: {
+          target_code_id: string
+          target_body_type: Database["public"]["Enums"]["vehicle_body_type"]
+        }
+        Returns: number
+      }
+    }
+    Enums: {
+      approval_status: "approved" | "pending" | "rejected"
+      complaint_status: "pending" | "in_review" | "in-progress" | "resolved" | "rejected"
+      complaint_type: "general" | "vehicle" | "fine" | "tow"
+      fine_kind: "violation" | "storage"
+      fine_status: "unpaid" | "paid" | "overdue"
+      organization_type: "tow_company" | "police_department"
+      tow_release_verification: "owner" | "registered_name"
+      tow_request_status: "new" | "accepted" | "rejected" | "completed"
+      tow_status: "requested" | "dispatched" | "en_route" | "hooked" | "in_transit" | "impounded" | "released" | "auctioned" | "cancelled"
+      unpaid_fine_policy: "block_transfer" | "move_with_vehicle"
+      user_role: "owner" | "staff" | "officer" | "admin"
+      vehicle_body_type: "car" | "motorcycle" | "truck" | "trailer"
+      vehicle_claim_status: "pending" | "approved" | "rejected"
+      vehicle_transfer_status: "pending" | "accepted" | "declined" | "cancelled"
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database["public"]
+
+export type Tables<TableName extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][TableName]["Row"]
+
+export type TablesInsert<TableName extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][TableName]["Insert"]
+
+export type TablesUpdate<TableName extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][TableName]["Update"]
+
+export type Enums<EnumName extends keyof PublicSchema["Enums"]> =
+  PublicSchema["Enums"][EnumName]
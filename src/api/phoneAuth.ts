@@ -0,0 +1,45 @@
+import { supabase } from './supabase';
+
+// SMS code login. The phone number has to be linked to the account first
+// (from the profile screen), since a code login never creates an account.
+// Locally no SMS is sent for the numbers listed under [auth.sms.test_otp]
+// in supabase/config.toml.
+
+// Supabase expects E.164 numbers; spaces, dashes and brackets are dropped
+export const normalizePhone = (phone: string) => phone.replace(/[^\d+]/g, '');
+
+export const isValidPhone = (phone: string) => /^\+?\d{8,15}$/.test(normalizePhone(phone));
+
+export const sendLoginCode = async (phone: string) => {
+  const { error } = await supabase.auth.signInWithOtp({
+    phone: normalizePhone(phone),
+    options: { shouldCreateUser: false },
+  });
+  if (error) throw error;
+};
+
+export const verifyLoginCode = async (phone: string, code: string) => {
+  const { data, error } = await supabase.auth.verifyOtp({
+    phone: normalizePhone(phone),
+    token: code.trim(),
+    type: 'sms',
+  });
+  if (error) throw error;
+  return data.user;
+};
+
+// Linking a number sends a code to it, and the number is only saved on the
+// account once that code has been entered
+export const requestPhoneLink = async (phone: string) => {
+  const { error } = await supabase.auth.updateUser({ phone: normalizePhone(phone) });
+  if (error) throw error;
+};
+
+export const verifyPhoneLink = async (phone: string, code: string) => {
+  const { error } = await supabase.auth.verifyOtp({
+    phone: normalizePhone(phone),
+    token: code.trim(),
+    type: 'phone_change',
+  });
+  if (error) throw error;
+};
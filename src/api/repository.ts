@@ -0,0 +1,1341 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from './database.types';
+import { supabase } from './supabase';
+import {
+  AuditLogWithProfiles,
+  ClaimableVehicle,
+  Complaint,
+  ComplaintStatus,
+  ComplaintWithRelations,
+  Fine,
+  FineStatus,
+  FineWithVehicle,
+  ImpoundLot,
+  InviteDetails,
+  NewComplaint,
+  NewFine,
+  NewNotification,
+  NewTow,
+  NewTowRelease,
+  NewVehicle,
+  NotificationPreferences,
+  Organization,
+  OrganizationType,
+  OwnProfileUpdate,
+  ProfileContact,
+  ProfileDetailsUpdate,
+  ProfileWithOrganization,
+  SessionProfile,
+  Tow,
+  TowRelease,
+  TowRequestStatus,
+  TowStatus,
+  TowStatusHistoryEntry,
+  TowStorageCharges,
+  TowUnpaidFines,
+  TowWithVehicle,
+  UserNotification,
+  UserRole,
+  Vehicle,
+  VehicleBodyType,
+  VehicleClaim,
+  VehicleClaimStatus,
+  VehicleClaimWithDetails,
+  VehiclePhoto,
+  VehiclePhotoWithUrl,
+  VehicleSummary,
+  VehicleTransferWithDetails,
+  ViolationCode,
+  ViolationCodeInput,
+  ViolationCodeReportRow,
+  ViolationCodeWithAmounts,
+} from './types';
+
+const VEHICLE_SUMMARY_COLUMNS = 'id, license_plate, make, model, color, registered_name, owner_id';
+const PROFILE_CONTACT_COLUMNS = 'id, email, full_name, phone';
+const PROFILE_WITH_ORGANIZATION_COLUMNS = '*, organization:organizations(id, name, type)';
+// Private storage bucket holding ownership claim documents
+const VEHICLE_DOCUMENTS_BUCKET = 'vehicle-documents';
+// Private storage bucket holding vehicle photos, in a folder per vehicle
+const VEHICLE_PHOTOS_BUCKET = 'vehicle-photos';
+
+// Embedded vehicles are exposed as `vehicle` on the joined shapes
+const withVehicle = <T>(
+  row: T & { vehicles: VehicleSummary | null }
+): T & { vehicle: VehicleSummary | null } => {
+  const { vehicles, ...rest } = row;
+  return { ...(rest as T), vehicle: vehicles };
+};
+
+// Normalize user-entered plates the same way everywhere. Matches the
+// normalize_plate database function, which drops spaces and dashes too.
+export const normalizePlate = (plate: string) => plate.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// Matches normalize_plate_jurisdiction. Plates are only unique together with
+// the state or province that issued them.
+export const normalizeJurisdiction = (jurisdiction?: string | null) =>
+  jurisdiction?.trim().toUpperCase() || null;
+
+// Builds the data-access functions on top of a Supabase client. The app uses
+// the shared instance exported below; tests can pass a fake client instead.
+export const createRepository = (client: SupabaseClient<Database>) => {
+  // Profiles
+
+  const getSessionProfile = async (userId: string): Promise<SessionProfile | null> => {
+    const { data, error } = await client
+      .from('profiles')
+      .select('role, approval_status, requested_role, full_name, organization:organizations(id, name, type)')
+      .eq('id', userId)
+      .single();
+
+    if (error) throw error;
+    return data;
+  };
+
+  const getProfileContact = async (userId: string): Promise<ProfileContact | null> => {
+    const { data, error } = await client
+      .from('profiles')
+      .select(PROFILE_CONTACT_COLUMNS)
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  };
+
+  const listProfileContacts = async (userIds: string[]): Promise<ProfileContact[]> => {
+    if (userIds.length === 0) return [];
+
+    const { data, error } = await client
+      .from('profiles')
+      .select(PROFILE_CONTACT_COLUMNS)
+      .in('id', userIds);
+
+    if (error) throw error;
+    return data || [];
+  };
+
+  const updateOwnProfile = async (userId: string, details: OwnProfileUpdate) => {
+    const { error } = await client
+      .from('profiles')
+      .update(details)
+      .eq('id', userId);
+
+    if (error) throw error;
+  };
+
+  const updateNotificationPreferences = async (userId: string, preferences: NotificationPreferences) => {
+    const { error } = await client
+      .from('profiles')
+      .update(preferences)
+      .eq('id', userId);
+
+    if (error) throw error;
+  };
+
+  // Profiles are created by the on_auth_user_created trigger; signup only
+  // checks an invite code up front so the form can report a bad one
+  const checkInviteCode = async (code: string): Promise<InviteDetails | null> => {
+    const { data, error } = await client.rpc('check_invite_code', { invite_code: code });
+
+    if (error) throw error;
+    return data?.[0] || null;
+  };
+
+  // Organizations
+
+  const listOrganizations = async (type?: OrganizationType): Promise<Organization[]> => {
+    let query = client.from('organizations').select('*');
+
+    if (type) {
+      query = query.eq('type', type);
+    }
+
+    const { data, error } = await query.order('name');
+
+    if (error) throw error;
+    return data || [];
+  };
+
+  // User management. Admins read profiles directly; every change goes through
+  // a database function that also writes the audit log.
+
+  const listProfiles = async (
+    filters: { search?: string; pendingOnly?: boolean; inactiveOnly?: boolean } = {}
+  ): Promise<ProfileWithOrganization[]> => {
+    let query = client.from('profiles').select(PROFILE_WITH_ORGANIZATION_COLUMNS);
+
+    if (filters.search) {
+      const term = filters.search.replace(/[%,()]/g, ' ').trim();
+
+      // Organization names live in their own table, so match them first
+      const { data: organizations, error: organizationError } = await client
+        .from('organizations')
+        .select('id')
+        .ilike('name', `%${term}%`);
+
+      if (organizationError) throw organizationError;
+
+      const conditions = [`full_name.ilike.%${term}%`, `email.ilike.%${term}%`];
+      if (organizations && organizations.length > 0) {
+        conditions.push(`organization_id.in.(${organizations.map(org => org.id).join(',')})`);
+      }
+      query = query.or(conditions.join(','));
+    }
+    if (filters.pendingOnly) {
+      query = query.eq('approval_status', 'pending');
+    }
+    if (filters.inactiveOnly) {
+      query = query.eq('is_active', false);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  };
+
+  const getProfile = async (userId: string): Promise<ProfileWithOrganization | null> => {
+    const { data, error } = await client
+      .from('profiles')
+      .select(PROFILE_WITH_ORGANIZATION_COLUMNS)
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  };
+
+  // Approving needs the organization the user works for
+  const reviewRoleRequest = async (userId: string, approve: boolean, organizationId?: string | null) => {
+    const { error } = await client.rpc('admin_review_role_request', {
+      target_id: userId,
+      approve,
+      new_organization_id: organizationId || undefined,
+    });
+    if (error) throw error;
+  };
+
+  const changeUserRole = async (userId: string, role: UserRole) => {
+    const { error } = await client.rpc('admin_set_role', { target_id: userId, new_role: role });
+    if (error) throw error;
+  };
+
+  const setUserActive = async (userId: string, active: boolean) => {
+    const { error } = await client.rpc('admin_set_active', { target_id: userId, active });
+    if (error) throw error;
+  };
+
+  const updateUserProfile = async (userId: string, details: ProfileDetailsUpdate) => {
+    const { error } = await client.rpc('admin_update_profile', {
+      target_id: userId,
+      new_full_name: details.full_name,
+      new_phone: details.phone,
+      new_organization_id: details.organization_id,
+    });
+    if (error) throw error;
+  };
+
+  const listAuditLog = async (
+    filters: { targetId?: string; limit?: number } = {}
+  ): Promise<AuditLogWithProfiles[]> => {
+    let query = client
+      .from('audit_log')
+      .select(`
+        *,
+        actor:profiles!audit_log_actor_id_fkey(id, email, full_name),
+        target:profiles!audit_log_target_id_fkey(id, email, full_name)
+      `);
+
+    if (filters.targetId) {
+      query = query.eq('target_id', filters.targetId);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(filters.limit || 50);
+
+    if (error) throw error;
+    return data || [];
+  };
+
+  // Vehicles
+
+  // Exact match first, then fall back to a partial, case-insensitive match.
+  // With a jurisdiction only plates issued there match; without one, the
+  // same plate from every jurisdiction is returned.
+  const findVehicleByPlate = async (plate: string, jurisdiction?: string | null): Promise<Vehicle[]> => {
+    const formattedPlate = normalizePlate(plate);
+    const formattedJurisdiction = normalizeJurisdiction(jurisdiction);
+
+    let exactQuery = client
+      .from('vehicles')
+      .select('*')
+      .eq('license_plate', formattedPlate);
+
+    if (formattedJurisdiction) {
+      exactQuery = exactQuery.eq('plate_jurisdiction', formattedJurisdiction);
+    }
+
+    const { data: exactMatch, error: exactError } = await exactQuery;
+
+    if (exactError) throw exactError;
+    if (exactMatch && exactMatch.length > 0) return exactMatch;
+
+    let partialQuery = client
+      .from('vehicles')
+      .select('*')
+      .ilike('license_plate', `%${formattedPlate}%`);
+
+    if (formattedJurisdiction) {
+      partialQuery = partialQuery.eq('plate_jurisdiction', formattedJurisdiction);
+    }
+
+    const { data: partialMatch, error: partialError } = await partialQuery;
+
+    if (partialError) throw partialError;
+    return partialMatch || [];
+  };
+
+  const getVehicle = async (id: string): Promise<Vehicle> => {
+    const { data, error } = await client
+      .from('vehicles')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+    return data;
+  };
+
+  const getOwnerVehicle = async (id: string, ownerId: string): Promise<Vehicle> => {
+    const { data, error } = await client
+      .from('vehicles')
+      .select('*')
+      .eq('id', id)
+      .eq('owner_id', ownerId)
+      .single();
+
+    if (error) throw error;
+    return data;
+  };
+
+  // Archived vehicles stay on record for their tows and fines, but drop out
+  // of the owner's list
+  const listOwnerVehicles = async (ownerId: string): Promise<Vehicle[]> => {
+    const { data, error } = await client
+      .from('vehicles')
+      .select('*')
+      .eq('owner_id', ownerId)
+      .is('archived_at', null);
+
+    if (error) throw error;
+    return data || [];
+  };
+
+  const countVehicles = async (ownerId?: string): Promise<number> => {
+    let query = client.from('vehicles').select('id', { count: 'exact', head: true });
+
+    if (ownerId) {
+      query = query.eq('owner_id', ownerId).is('archived_at', null);
+    }
+
+    const { count, error } = await query;
+    if (error) throw error;
+    return count || 0;
+  };
+
+  const getOwnerVehicleByPlate = async (
+    plate: string,
+    jurisdiction: string | null,
+    ownerId: string
+  ): Promise<Vehicle | null> => {
+    const formattedJurisdiction = normalizeJurisdiction(jurisdiction);
+    let query = client
+      .from('vehicles')
+      .select('*')
+      .eq('license_plate', normalizePlate(plate))
+      .eq('owner_id', ownerId);
+
+    query = formattedJurisdiction
+      ? query.eq('plate_jurisdiction', formattedJurisdiction)
+      : query.is('plate_jurisdiction', null);
+
+    const { data, error } = await query.maybeSingle();
+
+    if (error) throw error;
+    return data;
+  };
+
+  const createVehicle = async (vehicle: NewVehicle): Promise<Vehicle> => {
+    const { data, error } = await client
+      .from('vehicles')
+      .insert({ ...vehicle, license_plate: normalizePlate(vehicle.license_plate) })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  };
+
+  // Refused while the vehicle has unpaid fines, an active tow or a pending
+  // transfer
+  const archiveVehicle = async (id: string) => {
+    const { error } = await client.rpc('archive_vehicle', { target_vehicle_id: id });
+    if (error) throw error;
+  };
+
+  const restoreVehicle = async (id: string) => {
+    const { error } = await client.rpc('restore_vehicle', { target_vehicle_id: id });
+    if (error) throw error;
+  };
+
+  // Vehicle photos
+
+  const listVehiclePhotos = async (vehicleId: string): Promise<VehiclePhotoWithUrl[]> => {
+    const { data, error } = await client
+      .from('vehicle_photos')
+      .select('*')
+      .eq('vehicle_id', vehicleId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    if (!data || data.length === 0) return [];
+
+    const { data: urls, error: urlError } = await client.storage
+      .from(VEHICLE_PHOTOS_BUCKET)
+      .createSignedUrls(data.map(photo => photo.storage_path), 60 * 60);
+
+    if (urlError) throw urlError;
+    return data.map((photo, index) => ({ ...photo, url: urls[index]?.signedUrl || null }));
+  };
+
+  const uploadVehiclePhoto = async (
+    vehicleId: string,
+    userId: string,
+    uri: string,
+    contentType: string
+  ): Promise<VehiclePhoto> => {
+    const extension = contentType.split('/')[1] || 'jpg';
+    const path = `${vehicleId}/${Date.now()}.${extension}`;
+    const file = await fetch(uri).then(response => response.arrayBuffer());
+
+    const { error: uploadError } = await client.storage
+      .from(VEHICLE_PHOTOS_BUCKET)
+      .upload(path, file, { contentType });
+
+    if (uploadError) throw uploadError;
+
+    const { data, error } = await client
+      .from('vehicle_photos')
+      .insert({ vehicle_id: vehicleId, storage_path: path, uploaded_by: userId })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  };
+
+  const deleteVehiclePhoto = async (photo: VehiclePhoto) => {
+    const { error } = await client.from('vehicle_photos').delete().eq('id', photo.id);
+    if (error) throw error;
+
+    const { error: storageError } = await client.storage
+      .from(VEHICLE_PHOTOS_BUCKET)
+      .remove([photo.storage_path]);
+
+    if (storageError) throw storageError;
+  };
+
+  // Vehicle claims
+
+  const findClaimableVehicle = async (plate: string, jurisdiction: string | null): Promise<ClaimableVehicle | null> => {
+    const { data, error } = await client.rpc('find_claimable_vehicle', {
+      plate_number: plate,
+      jurisdiction: jurisdiction || '',
+    });
+
+    if (error) throw error;
+    return data?.[0] || null;
+  };
+
+  // Uploads a registration document into the user's own folder and returns
+  // its storage path for submitVehicleClaim
+  const uploadVehicleDocument = async (userId: string, uri: string, contentType: string): Promise<string> => {
+    const extension = contentType.split('/')[1] || 'jpg';
+    const path = `${userId}/${Date.now()}.${extension}`;
+    const file = await fetch(uri).then(response => response.arrayBuffer());
+
+    const { error } = await client.storage
+      .from(VEHICLE_DOCUMENTS_BUCKET)
+      .upload(path, file, { contentType });
+
+    if (error) throw error;
+    return path;
+  };
+
+  // Short-lived link for reviewers to open a claim's document
+  const getVehicleDocumentUrl = async (path: string): Promise<string> => {
+    const { data, error } = await client.storage
+      .from(VEHICLE_DOCUMENTS_BUCKET)
+      .createSignedUrl(path, 60 * 10);
+
+    if (error) throw error;
+    return data.signedUrl;
+  };
+
+  const submitVehicleClaim = async (
+    plate: string,
+    jurisdiction: string | null,
+    documentPath: string,
+    note: string
+  ): Promise<string> => {
+    const { data, error } = await client.rpc('submit_vehicle_claim', {
+      plate_number: plate,
+      jurisdiction: jurisdiction || '',
+      document: documentPath,
+      note,
+    });
+
+    if (error) throw error;
+    return data;
+  };
+
+  const listOwnVehicleClaims = async (userId: string): Promise<VehicleClaim[]> => {
+    const { data, error } = await client
+      .from('vehicle_claims')
+      .select('*')
+      .eq('claimant_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  };
+
+  const listVehicleClaims = async (status?: VehicleClaimStatus): Promise<VehicleClaimWithDetails[]> => {
+    let query = client
+      .from('vehicle_claims')
+      .select(`
+        *,
+        vehicles(${VEHICLE_SUMMARY_COLUMNS}),
+        claimant:profiles!vehicle_claims_claimant_id_fkey(${PROFILE_CONTACT_COLUMNS})
+      `);
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(row => withVehicle(row));
+  };
+
+  const reviewVehicleClaim = async (claimId: string, approve: boolean, note: string) => {
+    const { error } = await client.rpc('review_vehicle_claim', {
+      target_claim_id: claimId,
+      approve,
+      note,
+    });
+    if (error) throw error;
+  };
+
+  // Vehicle transfers
+
+  const listVehicleTransfers = async (): Promise<VehicleTransferWithDetails[]> => {
+    const { data, error } = await client.rpc('list_vehicle_transfers');
+
+    if (error) throw error;
+    return data || [];
+  };
+
+  // Starts a transfer to the owner account with this email. The recipient
+  // becomes the owner once they accept. Succeeds whether or not an account
+  // uses the email, so it doesn't reveal who has one.
+  const startVehicleTransfer = async (vehicleId: string, recipientEmail: string): Promise<string> => {
+    const { data, error } = await client.rpc('start_vehicle_transfer', {
+      target_vehicle_id: vehicleId,
+      recipient_email: recipientEmail,
+    });
+
+    if (error) throw error;
+    return data;
+  };
+
+  const respondToVehicleTransfer = async (transferId: string, accept: boolean) => {
+    const { error } = await client.rpc('respond_to_vehicle_transfer', {
+      target_transfer_id: transferId,
+      accept,
+    });
+    if (error) throw error;
+  };
+
+  const cancelVehicleTransfer = async (transferId: string) => {
+    const { error } = await client.rpc('cancel_vehicle_transfer', { target_transfer_id: transferId });
+    if (error) throw error;
+  };
+
+  // Tows
+
+  const findTowsByPlate = async (plate: string): Promise<Tow[]> => {
+    const formattedPlate = normalizePlate(plate);
+
+    const { data: exactMatch, error: exactError } = await client
+      .from('tows')
+      .select('*')
+      .eq('license_plate', formattedPlate);
+
+    if (exactError) throw exactError;
+    if (exactMatch && exactMatch.length > 0) return exactMatch;
+
+    const { data: partialMatch, error: partialError } = await client
+      .from('tows')
+      .select('*')
+      .ilike('license_plate', `%${formattedPlate}%`);
+
+    if (partialError) throw partialError;
+    return partialMatch || [];
+  };
+
+  const getTow = async (id: string): Promise<Tow> => {
+    const { data, error } = await client
+      .from('tows')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+    return data;
+  };
+
+  const getTowWithVehicle = async (id: string): Promise<TowWithVehicle> => {
+    const { data, error } = await client
+      .from('tows')
+      .select(`*, vehicles!inner(${VEHICLE_SUMMARY_COLUMNS})`)
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+    return withVehicle<Tow>(data);
+  };
+
+  const listVehicleTows = async (vehicleId: string): Promise<Tow[]> => {
+    const { data, error } = await client
+      .from('tows')
+      .select('*')
+      .eq('vehicle_id', vehicleId)
+      .order('tow_date', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  };
+
+  // Tows recorded while the user owned the vehicle, including vehicles they
+  // have since transferred
+  const listOwnerTows = async (ownerId: string, vehicleId?: string | null): Promise<TowWithVehicle[]> => {
+    let query = client
+      .from('tows')
+      .select(`*, vehicles(${VEHICLE_SUMMARY_COLUMNS})`)
+      .eq('owner_id', ownerId);
+
+    if (vehicleId) {
+      query = query.eq('vehicle_id', vehicleId);
+    }
+
+    const { data, error } = await query.order('tow_date', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(row => withVehicle<Tow>(row));
+  };
+
+  const listTowRequests = async (requestStatus?: TowRequestStatus): Promise<TowWithVehicle[]> => {
+    let query = client
+      .from('tows')
+      .select(`*, vehicles:vehicle_id(${VEHICLE_SUMMARY_COLUMNS})`);
+
+    if (requestStatus) {
+      query = query.eq('request_status', requestStatus);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(row => withVehicle<Tow>(row));
+  };
+
+  const listRecentTows = async (limit: number): Promise<Tow[]> => {
+    const { data, error } = await client
+      .from('tows')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  };
+
+  const countTows = async (
+    filters: { statuses?: readonly TowStatus[]; createdSince?: Date } = {}
+  ): Promise<number> => {
+    let query = client.from('tows').select('id', { count: 'exact', head: true });
+
+    if (filters.statuses) {
+      query = query.in('status', filters.statuses);
+    }
+    if (filters.createdSince) {
+      query = query.gte('created_at', filters.createdSince.toISOString());
+    }
+
+    const { count, error } = await query;
+    if (error) throw error;
+    return count || 0;
+  };
+
+  const recordTow = async (tow: NewTow): Promise<Tow> => {
+    const { data, error } = await client
+      .from('tows')
+      .insert({ ...tow, license_plate: normalizePlate(tow.license_plate) })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  };
+
+  const updateTow = async (
+    id: string,
+    changes: Partial<Pick<Tow, 'status' | 'request_status' | 'assigned_to'>>
+  ) => {
+    const { error } = await client
+      .from('tows')
+      .update(changes)
+      .eq('id', id);
+
+    if (error) throw error;
+  };
+
+  // Oldest first, as the tow's timeline
+  const listTowStatusHistory = async (towId: string): Promise<TowStatusHistoryEntry[]> => {
+    const { data, error } = await client
+      .from('tow_status_history')
+      .select('*')
+      .eq('tow_id', towId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  };
+
+  // Impound lots. Lots are created from the Supabase dashboard.
+
+  const listImpoundLots = async (organizationId: string): Promise<ImpoundLot[]> => {
+    const { data, error } = await client
+      .from('impound_lots')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('name');
+
+    if (error) throw error;
+    return data || [];
+  };
+
+  const getImpoundLot = async (id: string): Promise<ImpoundLot> => {
+    const { data, error } = await client
+      .from('impound_lots')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+    return data;
+  };
+
+  // The database checks that the lot belongs to the tow company, has room
+  // and that the space is free
+  const impoundTow = async (id: string, lotId: string, space: string) => {
+    const { error } = await client
+      .from('tows')
+      .update({ status: 'impounded', impound_lot_id: lotId, lot_space: space })
+      .eq('id', id);
+
+    if (error) throw error;
+  };
+
+  // Releases
+
+  const getTowRelease = async (towId: string): Promise<TowRelease | null> => {
+    const { data, error } = await client
+      .from('tow_releases')
+      .select('*')
+      .eq('tow_id', towId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  };
+
+  // Read through a database function, since tow companies can't read fines
+  // issued by the police
+  const getTowUnpaidFines = async (towId: string): Promise<TowUnpaidFines> => {
+    const { data, error } = await client.rpc('tow_unpaid_fines', { target_tow_id: towId });
+
+    if (error) throw error;
+    return data?.[0] || { fine_count: 0, amount_due: 0 };
+  };
+
+  // Storage accrues as a storage fine on the tow, once a day while it's
+  // impounded. Includes the lot's daily rate for the vehicle.
+  const getTowStorageCharges = async (towId: string): Promise<TowStorageCharges> => {
+    const { data, error } = await client.rpc('tow_storage_charges', { target_tow_id: towId });
+
+    if (error) throw error;
+    return data?.[0] || { daily_rate: null, storage_days: 0, accrued: 0, amount_due: 0 };
+  };
+
+  // Refused unless the ID matches the vehicle's owner or registered name and
+  // the tow's fines are paid, storage up to now included. Marks the tow
+  // released.
+  const releaseTow = async (towId: string, release: NewTowRelease): Promise<string> => {
+    const { data, error } = await client.rpc('release_tow', {
+      target_tow_id: towId,
+      id_name: release.id_name,
+      id_type: release.id_type,
+      id_number: release.id_number,
+    });
+
+    if (error) throw error;
+    return data;
+  };
+
+  // Fines
+
+  const issueFine = async (fine: NewFine): Promise<Fine> => {
+    const { data, error } = await client
+      .from('fines')
+      .insert({ ...fine, status: 'unpaid' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  };
+
+  const getFineWithVehicle = async (id: string): Promise<FineWithVehicle> => {
+    const { data, error } = await client
+      .from('fines')
+      .select(`*, vehicles(${VEHICLE_SUMMARY_COLUMNS})`)
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+    return withVehicle<Fine>(data);
+  };
+
+  const listVehicleFines = async (vehicleId: string): Promise<Fine[]> => {
+    const { data, error } = await client
+      .from('fines')
+      .select('*')
+      .eq('vehicle_id', vehicleId)
+      .order('issue_date', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  };
+
+  // Fines of the user, including those from vehicles they have since
+  // transferred, but not unpaid fines that moved to the new owner
+  const listOwnerFines = async (
+    ownerId: string,
+    filters: { vehicleId?: string | null; status?: FineStatus | null } = {}
+  ): Promise<FineWithVehicle[]> => {
+    let query = client
+      .from('fines')
+      .select(`*, vehicles(${VEHICLE_SUMMARY_COLUMNS})`)
+      .eq('owner_id', ownerId);
+
+    if (filters.vehicleId) {
+      query = query.eq('vehicle_id', filters.vehicleId);
+    }
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+
+    const { data, error } = await query.order('issue_date', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(row => withVehicle<Fine>(row));
+  };
+
+  const listFinesIssuedBy = async (userId: string, limit: number): Promise<Fine[]> => {
+    const { data, error } = await client
+      .from('fines')
+      .select('*')
+      .eq('created_by', userId)
+      .order('issue_date', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  };
+
+  const listRecentFines = async (limit: number): Promise<Fine[]> => {
+    const { data, error } = await client
+      .from('fines')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  };
+
+  const countFines = async (filters: { status?: FineStatus } = {}): Promise<number> => {
+    let query = client.from('fines').select('id', { count: 'exact', head: true });
+
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+
+    const { count, error } = await query;
+    if (error) throw error;
+    return count || 0;
+  };
+
+  // Mock payment: marks the fine paid with the given transaction ID
+  const payFine = async (fine: Pick<Fine, 'id' | 'vehicle_id'>, transactionId: string) => {
+    const paymentDate = new Date().toISOString();
+
+    const { error } = await client
+      .from('fines')
+      .update({
+        status: 'paid',
+        payment_date: paymentDate,
+        transaction_id: transactionId,
+      })
+      .eq('id', fine.id)
+      .eq('vehicle_id', fine.vehicle_id);
+
+    if (error) throw error;
+    return { payment_date: paymentDate, transaction_id: transactionId };
+  };
+
+  // Violation codes. Retired codes stay on the records that used them.
+
+  const listViolationCodes = async (
+    filters: { includeRetired?: boolean } = {}
+  ): Promise<ViolationCodeWithAmounts[]> => {
+    let query = client.from('violation_codes').select('*, amounts:violation_code_amounts(*)');
+
+    if (!filters.includeRetired) {
+      query = query.eq('is_active', true);
+    }
+
+    const { data, error } = await query.order('code');
+
+    if (error) throw error;
+    return data || [];
+  };
+
+  const getViolationCode = async (id: string): Promise<ViolationCode> => {
+    const { data, error } = await client.from('violation_codes').select('*').eq('id', id).single();
+
+    if (error) throw error;
+    return data;
+  };
+
+  // Creates the code when id is null. Body types without an amount go back
+  // to the default.
+  const saveViolationCode = async (id: string | null, input: ViolationCodeInput): Promise<string> => {
+    const { amounts, ...details } = input;
+
+    const { data, error } = id
+      ? await client.from('violation_codes').update(details).eq('id', id).select('id').single()
+      : await client.from('violation_codes').insert(details).select('id').single();
+
+    if (error) throw error;
+
+    const priced = (Object.keys(amounts) as VehicleBodyType[]).filter(bodyType => amounts[bodyType] !== undefined);
+
+    let removal = client.from('violation_code_amounts').delete().eq('violation_code_id', data.id);
+    if (priced.length > 0) {
+      removal = removal.not('body_type', 'in', `(${priced.join(',')})`);
+    }
+    const { error: removeError } = await removal;
+    if (removeError) throw removeError;
+
+    if (priced.length > 0) {
+      const { error: upsertError } = await client.from('violation_code_amounts').upsert(
+        priced.map(bodyType => ({
+          violation_code_id: data.id,
+          body_type: bodyType,
+          amount: amounts[bodyType] as number,
+        })),
+        { onConflict: 'violation_code_id,body_type' }
+      );
+      if (upsertError) throw upsertError;
+    }
+
+    return data.id;
+  };
+
+  // Counts only the records the user can read, so staff and officers see
+  // their own organization's
+  const getViolationCodeReport = async (since: Date): Promise<ViolationCodeReportRow[]> => {
+    const { data, error } = await client.rpc('violation_code_report', { since: since.toISOString() });
+
+    if (error) throw error;
+    return data || [];
+  };
+
+  // Complaints
+
+  const createComplaint = async (complaint: NewComplaint): Promise<Complaint> => {
+    const { data, error } = await client
+      .from('complaints')
+      .insert({ ...complaint, status: 'pending' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  };
+
+  // Complaints are loaded flat and their related records fetched in batches,
+  // since the tow/fine/vehicle references are all optional
+  const listComplaints = async (
+    filters: { status?: ComplaintStatus; userId?: string; includeProfiles?: boolean } = {}
+  ): Promise<ComplaintWithRelations[]> => {
+    let query = client.from('complaints').select('*');
+
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+    if (filters.userId) {
+      query = query.eq('user_id', filters.userId);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false });
+
+    if (error) throw error;
+    if (!data || data.length === 0) return [];
+
+    const complaints: Complaint[] = data;
+    const uniqueIds = (ids: (string | null)[]) => [...new Set(ids.filter(Boolean))] as string[];
+    const vehicleIds = uniqueIds(complaints.map(c => c.vehicle_id));
+    const towIds = uniqueIds(complaints.map(c => c.tow_id));
+    const fineIds = uniqueIds(complaints.map(c => c.fine_id));
+
+    const [profiles, vehicles, tows, fines] = await Promise.all([
+      filters.includeProfiles
+        ? listProfileContacts(uniqueIds(complaints.map(c => c.user_id)))
+        : Promise.resolve([]),
+      vehicleIds.length > 0
+        ? client.from('vehicles').select('id, license_plate, model, color').in('id', vehicleIds)
+        : { data: [] },
+      towIds.length > 0
+        ? client.from('tows').select('id, location, tow_date').in('id', towIds)
+        : { data: [] },
+      fineIds.length > 0
+        ? client.from('fines').select('id, amount, description, issue_date').in('id', fineIds)
+        : { data: [] },
+    ]);
+
+    const byId = <T extends { id: string }>(rows: T[] | null) =>
+      Object.fromEntries((rows || []).map(row => [row.id, row])) as Record<string, T>;
+
+    const profilesMap = byId(profiles);
+    const vehiclesMap = byId<NonNullable<ComplaintWithRelations['vehicles']>>(vehicles.data);
+    const towsMap = byId<NonNullable<ComplaintWithRelations['tows']>>(tows.data);
+    const finesMap = byId<NonNullable<ComplaintWithRelations['fines']>>(fines.data);
+
+    return complaints.map(complaint => ({
+      ...complaint,
+      profiles: profilesMap[complaint.user_id],
+      vehicles: complaint.vehicle_id ? vehiclesMap[complaint.vehicle_id] : undefined,
+      tows: complaint.tow_id ? towsMap[complaint.tow_id] : undefined,
+      fines: complaint.fine_id ? finesMap[complaint.fine_id] : undefined,
+    }));
+  };
+
+  const listRecentComplaints = async (limit: number): Promise<Complaint[]> => {
+    const { data, error } = await client
+      .from('complaints')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  };
+
+  const countComplaints = async (filters: { status?: ComplaintStatus } = {}): Promise<number> => {
+    let query = client.from('complaints').select('id', { count: 'exact', head: true });
+
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+
+    const { count, error } = await query;
+    if (error) throw error;
+    return count || 0;
+  };
+
+  const updateComplaint = async (
+    id: string,
+    changes: Partial<Pick<Complaint, 'status' | 'response' | 'resolved_at' | 'resolved_by'>>
+  ) => {
+    const { error } = await client
+      .from('complaints')
+      .update(changes)
+      .eq('id', id);
+
+    if (error) throw error;
+  };
+
+  // Notifications
+
+  // Notifications are best-effort: a failed insert is logged but never
+  // fails the action that triggered it
+  const notifyUser = async (notification: NewNotification) => {
+    const { error } = await client
+      .from('notifications')
+      .insert({ ...notification, is_read: false });
+
+    if (error) {
+      console.error('Error creating notification:', error.message);
+    }
+  };
+
+  const listNotifications = async (userId: string): Promise<UserNotification[]> => {
+    const { data, error } = await client
+      .from('notifications')
+      .select('id, user_id, type, title, message, related_id, is_read, created_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  };
+
+  const markNotificationRead = async (id: string) => {
+    const { error } = await client
+      .from('notifications')
+      .update({ is_read: true })
+      .eq('id', id);
+
+    if (error) throw error;
+  };
+
+  const markAllNotificationsRead = async (userId: string) => {
+    const { error } = await client
+      .from('notifications')
+      .update({ is_read: true })
+      .eq('user_id', userId)
+      .eq('is_read', false);
+
+    if (error) throw error;
+  };
+
+  const countUnreadNotifications = async (userId: string): Promise<number> => {
+    const { count, error } = await client
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('is_read', false);
+
+    if (error) throw error;
+    return count || 0;
+  };
+
+  // Returns an unsubscribe function
+  const subscribeToNotifications = (
+    userId: string,
+    handlers: {
+      onInsert: (notification: UserNotification) => void;
+      onUpdate: (notification: UserNotification) => void;
+    }
+  ) => {
+    const filter = `user_id=eq.${userId}`;
+    const channel = client
+      .channel(`notifications:${userId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'notifications', filter },
+        (payload) => handlers.onInsert(payload.new as UserNotification)
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'notifications', filter },
+        (payload) => handlers.onUpdate(payload.new as UserNotification)
+      )
+      .subscribe();
+
+    return () => {
+      client.removeChannel(channel);
+    };
+  };
+
+  return {
+    getSessionProfile,
+    getProfileContact,
+    listProfileContacts,
+    updateOwnProfile,
+    updateNotificationPreferences,
+    checkInviteCode,
+    listOrganizations,
+    listProfiles,
+    getProfile,
+    reviewRoleRequest,
+    changeUserRole,
+    setUserActive,
+    updateUserProfile,
+    listAuditLog,
+    findVehicleByPlate,
+    getVehicle,
+    getOwnerVehicle,
+    listOwnerVehicles,
+    countVehicles,
+    getOwnerVehicleByPlate,
+    createVehicle,
+    archiveVehicle,
+    restoreVehicle,
+    listVehiclePhotos,
+    uploadVehiclePhoto,
+    deleteVehiclePhoto,
+    findClaimableVehicle,
+    uploadVehicleDocument,
+    getVehicleDocumentUrl,
+    submitVehicleClaim,
+    listOwnVehicleClaims,
+    listVehicleClaims,
+    reviewVehicleClaim,
+    listVehicleTransfers,
+    startVehicleTransfer,
+    respondToVehicleTransfer,
+    cancelVehicleTransfer,
+    findTowsByPlate,
+    getTow,
+    getTowWithVehicle,
+    listVehicleTows,
+    listOwnerTows,
+    listTowRequests,
+    listRecentTows,
+    countTows,
+    recordTow,
+    updateTow,
+    listTowStatusHistory,
+    listImpoundLots,
+    getImpoundLot,
+    impoundTow,
+    getTowRelease,
+    getTowUnpaidFines,
+    getTowStorageCharges,
+    releaseTow,
+    issueFine,
+    getFineWithVehicle,
+    listVehicleFines,
+    listOwnerFines,
+    listFinesIssuedBy,
+    listRecentFines,
+    countFines,
+    payFine,
+    listViolationCodes,
+    getViolationCode,
+    saveViolationCode,
+    getViolationCodeReport,
+    createComplaint,
+    listComplaints,
+    listRecentComplaints,
+    countComplaints,
+    updateComplaint,
+    notifyUser,
+    listNotifications,
+    markNotificationRead,
+    markAllNotificationsRead,
+    countUnreadNotifications,
+    subscribeToNotifications,
+  };
+};
+
+export type Repository = ReturnType<typeof createRepository>;
+
+export const {
+  getSessionProfile,
+  getProfileContact,
+  listProfileContacts,
+  updateOwnProfile,
+  updateNotificationPreferences,
+  checkInviteCode,
+  listOrganizations,
+  listProfiles,
+  getProfile,
+  reviewRoleRequest,
+  changeUserRole,
+  setUserActive,
+  updateUserProfile,
+  listAuditLog,
+  findVehicleByPlate,
+  getVehicle,
+  getOwnerVehicle,
+  listOwnerVehicles,
+  countVehicles,
+  getOwnerVehicleByPlate,
+  createVehicle,
+  archiveVehicle,
+  restoreVehicle,
+  listVehiclePhotos,
+  uploadVehiclePhoto,
+  deleteVehiclePhoto,
+  findClaimableVehicle,
+  uploadVehicleDocument,
+  getVehicleDocumentUrl,
+  submitVehicleClaim,
+  listOwnVehicleClaims,
+  listVehicleClaims,
+  reviewVehicleClaim,
+  listVehicleTransfers,
+  startVehicleTransfer,
+  respondToVehicleTransfer,
+  cancelVehicleTransfer,
+  findTowsByPlate,
+  getTow,
+  getTowWithVehicle,
+  listVehicleTows,
+  listOwnerTows,
+  listTowRequests,
+  listRecentTows,
+  countTows,
+  recordTow,
+  updateTow,
+  listTowStatusHistory,
+  listImpoundLots,
+  getImpoundLot,
+  impoundTow,
+  getTowRelease,
+  getTowUnpaidFines,
+  getTowStorageCharges,
+  releaseTow,
+  issueFine,
+  getFineWithVehicle,
+  listVehicleFines,
+  listOwnerFines,
+  listFinesIssuedBy,
+  listRecentFines,
+  countFines,
+  payFine,
+  listViolationCodes,
+  getViolationCode,
+  saveViolationCode,
+  getViolationCodeReport,
+  createComplaint,
+  listComplaints,
+  listRecentComplaints,
+  countComplaints,
+  updateComplaint,
+  notifyUser,
+  listNotifications,
+  markNotificationRead,
+  markAllNotificationsRead,
+  countUnreadNotifications,
+  subscribeToNotifications,
+} = createRepository(supabase);
@@ -0,0 +1,289 @@
+// Shared domain types for the Towify tables. Screens should use these
+// instead of declaring their own copies of the row shapes. Row types come
+// from the generated schema in database.types.ts.
+
+import { Enums, Tables } from './database.types';
+
+export type UserRole = Enums<'user_role'>;
+
+// Named role values, so role checks read Role.Staff instead of repeating
+// bare strings. Matches the user_role database enum.
+export const Role = {
+  Owner: 'owner',
+  Staff: 'staff',
+  Officer: 'officer',
+  Admin: 'admin',
+} as const satisfies Record<string, UserRole>;
+
+export type Role = UserRole;
+
+export type ApprovalStatus = Enums<'approval_status'>;
+
+export type TowStatus = Enums<'tow_status'>;
+
+export type TowRequestStatus = Enums<'tow_request_status'>;
+
+export type FineStatus = Enums<'fine_status'>;
+
+export type ComplaintType = Enums<'complaint_type'>;
+
+export type ComplaintStatus = Enums<'complaint_status'>;
+
+export type OrganizationType = Enums<'organization_type'>;
+
+export type VehicleClaimStatus = Enums<'vehicle_claim_status'>;
+
+export type VehicleTransferStatus = Enums<'vehicle_transfer_status'>;
+
+export type UnpaidFinePolicy = Enums<'unpaid_fine_policy'>;
+
+export type VehicleBodyType = Enums<'vehicle_body_type'>;
+
+export type TowReleaseVerification = Enums<'tow_release_verification'>;
+
+export type Organization = Tables<'organizations'>;
+
+export type OrganizationSummary = Pick<Organization, 'id' | 'name' | 'type'>;
+
+export type Profile = Tables<'profiles'>;
+
+// Profiles as read by the admin console and the profile screen
+export interface ProfileWithOrganization extends Profile {
+  organization: OrganizationSummary | null;
+}
+
+// The subset of a profile shown next to vehicles and complaints
+export type ProfileContact = Pick<Profile, 'id' | 'email' | 'full_name' | 'phone'>;
+
+// The signed-in user's profile as held by SessionContext: what the app needs
+// to decide where the user may go, plus the name and organization shown in
+// greetings
+export type SessionProfile = Pick<Profile, 'role' | 'approval_status' | 'requested_role' | 'full_name'> & {
+  organization: OrganizationSummary | null;
+};
+
+// Which notification categories the user receives
+export type NotificationPreferences = Pick<Profile, 'notify_tows' | 'notify_fines' | 'notify_complaints'>;
+
+export type Invitation = Tables<'invitations'>;
+
+// Returned when a signup invite code is still valid, with the organization's
+// name
+export type InviteDetails = Pick<Invitation, 'role'> & { organization: string };
+
+export type Vehicle = Tables<'vehicles'>;
+
+export type VehiclePhoto = Tables<'vehicle_photos'>;
+
+// A photo with a short-lived link to its file, or null when the link
+// couldn't be created
+export interface VehiclePhotoWithUrl extends VehiclePhoto {
+  url: string | null;
+}
+
+// An owner's request to take over a vehicle that has no owner yet
+export type VehicleClaim = Tables<'vehicle_claims'>;
+
+// A vehicle without an owner that can be claimed, as found by its plate
+export type ClaimableVehicle = Pick<Vehicle, 'id' | 'license_plate' | 'plate_jurisdiction' | 'make' | 'model' | 'color'>;
+
+export type VehicleTransfer = Tables<'vehicle_transfers'>;
+
+// A transfer as listed for either party, with the vehicle and the other
+// party's name. outgoing is true for transfers the user started.
+export type VehicleTransferWithDetails =
+  Pick<VehicleTransfer, 'id' | 'vehicle_id' | 'status' | 'created_at' | 'responded_at'> &
+  Pick<Vehicle, 'license_plate' | 'make' | 'model' | 'color'> & {
+    outgoing: boolean;
+    other_party_name: string | null;
+    other_party_email: string | null;
+  };
+
+export type Tow = Tables<'tows'>;
+
+export type TowStatusHistoryEntry = Tables<'tow_status_history'>;
+
+export type ImpoundLot = Tables<'impound_lots'>;
+
+export type TowRelease = Tables<'tow_releases'>;
+
+// Unpaid fines linked to a tow, which block its release
+export interface TowUnpaidFines {
+  fine_count: number;
+  amount_due: number;
+}
+
+// Storage charged on an impounded tow so far. The daily rate is null when the
+// lot doesn't charge for the vehicle's body type.
+export interface TowStorageCharges {
+  daily_rate: number | null;
+  storage_days: number;
+  accrued: number;
+  amount_due: number;
+}
+
+export type Fine = Tables<'fines'>;
+
+// A violation or tow reason code from the catalog, with its default fine
+export type ViolationCode = Tables<'violation_codes'>;
+
+// The fine for a code on one vehicle body type, in place of the default
+export type ViolationCodeAmount = Tables<'violation_code_amounts'>;
+
+// Tows and fines recorded under a code, as counted by violation_code_report
+export interface ViolationCodeReportRow {
+  violation_code_id: string;
+  code: string;
+  title: string;
+  tow_count: number;
+  fine_count: number;
+  fine_total: number;
+}
+
+export type Complaint = Tables<'complaints'>;
+
+export type UserNotification = Tables<'notifications'>;
+
+export type AuditLogEntry = Tables<'audit_log'>;
+
+export type AuditAction =
+  | 'role_request_approved'
+  | 'role_request_rejected'
+  | 'role_changed'
+  | 'user_deactivated'
+  | 'user_reactivated'
+  | 'profile_updated';
+
+// Joined shapes returned by the repository
+
+export type VehicleSummary = Pick<Vehicle, 'id' | 'license_plate' | 'make' | 'model' | 'color' | 'registered_name' | 'owner_id'>;
+
+export interface VehicleWithOwner extends Vehicle {
+  owner: ProfileContact | null;
+}
+
+export interface TowWithVehicle extends Tow {
+  vehicle: VehicleSummary | null;
+}
+
+export interface FineWithVehicle extends Fine {
+  vehicle: VehicleSummary | null;
+}
+
+export interface ViolationCodeWithAmounts extends ViolationCode {
+  amounts: ViolationCodeAmount[];
+}
+
+export interface ComplaintWithRelations extends Complaint {
+  profiles?: ProfileContact;
+  vehicles?: Pick<Vehicle, 'id' | 'license_plate' | 'model' | 'color'>;
+  tows?: Pick<Tow, 'id' | 'location' | 'tow_date'>;
+  fines?: Pick<Fine, 'id' | 'amount' | 'description' | 'issue_date'>;
+}
+
+export interface VehicleClaimWithDetails extends VehicleClaim {
+  vehicle: VehicleSummary | null;
+  claimant: ProfileContact | null;
+}
+
+export interface AuditLogWithProfiles extends AuditLogEntry {
+  actor: Pick<Profile, 'id' | 'email' | 'full_name'> | null;
+  target: Pick<Profile, 'id' | 'email' | 'full_name'> | null;
+}
+
+// Insert payloads
+
+export interface NewVehicle {
+  license_plate: string;
+  make: string | null;
+  model: string;
+  color: string;
+  owner_id: string | null;
+  registered_name: string | null;
+  // Filled in by owners; vehicles created by a tow leave them out
+  vin?: string | null;
+  year?: number | null;
+  plate_jurisdiction?: string | null;
+  body_type?: VehicleBodyType;
+}
+
+export interface NewTow {
+  vehicle_id: string | null;
+  license_plate: string;
+  location: string;
+  reason: string;
+  reason_code_id: string;
+  tow_date: string;
+  // Where the device was when the tow was recorded, if it could tell
+  latitude?: number | null;
+  longitude?: number | null;
+  // Officers request tows; tow staff record tows they've already hooked
+  status: Extract<TowStatus, 'requested' | 'hooked'>;
+  notes: string;
+  created_by: string | null;
+  // Chosen by officers; tows recorded by tow staff go to their own company
+  tow_company_id?: string | null;
+}
+
+// Checked by release_tow against the vehicle's owner and registered name.
+// Only the last four characters of the ID number are stored.
+export interface NewTowRelease {
+  id_name: string;
+  id_type: string;
+  id_number: string;
+}
+
+export interface NewFine {
+  vehicle_id: string;
+  amount: number;
+  description: string;
+  issue_date: string;
+  due_date: string;
+  created_by: string;
+  tow_id?: string | null;
+  violation_code_id: string;
+  // Required when the amount differs from the code's fee schedule
+  amount_justification?: string | null;
+}
+
+// A code as edited by admins. Body types left out of amounts are charged the
+// default amount.
+export interface ViolationCodeInput {
+  code: string;
+  title: string;
+  statute: string | null;
+  default_amount: number;
+  is_active: boolean;
+  amounts: Partial<Record<VehicleBodyType, number>>;
+}
+
+export interface NewComplaint {
+  user_id: string;
+  subject: string;
+  description: string;
+  type: ComplaintType;
+  vehicle_id: string | null;
+  fine_id: string | null;
+  tow_id: string | null;
+}
+
+// Details users can change on their own profile
+export interface OwnProfileUpdate {
+  full_name: string;
+  phone: string | null;
+}
+
+// Details an admin can reset on another user's profile
+export interface ProfileDetailsUpdate {
+  full_name: string;
+  phone: string;
+  organization_id: string | null;
+}
+
+export interface NewNotification {
+  user_id: string;
+  type: string;
+  title: string;
+  message: string;
+  related_id: string | null;
+}
@@ -0,0 +1,141 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput } from 'react-native';
+import { FontAwesome5 } from '@expo/vector-icons';
+
+interface FineAmountFieldProps {
+  // The code's fine for the vehicle, or null before a code is chosen
+  scheduledAmount: number | null;
+  overriding: boolean;
+  amount: string;
+  justification: string;
+  onOverridingChange: (overriding: boolean) => void;
+  onAmountChange: (amount: string) => void;
+  onJustificationChange: (justification: string) => void;
+}
+
+// The fine comes from the fee schedule unless it's overridden, which needs a
+// justification
+const FineAmountField: React.FC<FineAmountFieldProps> = ({
+  scheduledAmount,
+  overriding,
+  amount,
+  justification,
+  onOverridingChange,
+  onAmountChange,
+  onJustificationChange,
+}) => (
+  <View>
+    <View style={styles.scheduleRow}>
+      <View>
+        <Text style={styles.scheduleLabel}>Fee schedule</Text>
+        <Text style={[styles.scheduleAmount, overriding && styles.scheduleAmountReplaced]}>
+          {scheduledAmount !== null ? `$${scheduledAmount.toFixed(2)}` : 'Choose a code'}
+        </Text>
+      </View>
+      <TouchableOpacity
+        style={styles.overrideToggle}
+        onPress={() => onOverridingChange(!overriding)}
+        disabled={scheduledAmount === null}
+      >
+        <View style={[styles.checkbox, overriding && styles.checkboxSelected]}>
+          {overriding && <FontAwesome5 name="check" size={10} color="white" />}
+        </View>
+        <Text style={styles.overrideText}>Override</Text>
+      </TouchableOpacity>
+    </View>
+
+    {overriding && (
+      <>
+        <Text style={styles.label}>Amount ($)</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="Enter fine amount"
+          value={amount}
+          onChangeText={onAmountChange}
+          keyboardType="decimal-pad"
+        />
+
+        <Text style={styles.label}>Justification</Text>
+        <TextInput
+          style={[styles.input, styles.textArea]}
+          placeholder="Why this fine differs from the fee schedule"
+          value={justification}
+          onChangeText={onJustificationChange}
+          multiline
+          numberOfLines={3}
+        />
+      </>
+    )}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  scheduleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+  },
+  scheduleLabel: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+  scheduleAmount: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#111827',
+    marginTop: 2,
+  },
+  scheduleAmountReplaced: {
+    color: '#9CA3AF',
+    textDecorationLine: 'line-through',
+  },
+  overrideToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  checkbox: {
+    width: 18,
+    height: 18,
+    borderRadius: 4,
+    borderWidth: 2,
+    borderColor: '#4F46E5',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  checkboxSelected: {
+    backgroundColor: '#4F46E5',
+  },
+  overrideText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#4B5563',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  textArea: {
+    minHeight: 72,
+    textAlignVertical: 'top',
+  },
+});
+
+export default FineAmountField;
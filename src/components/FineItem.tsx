@@ -2,6 +2,7 @@ import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
 import { FontAwesome5 } from '@expo/vector-icons';
 import { format } from 'date-fns';
+import { FineStatus } from '../api/types';
 
 interface FineItemProps {
   id: string;
@@ -9,7 +10,7 @@ interface FineItemProps {
   description: string;
   issueDate: string;
   dueDate?: string;
-  status: 'unpaid' | 'paid' | 'overdue';
+  status: FineStatus;
   licensePlate: string;
   onPress: (id: string) => void;
 }
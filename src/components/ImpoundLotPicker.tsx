@@ -0,0 +1,230 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+} from 'react-native';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { ImpoundLot } from '../api/types';
+
+interface ImpoundLotPickerProps {
+  visible: boolean;
+  licensePlate: string;
+  // The tow company's lots
+  lots: ImpoundLot[];
+  saving?: boolean;
+  onConfirm: (lotId: string, space: string) => void;
+  onClose: () => void;
+}
+
+const ImpoundLotPicker: React.FC<ImpoundLotPickerProps> = ({
+  visible,
+  licensePlate,
+  lots,
+  saving = false,
+  onConfirm,
+  onClose,
+}) => {
+  const [lotId, setLotId] = useState<string | null>(null);
+  const [space, setSpace] = useState('');
+
+  // Start from the first lot each time the picker opens
+  useEffect(() => {
+    if (visible) {
+      setLotId(lots.length === 1 ? lots[0].id : null);
+      setSpace('');
+    }
+  }, [visible, lots]);
+
+  const canConfirm = !!lotId && space.trim().length > 0 && !saving;
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.modalContainer}
+      >
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <FontAwesome5 name="times" size={18} color="#6B7280" />
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>Impound {licensePlate}</Text>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.modalBody} keyboardShouldPersistTaps="handled">
+            <Text style={styles.label}>Lot</Text>
+            {lots.length === 0 ? (
+              <Text style={styles.emptyText}>
+                Your company has no impound lots yet. Ask an administrator to add one.
+              </Text>
+            ) : (
+              lots.map(lot => {
+                const selected = lot.id === lotId;
+                return (
+                  <TouchableOpacity
+                    key={lot.id}
+                    style={[styles.lotOption, selected && styles.lotOptionSelected]}
+                    onPress={() => setLotId(lot.id)}
+                  >
+                    <FontAwesome5
+                      name={selected ? 'dot-circle' : 'circle'}
+                      size={16}
+                      color={selected ? '#4F46E5' : '#9CA3AF'}
+                      style={styles.lotRadio}
+                    />
+                    <View style={styles.lotInfo}>
+                      <Text style={styles.lotName}>{lot.name}</Text>
+                      <Text style={styles.lotMeta}>{lot.address}</Text>
+                      <Text style={styles.lotMeta}>{lot.capacity} spaces • {lot.hours}</Text>
+                    </View>
+                  </TouchableOpacity>
+                );
+              })
+            )}
+
+            <Text style={styles.label}>Space</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="e.g. A12"
+              value={space}
+              onChangeText={setSpace}
+              autoCapitalize="characters"
+              autoCorrect={false}
+            />
+
+            <TouchableOpacity
+              style={[styles.confirmButton, !canConfirm && styles.confirmButtonDisabled]}
+              onPress={() => lotId && onConfirm(lotId, space.trim().toUpperCase())}
+              disabled={!canConfirm}
+            >
+              {saving ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <>
+                  <FontAwesome5 name="warehouse" size={16} color="white" style={styles.confirmIcon} />
+                  <Text style={styles.confirmText}>Mark as Impounded</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalContent: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  closeButton: {
+    padding: 8,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+    flex: 1,
+    textAlign: 'center',
+    marginRight: 40, // To center the title with the close button on the left
+  },
+  modalBody: {
+    padding: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 8,
+  },
+  lotOption: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    marginBottom: 8,
+  },
+  lotOptionSelected: {
+    borderColor: '#4F46E5',
+    backgroundColor: '#EEF2FF',
+  },
+  lotRadio: {
+    marginTop: 2,
+    marginRight: 12,
+  },
+  lotInfo: {
+    flex: 1,
+  },
+  lotName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  lotMeta: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#111827',
+  },
+  confirmButton: {
+    backgroundColor: '#4F46E5',
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    borderRadius: 8,
+    marginTop: 20,
+    marginBottom: 12,
+  },
+  confirmButtonDisabled: {
+    backgroundColor: '#A5B4FC',
+  },
+  confirmIcon: {
+    marginRight: 8,
+  },
+  confirmText: {
+    color: 'white',
+    fontWeight: 'bold',
+    fontSize: 14,
+  },
+});
+
+export default ImpoundLotPicker;
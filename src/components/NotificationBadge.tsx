@@ -0,0 +1,36 @@
+import React from 'react';
+import { View, Text, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+
+interface NotificationBadgeProps {
+  count: number;
+  style?: StyleProp<ViewStyle>;
+}
+
+const NotificationBadge: React.FC<NotificationBadgeProps> = ({ count, style }) => {
+  if (count <= 0) return null;
+
+  return (
+    <View style={[styles.badge, style]}>
+      <Text style={styles.badgeText}>{count > 99 ? '99+' : count}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  badge: {
+    minWidth: 20,
+    height: 20,
+    borderRadius: 10,
+    paddingHorizontal: 6,
+    backgroundColor: '#EF4444',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  badgeText: {
+    color: '#FFFFFF',
+    fontSize: 11,
+    fontWeight: '700',
+  },
+});
+
+export default NotificationBadge;
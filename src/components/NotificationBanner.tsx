@@ -0,0 +1,131 @@
+import React, { useCallback, useEffect, useRef } from 'react';
+import { Animated, Text, StyleSheet, TouchableOpacity, View } from 'react-native';
+import { useRouter } from 'expo-router';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { markNotificationRead } from '../api/repository';
+import { useSession } from '../context/SessionContext';
+import { useNotifications } from '../context/NotificationContext';
+import {
+  getCategoryIconAndColor,
+  getNotificationCategory,
+  getNotificationRoute,
+} from '../utils/notifications';
+
+// How long the banner stays on screen before hiding itself
+const BANNER_DURATION_MS = 4000;
+
+const NotificationBanner: React.FC = () => {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { role } = useSession();
+  const { latestNotification, dismissLatest, refreshUnreadCount } = useNotifications();
+  const translateY = useRef(new Animated.Value(-200)).current;
+
+  const hideBanner = useCallback(() => {
+    Animated.timing(translateY, {
+      toValue: -200,
+      duration: 200,
+      useNativeDriver: true,
+    }).start(() => dismissLatest());
+  }, [translateY, dismissLatest]);
+
+  useEffect(() => {
+    if (!latestNotification) return;
+
+    Animated.spring(translateY, {
+      toValue: 0,
+      useNativeDriver: true,
+    }).start();
+
+    const timer = setTimeout(hideBanner, BANNER_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [latestNotification, translateY, hideBanner]);
+
+  const handlePress = async () => {
+    if (!latestNotification) return;
+
+    const route = getNotificationRoute(latestNotification, role);
+    hideBanner();
+
+    try {
+      await markNotificationRead(latestNotification.id);
+      refreshUnreadCount();
+    } catch (error: any) {
+      console.error('Error marking notification as read:', error.message);
+    }
+
+    router.push(route || '/notifications');
+  };
+
+  if (!latestNotification) return null;
+
+  const { icon, color } = getCategoryIconAndColor(getNotificationCategory(latestNotification.type));
+
+  return (
+    <Animated.View
+      style={[
+        styles.container,
+        { top: insets.top + 8, transform: [{ translateY }] },
+      ]}
+    >
+      <TouchableOpacity style={styles.banner} onPress={handlePress} activeOpacity={0.9}>
+        <View style={[styles.iconContainer, { backgroundColor: `${color}20` }]}>
+          <FontAwesome5 name={icon} size={16} color={color} />
+        </View>
+        <View style={styles.content}>
+          <Text style={styles.title} numberOfLines={1}>{latestNotification.title}</Text>
+          <Text style={styles.message} numberOfLines={2}>{latestNotification.message}</Text>
+        </View>
+        <TouchableOpacity onPress={hideBanner} hitSlop={8}>
+          <FontAwesome5 name="times" size={14} color="#9CA3AF" />
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Animated.View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    zIndex: 1000,
+  },
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.15,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+  iconContainer: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  content: {
+    flex: 1,
+    marginRight: 8,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#111827',
+    marginBottom: 2,
+  },
+  message: {
+    fontSize: 13,
+    color: '#4B5563',
+  },
+});
+
+export default NotificationBanner;
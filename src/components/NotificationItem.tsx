@@ -0,0 +1,132 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { formatDistanceToNow } from 'date-fns';
+import { getCategoryIconAndColor, getNotificationCategory } from '../utils/notifications';
+
+interface NotificationItemProps {
+  id: string;
+  type: string;
+  title: string;
+  message: string;
+  createdAt: string;
+  isRead: boolean;
+  onPress: (id: string) => void;
+  onMarkRead?: (id: string) => void;
+}
+
+const NotificationItem: React.FC<NotificationItemProps> = ({
+  id,
+  type,
+  title,
+  message,
+  createdAt,
+  isRead,
+  onPress,
+  onMarkRead,
+}) => {
+  const { icon, color } = getCategoryIconAndColor(getNotificationCategory(type));
+  const timeAgo = createdAt ? formatDistanceToNow(new Date(createdAt), { addSuffix: true }) : '';
+
+  return (
+    <TouchableOpacity
+      style={[styles.container, !isRead && styles.unreadContainer]}
+      onPress={() => onPress(id)}
+      activeOpacity={0.7}
+    >
+      <View style={[styles.iconContainer, { backgroundColor: `${color}20` }]}>
+        <FontAwesome5 name={icon} size={16} color={color} />
+      </View>
+      <View style={styles.infoContainer}>
+        <View style={styles.titleRow}>
+          <Text style={[styles.title, !isRead && styles.unreadTitle]} numberOfLines={1}>
+            {title}
+          </Text>
+          {!isRead && <View style={styles.unreadDot} />}
+        </View>
+        <Text style={styles.message} numberOfLines={2}>{message}</Text>
+        <View style={styles.bottomRow}>
+          <Text style={styles.time}>{timeAgo}</Text>
+          {!isRead && onMarkRead && (
+            <TouchableOpacity onPress={() => onMarkRead(id)} hitSlop={8}>
+              <Text style={styles.markReadText}>Mark as read</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  unreadContainer: {
+    borderLeftWidth: 3,
+    borderLeftColor: '#4F46E5',
+  },
+  iconContainer: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  infoContainer: {
+    flex: 1,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  title: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#374151',
+  },
+  unreadTitle: {
+    fontWeight: '700',
+    color: '#111827',
+  },
+  unreadDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#4F46E5',
+    marginLeft: 8,
+  },
+  message: {
+    fontSize: 14,
+    color: '#4B5563',
+    marginBottom: 8,
+  },
+  bottomRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  time: {
+    fontSize: 12,
+    color: '#9CA3AF',
+  },
+  markReadText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#4F46E5',
+  },
+});
+
+export default NotificationItem;
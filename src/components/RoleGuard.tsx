@@ -0,0 +1,54 @@
+import React, { ReactNode } from 'react';
+import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { Redirect } from 'expo-router';
+import { useSession } from '../context/SessionContext';
+import { Role } from '../api/types';
+import { getDashboardPath } from '../utils/navigation';
+
+interface RoleGuardProps {
+  allowedRoles: Role[];
+  children: ReactNode;
+}
+
+// Used by the route group layouts. Signed-out users go to the login screen
+// and signed-in users without one of the allowed roles go to their own
+// dashboard, so deep links can't open another role's screens.
+const RoleGuard: React.FC<RoleGuardProps> = ({ allowedRoles, children }) => {
+  const { session, loading, profile, role, profileLoading } = useSession();
+
+  // Keep showing the current screen while an already known role is refreshed
+  if (loading || (profileLoading && !role)) {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator size="large" color="#4F46E5" />
+        <Text style={styles.loadingText}>Loading...</Text>
+      </View>
+    );
+  }
+
+  if (!session?.user || !role) {
+    return <Redirect href="/login" />;
+  }
+
+  if (!allowedRoles.includes(role)) {
+    return <Redirect href={getDashboardPath(role, profile?.approval_status) || '/login'} />;
+  }
+
+  return <>{children}</>;
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F7F9FC',
+  },
+  loadingText: {
+    marginTop: 10,
+    fontSize: 16,
+    color: '#6B7280',
+  },
+});
+
+export default RoleGuard;
@@ -2,29 +2,18 @@ import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
 import { FontAwesome5 } from '@expo/vector-icons';
 import { format } from 'date-fns';
+import { TowStatus } from '../api/types';
+import { TOW_STATUS_COLORS, TOW_STATUS_LABELS } from '../utils/tows';
 
 interface TowItemProps {
   id: string;
   location: string;
   towDate: string;
-  status: 'active' | 'released' | 'completed';
+  status: TowStatus;
   reason?: string;
   onPress: (id: string) => void;
 }
 
-const getStatusColor = (status: string) => {
-  switch (status) {
-    case 'active':
-      return '#EF4444'; // Red
-    case 'released':
-      return '#10B981'; // Green
-    case 'completed':
-      return '#6B7280'; // Gray
-    default:
-      return '#6B7280';
-  }
-};
-
 const TowItem: React.FC<TowItemProps> = ({
   id,
   location,
@@ -50,10 +39,8 @@ const TowItem: React.FC<TowItemProps> = ({
         {reason && <Text style={styles.reason} numberOfLines={1}>Reason: {reason}</Text>}
       </View>
       <View style={styles.statusContainer}>
-        <View style={[styles.statusIndicator, { backgroundColor: getStatusColor(status) }]} />
-        <Text style={styles.statusText}>
-          {status.charAt(0).toUpperCase() + status.slice(1)}
-        </Text>
+        <View style={[styles.statusIndicator, { backgroundColor: TOW_STATUS_COLORS[status] }]} />
+        <Text style={styles.statusText}>{TOW_STATUS_LABELS[status]}</Text>
       </View>
     </TouchableOpacity>
   );
@@ -0,0 +1,84 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Linking } from 'react-native';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { Coordinates, formatCoordinates } from '../utils/location';
+import type { TowLocationMapProps } from './TowLocationMap';
+
+const TOW_COLOR = '#EF4444';
+const LOT_COLOR = '#4F46E5';
+
+const mapsUrl = ({ latitude, longitude }: Coordinates) =>
+  `https://www.google.com/maps/search/?api=1&query=${latitude},${longitude}`;
+
+interface PlaceRowProps {
+  color: string;
+  label: string;
+  coordinates: Coordinates;
+}
+
+const PlaceRow: React.FC<PlaceRowProps> = ({ color, label, coordinates }) => (
+  <TouchableOpacity style={styles.place} onPress={() => Linking.openURL(mapsUrl(coordinates))}>
+    <View style={[styles.dot, { backgroundColor: color }]} />
+    <View style={styles.placeInfo}>
+      <Text style={styles.placeLabel}>{label}</Text>
+      <Text style={styles.placeCoordinates}>{formatCoordinates(coordinates)}</Text>
+    </View>
+    <FontAwesome5 name="external-link-alt" size={12} color="#4F46E5" />
+  </TouchableOpacity>
+);
+
+// Links each place to Google Maps, for where react-native-maps can't draw
+// the map: on the web, and on Android builds without a Google Maps API key
+const TowLocationLinks: React.FC<TowLocationMapProps> = ({
+  towCoordinates,
+  towAddress,
+  lotCoordinates,
+  lotName,
+}) => {
+  if (!towCoordinates && !lotCoordinates) return null;
+
+  return (
+    <View>
+      {towCoordinates && (
+        <PlaceRow color={TOW_COLOR} label={`Towed from ${towAddress}`} coordinates={towCoordinates} />
+      )}
+      {lotCoordinates && (
+        <PlaceRow color={LOT_COLOR} label={lotName || 'Impound lot'} coordinates={lotCoordinates} />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  place: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  dot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 10,
+  },
+  placeInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  placeLabel: {
+    fontSize: 14,
+    color: '#111827',
+  },
+  placeCoordinates: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+});
+
+export default TowLocationLinks;
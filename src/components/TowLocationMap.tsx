@@ -0,0 +1,105 @@
+import React from 'react';
+import { View, Text, StyleSheet, Platform } from 'react-native';
+import MapView, { Marker } from 'react-native-maps';
+import { config } from '../api/config';
+import { Coordinates } from '../utils/location';
+import TowLocationLinks from './TowLocationLinks';
+
+// TowLocationMap.web.tsx takes the same props
+export interface TowLocationMapProps {
+  // Where the vehicle was towed from, when the tow was recorded with GPS
+  towCoordinates: Coordinates | null;
+  towAddress: string;
+  // The impound lot the vehicle is kept at, when it has coordinates
+  lotCoordinates: Coordinates | null;
+  lotName?: string;
+}
+
+const TOW_COLOR = '#EF4444';
+const LOT_COLOR = '#4F46E5';
+
+// Frames both points with some margin, or zooms in on the only one
+const regionFor = (points: Coordinates[]) => {
+  const latitudes = points.map(point => point.latitude);
+  const longitudes = points.map(point => point.longitude);
+  const minLatitude = Math.min(...latitudes);
+  const maxLatitude = Math.max(...latitudes);
+  const minLongitude = Math.min(...longitudes);
+  const maxLongitude = Math.max(...longitudes);
+
+  return {
+    latitude: (minLatitude + maxLatitude) / 2,
+    longitude: (minLongitude + maxLongitude) / 2,
+    latitudeDelta: (maxLatitude - minLatitude) * 1.5 + 0.01,
+    longitudeDelta: (maxLongitude - minLongitude) * 1.5 + 0.01,
+  };
+};
+
+// Nothing is rendered when neither the tow nor the lot has coordinates
+const TowLocationMap: React.FC<TowLocationMapProps> = (props) => {
+  const { towCoordinates, towAddress, lotCoordinates, lotName } = props;
+  const points = [towCoordinates, lotCoordinates].filter((point): point is Coordinates => point !== null);
+  if (points.length === 0) return null;
+
+  // Google Maps on Android doesn't load without an API key
+  if (Platform.OS === 'android' && !config.googleMapsConfigured) {
+    return <TowLocationLinks {...props} />;
+  }
+
+  return (
+    <View>
+      <MapView style={styles.map} initialRegion={regionFor(points)}>
+        {towCoordinates && (
+          <Marker coordinate={towCoordinates} title="Towed from" description={towAddress} pinColor={TOW_COLOR} />
+        )}
+        {lotCoordinates && (
+          <Marker coordinate={lotCoordinates} title="Impound lot" description={lotName} pinColor={LOT_COLOR} />
+        )}
+      </MapView>
+
+      <View style={styles.legend}>
+        {towCoordinates && (
+          <View style={styles.legendItem}>
+            <View style={[styles.legendDot, { backgroundColor: TOW_COLOR }]} />
+            <Text style={styles.legendText}>Towed from</Text>
+          </View>
+        )}
+        {lotCoordinates && (
+          <View style={styles.legendItem}>
+            <View style={[styles.legendDot, { backgroundColor: LOT_COLOR }]} />
+            <Text style={styles.legendText}>{lotName || 'Impound lot'}</Text>
+          </View>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  map: {
+    height: 200,
+    borderRadius: 8,
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 16,
+  },
+  legendDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 6,
+  },
+  legendText: {
+    fontSize: 12,
+    color: '#6B7280',
+  },
+});
+
+export default TowLocationMap;
@@ -0,0 +1,3 @@
+// react-native-maps has no web version, so the web build links each place
+// to Google Maps instead
+export { default } from './TowLocationLinks';
@@ -0,0 +1,115 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { TowStatus, TowStatusHistoryEntry } from '../api/types';
+import {
+  TOW_LIFECYCLE,
+  TOW_STATUS_COLORS,
+  TOW_STATUS_ICONS,
+  TOW_STATUS_LABELS,
+  isTowClosed,
+} from '../utils/tows';
+
+interface TowTimelineProps {
+  // Oldest first, as returned by listTowStatusHistory
+  history: TowStatusHistoryEntry[];
+  status: TowStatus;
+}
+
+const TowTimeline: React.FC<TowTimelineProps> = ({ history, status }) => {
+  // Steps still ahead on the main path, shown greyed out until they happen
+  const upcoming = isTowClosed(status)
+    ? []
+    : TOW_LIFECYCLE.slice(TOW_LIFECYCLE.indexOf(status) + 1);
+
+  const steps = [
+    ...history.map(entry => ({ key: entry.id, status: entry.to_status, entry })),
+    ...upcoming.map(step => ({ key: step, status: step, entry: null })),
+  ];
+
+  if (steps.length === 0) {
+    return <Text style={styles.emptyText}>No status changes recorded</Text>;
+  }
+
+  return (
+    <View>
+      {steps.map((step, index) => {
+        const done = !!step.entry;
+        const color = done ? TOW_STATUS_COLORS[step.status] : '#D1D5DB';
+        const isLast = index === steps.length - 1;
+
+        return (
+          <View key={step.key} style={styles.step}>
+            <View style={styles.markerColumn}>
+              <View style={[styles.marker, { backgroundColor: done ? color : '#FFFFFF', borderColor: color }]}>
+                <FontAwesome5 name={TOW_STATUS_ICONS[step.status]} size={10} color={done ? '#FFFFFF' : color} />
+              </View>
+              {!isLast && <View style={styles.line} />}
+            </View>
+            <View style={styles.content}>
+              <Text style={[styles.label, !done && styles.upcomingLabel]}>
+                {TOW_STATUS_LABELS[step.status]}
+              </Text>
+              {step.entry && (
+                <Text style={styles.meta}>
+                  {format(new Date(step.entry.created_at), 'MMM dd, yyyy • h:mm a')}
+                  {step.entry.changed_by_name ? ` • ${step.entry.changed_by_name}` : ''}
+                </Text>
+              )}
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  step: {
+    flexDirection: 'row',
+  },
+  markerColumn: {
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  marker: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    borderWidth: 2,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  line: {
+    flex: 1,
+    width: 2,
+    minHeight: 16,
+    backgroundColor: '#E5E7EB',
+  },
+  content: {
+    flex: 1,
+    paddingBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+    marginTop: 2,
+  },
+  upcomingLabel: {
+    color: '#9CA3AF',
+    fontWeight: '500',
+  },
+  meta: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+});
+
+export default TowTimeline;
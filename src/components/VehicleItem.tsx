@@ -2,11 +2,16 @@ import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Image } from 'react-native';
 import { FontAwesome5 } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
+import { VehicleBodyType } from '../api/types';
+import { BODY_TYPE_ICONS } from '../utils/vehicles';
 
 interface VehicleItemProps {
   id: string;
   licensePlate: string;
+  plateJurisdiction?: string | null;
   model: string;
+  year?: number | null;
+  bodyType?: VehicleBodyType;
   color: string;
   onPress: (id: string) => void;
 }
@@ -33,7 +38,10 @@ const getGradientColors = (color: string): string[] => {
 const VehicleItem: React.FC<VehicleItemProps> = ({
   id,
   licensePlate,
+  plateJurisdiction,
   model,
+  year,
+  bodyType = 'car',
   color,
   onPress,
 }) => {
@@ -53,14 +61,17 @@ const VehicleItem: React.FC<VehicleItemProps> = ({
       >
         <View style={styles.plateContainer}>
           <Text style={styles.licensePlate}>{licensePlate}</Text>
+          {plateJurisdiction ? (
+            <Text style={styles.jurisdiction}>{plateJurisdiction}</Text>
+          ) : null}
         </View>
       </LinearGradient>
       
       <View style={styles.infoContainer}>
         <View style={styles.detailsRow}>
           <View style={styles.iconTextContainer}>
-            <FontAwesome5 name="car" size={14} color="#4F46E5" solid style={styles.detailIcon} />
-            <Text style={styles.modelText}>{model}</Text>
+            <FontAwesome5 name={BODY_TYPE_ICONS[bodyType]} size={14} color="#4F46E5" solid style={styles.detailIcon} />
+            <Text style={styles.modelText}>{year ? `${year} ${model}` : model}</Text>
           </View>
           
           <View style={styles.iconTextContainer}>
@@ -113,6 +124,13 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     letterSpacing: 1,
   },
+  jurisdiction: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#6B7280',
+    textAlign: 'center',
+    letterSpacing: 1,
+  },
   infoContainer: {
     padding: 16,
   },
@@ -0,0 +1,140 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Image,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { ImageSource, PickedImage, pickImage } from '../utils/imagePicker';
+
+export const MAX_VEHICLE_PHOTOS = 6;
+
+export interface VehiclePhotoThumb {
+  key: string;
+  uri: string | null;
+}
+
+interface VehiclePhotosProps {
+  photos: VehiclePhotoThumb[];
+  // Without onAdd and onRemove the gallery is read-only
+  onAdd?: (image: PickedImage) => void;
+  onRemove?: (key: string) => void;
+  uploading?: boolean;
+}
+
+const VehiclePhotos: React.FC<VehiclePhotosProps> = ({
+  photos,
+  onAdd,
+  onRemove,
+  uploading = false,
+}) => {
+  const addPhoto = async (source: ImageSource) => {
+    const image = await pickImage(source, 'your vehicle');
+    if (image && onAdd) onAdd(image);
+  };
+
+  const handleAdd = () => {
+    Alert.alert('Add Photo', undefined, [
+      { text: 'Take Photo', onPress: () => addPhoto('camera') },
+      { text: 'Choose Photo', onPress: () => addPhoto('library') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const canAdd = !!onAdd && photos.length < MAX_VEHICLE_PHOTOS;
+
+  if (photos.length === 0 && !canAdd) {
+    return <Text style={styles.emptyText}>No photos</Text>;
+  }
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+      {photos.map(photo => (
+        <View key={photo.key} style={styles.thumb}>
+          {photo.uri ? (
+            <Image source={{ uri: photo.uri }} style={styles.image} resizeMode="cover" />
+          ) : (
+            <View style={[styles.image, styles.placeholder]}>
+              <FontAwesome5 name="image" size={20} color="#9CA3AF" />
+            </View>
+          )}
+          {onRemove && (
+            <TouchableOpacity style={styles.removeButton} onPress={() => onRemove(photo.key)}>
+              <FontAwesome5 name="times" size={12} color="#FFFFFF" />
+            </TouchableOpacity>
+          )}
+        </View>
+      ))}
+
+      {canAdd && (
+        <TouchableOpacity style={[styles.thumb, styles.addTile]} onPress={handleAdd} disabled={uploading}>
+          {uploading ? (
+            <ActivityIndicator color="#4F46E5" />
+          ) : (
+            <>
+              <FontAwesome5 name="camera" size={18} color="#4F46E5" />
+              <Text style={styles.addText}>Add Photo</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    gap: 12,
+  },
+  thumb: {
+    width: 110,
+    height: 110,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+  },
+  placeholder: {
+    backgroundColor: '#F3F4F6',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  removeButton: {
+    position: 'absolute',
+    top: 6,
+    right: 6,
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  addTile: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderStyle: 'dashed',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  addText: {
+    marginTop: 8,
+    fontSize: 12,
+    fontWeight: '500',
+    color: '#4F46E5',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+});
+
+export default VehiclePhotos;
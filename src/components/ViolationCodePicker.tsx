@@ -0,0 +1,246 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  FlatList,
+} from 'react-native';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { VehicleBodyType, ViolationCodeWithAmounts } from '../api/types';
+import { formatViolationCode, scheduledFineAmount } from '../utils/violations';
+
+interface ViolationCodePickerProps {
+  // Codes still in use, as returned by listViolationCodes
+  codes: ViolationCodeWithAmounts[];
+  value: ViolationCodeWithAmounts | null;
+  // Shows each code's fine for this body type
+  bodyType: VehicleBodyType;
+  placeholder?: string;
+  onChange: (code: ViolationCodeWithAmounts) => void;
+}
+
+const ViolationCodePicker: React.FC<ViolationCodePickerProps> = ({
+  codes,
+  value,
+  bodyType,
+  placeholder = 'Choose a code',
+  onChange,
+}) => {
+  const [visible, setVisible] = useState(false);
+  const [search, setSearch] = useState('');
+
+  const matches = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return codes;
+    return codes.filter(
+      code =>
+        code.code.toLowerCase().includes(term) ||
+        code.title.toLowerCase().includes(term) ||
+        (code.statute || '').toLowerCase().includes(term)
+    );
+  }, [codes, search]);
+
+  const open = () => {
+    setSearch('');
+    setVisible(true);
+  };
+
+  const choose = (code: ViolationCodeWithAmounts) => {
+    onChange(code);
+    setVisible(false);
+  };
+
+  return (
+    <>
+      <TouchableOpacity style={styles.field} onPress={open}>
+        <View style={styles.fieldContent}>
+          <Text style={[styles.fieldText, !value && styles.placeholder]} numberOfLines={1}>
+            {value ? formatViolationCode(value) : placeholder}
+          </Text>
+          {value?.statute && <Text style={styles.fieldMeta}>{value.statute}</Text>}
+        </View>
+        <FontAwesome5 name="chevron-down" size={14} color="#6B7280" />
+      </TouchableOpacity>
+
+      <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={() => setVisible(false)}>
+        <View style={styles.modalContainer}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <TouchableOpacity style={styles.closeButton} onPress={() => setVisible(false)}>
+                <FontAwesome5 name="times" size={18} color="#6B7280" />
+              </TouchableOpacity>
+              <Text style={styles.modalTitle}>Reason Code</Text>
+            </View>
+
+            <View style={styles.searchContainer}>
+              <FontAwesome5 name="search" size={14} color="#9CA3AF" style={styles.searchIcon} />
+              <TextInput
+                style={styles.searchInput}
+                placeholder="Search by code, title or statute"
+                value={search}
+                onChangeText={setSearch}
+                autoCorrect={false}
+              />
+            </View>
+
+            <FlatList
+              data={matches}
+              keyExtractor={code => code.id}
+              keyboardShouldPersistTaps="handled"
+              contentContainerStyle={styles.list}
+              ListEmptyComponent={<Text style={styles.emptyText}>No codes match your search</Text>}
+              renderItem={({ item }) => {
+                const selected = item.id === value?.id;
+                return (
+                  <TouchableOpacity
+                    style={[styles.option, selected && styles.optionSelected]}
+                    onPress={() => choose(item)}
+                  >
+                    <View style={styles.optionInfo}>
+                      <Text style={styles.optionCode}>{item.code}</Text>
+                      <Text style={styles.optionTitle}>{item.title}</Text>
+                      {item.statute && <Text style={styles.optionMeta}>{item.statute}</Text>}
+                    </View>
+                    <Text style={styles.optionAmount}>
+                      ${scheduledFineAmount(item, bodyType).toFixed(2)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              }}
+            />
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  field: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  fieldContent: {
+    flex: 1,
+    marginRight: 8,
+  },
+  fieldText: {
+    fontSize: 16,
+    color: '#111827',
+  },
+  placeholder: {
+    color: '#9CA3AF',
+  },
+  fieldMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalContent: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    height: '80%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  closeButton: {
+    padding: 8,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+    flex: 1,
+    textAlign: 'center',
+    marginRight: 40, // To center the title with the close button on the left
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    margin: 16,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+  },
+  searchIcon: {
+    marginRight: 8,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#111827',
+  },
+  list: {
+    padding: 16,
+    paddingTop: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    marginBottom: 8,
+  },
+  optionSelected: {
+    borderColor: '#4F46E5',
+    backgroundColor: '#EEF2FF',
+  },
+  optionInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  optionCode: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#4F46E5',
+  },
+  optionTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+    marginTop: 2,
+  },
+  optionMeta: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  optionAmount: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+});
+
+export default ViolationCodePicker;
@@ -0,0 +1,188 @@
+import React, { createContext, useState, useContext, useEffect, useRef, ReactNode } from 'react';
+import { Alert, AppState, StyleSheet, View } from 'react-native';
+import {
+  AppLockSettings,
+  authenticateWithDevice,
+  isAppLockSupported,
+  isDeviceAuthAvailable,
+  loadAppLockSettings,
+  saveAppLockSettings,
+  signsOutWithoutDeviceAuth,
+} from '../api/appLock';
+import UnlockScreen from '../screens/UnlockScreen';
+import { useSession } from './SessionContext';
+
+// Define types for our context
+type AppLockContextType = {
+  // False when the device has neither biometrics nor a PIN set up
+  available: boolean;
+  // Null until the settings for the signed-in user have been loaded
+  settings: AppLockSettings | null;
+  updateSettings: (settings: AppLockSettings) => Promise<void>;
+};
+
+// Create the context
+const AppLockContext = createContext<AppLockContextType>({
+  available: false,
+  settings: null,
+  updateSettings: async () => {},
+});
+
+// Hook to use the app lock context
+export const useAppLock = () => useContext(AppLockContext);
+
+// Provider component. Covers the app with the unlock screen when a session
+// is restored on launch, or when the app comes back to the foreground after
+// being in the background for longer than the user's timeout. On a device
+// without biometrics or a PIN, staff, officers and administrators are warned
+// at launch and signed out after the timeout instead. The web app is never
+// locked.
+export const AppLockProvider = ({ children }: { children: ReactNode }) => {
+  const { session, loading, role, signOut } = useSession();
+  // Null until the device has been checked
+  const [available, setAvailable] = useState<boolean | null>(null);
+  const [settings, setSettings] = useState<AppLockSettings | null>(null);
+  // Why the app is locked, or null while it's open
+  const [locked, setLocked] = useState<'launch' | 'idle' | null>(null);
+  const [unlocking, setUnlocking] = useState(false);
+  const backgroundedAt = useRef<number | null>(null);
+  // The user whose session was restored from storage when the app launched
+  const restoredUserId = useRef<string | null | undefined>(undefined);
+  const userId = session?.user?.id;
+
+  useEffect(() => {
+    isDeviceAuthAvailable().then(setAvailable);
+  }, []);
+
+  useEffect(() => {
+    if (!loading && restoredUserId.current === undefined) {
+      restoredUserId.current = userId || null;
+    }
+  }, [loading, userId]);
+
+  // Settings default by role, so wait until the role is known
+  useEffect(() => {
+    if (!userId || !role) {
+      setSettings(null);
+      setLocked(null);
+      return;
+    }
+
+    loadAppLockSettings(userId, role).then((loaded) => {
+      setSettings(loaded);
+
+      // A restored session has been idle for an unknown time
+      if (loaded.enabled && isAppLockSupported && restoredUserId.current === userId) {
+        restoredUserId.current = null;
+        setLocked('launch');
+      }
+    });
+  }, [userId, role]);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (nextState) => {
+      // 'inactive' also fires while the biometric prompt is showing, so only
+      // a real trip to the background starts the idle timer
+      if (nextState === 'background') {
+        backgroundedAt.current = Date.now();
+        return;
+      }
+
+      if (nextState === 'active' && backgroundedAt.current !== null) {
+        const idleMs = Date.now() - backgroundedAt.current;
+        backgroundedAt.current = null;
+
+        if (
+          userId &&
+          settings?.enabled &&
+          isAppLockSupported &&
+          idleMs >= settings.timeoutMinutes * 60 * 1000
+        ) {
+          setLocked('idle');
+        }
+      }
+    });
+
+    return () => subscription.remove();
+  }, [userId, settings]);
+
+  const unlock = async () => {
+    if (unlocking) return;
+
+    try {
+      setUnlocking(true);
+      const result = await authenticateWithDevice('Unlock Towify');
+
+      if (result === 'success') {
+        setLocked(null);
+      } else if (result === 'failed') {
+        // A failed unlock ends the session rather than allowing retries
+        await logout();
+        Alert.alert('Unlock Failed', 'You have been logged out. Please log in again.');
+      }
+      // A cancelled prompt leaves the unlock screen up for another try
+    } catch (error: any) {
+      console.error('Error unlocking app:', error.message);
+      await logout();
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  const logout = async () => {
+    setLocked(null);
+    await signOut();
+  };
+
+  // Prompts as soon as the app locks. Kept in a ref so the effect below only
+  // runs when the lock or the device check changes, not on every render.
+  const handleLockDue = useRef<(reason: 'launch' | 'idle', deviceAuthAvailable: boolean) => void>(() => {});
+  handleLockDue.current = (reason, deviceAuthAvailable) => {
+    if (deviceAuthAvailable) {
+      unlock();
+      return;
+    }
+
+    setLocked(null);
+
+    if (!signsOutWithoutDeviceAuth(role)) return;
+
+    // Launching isn't a sign of an unattended device, so only warn then
+    if (reason === 'launch') {
+      Alert.alert(
+        'Set Up a Screen Lock',
+        'Set up Face ID, a fingerprint or a screen lock PIN on this device. Until then you are signed out whenever Towify stays in the background past the app lock timeout.'
+      );
+    } else {
+      signOut().then(() =>
+        Alert.alert(
+          'Signed Out',
+          'Set up Face ID, a fingerprint or a screen lock PIN on this device to stay signed in while Towify is in the background.'
+        )
+      );
+    }
+  };
+
+  useEffect(() => {
+    if (!locked || available === null) return;
+    handleLockDue.current(locked, available);
+  }, [locked, available]);
+
+  const updateSettings = async (next: AppLockSettings) => {
+    if (!userId) return;
+
+    await saveAppLockSettings(userId, next);
+    setSettings(next);
+  };
+
+  return (
+    <AppLockContext.Provider value={{ available: !!available, settings, updateSettings }}>
+      {children}
+      {locked && available && (
+        <View style={StyleSheet.absoluteFill}>
+          <UnlockScreen unlocking={unlocking} onUnlock={unlock} onLogout={logout} />
+        </View>
+      )}
+    </AppLockContext.Provider>
+  );
+};
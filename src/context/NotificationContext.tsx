@@ -0,0 +1,98 @@
+import React, { createContext, useState, useContext, useEffect, useRef, useCallback, ReactNode } from 'react';
+import { AppState } from 'react-native';
+import { countUnreadNotifications, subscribeToNotifications } from '../api/repository';
+import { UserNotification } from '../api/types';
+import { useSession } from './SessionContext';
+
+// Define types for our context
+type NotificationContextType = {
+  unreadCount: number;
+  latestNotification: UserNotification | null;
+  refreshUnreadCount: () => Promise<void>;
+  dismissLatest: () => void;
+};
+
+// Create the context
+const NotificationContext = createContext<NotificationContextType>({
+  unreadCount: 0,
+  latestNotification: null,
+  refreshUnreadCount: async () => {},
+  dismissLatest: () => {},
+});
+
+// Hook to use the notification context
+export const useNotifications = () => useContext(NotificationContext);
+
+// Provider component
+export const NotificationProvider = ({ children }: { children: ReactNode }) => {
+  const { session } = useSession();
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [latestNotification, setLatestNotification] = useState<UserNotification | null>(null);
+  const appState = useRef(AppState.currentState);
+  const userId = session?.user?.id;
+
+  // Function to fetch the unread count from the database
+  const refreshUnreadCount = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      const count = await countUnreadNotifications(userId);
+      setUnreadCount(count);
+    } catch (error: any) {
+      console.error('Error fetching unread notification count:', error.message);
+    }
+  }, [userId]);
+
+  const dismissLatest = useCallback(() => {
+    setLatestNotification(null);
+  }, []);
+
+  // Track foreground state so the banner only shows while the app is visible
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (nextState) => {
+      appState.current = nextState;
+
+      // Catch up on anything that arrived while we were in the background
+      if (nextState === 'active') {
+        refreshUnreadCount();
+      }
+    });
+
+    return () => subscription.remove();
+  }, [refreshUnreadCount]);
+
+  useEffect(() => {
+    if (!userId) {
+      setUnreadCount(0);
+      setLatestNotification(null);
+      return;
+    }
+
+    refreshUnreadCount();
+
+    const unsubscribe = subscribeToNotifications(userId, {
+      onInsert: (notification) => {
+        if (!notification.is_read) {
+          setUnreadCount(count => count + 1);
+        }
+
+        if (appState.current === 'active') {
+          setLatestNotification(notification);
+        }
+      },
+      onUpdate: () => {
+        refreshUnreadCount();
+      },
+    });
+
+    return unsubscribe;
+  }, [userId, refreshUnreadCount]);
+
+  return (
+    <NotificationContext.Provider
+      value={{ unreadCount, latestNotification, refreshUnreadCount, dismissLatest }}
+    >
+      {children}
+    </NotificationContext.Provider>
+  );
+};
@@ -1,13 +1,25 @@
-import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
+import React, { createContext, useState, useContext, useEffect, useRef, ReactNode } from 'react';
+import { Alert, AppState } from 'react-native';
 import { supabase } from '../api/supabase';
+import { getSessionProfile } from '../api/repository';
+import { Role, SessionProfile } from '../api/types';
 import { Session } from '@supabase/supabase-js';
-import { router } from 'expo-router';
+import { router, useRootNavigationState, useSegments } from 'expo-router';
+import { PUBLIC_ROUTES, SIGN_IN_ROUTES, getDashboardPath } from '../utils/navigation';
 
 // Define types for our context
 type SessionContextType = {
   session: Session | null;
   loading: boolean;
-  userRole: string | null;
+  // The signed-in user's profile. This is the only place the role is looked
+  // up; screens read it from here instead of querying profiles themselves.
+  profile: SessionProfile | null;
+  role: Role | null;
+  // True while the profile for the current session is being fetched
+  profileLoading: boolean;
+  // Set when the session's profile couldn't be loaded
+  profileError: string | null;
+  refreshProfile: () => Promise<SessionProfile | null>;
   signOut: () => Promise<void>;
 };
 
@@ -15,7 +27,11 @@ type SessionContextType = {
 const SessionContext = createContext<SessionContextType>({
   session: null,
   loading: true,
-  userRole: null,
+  profile: null,
+  role: null,
+  profileLoading: false,
+  profileError: null,
+  refreshProfile: async () => null,
   signOut: async () => {},
 });
 
@@ -26,21 +42,61 @@ export const useSession = () => useContext(SessionContext);
 export const SessionProvider = ({ children }: { children: ReactNode }) => {
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
-  const [userRole, setUserRole] = useState<string | null>(null);
+  const [profile, setProfile] = useState<SessionProfile | null>(null);
+  const [profileLoading, setProfileLoading] = useState(false);
+  const [profileError, setProfileError] = useState<string | null>(null);
+  // Set while the user signs out on purpose, so the SIGNED_OUT event isn't
+  // treated as an expired session
+  const signingOut = useRef(false);
+  const hasSession = useRef(false);
+  const segments = useSegments();
+  const navigationState = useRootNavigationState();
+
+  const role = profile?.role || null;
+
+  // Only refresh tokens while the app is in the foreground
+  useEffect(() => {
+    if (AppState.currentState === 'active') {
+      supabase.auth.startAutoRefresh();
+    }
+
+    const subscription = AppState.addEventListener('change', (nextState) => {
+      if (nextState === 'active') {
+        supabase.auth.startAutoRefresh();
+      } else {
+        supabase.auth.stopAutoRefresh();
+      }
+    });
+
+    return () => {
+      subscription.remove();
+      supabase.auth.stopAutoRefresh();
+    };
+  }, []);
 
   useEffect(() => {
     console.log('SessionProvider initializing');
-    
+
     // Get initial session
-    supabase.auth.getSession().then(({ data: { session } }) => {
+    supabase.auth.getSession().then(({ data: { session }, error }) => {
       console.log('Initial session check:', session ? 'Session exists' : 'No session');
+
+      // A stored session whose refresh token was rejected can't be used
+      if (error) {
+        console.error('Error restoring session:', error.message);
+        forceSignOut();
+        setLoading(false);
+        return;
+      }
+
+      hasSession.current = !!session;
       setSession(session);
       setLoading(false);
-      
-      // Get user role if session exists
+
+      // Get the profile if session exists
       if (session?.user) {
-        console.log('User authenticated, fetching role for:', session.user.id);
-        fetchUserRole(session.user.id);
+        console.log('User authenticated, fetching profile for:', session.user.id);
+        fetchProfile(session.user.id);
       }
     });
 
@@ -48,14 +104,28 @@ export const SessionProvider = ({ children }: { children: ReactNode }) => {
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
       (event, session) => {
         console.log('Auth state changed:', event, session ? 'Session exists' : 'No session');
+
+        // supabase-js signs the user out when a token refresh fails
+        if (event === 'SIGNED_OUT' && hasSession.current && !signingOut.current) {
+          forceSignOut();
+          return;
+        }
+
+        hasSession.current = !!session;
         setSession(session);
-        
+
+        // A refreshed token doesn't change who the user is
+        if (event === 'TOKEN_REFRESHED') {
+          return;
+        }
+
         if (session?.user) {
-          console.log('User authenticated in event listener, fetching role for:', session.user.id);
-          fetchUserRole(session.user.id);
+          console.log('User authenticated in event listener, fetching profile for:', session.user.id);
+          fetchProfile(session.user.id);
         } else {
-          console.log('No user in session, setting role to null');
-          setUserRole(null);
+          console.log('No user in session, clearing profile');
+          setProfile(null);
+          setProfileError(null);
         }
       }
     );
@@ -66,45 +136,103 @@ export const SessionProvider = ({ children }: { children: ReactNode }) => {
     };
   }, []);
 
-  // Function to fetch user role from database
-  const fetchUserRole = async (userId: string) => {
-    console.log('Fetching user role for ID:', userId);
-    try {
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('role')
-        .eq('id', userId)
-        .single();
+  // Send the user where their auth state says they belong: signed-out users
+  // to the login screen, and signed-in users on a sign-in route to their
+  // dashboard once the profile is known. Login, signup and the splash screen
+  // only start or wait for auth and leave the navigation to this. The pending
+  // approval screen is left the same way once a refreshed profile shows the
+  // request was reviewed.
+  useEffect(() => {
+    if (!navigationState?.key || loading || profileLoading) return;
 
-      if (error) {
-        console.error('Error fetching user role:', error);
-        setUserRole(null);
-      } else {
-        console.log('User role fetched successfully:', data?.role);
-        setUserRole(data?.role || null);
+    const route = segments[0] || 'index';
+
+    if (!session) {
+      if (!PUBLIC_ROUTES.includes(route)) {
+        router.replace('/login');
       }
-    } catch (error) {
-      console.error('Exception fetching user role:', error);
-      setUserRole(null);
+      return;
+    }
+
+    const reviewed = route === 'pending-approval' && profile?.approval_status !== 'pending';
+
+    if (SIGN_IN_ROUTES.includes(route) || reviewed) {
+      const path = getDashboardPath(role, profile?.approval_status);
+
+      if (path) {
+        router.replace(path);
+      } else if (route === 'index') {
+        // The profile couldn't be loaded; the login screen shows why
+        router.replace('/login');
+      }
+    }
+  }, [navigationState?.key, loading, profileLoading, session, role, profile?.approval_status, segments]);
+
+  // Function to fetch the profile, including role and approval state
+  const fetchProfile = async (userId: string) => {
+    console.log('Fetching profile for ID:', userId);
+    setProfileLoading(true);
+    try {
+      const data = await getSessionProfile(userId);
+      setProfile(data);
+      setProfileError(data ? null : 'No profile was found for this account.');
+      return data;
+    } catch (error: any) {
+      console.error('Exception fetching profile:', error);
+      setProfile(null);
+      setProfileError('Could not load your profile. Please try again.');
+      return null;
+    } finally {
+      setProfileLoading(false);
     }
   };
 
-  // Function to sign out the user
+  // Re-reads the profile, e.g. after a pending role request was reviewed or
+  // the user edited their name
+  const refreshProfile = async () => {
+    if (!session?.user) return null;
+    return fetchProfile(session.user.id);
+  };
+
+  // Function to sign out the user. The redirect effect above returns them
+  // to the login screen.
   const signOut = async () => {
     console.log('Signing out user');
+    signingOut.current = true;
     try {
       await supabase.auth.signOut();
       console.log('Sign out successful');
-      // Navigate to login screen after signing out
-      router.replace({ pathname: '/login' });
     } catch (error) {
       console.error('Error signing out:', error);
+    } finally {
+      signingOut.current = false;
+    }
+  };
+
+  // Clears the local session when it can no longer be refreshed, which sends
+  // the user back to the login screen
+  const forceSignOut = async () => {
+    console.log('Session expired, forcing sign out');
+    hasSession.current = false;
+    setSession(null);
+    setProfile(null);
+    setProfileError(null);
+
+    try {
+      // Local scope only: the server already rejected the refresh token
+      await supabase.auth.signOut({ scope: 'local' });
+    } catch (error) {
+      console.error('Error clearing expired session:', error);
     }
+
+    Alert.alert('Session Expired', 'Your session has expired. Please log in again.');
   };
 
   return (
-    <SessionContext.Provider value={{ session, loading, userRole, signOut }}>
+    <SessionContext.Provider
+      value={{ session, loading, profile, role, profileLoading, profileError, refreshProfile, signOut }}
+    >
       {children}
     </SessionContext.Provider>
   );
-}; 
\ No newline at end of file
+};
@@ -13,8 +13,25 @@ import {
 } from 'react-native';
 import { Stack, useRouter } from 'expo-router';
 import { FontAwesome5 } from '@expo/vector-icons';
-import { supabase } from '../api/supabase';
+import {
+  createVehicle,
+  findClaimableVehicle,
+  getOwnerVehicleByPlate,
+  restoreVehicle,
+  uploadVehiclePhoto,
+} from '../api/repository';
+import { VehicleBodyType } from '../api/types';
 import { useSession } from '../context/SessionContext';
+import VehiclePhotos from '../components/VehiclePhotos';
+import { PickedImage } from '../utils/imagePicker';
+import {
+  BODY_TYPES,
+  BODY_TYPE_ICONS,
+  BODY_TYPE_LABELS,
+  MIN_VEHICLE_YEAR,
+  getMaxVehicleYear,
+  isValidVin,
+} from '../utils/vehicles';
 
 const COLORS = [
   { label: 'Black', value: 'black' },
@@ -37,12 +54,19 @@ export default function AddVehicleScreen() {
   const [model, setModel] = useState('');
   const [selectedColor, setSelectedColor] = useState('');
   const [registeredName, setRegisteredName] = useState('');
+  const [plateJurisdiction, setPlateJurisdiction] = useState('');
+  const [vin, setVin] = useState('');
+  const [year, setYear] = useState('');
+  const [bodyType, setBodyType] = useState<VehicleBodyType>('car');
+  const [photos, setPhotos] = useState<PickedImage[]>([]);
   const [loading, setLoading] = useState(false);
   const [errors, setErrors] = useState({
     licensePlate: '',
     make: '',
     model: '',
     color: '',
+    vin: '',
+    year: '',
   });
 
   const validateForm = () => {
@@ -51,6 +75,8 @@ export default function AddVehicleScreen() {
       make: '',
       model: '',
       color: '',
+      vin: '',
+      year: '',
     };
     let isValid = true;
 
@@ -74,6 +100,17 @@ export default function AddVehicleScreen() {
       isValid = false;
     }
 
+    if (vin && !isValidVin(vin)) {
+      newErrors.vin = 'This VIN is not valid. Check it against your registration document';
+      isValid = false;
+    }
+
+    const yearNumber = Number(year);
+    if (year && (!Number.isInteger(yearNumber) || yearNumber < MIN_VEHICLE_YEAR || yearNumber > getMaxVehicleYear())) {
+      newErrors.year = `Enter a year between ${MIN_VEHICLE_YEAR} and ${getMaxVehicleYear()}`;
+      isValid = false;
+    }
+
     setErrors(newErrors);
     return isValid;
   };
@@ -88,40 +125,130 @@ export default function AddVehicleScreen() {
     setLoading(true);
 
     try {
-      const { data, error } = await supabase.from('vehicles').insert([
-        {
-          owner_id: session.user.id,
-          license_plate: licensePlate.toUpperCase(),
-          make,
-          model,
-          color: selectedColor,
-          registered_name: registeredName.trim() || null,
-        },
-      ]).select();
-
-      if (error) {
-        throw error;
-      }
+      const vehicle = await createVehicle({
+        owner_id: session.user.id,
+        license_plate: licensePlate,
+        make,
+        model,
+        color: selectedColor,
+        registered_name: registeredName.trim() || null,
+        vin: vin || null,
+        year: year ? Number(year) : null,
+        plate_jurisdiction: plateJurisdiction.trim() || null,
+        body_type: bodyType,
+      });
+
+      const failedUploads = await uploadPhotos(vehicle.id);
 
-      Alert.alert('Success', 'Vehicle added successfully', [
-        {
-          text: 'OK',
-          onPress: () => router.back(),
-        },
-      ]);
-    } catch (error: any) {
-      console.error('Error adding vehicle:', error);
       Alert.alert(
-        'Error',
-        error.code === '23505'
-          ? 'A vehicle with this license plate already exists'
-          : 'Failed to add vehicle. Please try again.'
+        'Success',
+        failedUploads > 0
+          ? 'Vehicle added successfully, but some photos could not be uploaded. You can add them from the vehicle details.'
+          : 'Vehicle added successfully',
+        [
+          {
+            text: 'OK',
+            onPress: () => router.back(),
+          },
+        ]
       );
+    } catch (error: any) {
+      if (error.code === '23505' && error.message?.includes('vehicles_vin_key')) {
+        setErrors(current => ({ ...current, vin: 'This VIN is already registered to a vehicle' }));
+        return;
+      }
+
+      if (error.code === '23505') {
+        await handlePlateTaken();
+        return;
+      }
+
+      console.error('Error adding vehicle:', error);
+      Alert.alert('Error', 'Failed to add vehicle. Please try again.');
     } finally {
       setLoading(false);
     }
   };
 
+  // The plate is already on record. It may be a vehicle the owner removed
+  // earlier, which is restored; vehicles created by a tow or fine have no
+  // owner yet and can be claimed with proof of registration.
+  const handlePlateTaken = async () => {
+    if (!session?.user) return;
+
+    try {
+      const ownVehicle = await getOwnerVehicleByPlate(licensePlate, plateJurisdiction, session.user.id);
+
+      if (ownVehicle) {
+        if (!ownVehicle.archived_at) {
+          Alert.alert('Error', 'You have already registered this vehicle.');
+          return;
+        }
+
+        Alert.alert(
+          'Restore Vehicle',
+          `You removed ${ownVehicle.license_plate} earlier. Restore it to your vehicles?`,
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Restore', onPress: () => handleRestore(ownVehicle.id) },
+          ]
+        );
+        return;
+      }
+
+      const claimable = await findClaimableVehicle(licensePlate, plateJurisdiction);
+
+      if (!claimable) {
+        Alert.alert('Error', 'This license plate is already registered to another account.');
+        return;
+      }
+
+      Alert.alert(
+        'Vehicle Already on Record',
+        `${claimable.license_plate} is on record without an owner. Claim it by uploading your registration document.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Claim Vehicle',
+            onPress: () => router.replace({
+              pathname: '/claim-vehicle',
+              params: { plate: claimable.license_plate, jurisdiction: claimable.plate_jurisdiction || '' },
+            }),
+          },
+        ]
+      );
+    } catch (error: any) {
+      console.error('Error checking license plate:', error.message);
+      Alert.alert('Error', 'A vehicle with this license plate already exists');
+    }
+  };
+
+  // Returns the number of photos that failed to upload
+  const uploadPhotos = async (vehicleId: string) => {
+    if (!session?.user) return photos.length;
+
+    let failed = 0;
+    for (const photo of photos) {
+      try {
+        await uploadVehiclePhoto(vehicleId, session.user.id, photo.uri, photo.mimeType);
+      } catch (error: any) {
+        console.error('Error uploading vehicle photo:', error.message);
+        failed += 1;
+      }
+    }
+    return failed;
+  };
+
+  const handleRestore = async (vehicleId: string) => {
+    try {
+      await restoreVehicle(vehicleId);
+      router.replace({ pathname: '/vehicle-details', params: { id: vehicleId } });
+    } catch (error: any) {
+      console.error('Error restoring vehicle:', error.message);
+      Alert.alert('Error', 'Failed to restore the vehicle. Please try again.');
+    }
+  };
+
   const ColorSelection = () => (
     <View style={styles.colorSelectionContainer}>
       {COLORS.map((color) => (
@@ -146,6 +273,27 @@ export default function AddVehicleScreen() {
     </View>
   );
 
+  const BodyTypeSelection = () => (
+    <View style={styles.bodyTypeContainer}>
+      {BODY_TYPES.map((type) => (
+        <TouchableOpacity
+          key={type}
+          style={[styles.bodyTypeOption, bodyType === type && styles.bodyTypeOptionSelected]}
+          onPress={() => setBodyType(type)}
+        >
+          <FontAwesome5
+            name={BODY_TYPE_ICONS[type]}
+            size={16}
+            color={bodyType === type ? '#4F46E5' : '#6B7280'}
+          />
+          <Text style={[styles.bodyTypeText, bodyType === type && styles.bodyTypeTextSelected]}>
+            {BODY_TYPE_LABELS[type]}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
   return (
     <>
       <Stack.Screen
@@ -181,6 +329,22 @@ export default function AddVehicleScreen() {
               ) : null}
             </View>
 
+            <View style={styles.inputContainer}>
+              <Text style={styles.label}>Plate State / Province</Text>
+              <TextInput
+                value={plateJurisdiction}
+                onChangeText={(text) => setPlateJurisdiction(text.toUpperCase())}
+                placeholder="Where the plate was issued (e.g. CA)"
+                style={styles.input}
+                autoCapitalize="characters"
+              />
+            </View>
+
+            <View style={styles.inputContainer}>
+              <Text style={styles.label}>Vehicle Type</Text>
+              <BodyTypeSelection />
+            </View>
+
             <View style={styles.inputContainer}>
               <Text style={styles.label}>Vehicle Make</Text>
               <TextInput
@@ -207,6 +371,36 @@ export default function AddVehicleScreen() {
               ) : null}
             </View>
 
+            <View style={styles.inputContainer}>
+              <Text style={styles.label}>Year</Text>
+              <TextInput
+                value={year}
+                onChangeText={(text) => setYear(text.replace(/[^0-9]/g, ''))}
+                placeholder="Enter model year (e.g. 2019)"
+                style={styles.input}
+                keyboardType="number-pad"
+                maxLength={4}
+              />
+              {errors.year ? (
+                <Text style={styles.errorText}>{errors.year}</Text>
+              ) : null}
+            </View>
+
+            <View style={styles.inputContainer}>
+              <Text style={styles.label}>VIN</Text>
+              <TextInput
+                value={vin}
+                onChangeText={(text) => setVin(text.toUpperCase().replace(/\s/g, ''))}
+                placeholder="17-character vehicle identification number"
+                style={styles.input}
+                autoCapitalize="characters"
+                maxLength={17}
+              />
+              {errors.vin ? (
+                <Text style={styles.errorText}>{errors.vin}</Text>
+              ) : null}
+            </View>
+
             <View style={styles.inputContainer}>
               <Text style={styles.label}>Registered Name</Text>
               <TextInput
@@ -225,6 +419,15 @@ export default function AddVehicleScreen() {
               ) : null}
             </View>
 
+            <View style={styles.inputContainer}>
+              <Text style={styles.label}>Photos</Text>
+              <VehiclePhotos
+                photos={photos.map(photo => ({ key: photo.uri, uri: photo.uri }))}
+                onAdd={(image) => setPhotos(current => [...current, image])}
+                onRemove={(key) => setPhotos(current => current.filter(photo => photo.uri !== key))}
+              />
+            </View>
+
             <TouchableOpacity
               style={styles.button}
               onPress={handleAddVehicle}
@@ -297,6 +500,34 @@ const styles = StyleSheet.create({
     borderWidth: 2,
     borderColor: '#4F46E5',
   },
+  bodyTypeContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+  },
+  bodyTypeOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+  },
+  bodyTypeOptionSelected: {
+    borderColor: '#4F46E5',
+    backgroundColor: '#EEF2FF',
+  },
+  bodyTypeText: {
+    marginLeft: 8,
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#6B7280',
+  },
+  bodyTypeTextSelected: {
+    color: '#4F46E5',
+  },
   button: {
     backgroundColor: '#4F46E5',
     borderRadius: 8,
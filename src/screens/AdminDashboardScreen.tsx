@@ -0,0 +1,383 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { listProfiles } from '../api/repository';
+import { ProfileWithOrganization } from '../api/types';
+import { useSession } from '../context/SessionContext';
+import { getRoleLabel } from '../utils/audit';
+
+type UserFilterTab = 'all' | 'pending' | 'inactive';
+
+const TAB_LABELS: Record<UserFilterTab, string> = {
+  all: 'All Users',
+  pending: 'Pending',
+  inactive: 'Deactivated',
+};
+
+export default function AdminDashboardScreen() {
+  const router = useRouter();
+  const { session, signOut } = useSession();
+  const userId = session?.user?.id;
+  const [activeTab, setActiveTab] = useState<UserFilterTab>('all');
+  const [search, setSearch] = useState('');
+  // The search the list was loaded with, so typing doesn't reload it
+  const [submittedSearch, setSubmittedSearch] = useState('');
+  const [profiles, setProfiles] = useState<ProfileWithOrganization[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const fetchProfiles = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await listProfiles({
+        search: submittedSearch || undefined,
+        pendingOnly: activeTab === 'pending',
+        inactiveOnly: activeTab === 'inactive',
+      });
+      setProfiles(data);
+    } catch (error: any) {
+      console.error('Error fetching users:', error.message);
+      Alert.alert('Error', 'Failed to load users');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [submittedSearch, activeTab]);
+
+  useEffect(() => {
+    if (userId) {
+      fetchProfiles();
+    }
+  }, [userId, fetchProfiles]);
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    fetchProfiles();
+  };
+
+  const getStatusBadge = (profile: ProfileWithOrganization) => {
+    if (!profile.is_active) {
+      return { label: 'Deactivated', backgroundColor: '#FEE2E2', color: '#DC2626' };
+    }
+    if (profile.approval_status === 'pending') {
+      return { label: 'Pending', backgroundColor: '#FEF3C7', color: '#D97706' };
+    }
+    return null;
+  };
+
+  const renderProfile = ({ item }: { item: ProfileWithOrganization }) => {
+    const badge = getStatusBadge(item);
+
+    return (
+      <TouchableOpacity
+        style={styles.userCard}
+        onPress={() => router.push({ pathname: '/admin/user-details', params: { id: item.id } })}
+      >
+        <View style={styles.avatar}>
+          <FontAwesome5 name="user" size={16} color="#4F46E5" />
+        </View>
+        <View style={styles.userInfo}>
+          <Text style={styles.userName}>{item.full_name || 'No name'}</Text>
+          <Text style={styles.userEmail}>{item.email}</Text>
+          <Text style={styles.userRole}>
+            {getRoleLabel(item.role)}
+            {item.organization ? ` · ${item.organization.name}` : ''}
+          </Text>
+        </View>
+        {badge && (
+          <View style={[styles.statusBadge, { backgroundColor: badge.backgroundColor }]}>
+            <Text style={[styles.statusText, { color: badge.color }]}>{badge.label}</Text>
+          </View>
+        )}
+        <FontAwesome5 name="chevron-right" size={14} color="#9CA3AF" />
+      </TouchableOpacity>
+    );
+  };
+
+  const renderEmptyList = () => (
+    <View style={styles.emptyContainer}>
+      <FontAwesome5 name="users" size={48} color="#D1D5DB" />
+      <Text style={styles.emptyTitle}>No users found</Text>
+      <Text style={styles.emptyText}>
+        {activeTab === 'pending'
+          ? 'There are no role requests waiting for approval.'
+          : 'Try a different search or filter.'}
+      </Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View>
+          <Text style={styles.greeting}>Welcome,</Text>
+          <Text style={styles.title}>Administrator</Text>
+        </View>
+        <View style={styles.headerActions}>
+          <TouchableOpacity onPress={() => router.push('/profile')} style={styles.profileButton}>
+            <FontAwesome5 name="user" size={16} color="#4F46E5" />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => router.push('/admin/vehicle-claims')}
+            style={styles.auditButton}
+          >
+            <FontAwesome5 name="file-signature" size={18} color="#4F46E5" />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => router.push('/admin/violation-codes')}
+            style={styles.auditButton}
+          >
+            <FontAwesome5 name="list-ol" size={18} color="#4F46E5" />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => router.push('/admin/audit-log')}
+            style={styles.auditButton}
+          >
+            <FontAwesome5 name="history" size={18} color="#4F46E5" />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={signOut} style={styles.logoutButton}>
+            <Text style={styles.logoutText}>Logout</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <View style={styles.searchContainer}>
+        <FontAwesome5 name="search" size={14} color="#9CA3AF" />
+        <TextInput
+          value={search}
+          onChangeText={setSearch}
+          onSubmitEditing={() => setSubmittedSearch(search.trim())}
+          placeholder="Search by name, email or organization"
+          autoCapitalize="none"
+          returnKeyType="search"
+          style={styles.searchInput}
+        />
+      </View>
+
+      <View style={styles.tabsContainer}>
+        {(Object.keys(TAB_LABELS) as UserFilterTab[]).map((tab) => (
+          <TouchableOpacity
+            key={tab}
+            style={[styles.tab, activeTab === tab && styles.activeTab]}
+            onPress={() => setActiveTab(tab)}
+          >
+            <Text style={[styles.tabText, activeTab === tab && styles.activeTabText]}>
+              {TAB_LABELS[tab]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {loading && !refreshing ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#4F46E5" />
+          <Text style={styles.loadingText}>Loading users...</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={profiles}
+          renderItem={renderProfile}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContainer}
+          ListEmptyComponent={renderEmptyList}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={['#4F46E5']} />
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F7F9FC',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    paddingTop: 60,
+    backgroundColor: '#FFFFFF',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 3,
+    elevation: 3,
+  },
+  greeting: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 4,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  profileButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#EEF2FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  auditButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#EEF2FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  logoutButton: {
+    backgroundColor: '#EF4444',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+  },
+  logoutText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    margin: 16,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  searchInput: {
+    flex: 1,
+    height: 44,
+    marginLeft: 8,
+    fontSize: 15,
+  },
+  tabsContainer: {
+    flexDirection: 'row',
+    paddingHorizontal: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  tab: {
+    paddingVertical: 12,
+    paddingHorizontal: 12,
+    marginRight: 4,
+  },
+  activeTab: {
+    borderBottomWidth: 2,
+    borderBottomColor: '#4F46E5',
+  },
+  tabText: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  activeTabText: {
+    color: '#4F46E5',
+    fontWeight: '600',
+  },
+  listContainer: {
+    padding: 16,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 8,
+    fontSize: 16,
+    color: '#6B7280',
+  },
+  userCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#EEF2FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  userInfo: {
+    flex: 1,
+  },
+  userName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  userEmail: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  userRole: {
+    fontSize: 13,
+    color: '#4F46E5',
+    marginTop: 4,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 4,
+    marginRight: 8,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+});
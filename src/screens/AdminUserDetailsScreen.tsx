@@ -0,0 +1,623 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Stack, useLocalSearchParams } from 'expo-router';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import {
+  getProfile,
+  listAuditLog,
+  listOrganizations,
+  reviewRoleRequest,
+  changeUserRole,
+  setUserActive,
+  updateUserProfile,
+} from '../api/repository';
+import { AuditLogWithProfiles, Organization, ProfileWithOrganization, UserRole } from '../api/types';
+import { useSession } from '../context/SessionContext';
+import { ROLE_LABELS, describeAuditEntry, getAuditIconAndColor, getRoleLabel } from '../utils/audit';
+
+export default function AdminUserDetailsScreen() {
+  const { id } = useLocalSearchParams();
+  const { session } = useSession();
+  const [profile, setProfile] = useState<ProfileWithOrganization | null>(null);
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [history, setHistory] = useState<AuditLogWithProfiles[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [fullName, setFullName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [organizationId, setOrganizationId] = useState<string | null>(null);
+  // The organization a pending staff or officer request is approved into
+  const [requestOrganizationId, setRequestOrganizationId] = useState<string | null>(null);
+
+  const isSelf = session?.user?.id === id;
+  // Staff work for a tow company and officers for a police department
+  const requestOrganizations = organizations.filter(
+    organization =>
+      organization.type === (profile?.requested_role === 'staff' ? 'tow_company' : 'police_department')
+  );
+
+  const fetchUser = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      setLoading(true);
+      const [profileData, historyData, organizationData] = await Promise.all([
+        getProfile(id as string),
+        listAuditLog({ targetId: id as string }),
+        listOrganizations(),
+      ]);
+
+      setProfile(profileData);
+      setHistory(historyData);
+      setOrganizations(organizationData);
+      setFullName(profileData?.full_name || '');
+      setPhone(profileData?.phone || '');
+      setOrganizationId(profileData?.organization_id || null);
+      setRequestOrganizationId(profileData?.organization_id || null);
+    } catch (error: any) {
+      console.error('Error fetching user:', error.message);
+      Alert.alert('Error', 'Failed to load user details');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchUser();
+  }, [fetchUser]);
+
+  // Runs an admin action, then reloads the profile and its history
+  const runAction = async (action: () => Promise<void>, successMessage: string) => {
+    try {
+      setSaving(true);
+      await action();
+      await fetchUser();
+      Alert.alert('Success', successMessage);
+    } catch (error: any) {
+      console.error('Error updating user:', error.message);
+      Alert.alert('Error', error.message || 'Failed to update user');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReview = (approve: boolean) => {
+    if (!profile) return;
+
+    const requested = getRoleLabel(profile.requested_role);
+    const organization = requestOrganizations.find(candidate => candidate.id === requestOrganizationId);
+
+    if (approve && !organization) {
+      Alert.alert('Choose Organization', `Choose the organization this ${requested.toLowerCase()} works for.`);
+      return;
+    }
+
+    Alert.alert(
+      approve ? 'Approve Request' : 'Reject Request',
+      approve
+        ? `Give ${profile.full_name || profile.email} ${requested} access at ${organization?.name}?`
+        : `Reject the request for ${requested} access? The user will stay a vehicle owner.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: approve ? 'Approve' : 'Reject',
+          style: approve ? 'default' : 'destructive',
+          onPress: () =>
+            runAction(
+              () => reviewRoleRequest(profile.id, approve, approve ? organization?.id : null),
+              approve ? 'Role request approved' : 'Role request rejected'
+            ),
+        },
+      ]
+    );
+  };
+
+  const handleRoleChange = (role: UserRole) => {
+    if (!profile || role === profile.role) return;
+
+    Alert.alert(
+      'Change Role',
+      `Change ${profile.full_name || profile.email} from ${getRoleLabel(profile.role)} to ${getRoleLabel(role)}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Change',
+          onPress: () => runAction(() => changeUserRole(profile.id, role), 'Role updated'),
+        },
+      ]
+    );
+  };
+
+  const handleToggleActive = () => {
+    if (!profile) return;
+
+    const activate = !profile.is_active;
+    Alert.alert(
+      activate ? 'Reactivate Account' : 'Deactivate Account',
+      activate
+        ? 'The user will be able to sign in again.'
+        : 'The user will be signed out on all devices and can no longer sign in.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: activate ? 'Reactivate' : 'Deactivate',
+          style: activate ? 'default' : 'destructive',
+          onPress: () =>
+            runAction(
+              () => setUserActive(profile.id, activate),
+              activate ? 'Account reactivated' : 'Account deactivated'
+            ),
+        },
+      ]
+    );
+  };
+
+  const handleSaveDetails = () => {
+    if (!profile) return;
+
+    runAction(
+      () => updateUserProfile(profile.id, { full_name: fullName, phone, organization_id: organizationId }),
+      'Profile details saved'
+    );
+  };
+
+  const renderHistory = () => (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>History</Text>
+      {history.length === 0 ? (
+        <Text style={styles.emptyText}>No changes have been made to this account.</Text>
+      ) : (
+        history.map((entry) => {
+          const { icon, color } = getAuditIconAndColor(entry.action);
+          return (
+            <View key={entry.id} style={styles.historyItem}>
+              <View style={[styles.historyIcon, { backgroundColor: `${color}20` }]}>
+                <FontAwesome5 name={icon} size={14} color={color} />
+              </View>
+              <View style={styles.historyContent}>
+                <Text style={styles.historyTitle}>{describeAuditEntry(entry)}</Text>
+                <Text style={styles.historyMeta}>
+                  {entry.actor?.full_name || entry.actor?.email || 'Unknown admin'} ·{' '}
+                  {format(new Date(entry.created_at), 'MMM d, yyyy h:mm a')}
+                </Text>
+              </View>
+            </View>
+          );
+        })
+      )}
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#4F46E5" />
+        <Text style={styles.loadingText}>Loading user...</Text>
+      </View>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <View style={styles.loadingContainer}>
+        <FontAwesome5 name="user-slash" size={48} color="#D1D5DB" />
+        <Text style={styles.loadingText}>User not found</Text>
+      </View>
+    );
+  }
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'Manage User',
+          headerShown: true,
+          headerStyle: {
+            backgroundColor: '#F7F9FC',
+          },
+          headerTitleStyle: {
+            fontWeight: 'bold',
+          },
+        }}
+      />
+
+      <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+        <View style={styles.card}>
+          <Text style={styles.userName}>{profile.full_name || 'No name'}</Text>
+          <Text style={styles.userEmail}>{profile.email}</Text>
+
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Role</Text>
+            <Text style={styles.detailValue}>{getRoleLabel(profile.role)}</Text>
+          </View>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Organization</Text>
+            <Text style={styles.detailValue}>{profile.organization?.name || 'None'}</Text>
+          </View>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Status</Text>
+            <Text style={[styles.detailValue, !profile.is_active && styles.inactiveText]}>
+              {profile.is_active ? 'Active' : 'Deactivated'}
+            </Text>
+          </View>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Joined</Text>
+            <Text style={styles.detailValue}>
+              {format(new Date(profile.created_at), 'MMM d, yyyy')}
+            </Text>
+          </View>
+        </View>
+
+        {profile.approval_status === 'pending' && (
+          <View style={[styles.card, styles.pendingCard]}>
+            <Text style={styles.cardTitle}>Pending Role Request</Text>
+            <Text style={styles.pendingText}>
+              Requested {getRoleLabel(profile.requested_role)} access
+            </Text>
+            <Text style={styles.label}>Organization</Text>
+            {requestOrganizations.length === 0 ? (
+              <Text style={styles.hintText}>
+                There is no {profile.requested_role === 'staff' ? 'tow company' : 'police department'} to
+                approve this request into yet.
+              </Text>
+            ) : (
+              <View style={[styles.roleContainer, styles.organizationContainer]}>
+                {requestOrganizations.map((organization) => {
+                  const selected = requestOrganizationId === organization.id;
+                  return (
+                    <TouchableOpacity
+                      key={organization.id}
+                      style={[styles.roleButton, selected && styles.roleButtonSelected]}
+                      onPress={() => setRequestOrganizationId(organization.id)}
+                      disabled={saving}
+                    >
+                      <Text style={[styles.roleButtonText, selected && styles.roleButtonTextSelected]}>
+                        {organization.name}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            )}
+            <View style={styles.buttonRow}>
+              <TouchableOpacity
+                style={[styles.actionButton, styles.approveButton]}
+                onPress={() => handleReview(true)}
+                disabled={saving}
+              >
+                <FontAwesome5 name="check" size={14} color="#FFFFFF" />
+                <Text style={styles.actionButtonText}>Approve</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.actionButton, styles.rejectButton]}
+                onPress={() => handleReview(false)}
+                disabled={saving}
+              >
+                <FontAwesome5 name="times" size={14} color="#FFFFFF" />
+                <Text style={styles.actionButtonText}>Reject</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Role</Text>
+          {isSelf && <Text style={styles.hintText}>You can't change your own role.</Text>}
+          <View style={styles.roleContainer}>
+            {(Object.keys(ROLE_LABELS) as UserRole[]).map((role) => (
+              <TouchableOpacity
+                key={role}
+                style={[styles.roleButton, profile.role === role && styles.roleButtonSelected]}
+                onPress={() => handleRoleChange(role)}
+                disabled={saving || isSelf}
+              >
+                <Text
+                  style={[styles.roleButtonText, profile.role === role && styles.roleButtonTextSelected]}
+                >
+                  {ROLE_LABELS[role]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Profile Details</Text>
+
+          <Text style={styles.label}>Full Name</Text>
+          <TextInput value={fullName} onChangeText={setFullName} style={styles.input} />
+
+          <Text style={styles.label}>Phone</Text>
+          <TextInput
+            value={phone}
+            onChangeText={setPhone}
+            keyboardType="phone-pad"
+            style={styles.input}
+          />
+
+          <Text style={styles.label}>Organization</Text>
+          <Text style={styles.hintText}>
+            Staff and officers only see the tows, fines and complaints of their organization.
+          </Text>
+          <View style={[styles.roleContainer, styles.organizationContainer]}>
+            {[null, ...organizations].map((organization) => {
+              const selected = organizationId === (organization?.id || null);
+              return (
+                <TouchableOpacity
+                  key={organization?.id || 'none'}
+                  style={[styles.roleButton, selected && styles.roleButtonSelected]}
+                  onPress={() => setOrganizationId(organization?.id || null)}
+                  disabled={saving}
+                >
+                  <Text style={[styles.roleButtonText, selected && styles.roleButtonTextSelected]}>
+                    {organization?.name || 'None'}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <TouchableOpacity
+            style={[styles.saveButton, saving && styles.disabledButton]}
+            onPress={handleSaveDetails}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <Text style={styles.saveButtonText}>Save Details</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        {!isSelf && (
+          <TouchableOpacity
+            style={[styles.deactivateButton, !profile.is_active && styles.reactivateButton]}
+            onPress={handleToggleActive}
+            disabled={saving}
+          >
+            <FontAwesome5
+              name={profile.is_active ? 'user-slash' : 'user-check'}
+              size={16}
+              color={profile.is_active ? '#EF4444' : '#10B981'}
+            />
+            <Text
+              style={[styles.deactivateText, !profile.is_active && styles.reactivateText]}
+            >
+              {profile.is_active ? 'Deactivate Account' : 'Reactivate Account'}
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {renderHistory()}
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F7F9FC',
+  },
+  content: {
+    padding: 16,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F7F9FC',
+  },
+  loadingText: {
+    marginTop: 8,
+    fontSize: 16,
+    color: '#6B7280',
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 12,
+  },
+  userName: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  userEmail: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    marginBottom: 6,
+  },
+  detailLabel: {
+    fontSize: 14,
+    color: '#6B7280',
+    width: 80,
+  },
+  detailValue: {
+    fontSize: 14,
+    color: '#111827',
+    flex: 1,
+  },
+  inactiveText: {
+    color: '#DC2626',
+  },
+  pendingCard: {
+    backgroundColor: '#FFFBEB',
+  },
+  pendingText: {
+    fontSize: 14,
+    color: '#92400E',
+    marginBottom: 12,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+    borderRadius: 8,
+    marginHorizontal: 4,
+  },
+  approveButton: {
+    backgroundColor: '#059669',
+  },
+  rejectButton: {
+    backgroundColor: '#DC2626',
+  },
+  actionButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginBottom: 8,
+  },
+  roleContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  roleButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    marginBottom: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  roleButtonSelected: {
+    backgroundColor: '#4F46E5',
+    borderColor: '#4F46E5',
+  },
+  roleButtonText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  roleButtonTextSelected: {
+    color: '#FFFFFF',
+  },
+  organizationContainer: {
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 6,
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    height: 44,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    paddingHorizontal: 12,
+    fontSize: 15,
+    marginBottom: 12,
+  },
+  saveButton: {
+    backgroundColor: '#4F46E5',
+    height: 46,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  deactivateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#EF4444',
+    borderRadius: 8,
+    height: 46,
+    marginBottom: 16,
+  },
+  reactivateButton: {
+    borderColor: '#10B981',
+  },
+  deactivateText: {
+    color: '#EF4444',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  reactivateText: {
+    color: '#10B981',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  historyItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  historyIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  historyContent: {
+    flex: 1,
+  },
+  historyTitle: {
+    fontSize: 14,
+    color: '#111827',
+  },
+  historyMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+});
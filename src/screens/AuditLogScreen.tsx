@@ -0,0 +1,198 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { Stack, useRouter } from 'expo-router';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { listAuditLog } from '../api/repository';
+import { AuditLogWithProfiles } from '../api/types';
+import { describeAuditEntry, getAuditIconAndColor } from '../utils/audit';
+
+// Every account change made from the admin console, newest first
+export default function AuditLogScreen() {
+  const router = useRouter();
+  const [entries, setEntries] = useState<AuditLogWithProfiles[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    fetchEntries();
+  }, []);
+
+  const fetchEntries = async () => {
+    try {
+      setLoading(true);
+      const data = await listAuditLog({ limit: 100 });
+      setEntries(data);
+    } catch (error: any) {
+      console.error('Error fetching audit log:', error.message);
+      Alert.alert('Error', 'Failed to load the audit log');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    fetchEntries();
+  };
+
+  const renderEntry = ({ item }: { item: AuditLogWithProfiles }) => {
+    const { icon, color } = getAuditIconAndColor(item.action);
+
+    return (
+      <TouchableOpacity
+        style={styles.entryCard}
+        disabled={!item.target_id}
+        onPress={() =>
+          item.target_id &&
+          router.push({ pathname: '/admin/user-details', params: { id: item.target_id } })
+        }
+      >
+        <View style={[styles.entryIcon, { backgroundColor: `${color}20` }]}>
+          <FontAwesome5 name={icon} size={16} color={color} />
+        </View>
+        <View style={styles.entryContent}>
+          <Text style={styles.entryTarget}>
+            {item.target?.full_name || item.target?.email || 'Deleted user'}
+          </Text>
+          <Text style={styles.entryTitle}>{describeAuditEntry(item)}</Text>
+          <Text style={styles.entryMeta}>
+            By {item.actor?.full_name || item.actor?.email || 'unknown admin'} ·{' '}
+            {format(new Date(item.created_at), 'MMM d, yyyy h:mm a')}
+          </Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderEmptyList = () => (
+    <View style={styles.emptyContainer}>
+      <FontAwesome5 name="history" size={48} color="#D1D5DB" />
+      <Text style={styles.emptyTitle}>No changes yet</Text>
+      <Text style={styles.emptyText}>Account changes made by admins will appear here.</Text>
+    </View>
+  );
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'Audit Log',
+          headerShown: true,
+          headerStyle: {
+            backgroundColor: '#F7F9FC',
+          },
+          headerTitleStyle: {
+            fontWeight: 'bold',
+          },
+        }}
+      />
+
+      <View style={styles.container}>
+        {loading && !refreshing ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#4F46E5" />
+            <Text style={styles.loadingText}>Loading audit log...</Text>
+          </View>
+        ) : (
+          <FlatList
+            data={entries}
+            renderItem={renderEntry}
+            keyExtractor={(item) => item.id}
+            contentContainerStyle={styles.listContainer}
+            ListEmptyComponent={renderEmptyList}
+            refreshControl={
+              <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={['#4F46E5']} />
+            }
+          />
+        )}
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F7F9FC',
+  },
+  listContainer: {
+    padding: 16,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 8,
+    fontSize: 16,
+    color: '#6B7280',
+  },
+  entryCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  entryIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  entryContent: {
+    flex: 1,
+  },
+  entryTarget: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  entryTitle: {
+    fontSize: 14,
+    color: '#374151',
+    marginTop: 2,
+  },
+  entryMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,390 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+  Image,
+} from 'react-native';
+import { Stack, useLocalSearchParams } from 'expo-router';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import {
+  listOwnVehicleClaims,
+  submitVehicleClaim,
+  uploadVehicleDocument,
+} from '../api/repository';
+import { VehicleClaim, VehicleClaimStatus } from '../api/types';
+import { useSession } from '../context/SessionContext';
+import { ImageSource, PickedImage, pickImage } from '../utils/imagePicker';
+
+const getStatusStyles = (status: VehicleClaimStatus) => {
+  switch (status) {
+    case 'approved':
+      return { badge: { backgroundColor: '#D1FAE5' }, text: { color: '#059669' } };
+    case 'rejected':
+      return { badge: { backgroundColor: '#FEE2E2' }, text: { color: '#DC2626' } };
+    default:
+      return { badge: { backgroundColor: '#FEF3C7' }, text: { color: '#D97706' } };
+  }
+};
+
+export default function ClaimVehicleScreen() {
+  const { plate, jurisdiction } = useLocalSearchParams<{ plate?: string; jurisdiction?: string }>();
+  const { session } = useSession();
+  const userId = session?.user?.id;
+  const [licensePlate, setLicensePlate] = useState(plate || '');
+  const [plateJurisdiction, setPlateJurisdiction] = useState(jurisdiction || '');
+  const [note, setNote] = useState('');
+  const [document, setDocument] = useState<PickedImage | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [claims, setClaims] = useState<VehicleClaim[]>([]);
+  const [loadingClaims, setLoadingClaims] = useState(true);
+
+  const fetchClaims = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      setLoadingClaims(true);
+      setClaims(await listOwnVehicleClaims(userId));
+    } catch (error: any) {
+      console.error('Error fetching vehicle claims:', error.message);
+      Alert.alert('Error', 'Failed to load your vehicle claims');
+    } finally {
+      setLoadingClaims(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchClaims();
+  }, [fetchClaims]);
+
+  const pickDocument = async (source: ImageSource) => {
+    const image = await pickImage(source, 'your registration document');
+    if (image) setDocument(image);
+  };
+
+  const handleSubmit = async () => {
+    if (!session?.user) return;
+
+    if (!licensePlate.trim()) {
+      Alert.alert('Error', 'Please enter the license plate of the vehicle');
+      return;
+    }
+
+    if (!document) {
+      Alert.alert('Error', 'Please add a photo of your registration document');
+      return;
+    }
+
+    setSubmitting(true);
+
+    try {
+      const documentPath = await uploadVehicleDocument(session.user.id, document.uri, document.mimeType);
+      await submitVehicleClaim(licensePlate, plateJurisdiction, documentPath, note.trim());
+
+      setLicensePlate('');
+      setPlateJurisdiction('');
+      setNote('');
+      setDocument(null);
+      fetchClaims();
+      Alert.alert(
+        'Claim Submitted',
+        'Your claim will be reviewed by our staff. You will be notified once it has been decided.'
+      );
+    } catch (error: any) {
+      console.error('Error submitting vehicle claim:', error.message);
+      // Messages raised by submit_vehicle_claim explain what's wrong
+      Alert.alert('Error', error.code === 'P0001' || error.code === 'P0002'
+        ? error.message
+        : 'Failed to submit your claim. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderClaim = (claim: VehicleClaim) => {
+    const statusStyles = getStatusStyles(claim.status);
+
+    return (
+      <View key={claim.id} style={styles.claimCard}>
+        <View style={styles.claimHeader}>
+          <Text style={styles.claimPlate}>{claim.license_plate}</Text>
+          <View style={[styles.statusBadge, statusStyles.badge]}>
+            <Text style={statusStyles.text}>
+              {claim.status.charAt(0).toUpperCase() + claim.status.slice(1)}
+            </Text>
+          </View>
+        </View>
+        <Text style={styles.claimDate}>
+          Submitted {format(new Date(claim.created_at), 'MMM d, yyyy')}
+        </Text>
+        {claim.review_note ? (
+          <Text style={styles.claimReviewNote}>{claim.review_note}</Text>
+        ) : null}
+      </View>
+    );
+  };
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'Claim Vehicle',
+          headerShown: true,
+          headerStyle: {
+            backgroundColor: '#F7F9FC',
+          },
+          headerTitleStyle: {
+            fontWeight: 'bold',
+          },
+          headerShadowVisible: false,
+        }}
+      />
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.container}
+      >
+        <ScrollView contentContainerStyle={styles.scrollContainer}>
+          <View style={styles.formContainer}>
+            <View style={styles.infoBox}>
+              <FontAwesome5 name="info-circle" size={16} color="#4F46E5" />
+              <Text style={styles.infoText}>
+                Vehicles that were towed or fined before being registered in the app can be
+                claimed. Once approved, the vehicle and its tow and fine history appear in your
+                account.
+              </Text>
+            </View>
+
+            <View style={styles.inputContainer}>
+              <Text style={styles.label}>License Plate</Text>
+              <TextInput
+                value={licensePlate}
+                onChangeText={(text) => setLicensePlate(text.toUpperCase())}
+                placeholder="Enter license plate number"
+                style={styles.input}
+                autoCapitalize="characters"
+              />
+            </View>
+
+            <View style={styles.inputContainer}>
+              <Text style={styles.label}>Plate State / Province</Text>
+              <TextInput
+                value={plateJurisdiction}
+                onChangeText={(text) => setPlateJurisdiction(text.toUpperCase())}
+                placeholder="Where the plate was issued, if known (e.g. CA)"
+                style={styles.input}
+                autoCapitalize="characters"
+              />
+            </View>
+
+            <View style={styles.inputContainer}>
+              <Text style={styles.label}>Registration Document</Text>
+              {document ? (
+                <View style={styles.previewContainer}>
+                  <Image source={{ uri: document.uri }} style={styles.preview} resizeMode="cover" />
+                  <TouchableOpacity style={styles.removeButton} onPress={() => setDocument(null)}>
+                    <FontAwesome5 name="times" size={14} color="#FFFFFF" />
+                  </TouchableOpacity>
+                </View>
+              ) : (
+                <View style={styles.pickerRow}>
+                  <TouchableOpacity style={styles.pickerButton} onPress={() => pickDocument('camera')}>
+                    <FontAwesome5 name="camera" size={18} color="#4F46E5" />
+                    <Text style={styles.pickerText}>Take Photo</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={styles.pickerButton} onPress={() => pickDocument('library')}>
+                    <FontAwesome5 name="images" size={18} color="#4F46E5" />
+                    <Text style={styles.pickerText}>Choose Photo</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+            </View>
+
+            <View style={styles.inputContainer}>
+              <Text style={styles.label}>Note (optional)</Text>
+              <TextInput
+                value={note}
+                onChangeText={setNote}
+                placeholder="Anything the reviewer should know"
+                style={[styles.input, styles.noteInput]}
+                multiline
+                textAlignVertical="top"
+              />
+            </View>
+
+            <TouchableOpacity
+              style={styles.button}
+              onPress={handleSubmit}
+              disabled={submitting}
+            >
+              {submitting ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.buttonText}>Submit Claim</Text>
+              )}
+            </TouchableOpacity>
+
+            <Text style={styles.sectionTitle}>Your Claims</Text>
+            {loadingClaims ? (
+              <ActivityIndicator size="small" color="#4F46E5" />
+            ) : claims.length > 0 ? (
+              claims.map(renderClaim)
+            ) : (
+              <Text style={styles.emptyText}>You haven't claimed any vehicles yet.</Text>
+            )}
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F7F9FC',
+  },
+  scrollContainer: {
+    flexGrow: 1,
+  },
+  formContainer: {
+    flex: 1,
+    padding: 20,
+  },
+  infoBox: {
+    flexDirection: 'row',
+    backgroundColor: '#EEF2FF',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 24,
+  },
+  infoText: {
+    flex: 1,
+    marginLeft: 10,
+    fontSize: 14,
+    color: '#4B5563',
+  },
+  inputContainer: {
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    height: 50,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    paddingHorizontal: 16,
+    fontSize: 16,
+  },
+  noteInput: {
+    height: 100,
+    paddingTop: 12,
+  },
+  pickerRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  pickerButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderStyle: 'dashed',
+    paddingVertical: 20,
+  },
+  pickerText: {
+    marginTop: 8,
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#4F46E5',
+  },
+  previewContainer: {
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  preview: {
+    width: '100%',
+    height: 200,
+  },
+  removeButton: {
+    position: 'absolute',
+    top: 8,
+    right: 8,
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  button: {
+    backgroundColor: '#4F46E5',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginBottom: 32,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 12,
+  },
+  claimCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  claimHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  claimPlate: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    letterSpacing: 1,
+    color: '#111827',
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 4,
+  },
+  claimDate: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  claimReviewNote: {
+    fontSize: 14,
+    color: '#4B5563',
+    marginTop: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+});
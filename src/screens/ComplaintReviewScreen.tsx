@@ -16,65 +16,27 @@ import {
 } from 'react-native';
 import { Stack, useRouter } from 'expo-router';
 import { FontAwesome5 } from '@expo/vector-icons';
-import { supabase } from '../api/supabase';
+import { listComplaints, updateComplaint, notifyUser } from '../api/repository';
+import { Complaint, ComplaintStatus, ComplaintWithRelations } from '../api/types';
 import { useSession } from '../context/SessionContext';
 import { format } from 'date-fns';
 
-interface Complaint {
-  id: string;
-  user_id: string;
-  subject: string;
-  description: string;
-  type: 'general' | 'vehicle' | 'fine' | 'tow';
-  vehicle_id: string | null;
-  fine_id: string | null;
-  tow_id: string | null;
-  status: 'pending' | 'in_review' | 'resolved' | 'rejected';
-  created_at: string;
-  response?: string;
-  resolved_at?: string;
-  resolved_by?: string;
-  profiles?: {
-    id: string;
-    email: string;
-    full_name: string | null;
-    phone: string | null;
-  };
-  vehicles?: {
-    id: string;
-    license_plate: string;
-    model: string;
-    color: string;
-  };
-  tows?: {
-    id: string;
-    location: string;
-    tow_date: string;
-  };
-  fines?: {
-    id: string;
-    amount: number;
-    description: string;
-    issue_date: string;
-  };
-}
-
 type ComplaintStatusTab = 'pending' | 'in_review' | 'resolved' | 'rejected' | 'all';
 
 export default function ComplaintReviewScreen() {
   const router = useRouter();
   const { session } = useSession();
   const [activeTab, setActiveTab] = useState<ComplaintStatusTab>('pending');
-  const [complaints, setComplaints] = useState<Complaint[]>([]);
+  const [complaints, setComplaints] = useState<ComplaintWithRelations[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [updating, setUpdating] = useState<string | null>(null);
 
   // Response modal state
   const [responseModalVisible, setResponseModalVisible] = useState(false);
-  const [selectedComplaint, setSelectedComplaint] = useState<Complaint | null>(null);
+  const [selectedComplaint, setSelectedComplaint] = useState<ComplaintWithRelations | null>(null);
   const [responseText, setResponseText] = useState('');
-  const [selectedStatus, setSelectedStatus] = useState<'pending' | 'in_review' | 'resolved' | 'rejected'>('in_review');
+  const [selectedStatus, setSelectedStatus] = useState<ComplaintStatus>('in_review');
   const [submittingResponse, setSubmittingResponse] = useState(false);
 
   useEffect(() => {
@@ -89,121 +51,14 @@ export default function ComplaintReviewScreen() {
     try {
       setLoading(true);
 
-      // First, fetch all complaints without joining relationships
-      let query = supabase
-        .from('complaints')
-        .select('*');
-
       // Filter by status if not viewing all
-      if (activeTab !== 'all') {
-        query = query.eq('status', activeTab);
-      }
-
-      // Order by most recent first
-      query = query.order('created_at', { ascending: false });
-
-      const { data, error } = await query;
-
-      if (error) throw error;
+      const data = await listComplaints({
+        status: activeTab === 'all' ? undefined : activeTab,
+        includeProfiles: true,
+      });
 
-      // If we have complaints, fetch all related data
-      if (data && data.length > 0) {
-        // 1. Collect IDs for all related data we need to fetch
-        const userIds = [...new Set(data.map(c => c.user_id).filter(Boolean))];
-        const vehicleIds = [...new Set(data.map(c => c.vehicle_id).filter(Boolean))];
-        const towIds = [...new Set(data.map(c => c.tow_id).filter(Boolean))];
-        const fineIds = [...new Set(data.map(c => c.fine_id).filter(Boolean))];
-        
-        // 2. Create empty maps for all related data
-        const profilesMap: Record<string, any> = {};
-        const vehiclesMap: Record<string, any> = {};
-        const towsMap: Record<string, any> = {};
-        const finesMap: Record<string, any> = {};
-        
-        // 3. Fetch profiles if needed
-        if (userIds.length > 0) {
-          const { data: profilesData } = await supabase
-            .from('profiles')
-            .select('id, email, full_name, phone')
-            .in('id', userIds);
-            
-          if (profilesData) {
-            profilesData.forEach(profile => {
-              profilesMap[profile.id] = profile;
-            });
-          }
-        }
-        
-        // 4. Fetch vehicles if needed
-        if (vehicleIds.length > 0) {
-          const { data: vehiclesData } = await supabase
-            .from('vehicles')
-            .select('id, license_plate, model, color')
-            .in('id', vehicleIds);
-            
-          if (vehiclesData) {
-            vehiclesData.forEach(vehicle => {
-              vehiclesMap[vehicle.id] = vehicle;
-            });
-          }
-        }
-        
-        // 5. Fetch tows if needed
-        if (towIds.length > 0) {
-          const { data: towsData } = await supabase
-            .from('tows')
-            .select('id, location, tow_date')
-            .in('id', towIds);
-            
-          if (towsData) {
-            towsData.forEach(tow => {
-              towsMap[tow.id] = tow;
-            });
-          }
-        }
-        
-        // 6. Fetch fines if needed
-        if (fineIds.length > 0) {
-          const { data: finesData } = await supabase
-            .from('fines')
-            .select('id, amount, description, issue_date')
-            .in('id', fineIds);
-            
-          if (finesData) {
-            finesData.forEach(fine => {
-              finesMap[fine.id] = fine;
-            });
-          }
-        }
-        
-        // 7. Combine all data
-        const completeComplaints = data.map(complaint => {
-          const completeComplaint = { ...complaint };
-          
-          if (complaint.user_id && profilesMap[complaint.user_id]) {
-            completeComplaint.profiles = profilesMap[complaint.user_id];
-          }
-          
-          if (complaint.vehicle_id && vehiclesMap[complaint.vehicle_id]) {
-            completeComplaint.vehicles = vehiclesMap[complaint.vehicle_id];
-          }
-          
-          if (complaint.tow_id && towsMap[complaint.tow_id]) {
-            completeComplaint.tows = towsMap[complaint.tow_id];
-          }
-          
-          if (complaint.fine_id && finesMap[complaint.fine_id]) {
-            completeComplaint.fines = finesMap[complaint.fine_id];
-          }
-          
-          return completeComplaint;
-        });
-        
-        console.log('Fetched complete complaints data:', completeComplaints.length);
-        setComplaints(completeComplaints);
-      } else {
-        setComplaints(data || []);
-      }
+      console.log('Fetched complete complaints data:', data.length);
+      setComplaints(data);
     } catch (error: any) {
       console.error('Error fetching complaints:', error.message);
       Alert.alert('Error', 'Failed to load complaints. Please try again.');
@@ -213,13 +68,13 @@ export default function ComplaintReviewScreen() {
     }
   };
 
-  const updateComplaintStatus = async (id: string, newStatus: ComplaintStatusTab, response?: string) => {
+  const updateComplaintStatus = async (id: string, newStatus: ComplaintStatus, response?: string) => {
     if (!session?.user) return;
     
     setUpdating(id);
     
     try {
-      const updateData: any = {
+      const updateData: Partial<Pick<Complaint, 'status' | 'response' | 'resolved_at' | 'resolved_by'>> = {
         status: newStatus,
       };
       
@@ -232,17 +87,12 @@ export default function ComplaintReviewScreen() {
         updateData.resolved_by = session.user.id;
       }
       
-      const { error } = await supabase
-        .from('complaints')
-        .update(updateData)
-        .eq('id', id);
-        
-      if (error) throw error;
+      await updateComplaint(id, updateData);
       
       // Create notification for the user who submitted the complaint
       const complaintToUpdate = complaints.find(comp => comp.id === id);
       if (complaintToUpdate && complaintToUpdate.user_id) {
-        const notificationData = {
+        await notifyUser({
           user_id: complaintToUpdate.user_id,
           type: 'complaint_update',
           title: `Complaint ${newStatus === 'resolved' ? 'Resolved' : 'Updated'}`,
@@ -250,10 +100,7 @@ export default function ComplaintReviewScreen() {
             ? `Your complaint "${complaintToUpdate.subject}" has been resolved.`
             : `Your complaint "${complaintToUpdate.subject}" has been updated to ${newStatus.replace('_', ' ')}.`,
           related_id: id,
-          is_read: false,
-        };
-        
-        await supabase.from('notifications').insert(notificationData);
+        });
       }
       
       // Refresh the list
@@ -277,7 +124,7 @@ export default function ComplaintReviewScreen() {
     }
   };
 
-  const handleStatusChange = (id: string, newStatus: ComplaintStatusTab) => {
+  const handleStatusChange = (id: string, newStatus: ComplaintStatus) => {
     if (newStatus === 'resolved') {
       Alert.alert(
         'Resolve Complaint',
@@ -295,7 +142,7 @@ export default function ComplaintReviewScreen() {
     }
   };
 
-  const handleOpenResponseModal = (complaint: Complaint) => {
+  const handleOpenResponseModal = (complaint: ComplaintWithRelations) => {
     setSelectedComplaint(complaint);
     setSelectedStatus(complaint.status);
     setResponseText(complaint.response || '');
@@ -364,7 +211,7 @@ export default function ComplaintReviewScreen() {
     }
   };
 
-  const renderComplaint = ({ item }: { item: Complaint }) => {
+  const renderComplaint = ({ item }: { item: ComplaintWithRelations }) => {
     const isUpdating = updating === item.id;
     const isPending = item.status === 'pending';
     const isInReview = item.status === 'in_review';
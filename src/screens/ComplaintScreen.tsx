@@ -15,15 +15,10 @@ import {
 import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
 import { FontAwesome5 } from '@expo/vector-icons';
 import { Picker } from '@react-native-picker/picker';
-import { supabase } from '../api/supabase';
+import { listOwnerVehicles, createComplaint } from '../api/repository';
+import { ComplaintType, Vehicle } from '../api/types';
 import { useSession } from '../context/SessionContext';
 
-interface Vehicle {
-  id: string;
-  license_plate: string;
-  model: string;
-}
-
 export default function ComplaintScreen() {
   const { session } = useSession();
   const router = useRouter();
@@ -32,7 +27,7 @@ export default function ComplaintScreen() {
   // Form state
   const [subject, setSubject] = useState('');
   const [description, setDescription] = useState('');
-  const [complaintType, setComplaintType] = useState(params.type as string || 'general');
+  const [complaintType, setComplaintType] = useState<ComplaintType>(params.type as ComplaintType || 'general');
   const [vehicleId, setVehicleId] = useState<string | null>(params.vehicle_id as string || null);
   const [fineId, setFineId] = useState<string | null>(params.fine_id as string || null);
   const [towId, setTowId] = useState<string | null>(params.tow_id as string || null);
@@ -66,14 +61,8 @@ export default function ComplaintScreen() {
     
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('vehicles')
-        .select('id, license_plate, model')
-        .eq('owner_id', session.user.id);
-        
-      if (error) throw error;
-      
-      setVehicles(data || []);
+      const data = await listOwnerVehicles(session.user.id);
+      setVehicles(data);
     } catch (error: any) {
       console.error('Error fetching vehicles:', error.message);
       Alert.alert('Error', 'Failed to load your vehicles');
@@ -83,6 +72,8 @@ export default function ComplaintScreen() {
   };
   
   const handleSubmit = async () => {
+    if (!session?.user) return;
+
     // Validation
     if (!subject.trim()) {
       Alert.alert('Error', 'Please enter a subject for your complaint');
@@ -103,22 +94,15 @@ export default function ComplaintScreen() {
     
     try {
       // Create the complaint record
-      const { data, error } = await supabase
-        .from('complaints')
-        .insert({
-          user_id: session?.user?.id,
-          subject,
-          description,
-          type: complaintType,
-          vehicle_id: vehicleId,
-          fine_id: fineId,
-          tow_id: towId,
-          status: 'pending',
-        })
-        .select()
-        .single();
-        
-      if (error) throw error;
+      await createComplaint({
+        user_id: session.user.id,
+        subject,
+        description,
+        type: complaintType,
+        vehicle_id: vehicleId,
+        fine_id: fineId,
+        tow_id: towId,
+      });
       
       // Show success message
       Alert.alert(
@@ -320,7 +304,7 @@ export default function ComplaintScreen() {
 
   const renderTypeSelector = () => (
     <View style={styles.typeContainer}>
-      {['general', 'vehicle', 'fine', 'tow'].map((type) => (
+      {(['general', 'vehicle', 'fine', 'tow'] as ComplaintType[]).map((type) => (
         <TouchableOpacity
           key={type}
           style={[
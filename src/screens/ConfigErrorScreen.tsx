@@ -0,0 +1,96 @@
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView } from 'react-native';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { config, missingConfig } from '../api/config';
+
+// Shown in place of the app when the Supabase configuration is missing
+export default function ConfigErrorScreen() {
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      <View style={styles.iconContainer}>
+        <FontAwesome5 name="exclamation-triangle" size={40} color="#F59E0B" />
+      </View>
+
+      <Text style={styles.title}>App Not Configured</Text>
+      <Text style={styles.message}>
+        Towify can't connect to its backend because the following settings are missing
+        from the {config.appEnv} build:
+      </Text>
+
+      <View style={styles.card}>
+        {missingConfig.map((name) => (
+          <View key={name} style={styles.variableRow}>
+            <FontAwesome5 name="times-circle" size={14} color="#EF4444" />
+            <Text style={styles.variableName}>{name}</Text>
+          </View>
+        ))}
+      </View>
+
+      <Text style={styles.hint}>
+        For local development, copy .env.example to .env.local and fill in the values, then
+        restart the bundler. For EAS builds, set the variables on the build profile in eas.json.
+      </Text>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+    backgroundColor: '#F7F9FC',
+  },
+  iconContainer: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    backgroundColor: '#FEF3C7',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 12,
+  },
+  message: {
+    fontSize: 15,
+    color: '#4B5563',
+    textAlign: 'center',
+    lineHeight: 22,
+    marginBottom: 20,
+  },
+  card: {
+    alignSelf: 'stretch',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  variableRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  variableName: {
+    marginLeft: 10,
+    fontSize: 14,
+    fontFamily: 'monospace',
+    color: '#111827',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#6B7280',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+});
@@ -11,25 +11,12 @@ import {
 } from 'react-native';
 import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
 import { FontAwesome5 } from '@expo/vector-icons';
-import { supabase } from '../api/supabase';
+import { getFineWithVehicle, payFine } from '../api/repository';
+import { Fine, VehicleSummary } from '../api/types';
 import { useSession } from '../context/SessionContext';
 import { format, parseISO, isAfter } from 'date-fns';
 
-interface FineDetails {
-  id: string;
-  vehicle_id: string;
-  amount: number;
-  description: string;
-  issue_date: string;
-  due_date: string | null;
-  status: 'unpaid' | 'paid' | 'overdue';
-  payment_date: string | null;
-  transaction_id: string | null;
-  license_plate: string;
-  model: string;
-  color: string;
-  tow_id: string | null;
-}
+type FineDetails = Fine & Pick<VehicleSummary, 'license_plate' | 'model' | 'color'>;
 
 export default function FineDetailsScreen() {
   const { id } = useLocalSearchParams();
@@ -49,44 +36,26 @@ export default function FineDetailsScreen() {
 
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('fines')
-        .select(`
-          id,
-          vehicle_id,
-          amount,
-          description,
-          issue_date,
-          due_date,
-          status,
-          payment_date,
-          transaction_id,
-          tow_id,
-          vehicles(license_plate, model, color, owner_id)
-        `)
-        .eq('id', id)
-        .single();
-
-      if (error) throw error;
+      const data = await getFineWithVehicle(id as string);
 
       console.log('Fine details data received:', JSON.stringify(data, null, 2));
 
       // Check if vehicle information exists
-      if (!data.vehicles) {
+      if (!data.vehicle) {
         throw new Error('Vehicle information not found');
       }
 
-      // Handle vehicles data which could be an array or an object
-      const vehicleData = Array.isArray(data.vehicles) ? data.vehicles[0] : data.vehicles;
+      const { vehicle: vehicleData, ...fine } = data;
 
-      // Check if this fine record belongs to the user's vehicle
-      if (vehicleData.owner_id !== session.user.id) {
+      // Check if this fine record belongs to the user. Records of a vehicle
+      // the user has since transferred still do.
+      if (fine.owner_id !== session.user.id) {
         throw new Error('Unauthorized');
       }
 
       // Transform data to include vehicle details in the main fine object
       const fineWithVehicleDetails = {
-        ...data,
+        ...fine,
         license_plate: vehicleData.license_plate,
         model: vehicleData.model,
         color: vehicleData.color,
@@ -149,24 +118,13 @@ export default function FineDetailsScreen() {
       const mockTransactionId = `TX-${Math.floor(Math.random() * 1000000)}-${Date.now()}`;
       
       // Update the fine status in the database
-      const { error } = await supabase
-        .from('fines')
-        .update({
-          status: 'paid',
-          payment_date: new Date().toISOString(),
-          transaction_id: mockTransactionId,
-        })
-        .eq('id', fineDetails.id)
-        .eq('vehicle_id', fineDetails.vehicle_id);
-      
-      if (error) throw error;
+      const payment = await payFine(fineDetails, mockTransactionId);
       
       // Update the local state
       setFineDetails({
         ...fineDetails,
+        ...payment,
         status: 'paid',
-        payment_date: new Date().toISOString(),
-        transaction_id: mockTransactionId,
       });
       
       // Close the modal
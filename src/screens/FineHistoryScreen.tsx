@@ -12,38 +12,23 @@ import {
 } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { FontAwesome5 } from '@expo/vector-icons';
-import { supabase } from '../api/supabase';
+import { listOwnerVehicles, listOwnerFines } from '../api/repository';
+import { FineStatus, FineWithVehicle, Vehicle } from '../api/types';
 import { useSession } from '../context/SessionContext';
 import FineItem from '../components/FineItem';
 
-interface Fine {
-  id: string;
-  vehicle_id: string;
-  amount: number;
-  description: string;
-  issue_date: string;
-  due_date: string | null;
-  status: 'unpaid' | 'paid' | 'overdue';
-  license_plate?: string;
-}
-
-interface VehicleOption {
-  id: string;
-  license_plate: string;
-}
-
 export default function FineHistoryScreen() {
   const router = useRouter();
   const params = useLocalSearchParams();
   const { session } = useSession();
-  const [fines, setFines] = useState<Fine[]>([]);
+  const [fines, setFines] = useState<FineWithVehicle[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [vehicles, setVehicles] = useState<VehicleOption[]>([]);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [selectedVehicleId, setSelectedVehicleId] = useState<string | null>(
     params.vehicle_id as string || null
   );
-  const [statusFilter, setStatusFilter] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<FineStatus | null>(null);
 
   useEffect(() => {
     if (session?.user) {
@@ -56,14 +41,8 @@ export default function FineHistoryScreen() {
     if (!session?.user) return;
 
     try {
-      const { data, error } = await supabase
-        .from('vehicles')
-        .select('id, license_plate')
-        .eq('owner_id', session.user.id);
-
-      if (error) throw error;
-
-      setVehicles(data || []);
+      const data = await listOwnerVehicles(session.user.id);
+      setVehicles(data);
     } catch (error: any) {
       console.error('Error fetching vehicles:', error.message);
       Alert.alert('Error', 'Failed to load your vehicles');
@@ -76,50 +55,13 @@ export default function FineHistoryScreen() {
     try {
       setLoading(true);
       
-      let query = supabase
-        .from('fines')
-        .select(`
-          id,
-          vehicle_id,
-          amount,
-          description,
-          issue_date,
-          due_date,
-          status,
-          vehicles:vehicles(license_plate, owner_id)
-        `)
-        .eq('vehicles.owner_id', session.user.id);
-        
-      // If a specific vehicle is selected, filter by that vehicle
-      if (selectedVehicleId) {
-        query = query.eq('vehicle_id', selectedVehicleId);
-      }
-      
-      // If a status filter is applied
-      if (statusFilter) {
-        query = query.eq('status', statusFilter);
-      }
-      
-      // Order by most recent first
-      query = query.order('issue_date', { ascending: false });
-      
-      const { data, error } = await query;
-
-      if (error) throw error;
-
-      // Transform data to include license_plate in the main fine object
-      const finesWithPlate = data?.map(fine => {
-        // Handle the case where vehicles is an array
-        if (fine.vehicles && Array.isArray(fine.vehicles) && fine.vehicles.length > 0) {
-          return {
-            ...fine,
-            license_plate: fine.vehicles[0].license_plate,
-          };
-        }
-        return fine;
-      }) || [];
+      // Filter by the selected vehicle and status, if any
+      const data = await listOwnerFines(session.user.id, {
+        vehicleId: selectedVehicleId,
+        status: statusFilter,
+      });
 
-      setFines(finesWithPlate);
+      setFines(data);
     } catch (error: any) {
       console.error('Error fetching fine history:', error.message);
       Alert.alert('Error', 'Failed to load fine history');
@@ -301,7 +243,7 @@ export default function FineHistoryScreen() {
               issueDate={item.issue_date}
               dueDate={item.due_date || undefined}
               status={item.status}
-              licensePlate={item.license_plate || ''}
+              licensePlate={item.vehicle?.license_plate || ''}
               onPress={handleFinePress}
             />
           )}
@@ -0,0 +1,227 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Link, useLocalSearchParams } from 'expo-router';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { sendPasswordResetEmail } from '../api/authLinks';
+
+export default function ForgotPasswordScreen() {
+  const params = useLocalSearchParams<{ email?: string }>();
+  const [email, setEmail] = useState(params.email || '');
+  const [emailError, setEmailError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  const handleSend = async () => {
+    if (!email.trim()) {
+      setEmailError('Email is required');
+      return;
+    } else if (!/\S+@\S+\.\S+/.test(email)) {
+      setEmailError('Email is invalid');
+      return;
+    }
+    setEmailError('');
+
+    try {
+      setLoading(true);
+      await sendPasswordResetEmail(email);
+      setSent(true);
+    } catch (error: any) {
+      console.error('Error sending password reset:', error.message);
+      Alert.alert('Error', error.message || 'Failed to send the reset email');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      style={styles.container}
+    >
+      <View style={styles.formContainer}>
+        <Text style={styles.logoText}>TOWIFY</Text>
+
+        {sent ? (
+          <>
+            <View style={styles.iconContainer}>
+              <FontAwesome5 name="envelope-open-text" size={32} color="#4F46E5" />
+            </View>
+            <Text style={styles.title}>Check Your Email</Text>
+            <Text style={styles.message}>
+              If an account exists for {email.trim()}, we've sent a link to reset your password.
+              Open it on this device to choose a new one.
+            </Text>
+
+            <TouchableOpacity style={styles.secondaryButton} onPress={handleSend} disabled={loading}>
+              {loading ? (
+                <ActivityIndicator color="#4F46E5" />
+              ) : (
+                <Text style={styles.secondaryButtonText}>Send Again</Text>
+              )}
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            <Text style={styles.subtitle}>Reset Your Password</Text>
+            <Text style={styles.message}>
+              Enter the email you signed up with and we'll send you a link to set a new password.
+            </Text>
+
+            <View style={styles.inputContainer}>
+              <Text style={styles.label}>Email</Text>
+              <TextInput
+                value={email}
+                onChangeText={setEmail}
+                placeholder="Enter your email"
+                keyboardType="email-address"
+                autoCapitalize="none"
+                style={styles.input}
+              />
+              {emailError ? <Text style={styles.errorText}>{emailError}</Text> : null}
+            </View>
+
+            <TouchableOpacity style={styles.button} onPress={handleSend} disabled={loading}>
+              {loading ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.buttonText}>Send Reset Link</Text>
+              )}
+            </TouchableOpacity>
+          </>
+        )}
+
+        <View style={styles.footer}>
+          <Text style={styles.footerText}>Remembered it? </Text>
+          <Link href="/login" asChild>
+            <TouchableOpacity>
+              <Text style={styles.linkText}>Log In</Text>
+            </TouchableOpacity>
+          </Link>
+        </View>
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F7F9FC',
+  },
+  formContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  logoText: {
+    fontSize: 42,
+    fontWeight: 'bold',
+    color: '#4F46E5',
+    letterSpacing: 2,
+    marginBottom: 10,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  iconContainer: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    backgroundColor: '#EEF2FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 20,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  message: {
+    fontSize: 14,
+    color: '#4B5563',
+    textAlign: 'center',
+    lineHeight: 20,
+    marginBottom: 24,
+  },
+  inputContainer: {
+    width: '100%',
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    height: 50,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    paddingHorizontal: 16,
+    fontSize: 16,
+  },
+  errorText: {
+    color: '#EF4444',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  button: {
+    backgroundColor: '#4F46E5',
+    width: '100%',
+    height: 50,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    backgroundColor: '#FFFFFF',
+    width: '100%',
+    height: 50,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#4F46E5',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#4F46E5',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  footer: {
+    flexDirection: 'row',
+    marginTop: 30,
+  },
+  footerText: {
+    color: '#6B7280',
+    fontSize: 14,
+  },
+  linkText: {
+    color: '#4F46E5',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
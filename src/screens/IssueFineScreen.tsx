@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -11,20 +11,18 @@ import {
 } from 'react-native';
 import { FontAwesome5 } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
-import { supabase } from '../api/supabase';
+import { findVehicleByPlate, issueFine as createFine, listViolationCodes } from '../api/repository';
+import { Vehicle, ViolationCodeWithAmounts } from '../api/types';
 import { useSession } from '../context/SessionContext';
-
-interface Vehicle {
-  id: string;
-  license_plate: string;
-  model: string;
-  make: string;
-  color: string;
-  owner_id: string | null;
-}
+import ViolationCodePicker from '../components/ViolationCodePicker';
+import FineAmountField from '../components/FineAmountField';
+import { BODY_TYPE_LABELS } from '../utils/vehicles';
+import { scheduledFineAmount } from '../utils/violations';
 
 interface FineDetails {
+  // Only used when the fee schedule is overridden
   amount: string;
+  justification: string;
   description: string;
   due_date: Date;
 }
@@ -33,45 +31,53 @@ export default function IssueFineScreen() {
   const router = useRouter();
   const { session } = useSession();
   const [licensePlate, setLicensePlate] = useState('');
+  // Narrows the search to plates issued there; blank searches every state
+  const [plateJurisdiction, setPlateJurisdiction] = useState('');
   const [loading, setLoading] = useState(false);
   const [vehicle, setVehicle] = useState<Vehicle | null>(null);
+  const [codes, setCodes] = useState<ViolationCodeWithAmounts[]>([]);
+  const [violationCode, setViolationCode] = useState<ViolationCodeWithAmounts | null>(null);
+  const [overriding, setOverriding] = useState(false);
   const [fineDetails, setFineDetails] = useState<FineDetails>({
     amount: '',
+    justification: '',
     description: '',
     due_date: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days from now
   });
 
-  const searchVehicle = async () => {
-    if (!licensePlate.trim() || !session?.user) return;
+  useEffect(() => {
+    fetchViolationCodes();
+  }, []);
 
+  const fetchViolationCodes = async () => {
     try {
-      setLoading(true);
-      const formattedLicensePlate = licensePlate.trim().toUpperCase();
-
-      // Try exact match first
-      const { data: exactMatch, error: exactError } = await supabase
-        .from('vehicles')
-        .select('*')
-        .eq('license_plate', formattedLicensePlate);
+      setCodes(await listViolationCodes());
+    } catch (error: any) {
+      console.error('Error fetching violation codes:', error.message);
+      Alert.alert('Error', 'Failed to load violation codes');
+    }
+  };
 
-      if (exactError) throw exactError;
+  const scheduledAmount = violationCode && vehicle ? scheduledFineAmount(violationCode, vehicle.body_type) : null;
 
-      if (exactMatch && exactMatch.length > 0) {
-        setVehicle(exactMatch[0]);
-        return;
-      }
+  // The description starts as the code's title until the officer edits it
+  const handleCodeChange = (code: ViolationCodeWithAmounts) => {
+    if (!fineDetails.description.trim() || fineDetails.description === violationCode?.title) {
+      setFineDetails({ ...fineDetails, description: code.title });
+    }
+    setViolationCode(code);
+  };
 
-      // If no exact match, try partial match
-      const { data: partialMatch, error: partialError } = await supabase
-        .from('vehicles')
-        .select('*')
-        .ilike('license_plate', `%${formattedLicensePlate}%`);
+  const searchVehicle = async () => {
+    if (!licensePlate.trim() || !session?.user) return;
 
-      if (partialError) throw partialError;
+    try {
+      setLoading(true);
+      const matches = await findVehicleByPlate(licensePlate, plateJurisdiction);
 
-      if (partialMatch && partialMatch.length > 0) {
-        setVehicle(partialMatch[0]);
-        if (partialMatch.length > 1) {
+      if (matches.length > 0) {
+        setVehicle(matches[0]);
+        if (matches.length > 1) {
           Alert.alert(
             'Multiple Matches',
             'Multiple vehicles found. Showing the first match.',
@@ -93,30 +99,35 @@ export default function IssueFineScreen() {
   const issueFine = async () => {
     if (!vehicle || !session?.user) return;
 
-    if (!fineDetails.amount || !fineDetails.description) {
+    if (!violationCode || scheduledAmount === null || !fineDetails.description) {
       Alert.alert('Missing Information', 'Please fill in all fine details');
       return;
     }
 
+    const amount = overriding ? parseFloat(fineDetails.amount) : scheduledAmount;
+
+    if (overriding && (isNaN(amount) || amount <= 0)) {
+      Alert.alert('Missing Information', 'Please enter a valid fine amount');
+      return;
+    }
+
+    if (overriding && amount !== scheduledAmount && !fineDetails.justification.trim()) {
+      Alert.alert('Missing Information', 'Please explain why the amount differs from the fee schedule');
+      return;
+    }
+
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('fines')
-        .insert([
-          {
-            vehicle_id: vehicle.id,
-            amount: parseFloat(fineDetails.amount),
-            description: fineDetails.description,
-            status: 'unpaid',
-            created_by: session.user.id,
-            issue_date: new Date().toISOString(),
-            due_date: fineDetails.due_date.toISOString(),
-          },
-        ])
-        .select()
-        .single();
-
-      if (error) throw error;
+      await createFine({
+        vehicle_id: vehicle.id,
+        amount,
+        description: fineDetails.description,
+        created_by: session.user.id,
+        issue_date: new Date().toISOString(),
+        due_date: fineDetails.due_date.toISOString(),
+        violation_code_id: violationCode.id,
+        amount_justification: overriding ? fineDetails.justification.trim() : null,
+      });
 
       Alert.alert(
         'Success',
@@ -128,8 +139,11 @@ export default function IssueFineScreen() {
               // Reset form
               setVehicle(null);
               setLicensePlate('');
+              setViolationCode(null);
+              setOverriding(false);
               setFineDetails({
                 amount: '',
+                justification: '',
                 description: '',
                 due_date: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
               });
@@ -139,7 +153,7 @@ export default function IssueFineScreen() {
       );
     } catch (error: any) {
       console.error('Error issuing fine:', error.message);
-      Alert.alert('Error', 'Failed to issue fine');
+      Alert.alert('Error', error.code === 'P0001' ? error.message : 'Failed to issue fine');
     } finally {
       setLoading(false);
     }
@@ -158,6 +172,13 @@ export default function IssueFineScreen() {
             autoCapitalize="characters"
             onSubmitEditing={searchVehicle}
           />
+          <TextInput
+            style={[styles.searchInput, styles.jurisdictionInput]}
+            placeholder="State"
+            value={plateJurisdiction}
+            onChangeText={(text) => setPlateJurisdiction(text.toUpperCase())}
+            autoCapitalize="characters"
+          />
           <TouchableOpacity
             style={styles.searchButton}
             onPress={searchVehicle}
@@ -181,6 +202,14 @@ export default function IssueFineScreen() {
                 <Text style={styles.label}>License Plate:</Text>
                 <Text style={styles.value}>{vehicle.license_plate}</Text>
               </View>
+              <View style={styles.vehicleDetail}>
+                <Text style={styles.label}>Plate Issued In:</Text>
+                <Text style={styles.value}>{vehicle.plate_jurisdiction || 'N/A'}</Text>
+              </View>
+              <View style={styles.vehicleDetail}>
+                <Text style={styles.label}>Type:</Text>
+                <Text style={styles.value}>{BODY_TYPE_LABELS[vehicle.body_type]}</Text>
+              </View>
               <View style={styles.vehicleDetail}>
                 <Text style={styles.label}>Make:</Text>
                 <Text style={styles.value}>{vehicle.make || 'N/A'}</Text>
@@ -189,6 +218,14 @@ export default function IssueFineScreen() {
                 <Text style={styles.label}>Model:</Text>
                 <Text style={styles.value}>{vehicle.model || 'N/A'}</Text>
               </View>
+              <View style={styles.vehicleDetail}>
+                <Text style={styles.label}>Year:</Text>
+                <Text style={styles.value}>{vehicle.year || 'N/A'}</Text>
+              </View>
+              <View style={styles.vehicleDetail}>
+                <Text style={styles.label}>VIN:</Text>
+                <Text style={styles.value}>{vehicle.vin || 'N/A'}</Text>
+              </View>
               <View style={styles.vehicleDetail}>
                 <Text style={styles.label}>Color:</Text>
                 <Text style={styles.value}>{vehicle.color || 'N/A'}</Text>
@@ -199,13 +236,25 @@ export default function IssueFineScreen() {
           <View style={styles.fineSection}>
             <Text style={styles.sectionTitle}>Fine Details</Text>
             <View style={styles.formGroup}>
-              <Text style={styles.label}>Amount ($)</Text>
-              <TextInput
-                style={styles.input}
-                placeholder="Enter fine amount"
-                value={fineDetails.amount}
-                onChangeText={(text) => setFineDetails({ ...fineDetails, amount: text })}
-                keyboardType="decimal-pad"
+              <Text style={styles.label}>Code</Text>
+              <ViolationCodePicker
+                codes={codes}
+                value={violationCode}
+                bodyType={vehicle.body_type}
+                onChange={handleCodeChange}
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Amount</Text>
+              <FineAmountField
+                scheduledAmount={scheduledAmount}
+                overriding={overriding}
+                amount={fineDetails.amount}
+                justification={fineDetails.justification}
+                onOverridingChange={setOverriding}
+                onAmountChange={(text) => setFineDetails({ ...fineDetails, amount: text })}
+                onJustificationChange={(text) => setFineDetails({ ...fineDetails, justification: text })}
               />
             </View>
 
@@ -275,6 +324,12 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#374151',
   },
+  jurisdictionInput: {
+    flex: 0,
+    width: 72,
+    borderLeftWidth: 1,
+    borderLeftColor: '#E5E7EB',
+  },
   searchButton: {
     backgroundColor: '#4F46E5',
     height: 50,
@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { router } from 'expo-router';
+import * as Linking from 'expo-linking';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { createSessionFromUrl } from '../api/authLinks';
+
+// Opened from the login email (towify://magic-link). Signs the user in with
+// the link; SessionContext then continues to their dashboard.
+export default function MagicLinkScreen() {
+  const url = Linking.useURL();
+  const [errorMessage, setErrorMessage] = useState('');
+
+  useEffect(() => {
+    if (url) {
+      signInWithLink(url);
+    }
+  }, [url]);
+
+  const signInWithLink = async (linkUrl: string) => {
+    try {
+      const signedIn = await createSessionFromUrl(linkUrl);
+
+      if (!signedIn) {
+        setErrorMessage('This page has to be opened from the link in your login email.');
+      }
+    } catch (error: any) {
+      console.error('Error signing in with magic link:', error.message);
+      setErrorMessage(error.message || 'This login link is invalid or has expired.');
+    }
+  };
+
+  if (!errorMessage) {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator size="large" color="#4F46E5" />
+        <Text style={styles.message}>Signing you in...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.iconContainer}>
+        <FontAwesome5 name="unlink" size={28} color="#EF4444" />
+      </View>
+      <Text style={styles.title}>Login Link Not Valid</Text>
+      <Text style={styles.message}>{errorMessage}</Text>
+      <TouchableOpacity style={styles.button} onPress={() => router.replace('/login')}>
+        <Text style={styles.buttonText}>Back to Log In</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+    backgroundColor: '#F7F9FC',
+  },
+  iconContainer: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    backgroundColor: '#FEE2E2',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  message: {
+    fontSize: 14,
+    color: '#4B5563',
+    textAlign: 'center',
+    lineHeight: 20,
+    marginTop: 8,
+    marginBottom: 24,
+  },
+  button: {
+    backgroundColor: '#4F46E5',
+    width: '100%',
+    height: 50,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
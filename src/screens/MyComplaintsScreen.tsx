@@ -11,47 +11,15 @@ import {
 } from 'react-native';
 import { Stack, useRouter } from 'expo-router';
 import { FontAwesome5 } from '@expo/vector-icons';
-import { supabase } from '../api/supabase';
+import { listComplaints } from '../api/repository';
+import { ComplaintWithRelations } from '../api/types';
 import { useSession } from '../context/SessionContext';
 import { format } from 'date-fns';
 
-interface Complaint {
-  id: string;
-  user_id: string;
-  subject: string;
-  description: string;
-  type: 'general' | 'vehicle' | 'fine' | 'tow';
-  vehicle_id: string | null;
-  fine_id: string | null;
-  tow_id: string | null;
-  status: 'pending' | 'in_review' | 'in-progress' | 'resolved' | 'rejected';
-  created_at: string;
-  response?: string;
-  resolved_at?: string;
-  resolved_by?: string;
-  vehicles?: {
-    id: string;
-    license_plate: string;
-    model: string;
-    color: string;
-  };
-  tows?: {
-    id: string;
-    location: string;
-    tow_date: string;
-  };
-  fines?: {
-    id: string;
-    amount: number;
-    description: string;
-    issue_date: string;
-  };
-}
-
 export default function MyComplaintsScreen() {
   const router = useRouter();
   const { session } = useSession();
-  const [complaints, setComplaints] = useState<Complaint[]>([]);
+  const [complaints, setComplaints] = useState<ComplaintWithRelations[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
@@ -68,91 +36,8 @@ export default function MyComplaintsScreen() {
       setLoading(true);
 
       // Fetch all complaints for the current user
-      const { data, error } = await supabase
-        .from('complaints')
-        .select('*')
-        .eq('user_id', session.user.id)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-
-      // If we have complaints, fetch all related data
-      if (data && data.length > 0) {
-        // Collect IDs for all related data we need to fetch
-        const vehicleIds = [...new Set(data.map(c => c.vehicle_id).filter(Boolean))];
-        const towIds = [...new Set(data.map(c => c.tow_id).filter(Boolean))];
-        const fineIds = [...new Set(data.map(c => c.fine_id).filter(Boolean))];
-        
-        // Create empty maps for all related data
-        const vehiclesMap: Record<string, any> = {};
-        const towsMap: Record<string, any> = {};
-        const finesMap: Record<string, any> = {};
-        
-        // Fetch vehicles if needed
-        if (vehicleIds.length > 0) {
-          const { data: vehiclesData } = await supabase
-            .from('vehicles')
-            .select('id, license_plate, model, color')
-            .in('id', vehicleIds);
-            
-          if (vehiclesData) {
-            vehiclesData.forEach(vehicle => {
-              vehiclesMap[vehicle.id] = vehicle;
-            });
-          }
-        }
-        
-        // Fetch tows if needed
-        if (towIds.length > 0) {
-          const { data: towsData } = await supabase
-            .from('tows')
-            .select('id, location, tow_date')
-            .in('id', towIds);
-            
-          if (towsData) {
-            towsData.forEach(tow => {
-              towsMap[tow.id] = tow;
-            });
-          }
-        }
-        
-        // Fetch fines if needed
-        if (fineIds.length > 0) {
-          const { data: finesData } = await supabase
-            .from('fines')
-            .select('id, amount, description, issue_date')
-            .in('id', fineIds);
-            
-          if (finesData) {
-            finesData.forEach(fine => {
-              finesMap[fine.id] = fine;
-            });
-          }
-        }
-        
-        // Combine all data
-        const completeComplaints = data.map(complaint => {
-          const completeComplaint = { ...complaint };
-          
-          if (complaint.vehicle_id && vehiclesMap[complaint.vehicle_id]) {
-            completeComplaint.vehicles = vehiclesMap[complaint.vehicle_id];
-          }
-          
-          if (complaint.tow_id && towsMap[complaint.tow_id]) {
-            completeComplaint.tows = towsMap[complaint.tow_id];
-          }
-          
-          if (complaint.fine_id && finesMap[complaint.fine_id]) {
-            completeComplaint.fines = finesMap[complaint.fine_id];
-          }
-          
-          return completeComplaint;
-        });
-        
-        setComplaints(completeComplaints);
-      } else {
-        setComplaints([]);
-      }
+      const data = await listComplaints({ userId: session.user.id });
+      setComplaints(data);
     } catch (error: any) {
       console.error('Error fetching complaints:', error.message);
       Alert.alert('Error', 'Failed to load complaints. Please try again.');
@@ -221,7 +106,7 @@ export default function MyComplaintsScreen() {
     }
   };
 
-  const renderComplaint = ({ item }: { item: Complaint }) => {
+  const renderComplaint = ({ item }: { item: ComplaintWithRelations }) => {
     return (
       <View style={styles.card}>
         <View style={styles.cardHeader}>
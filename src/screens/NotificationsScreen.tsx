@@ -0,0 +1,351 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SectionList,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { FontAwesome5 } from '@expo/vector-icons';
+import {
+  listNotifications,
+  markNotificationRead,
+  markAllNotificationsRead,
+} from '../api/repository';
+import { UserNotification } from '../api/types';
+import { useSession } from '../context/SessionContext';
+import { useNotifications } from '../context/NotificationContext';
+import NotificationItem from '../components/NotificationItem';
+import {
+  NotificationCategory,
+  getNotificationCategory,
+  getNotificationRoute,
+} from '../utils/notifications';
+
+type CategoryTab = NotificationCategory | 'all';
+
+const SECTION_TITLES: Record<NotificationCategory, string> = {
+  tow: 'Tows',
+  fine: 'Fines',
+  complaint: 'Complaints',
+  vehicle: 'Vehicles',
+  other: 'Other',
+};
+
+const SECTION_ORDER: NotificationCategory[] = ['tow', 'fine', 'complaint', 'vehicle', 'other'];
+
+const TABS: CategoryTab[] = ['all', ...SECTION_ORDER];
+
+export default function NotificationsScreen() {
+  const router = useRouter();
+  const { session, role } = useSession();
+  const userId = session?.user?.id;
+  const { latestNotification, refreshUnreadCount } = useNotifications();
+  const [notifications, setNotifications] = useState<UserNotification[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [markingAll, setMarkingAll] = useState(false);
+  const [activeTab, setActiveTab] = useState<CategoryTab>('all');
+
+  // Show notifications delivered over realtime without a manual refresh
+  useEffect(() => {
+    if (latestNotification) {
+      setNotifications(prev =>
+        prev.some(item => item.id === latestNotification.id)
+          ? prev
+          : [latestNotification, ...prev]
+      );
+    }
+  }, [latestNotification]);
+
+  const fetchNotifications = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      setLoading(true);
+
+      const data = await listNotifications(userId);
+      setNotifications(data);
+    } catch (error: any) {
+      console.error('Error fetching notifications:', error.message);
+      Alert.alert('Error', 'Failed to load notifications. Please try again.');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchNotifications();
+  }, [fetchNotifications]);
+
+  const markAsRead = async (id: string) => {
+    const notification = notifications.find(item => item.id === id);
+    if (!notification || notification.is_read) return;
+
+    // Update locally first so the list responds immediately
+    setNotifications(prev =>
+      prev.map(item => (item.id === id ? { ...item, is_read: true } : item))
+    );
+
+    try {
+      await markNotificationRead(id);
+      refreshUnreadCount();
+    } catch (error: any) {
+      console.error('Error marking notification as read:', error.message);
+      setNotifications(prev =>
+        prev.map(item => (item.id === id ? { ...item, is_read: false } : item))
+      );
+    }
+  };
+
+  const markAllAsRead = async () => {
+    if (!session?.user) return;
+
+    try {
+      setMarkingAll(true);
+
+      await markAllNotificationsRead(session.user.id);
+      setNotifications(prev => prev.map(item => ({ ...item, is_read: true })));
+      refreshUnreadCount();
+    } catch (error: any) {
+      console.error('Error marking all notifications as read:', error.message);
+      Alert.alert('Error', 'Failed to update notifications. Please try again.');
+    } finally {
+      setMarkingAll(false);
+    }
+  };
+
+  const handleNotificationPress = (id: string) => {
+    const notification = notifications.find(item => item.id === id);
+    if (!notification) return;
+
+    markAsRead(id);
+
+    const route = getNotificationRoute(notification, role);
+    if (route) {
+      router.push(route);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    fetchNotifications();
+  };
+
+  const visibleNotifications = activeTab === 'all'
+    ? notifications
+    : notifications.filter(item => getNotificationCategory(item.type) === activeTab);
+
+  const sections = SECTION_ORDER
+    .map(category => ({
+      category,
+      title: SECTION_TITLES[category],
+      data: visibleNotifications.filter(item => getNotificationCategory(item.type) === category),
+    }))
+    .filter(section => section.data.length > 0);
+
+  const unreadCount = notifications.filter(item => !item.is_read).length;
+
+  const renderEmptyList = () => (
+    <View style={styles.emptyContainer}>
+      <FontAwesome5 name="bell-slash" size={60} color="#D1D5DB" />
+      <Text style={styles.emptyTitle}>No Notifications</Text>
+      <Text style={styles.emptyText}>
+        {activeTab === 'all'
+          ? "You're all caught up."
+          : `You don't have any ${SECTION_TITLES[activeTab].toLowerCase()} notifications.`}
+      </Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.tabsBar}
+        contentContainerStyle={styles.tabsContainer}
+      >
+        {TABS.map((tab) => (
+          <TouchableOpacity
+            key={tab}
+            style={[
+              styles.tab,
+              activeTab === tab && styles.activeTab
+            ]}
+            onPress={() => setActiveTab(tab)}
+          >
+            <Text
+              style={[
+                styles.tabText,
+                activeTab === tab && styles.activeTabText
+              ]}
+            >
+              {tab === 'all' ? 'All' : SECTION_TITLES[tab]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      {loading && !refreshing ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#4F46E5" />
+          <Text style={styles.loadingText}>Loading notifications...</Text>
+        </View>
+      ) : (
+        <SectionList
+          sections={sections}
+          keyExtractor={(item) => item.id}
+          renderItem={({ item }) => (
+            <NotificationItem
+              id={item.id}
+              type={item.type}
+              title={item.title}
+              message={item.message}
+              createdAt={item.created_at}
+              isRead={item.is_read}
+              onPress={handleNotificationPress}
+              onMarkRead={markAsRead}
+            />
+          )}
+          renderSectionHeader={({ section }) => (
+            <Text style={styles.sectionTitle}>{section.title}</Text>
+          )}
+          stickySectionHeadersEnabled={false}
+          contentContainerStyle={styles.listContainer}
+          ListEmptyComponent={renderEmptyList}
+          ListHeaderComponent={
+            notifications.length > 0 ? (
+              <View style={styles.headerContainer}>
+                <Text style={styles.unreadCount}>
+                  {unreadCount} unread
+                </Text>
+                <TouchableOpacity
+                  onPress={markAllAsRead}
+                  disabled={unreadCount === 0 || markingAll}
+                >
+                  {markingAll ? (
+                    <ActivityIndicator size="small" color="#4F46E5" />
+                  ) : (
+                    <Text
+                      style={[
+                        styles.markAllText,
+                        unreadCount === 0 && styles.markAllTextDisabled
+                      ]}
+                    >
+                      Mark all as read
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            ) : null
+          }
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={onRefresh}
+              colors={['#4F46E5']}
+            />
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F7F9FC',
+  },
+  tabsBar: {
+    flexGrow: 0,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  tabsContainer: {
+    paddingHorizontal: 8,
+  },
+  tab: {
+    paddingVertical: 12,
+    paddingHorizontal: 12,
+    marginRight: 4,
+  },
+  activeTab: {
+    borderBottomWidth: 2,
+    borderBottomColor: '#4F46E5',
+  },
+  tabText: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  activeTabText: {
+    color: '#4F46E5',
+    fontWeight: '600',
+  },
+  listContainer: {
+    padding: 16,
+    flexGrow: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 8,
+    fontSize: 16,
+    color: '#6B7280',
+  },
+  headerContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  unreadCount: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  markAllText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4F46E5',
+  },
+  markAllTextDisabled: {
+    color: '#9CA3AF',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  emptyContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+    marginTop: 80,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+});
@@ -11,8 +11,12 @@ import {
 } from 'react-native';
 import { useRouter } from 'expo-router';
 import { FontAwesome5 } from '@expo/vector-icons';
-import { supabase } from '../api/supabase';
+import { listFinesIssuedBy } from '../api/repository';
+import { TowStatus } from '../api/types';
 import { useSession } from '../context/SessionContext';
+import { useNotifications } from '../context/NotificationContext';
+import NotificationBadge from '../components/NotificationBadge';
+import { TOW_STATUS_COLORS, TOW_STATUS_ICONS } from '../utils/tows';
 
 interface RecentActivity {
   id: string;
@@ -32,7 +36,8 @@ interface ActionButtonProps {
 
 export default function OfficerDashboardScreen() {
   const router = useRouter();
-  const { session, signOut } = useSession();
+  const { session, profile, signOut } = useSession();
+  const { unreadCount } = useNotifications();
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [recentActivity, setRecentActivity] = useState<RecentActivity[]>([]);
@@ -49,16 +54,9 @@ export default function OfficerDashboardScreen() {
     try {
       setLoading(true);
       // Fetch recent fines
-      const { data: fines, error: finesError } = await supabase
-        .from('fines')
-        .select('id, amount, description, issue_date, status')
-        .eq('created_by', session.user.id)
-        .order('issue_date', { ascending: false })
-        .limit(5);
+      const fines = await listFinesIssuedBy(session.user.id, 5);
 
-      if (finesError) throw finesError;
-
-      const formattedActivity = (fines || []).map(fine => ({
+      const formattedActivity = fines.map(fine => ({
         id: fine.id,
         type: 'fine' as const,
         title: `Fine issued: $${fine.amount}`,
@@ -84,7 +82,6 @@ export default function OfficerDashboardScreen() {
   const handleLogout = async () => {
     try {
       await signOut();
-      router.replace('/login');
     } catch (error: any) {
       console.error('Error signing out:', error.message);
       Alert.alert('Error', 'Failed to sign out');
@@ -136,9 +133,7 @@ export default function OfficerDashboardScreen() {
   const getActivityIconAndColor = (type: string, status: string) => {
     switch (type) {
       case 'tow':
-        if (status === 'completed') return { icon: 'check-circle', color: '#10B981' };
-        if (status === 'active') return { icon: 'truck-pickup', color: '#4F46E5' };
-        return { icon: 'clock', color: '#F97316' };
+        return { icon: TOW_STATUS_ICONS[status as TowStatus], color: TOW_STATUS_COLORS[status as TowStatus] };
       case 'complaint':
         if (status === 'resolved') return { icon: 'check-circle', color: '#10B981' };
         if (status === 'in-progress') return { icon: 'comment-dots', color: '#4F46E5' };
@@ -164,8 +159,12 @@ export default function OfficerDashboardScreen() {
     router.push('/staff/complaints');
   };
 
+  const navigateToNotifications = () => {
+    router.push('/notifications');
+  };
+
   const navigateToReports = () => {
-    Alert.alert('Coming Soon', 'Reports screen is under development');
+    router.push('/staff/reports');
   };
 
   return (
@@ -178,12 +177,23 @@ export default function OfficerDashboardScreen() {
       <View style={styles.header}>
         <View>
           <Text style={styles.welcomeText}>Welcome, Officer</Text>
-          <Text style={styles.subText}>Manage fines and enforce regulations</Text>
+          <Text style={styles.subText}>
+            {profile?.organization?.name || 'Manage fines and enforce regulations'}
+          </Text>
+        </View>
+        <View style={styles.headerActions}>
+          <TouchableOpacity onPress={() => router.push('/profile')} style={styles.profileButton}>
+            <FontAwesome5 name="user" size={20} color="#4F46E5" />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={navigateToNotifications} style={styles.notificationButton}>
+            <FontAwesome5 name="bell" size={20} color="#4F46E5" />
+            <NotificationBadge count={unreadCount} style={styles.notificationBadge} />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={handleLogout} style={styles.logoutButton}>
+            <FontAwesome5 name="sign-out-alt" size={20} color="#4F46E5" />
+            <Text style={styles.logoutText}>Logout</Text>
+          </TouchableOpacity>
         </View>
-        <TouchableOpacity onPress={handleLogout} style={styles.logoutButton}>
-          <FontAwesome5 name="sign-out-alt" size={20} color="#4F46E5" />
-          <Text style={styles.logoutText}>Logout</Text>
-        </TouchableOpacity>
       </View>
 
       <View style={styles.quickActions}>
@@ -257,6 +267,27 @@ const styles = StyleSheet.create({
     color: '#6B7280',
     marginTop: 4,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  profileButton: {
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    marginRight: 8,
+  },
+  notificationButton: {
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    marginRight: 8,
+  },
+  notificationBadge: {
+    position: 'absolute',
+    top: -6,
+    right: -6,
+  },
   logoutButton: {
     flexDirection: 'row',
     alignItems: 'center',
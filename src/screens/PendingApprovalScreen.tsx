@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { router } from 'expo-router';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { useSession } from '../context/SessionContext';
+import { Role } from '../api/types';
+
+// Shown after login while a staff or officer role request is awaiting approval
+export default function PendingApprovalScreen() {
+  const { profile, refreshProfile, signOut } = useSession();
+  const [checking, setChecking] = useState(false);
+
+  const roleLabel = profile?.requested_role === Role.Officer ? 'officer' : 'tow staff';
+
+  // SessionContext moves the user on once the refreshed profile is no longer
+  // pending
+  const checkStatus = async () => {
+    try {
+      setChecking(true);
+      await refreshProfile();
+    } catch (error: any) {
+      console.error('Error checking approval status:', error.message);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.iconContainer}>
+        <FontAwesome5 name="user-clock" size={36} color="#4F46E5" />
+      </View>
+
+      <Text style={styles.title}>Awaiting Approval</Text>
+      <Text style={styles.message}>
+        Your request for {roleLabel} access is being reviewed by an administrator. You can keep
+        using Towify as a vehicle owner in the meantime.
+      </Text>
+
+      <TouchableOpacity style={styles.primaryButton} onPress={checkStatus} disabled={checking}>
+        {checking ? (
+          <ActivityIndicator color="#FFFFFF" />
+        ) : (
+          <Text style={styles.primaryButtonText}>Check Again</Text>
+        )}
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        style={styles.secondaryButton}
+        onPress={() => router.replace({ pathname: '/owner' })}
+      >
+        <Text style={styles.secondaryButtonText}>Continue as Vehicle Owner</Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity onPress={signOut}>
+        <Text style={styles.linkText}>Sign Out</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+    backgroundColor: '#F7F9FC',
+  },
+  iconContainer: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    backgroundColor: '#EEF2FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 12,
+  },
+  message: {
+    fontSize: 15,
+    color: '#4B5563',
+    textAlign: 'center',
+    lineHeight: 22,
+    marginBottom: 32,
+  },
+  primaryButton: {
+    backgroundColor: '#4F46E5',
+    width: '100%',
+    height: 50,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    backgroundColor: '#FFFFFF',
+    width: '100%',
+    height: 50,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#4F46E5',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  secondaryButtonText: {
+    color: '#4F46E5',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  linkText: {
+    color: '#EF4444',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,737 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  Switch,
+} from 'react-native';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { supabase } from '../api/supabase';
+import { getProfile, updateOwnProfile, updateNotificationPreferences } from '../api/repository';
+import { requestEmailChange } from '../api/authLinks';
+import { isValidPhone, requestPhoneLink, verifyPhoneLink } from '../api/phoneAuth';
+import { NotificationPreferences, ProfileWithOrganization } from '../api/types';
+import { useSession } from '../context/SessionContext';
+import { useAppLock } from '../context/AppLockContext';
+import { APP_LOCK_TIMEOUT_OPTIONS, authenticateWithDevice, isAppLockSupported } from '../api/appLock';
+import { getRoleLabel } from '../utils/audit';
+
+const NOTIFICATION_OPTIONS: {
+  key: keyof NotificationPreferences;
+  title: string;
+  description: string;
+  icon: string;
+}[] = [
+  {
+    key: 'notify_tows',
+    title: 'Tows',
+    description: 'Tow requests and status updates',
+    icon: 'truck-pickup',
+  },
+  {
+    key: 'notify_fines',
+    title: 'Fines',
+    description: 'New fines and payment reminders',
+    icon: 'money-bill-wave',
+  },
+  {
+    key: 'notify_complaints',
+    title: 'Complaints',
+    description: 'Replies and status changes on complaints',
+    icon: 'comment-alt',
+  },
+];
+
+// Profile settings for every role: contact details, sign-in email, password,
+// the phone number for SMS code login and notification preferences
+export default function ProfileScreen() {
+  const { session, refreshProfile } = useSession();
+  const userId = session?.user?.id;
+  const { available: appLockAvailable, settings: appLock, updateSettings: updateAppLock } = useAppLock();
+  const [profile, setProfile] = useState<ProfileWithOrganization | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [fullName, setFullName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [savingDetails, setSavingDetails] = useState(false);
+  const [newEmail, setNewEmail] = useState('');
+  const [savingEmail, setSavingEmail] = useState(false);
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [savingPassword, setSavingPassword] = useState(false);
+  const [loginPhone, setLoginPhone] = useState('');
+  const [phoneCode, setPhoneCode] = useState('');
+  const [phoneCodeSent, setPhoneCodeSent] = useState(false);
+  const [linkingPhone, setLinkingPhone] = useState(false);
+
+  // Set by Supabase while a changed email is waiting for confirmation
+  const pendingEmail = session?.user?.new_email;
+  // The verified number used for SMS code login (stored without the +)
+  const linkedPhone = session?.user?.phone;
+
+  const fetchProfile = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      setLoading(true);
+      const data = await getProfile(userId);
+      setProfile(data);
+      setFullName(data?.full_name || '');
+      setPhone(data?.phone || '');
+    } catch (error: any) {
+      console.error('Error fetching profile:', error.message);
+      Alert.alert('Error', 'Failed to load your profile');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchProfile();
+  }, [fetchProfile]);
+
+  const handleSaveDetails = async () => {
+    if (!profile) return;
+
+    if (!fullName.trim()) {
+      Alert.alert('Error', 'Please enter your name');
+      return;
+    }
+
+    try {
+      setSavingDetails(true);
+      const details = { full_name: fullName.trim(), phone: phone.trim() || null };
+      await updateOwnProfile(profile.id, details);
+      setProfile({ ...profile, ...details });
+      // Dashboards greet the user by the name held in the session
+      await refreshProfile();
+      Alert.alert('Success', 'Your details have been saved');
+    } catch (error: any) {
+      console.error('Error saving profile:', error.message);
+      Alert.alert('Error', error.message || 'Failed to save your details');
+    } finally {
+      setSavingDetails(false);
+    }
+  };
+
+  const handleChangeEmail = async () => {
+    if (!profile) return;
+
+    if (!/\S+@\S+\.\S+/.test(newEmail)) {
+      Alert.alert('Error', 'Please enter a valid email address');
+      return;
+    }
+
+    if (newEmail.trim().toLowerCase() === profile.email.toLowerCase()) {
+      Alert.alert('Error', 'That is already your email address');
+      return;
+    }
+
+    try {
+      setSavingEmail(true);
+      await requestEmailChange(newEmail);
+      setNewEmail('');
+      Alert.alert(
+        'Confirm Your New Email',
+        `We sent a confirmation link to ${newEmail.trim()}. Your email will change once you open it.`
+      );
+    } catch (error: any) {
+      console.error('Error changing email:', error.message);
+      Alert.alert('Error', error.message || 'Failed to change your email');
+    } finally {
+      setSavingEmail(false);
+    }
+  };
+
+  const handleChangePassword = async () => {
+    if (!profile) return;
+
+    if (!currentPassword) {
+      Alert.alert('Error', 'Please enter your current password');
+      return;
+    }
+
+    if (newPassword.length < 6) {
+      Alert.alert('Error', 'New password must be at least 6 characters');
+      return;
+    }
+
+    if (newPassword !== confirmPassword) {
+      Alert.alert('Error', 'New passwords do not match');
+      return;
+    }
+
+    try {
+      setSavingPassword(true);
+
+      // Check the current password before replacing it
+      const { error: signInError } = await supabase.auth.signInWithPassword({
+        email: profile.email,
+        password: currentPassword,
+      });
+      if (signInError) {
+        Alert.alert('Error', 'Your current password is incorrect');
+        return;
+      }
+
+      const { error } = await supabase.auth.updateUser({ password: newPassword });
+      if (error) throw error;
+
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      Alert.alert('Success', 'Your password has been changed');
+    } catch (error: any) {
+      console.error('Error changing password:', error.message);
+      Alert.alert('Error', error.message || 'Failed to change your password');
+    } finally {
+      setSavingPassword(false);
+    }
+  };
+
+  const handleSendPhoneCode = async () => {
+    if (!isValidPhone(loginPhone)) {
+      Alert.alert('Error', 'Enter the phone number with country code, e.g. +15555550102');
+      return;
+    }
+
+    try {
+      setLinkingPhone(true);
+      await requestPhoneLink(loginPhone);
+      setPhoneCodeSent(true);
+    } catch (error: any) {
+      console.error('Error linking phone:', error.message);
+      Alert.alert('Error', error.message || 'Failed to send the code');
+    } finally {
+      setLinkingPhone(false);
+    }
+  };
+
+  const handleVerifyPhoneCode = async () => {
+    try {
+      setLinkingPhone(true);
+      await verifyPhoneLink(loginPhone, phoneCode);
+      setLoginPhone('');
+      setPhoneCode('');
+      setPhoneCodeSent(false);
+      Alert.alert('Success', 'You can now log in with a code sent to this number');
+    } catch (error: any) {
+      console.error('Error verifying phone:', error.message);
+      Alert.alert('Error', error.message || 'The code is invalid or has expired');
+    } finally {
+      setLinkingPhone(false);
+    }
+  };
+
+  const handleToggleAppLock = async (enabled: boolean) => {
+    if (!appLock) return;
+
+    try {
+      // Turning the lock off needs the same check as unlocking
+      if (!enabled && (await authenticateWithDevice('Turn off app lock')) !== 'success') {
+        return;
+      }
+
+      await updateAppLock({ ...appLock, enabled });
+    } catch (error: any) {
+      console.error('Error saving app lock settings:', error.message);
+      Alert.alert('Error', 'Failed to update app lock');
+    }
+  };
+
+  const handleAppLockTimeout = async (timeoutMinutes: number) => {
+    if (!appLock) return;
+
+    try {
+      await updateAppLock({ ...appLock, timeoutMinutes });
+    } catch (error: any) {
+      console.error('Error saving app lock settings:', error.message);
+      Alert.alert('Error', 'Failed to update app lock');
+    }
+  };
+
+  // Preferences are saved as soon as a switch is flipped
+  const handleTogglePreference = async (key: keyof NotificationPreferences, value: boolean) => {
+    if (!profile) return;
+
+    const previous = profile;
+    const preferences: NotificationPreferences = {
+      notify_tows: profile.notify_tows,
+      notify_fines: profile.notify_fines,
+      notify_complaints: profile.notify_complaints,
+      [key]: value,
+    };
+    setProfile({ ...profile, ...preferences });
+
+    try {
+      await updateNotificationPreferences(profile.id, preferences);
+    } catch (error: any) {
+      console.error('Error saving notification preferences:', error.message);
+      setProfile(previous);
+      Alert.alert('Error', 'Failed to update notification preferences');
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#4F46E5" />
+        <Text style={styles.loadingText}>Loading profile...</Text>
+      </View>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <View style={styles.loadingContainer}>
+        <FontAwesome5 name="user-slash" size={48} color="#D1D5DB" />
+        <Text style={styles.loadingText}>Profile not found</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      keyboardShouldPersistTaps="handled"
+    >
+      <View style={[styles.card, styles.headerCard]}>
+        <View style={styles.avatar}>
+          <FontAwesome5 name="user" size={24} color="#4F46E5" />
+        </View>
+        <View style={styles.headerInfo}>
+          <Text style={styles.userName}>{profile.full_name || 'No name'}</Text>
+          <Text style={styles.userEmail}>{profile.email}</Text>
+          <Text style={styles.roleText}>
+            {getRoleLabel(profile.role)}
+            {profile.organization ? ` · ${profile.organization.name}` : ''}
+          </Text>
+        </View>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Personal Details</Text>
+
+        <Text style={styles.label}>Full Name</Text>
+        <TextInput
+          value={fullName}
+          onChangeText={setFullName}
+          placeholder="Enter your full name"
+          style={styles.input}
+        />
+
+        <Text style={styles.label}>Phone</Text>
+        <TextInput
+          value={phone}
+          onChangeText={setPhone}
+          placeholder="Enter your phone number"
+          keyboardType="phone-pad"
+          style={styles.input}
+        />
+
+        <TouchableOpacity
+          style={[styles.saveButton, savingDetails && styles.disabledButton]}
+          onPress={handleSaveDetails}
+          disabled={savingDetails}
+        >
+          {savingDetails ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <Text style={styles.saveButtonText}>Save Details</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Email</Text>
+        <Text style={styles.hintText}>
+          We'll send a confirmation link to the new address. You keep signing in with{' '}
+          {profile.email} until it's confirmed.
+        </Text>
+
+        {pendingEmail ? (
+          <View style={styles.pendingBanner}>
+            <FontAwesome5 name="envelope" size={14} color="#92400E" />
+            <Text style={styles.pendingText}>Waiting for confirmation of {pendingEmail}</Text>
+          </View>
+        ) : null}
+
+        <Text style={styles.label}>New Email</Text>
+        <TextInput
+          value={newEmail}
+          onChangeText={setNewEmail}
+          placeholder="Enter a new email"
+          keyboardType="email-address"
+          autoCapitalize="none"
+          style={styles.input}
+        />
+
+        <TouchableOpacity
+          style={[styles.saveButton, savingEmail && styles.disabledButton]}
+          onPress={handleChangeEmail}
+          disabled={savingEmail}
+        >
+          {savingEmail ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <Text style={styles.saveButtonText}>Change Email</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Password</Text>
+
+        <Text style={styles.label}>Current Password</Text>
+        <TextInput
+          value={currentPassword}
+          onChangeText={setCurrentPassword}
+          placeholder="Enter your current password"
+          secureTextEntry
+          style={styles.input}
+        />
+
+        <Text style={styles.label}>New Password</Text>
+        <TextInput
+          value={newPassword}
+          onChangeText={setNewPassword}
+          placeholder="Enter a new password"
+          secureTextEntry
+          style={styles.input}
+        />
+
+        <Text style={styles.label}>Confirm New Password</Text>
+        <TextInput
+          value={confirmPassword}
+          onChangeText={setConfirmPassword}
+          placeholder="Confirm your new password"
+          secureTextEntry
+          style={styles.input}
+        />
+
+        <TouchableOpacity
+          style={[styles.saveButton, savingPassword && styles.disabledButton]}
+          onPress={handleChangePassword}
+          disabled={savingPassword}
+        >
+          {savingPassword ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <Text style={styles.saveButtonText}>Change Password</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Phone Sign-In</Text>
+        <Text style={styles.hintText}>
+          {linkedPhone
+            ? `You can log in with a code sent to +${linkedPhone}. Link another number to replace it.`
+            : 'Link a phone number to log in with a code sent by SMS instead of your password.'}
+        </Text>
+
+        <Text style={styles.label}>Phone Number</Text>
+        <TextInput
+          value={loginPhone}
+          onChangeText={setLoginPhone}
+          placeholder="+1 555 555 0102"
+          keyboardType="phone-pad"
+          editable={!phoneCodeSent}
+          style={styles.input}
+        />
+
+        {phoneCodeSent && (
+          <>
+            <Text style={styles.label}>Code</Text>
+            <TextInput
+              value={phoneCode}
+              onChangeText={setPhoneCode}
+              placeholder="6-digit code"
+              keyboardType="number-pad"
+              maxLength={6}
+              style={styles.input}
+            />
+          </>
+        )}
+
+        <TouchableOpacity
+          style={[styles.saveButton, linkingPhone && styles.disabledButton]}
+          onPress={phoneCodeSent ? handleVerifyPhoneCode : handleSendPhoneCode}
+          disabled={linkingPhone}
+        >
+          {linkingPhone ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <Text style={styles.saveButtonText}>{phoneCodeSent ? 'Verify Number' : 'Send Code'}</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>App Lock</Text>
+        {!isAppLockSupported ? (
+          <Text style={styles.hintText}>App lock is available in the Towify mobile app.</Text>
+        ) : !appLockAvailable ? (
+          <Text style={styles.hintText}>
+            Set up Face ID, a fingerprint or a screen lock PIN on this device to use app lock.
+            {appLock?.enabled &&
+              (appLock.timeoutMinutes === 0
+                ? " Until then you're signed out whenever Towify goes to the background."
+                : ` Until then you're signed out when Towify has been in the background for ${appLock.timeoutMinutes} minute${appLock.timeoutMinutes === 1 ? '' : 's'}.`)}
+          </Text>
+        ) : appLock ? (
+          <>
+            <View style={styles.preferenceRow}>
+              <View style={styles.preferenceIcon}>
+                <FontAwesome5 name="lock" size={14} color="#4F46E5" />
+              </View>
+              <View style={styles.preferenceInfo}>
+                <Text style={styles.preferenceTitle}>Require Unlock</Text>
+                <Text style={styles.preferenceDescription}>
+                  Use biometrics or your device PIN when returning to Towify
+                </Text>
+              </View>
+              <Switch
+                value={appLock.enabled}
+                onValueChange={handleToggleAppLock}
+                trackColor={{ false: '#D1D5DB', true: '#A5B4FC' }}
+                thumbColor={appLock.enabled ? '#4F46E5' : '#F3F4F6'}
+              />
+            </View>
+
+            {appLock.enabled && (
+              <>
+                <Text style={[styles.label, styles.timeoutLabel]}>Lock After</Text>
+                <View style={styles.optionRow}>
+                  {APP_LOCK_TIMEOUT_OPTIONS.map((minutes) => (
+                    <TouchableOpacity
+                      key={minutes}
+                      style={[styles.optionButton, appLock.timeoutMinutes === minutes && styles.optionButtonSelected]}
+                      onPress={() => handleAppLockTimeout(minutes)}
+                    >
+                      <Text
+                        style={[
+                          styles.optionButtonText,
+                          appLock.timeoutMinutes === minutes && styles.optionButtonTextSelected,
+                        ]}
+                      >
+                        {minutes === 0 ? 'Immediately' : `${minutes} min`}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </>
+            )}
+          </>
+        ) : null}
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Notifications</Text>
+        <Text style={styles.hintText}>Choose which notifications you receive.</Text>
+
+        {NOTIFICATION_OPTIONS.map((option) => (
+          <View key={option.key} style={styles.preferenceRow}>
+            <View style={styles.preferenceIcon}>
+              <FontAwesome5 name={option.icon} size={14} color="#4F46E5" />
+            </View>
+            <View style={styles.preferenceInfo}>
+              <Text style={styles.preferenceTitle}>{option.title}</Text>
+              <Text style={styles.preferenceDescription}>{option.description}</Text>
+            </View>
+            <Switch
+              value={profile[option.key]}
+              onValueChange={(value) => handleTogglePreference(option.key, value)}
+              trackColor={{ false: '#D1D5DB', true: '#A5B4FC' }}
+              thumbColor={profile[option.key] ? '#4F46E5' : '#F3F4F6'}
+            />
+          </View>
+        ))}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F7F9FC',
+  },
+  content: {
+    padding: 16,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F7F9FC',
+  },
+  loadingText: {
+    marginTop: 8,
+    fontSize: 16,
+    color: '#6B7280',
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  headerCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  avatar: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: '#EEF2FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 16,
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  userName: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  userEmail: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  roleText: {
+    fontSize: 13,
+    color: '#4F46E5',
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 12,
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 6,
+  },
+  input: {
+    backgroundColor: '#F9FAFB',
+    height: 46,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    paddingHorizontal: 12,
+    fontSize: 15,
+    marginBottom: 12,
+  },
+  saveButton: {
+    backgroundColor: '#4F46E5',
+    height: 46,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  pendingBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FEF3C7',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 12,
+  },
+  pendingText: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 13,
+    color: '#92400E',
+  },
+  timeoutLabel: {
+    marginTop: 12,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  optionButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  optionButtonSelected: {
+    backgroundColor: '#4F46E5',
+    borderColor: '#4F46E5',
+  },
+  optionButtonText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  optionButtonTextSelected: {
+    color: '#FFFFFF',
+  },
+  preferenceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#F3F4F6',
+  },
+  preferenceIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#EEF2FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  preferenceInfo: {
+    flex: 1,
+  },
+  preferenceTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  preferenceDescription: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,287 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { Stack } from 'expo-router';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { subDays } from 'date-fns';
+import { getViolationCodeReport } from '../api/repository';
+import { ViolationCodeReportRow } from '../api/types';
+
+const PERIODS = [7, 30, 90];
+
+// Tows and fines grouped by violation code, for the signed-in user's
+// organization
+export default function ReasonCodeReportScreen() {
+  const [days, setDays] = useState(30);
+  const [rows, setRows] = useState<ViolationCodeReportRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const fetchReport = useCallback(async () => {
+    try {
+      setLoading(true);
+      setRows(await getViolationCodeReport(subDays(new Date(), days)));
+    } catch (error: any) {
+      console.error('Error fetching violation code report:', error.message);
+      Alert.alert('Error', 'Failed to load the report');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    fetchReport();
+  };
+
+  const totals = rows.reduce(
+    (sum, row) => ({
+      tows: sum.tows + row.tow_count,
+      fines: sum.fines + row.fine_count,
+      amount: sum.amount + Number(row.fine_total),
+    }),
+    { tows: 0, fines: 0, amount: 0 }
+  );
+
+  const renderHeader = () => (
+    <>
+      <View style={styles.chipRow}>
+        {PERIODS.map(period => (
+          <TouchableOpacity
+            key={period}
+            style={[styles.chip, days === period && styles.chipSelected]}
+            onPress={() => setDays(period)}
+          >
+            <Text style={[styles.chipText, days === period && styles.chipTextSelected]}>
+              Last {period} days
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.summaryRow}>
+        <View style={styles.summaryCard}>
+          <Text style={styles.summaryValue}>{totals.tows}</Text>
+          <Text style={styles.summaryLabel}>Tows</Text>
+        </View>
+        <View style={styles.summaryCard}>
+          <Text style={styles.summaryValue}>{totals.fines}</Text>
+          <Text style={styles.summaryLabel}>Fines</Text>
+        </View>
+        <View style={styles.summaryCard}>
+          <Text style={styles.summaryValue}>${totals.amount.toFixed(2)}</Text>
+          <Text style={styles.summaryLabel}>Fined</Text>
+        </View>
+      </View>
+    </>
+  );
+
+  const renderRow = ({ item }: { item: ViolationCodeReportRow }) => (
+    <View style={styles.rowCard}>
+      <View style={styles.rowInfo}>
+        <Text style={styles.rowCode}>{item.code}</Text>
+        <Text style={styles.rowTitle}>{item.title}</Text>
+      </View>
+      <View style={styles.rowStats}>
+        <Text style={styles.rowStat}>
+          {item.tow_count} {item.tow_count === 1 ? 'tow' : 'tows'}
+        </Text>
+        <Text style={styles.rowStat}>
+          {item.fine_count} {item.fine_count === 1 ? 'fine' : 'fines'}
+        </Text>
+        <Text style={styles.rowTotal}>${Number(item.fine_total).toFixed(2)}</Text>
+      </View>
+    </View>
+  );
+
+  const renderEmptyList = () => (
+    <View style={styles.emptyContainer}>
+      <FontAwesome5 name="chart-bar" size={48} color="#D1D5DB" />
+      <Text style={styles.emptyTitle}>Nothing recorded</Text>
+      <Text style={styles.emptyText}>No tows or fines were recorded in the last {days} days.</Text>
+    </View>
+  );
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'Reports',
+          headerShown: true,
+          headerStyle: {
+            backgroundColor: '#F7F9FC',
+          },
+          headerTitleStyle: {
+            fontWeight: 'bold',
+          },
+        }}
+      />
+
+      <View style={styles.container}>
+        {loading && !refreshing ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#4F46E5" />
+            <Text style={styles.loadingText}>Loading report...</Text>
+          </View>
+        ) : (
+          <FlatList
+            data={rows}
+            renderItem={renderRow}
+            keyExtractor={(item) => item.violation_code_id}
+            contentContainerStyle={styles.listContainer}
+            ListHeaderComponent={renderHeader}
+            ListEmptyComponent={renderEmptyList}
+            refreshControl={
+              <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={['#4F46E5']} />
+            }
+          />
+        )}
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F7F9FC',
+  },
+  listContainer: {
+    padding: 16,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 8,
+    fontSize: 16,
+    color: '#6B7280',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#EEF2FF',
+    borderColor: '#4F46E5',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#4B5563',
+  },
+  chipTextSelected: {
+    color: '#4F46E5',
+    fontWeight: '600',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    marginBottom: 16,
+  },
+  summaryCard: {
+    flex: 1,
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    paddingVertical: 16,
+    marginHorizontal: 4,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  summaryValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  rowCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  rowInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  rowCode: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#4F46E5',
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+    marginTop: 2,
+  },
+  rowStats: {
+    alignItems: 'flex-end',
+  },
+  rowStat: {
+    fontSize: 13,
+    color: '#6B7280',
+  },
+  rowTotal: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+    marginTop: 2,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+});
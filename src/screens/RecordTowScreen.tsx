@@ -13,39 +13,42 @@ import {
 } from 'react-native';
 import { Stack, useRouter, useLocalSearchParams } from 'expo-router';
 import { FontAwesome5 } from '@expo/vector-icons';
-import { supabase } from '../api/supabase';
+import {
+  findVehicleByPlate,
+  createVehicle,
+  recordTow,
+  issueFine,
+  notifyUser,
+  listOrganizations,
+  listViolationCodes,
+} from '../api/repository';
+import { Organization, Vehicle, ViolationCodeWithAmounts } from '../api/types';
 import { useSession } from '../context/SessionContext';
+import ViolationCodePicker from '../components/ViolationCodePicker';
+import FineAmountField from '../components/FineAmountField';
+import { scheduledFineAmount } from '../utils/violations';
+import { Coordinates, captureLocation, formatCoordinates } from '../utils/location';
 import DateTimePicker from '@react-native-community/datetimepicker';
 
-interface Vehicle {
-  id: string;
-  license_plate: string;
-  make?: string;
-  model: string;
-  color: string;
-  owner_id: string;
-  registered_name?: string;
-}
-
-interface TowDetails {
-  vehicle_id: string;
-  license_plate: string; // For storing directly in tow record
-  location: string;
-  reason: string;
-  tow_date: Date;
-  status: 'pending' | 'active' | 'completed';
-  notes: string;
-}
-
 export default function RecordTowScreen() {
   const router = useRouter();
   const params = useLocalSearchParams();
-  const { session } = useSession();
+  const { session, profile } = useSession();
+  
+  // Officers send the tow to a tow company; tow staff record it for their own
+  const picksTowCompany = profile?.organization?.type === 'police_department';
+  const [towCompanies, setTowCompanies] = useState<Organization[]>([]);
+  const [towCompanyId, setTowCompanyId] = useState<string | null>(null);
   
   // Form state
   const [licensePlate, setLicensePlate] = useState('');
+  // Narrows the search to plates issued there, and is recorded on new vehicles
+  const [plateJurisdiction, setPlateJurisdiction] = useState('');
   const [location, setLocation] = useState('');
-  const [reason, setReason] = useState('');
+  const [coordinates, setCoordinates] = useState<Coordinates | null>(null);
+  const [locating, setLocating] = useState(false);
+  const [reasonCodes, setReasonCodes] = useState<ViolationCodeWithAmounts[]>([]);
+  const [reasonCode, setReasonCode] = useState<ViolationCodeWithAmounts | null>(null);
   const [towDate, setTowDate] = useState(new Date());
   const [notes, setNotes] = useState('');
   const [showDatePicker, setShowDatePicker] = useState(false);
@@ -64,9 +67,78 @@ export default function RecordTowScreen() {
   // Form submission state
   const [submitting, setSubmitting] = useState(false);
   const [issueFineToo, setIssueFineToo] = useState(false);
+  const [fineOverriding, setFineOverriding] = useState(false);
   const [fineAmount, setFineAmount] = useState('');
+  const [fineJustification, setFineJustification] = useState('');
   const [fineDescription, setFineDescription] = useState('');
   
+  useEffect(() => {
+    if (picksTowCompany) {
+      fetchTowCompanies();
+    }
+  }, [picksTowCompany]);
+  
+  useEffect(() => {
+    fetchReasonCodes();
+    locate(false);
+  }, []);
+  
+  // Reads the device position and fills in its address. The automatic lookup
+  // on opening keeps whatever was typed meanwhile; the button replaces it.
+  const locate = async (replaceAddress: boolean) => {
+    try {
+      setLocating(true);
+      const captured = await captureLocation();
+      if (!captured) return;
+
+      setCoordinates({ latitude: captured.latitude, longitude: captured.longitude });
+      if (captured.address) {
+        const address = captured.address;
+        setLocation(current => (replaceAddress || !current.trim() ? address : current));
+      }
+    } catch (error: any) {
+      console.error('Error getting location:', error.message);
+      Alert.alert('Error', 'Could not get your location. Please enter it instead.');
+    } finally {
+      setLocating(false);
+    }
+  };
+  
+  const fetchReasonCodes = async () => {
+    try {
+      setReasonCodes(await listViolationCodes());
+    } catch (error: any) {
+      console.error('Error fetching reason codes:', error.message);
+      Alert.alert('Error', 'Failed to load reason codes');
+    }
+  };
+  
+  // New vehicles are recorded as cars
+  const bodyType = vehicleFound?.body_type ?? 'car';
+  const scheduledAmount = reasonCode ? scheduledFineAmount(reasonCode, bodyType) : null;
+  
+  // The fine description starts as the code's title until it's edited
+  const handleReasonCodeChange = (code: ViolationCodeWithAmounts) => {
+    if (!fineDescription.trim() || fineDescription === reasonCode?.title) {
+      setFineDescription(code.title);
+    }
+    setReasonCode(code);
+  };
+  
+  const fetchTowCompanies = async () => {
+    try {
+      const data = await listOrganizations('tow_company');
+      setTowCompanies(data);
+      // Preselect when there is only one company to choose from
+      if (data.length === 1) {
+        setTowCompanyId(data[0].id);
+      }
+    } catch (error: any) {
+      console.error('Error fetching tow companies:', error.message);
+      Alert.alert('Error', 'Failed to load tow companies');
+    }
+  };
+  
   // Get license plate from params if available
   useEffect(() => {
     // Check if we have a license plate from route params
@@ -85,14 +157,18 @@ export default function RecordTowScreen() {
   // Clear form
   const resetForm = () => {
     setLicensePlate('');
+    setPlateJurisdiction('');
     setLocation('');
-    setReason('');
+    setCoordinates(null);
+    setReasonCode(null);
     setTowDate(new Date());
     setNotes('');
     setVehicleFound(null);
     setVehicleNotFound(false);
     setIssueFineToo(false);
+    setFineOverriding(false);
     setFineAmount('');
+    setFineJustification('');
     setFineDescription('');
     setVehicleMake('');
     setVehicleModel('');
@@ -112,41 +188,11 @@ export default function RecordTowScreen() {
       setVehicleFound(null);
       setVehicleNotFound(false);
       
-      // Format license plate for consistency in search
-      const formattedLicensePlate = licensePlate.trim().toUpperCase();
-      console.log('DEBUG: Searching for vehicle with license plate:', formattedLicensePlate);
-      
-      // First try exact match
-      console.log('DEBUG: Trying exact match with query:', `SELECT * FROM vehicles WHERE license_plate = '${formattedLicensePlate}'`);
-      let { data, error } = await supabase
-        .from('vehicles')
-        .select('*')
-        .eq('license_plate', formattedLicensePlate);
-      
-      console.log('DEBUG: Exact match results:', { data, error });
-      
-      // If no exact matches, try case-insensitive search
-      if ((!data || data.length === 0) && error === null) {
-        console.log('DEBUG: No exact match found, trying ILIKE with query:', `SELECT * FROM vehicles WHERE license_plate ILIKE '%${formattedLicensePlate}%'`);
-        const { data: ilikeData, error: ilikeError } = await supabase
-          .from('vehicles')
-          .select('*')
-          .ilike('license_plate', `%${formattedLicensePlate}%`);
-        
-        console.log('DEBUG: ILIKE match results:', { data: ilikeData, error: ilikeError });
-        
-        if (!ilikeError && ilikeData && ilikeData.length > 0) {
-          data = ilikeData;
-          error = null;
-        }
-      }
-      
-      console.log('DEBUG: Final vehicle search results:', { data, error });
+      console.log('DEBUG: Searching for vehicle with license plate:', licensePlate);
+      const data = await findVehicleByPlate(licensePlate, plateJurisdiction);
+      console.log('DEBUG: Final vehicle search results:', data);
       
-      if (error) {
-        console.error('DEBUG: Database error when searching vehicle:', error);
-        throw error;
-      } else if (!data || data.length === 0) {
+      if (data.length === 0) {
         console.log('DEBUG: No vehicles found in database matching the license plate');
         // No vehicles found
         setVehicleNotFound(true);
@@ -217,16 +263,28 @@ export default function RecordTowScreen() {
       return;
     }
     
-    if (!reason.trim()) {
-      Alert.alert('Error', 'Please provide a reason for towing');
+    if (!reasonCode) {
+      Alert.alert('Error', 'Please choose the reason code for this tow');
       return;
     }
     
-    if (issueFineToo && (!fineAmount.trim() || isNaN(parseFloat(fineAmount)))) {
+    if (picksTowCompany && !towCompanyId) {
+      Alert.alert('Error', 'Please choose the tow company for this tow');
+      return;
+    }
+    
+    const amount = fineOverriding ? parseFloat(fineAmount) : scheduledAmount;
+    
+    if (issueFineToo && fineOverriding && (amount === null || isNaN(amount) || amount <= 0)) {
       Alert.alert('Error', 'Please enter a valid fine amount');
       return;
     }
     
+    if (issueFineToo && fineOverriding && amount !== scheduledAmount && !fineJustification.trim()) {
+      Alert.alert('Error', 'Please explain why the fine differs from the fee schedule');
+      return;
+    }
+    
     if (issueFineToo && !fineDescription.trim()) {
       Alert.alert('Error', 'Please enter a description for the fine');
       return;
@@ -239,92 +297,68 @@ export default function RecordTowScreen() {
       
       // If no existing vehicle was found, create a new vehicle record
       if (!vehicleFound) {
-        // Collect vehicle information
-        const newVehicleData = {
-          license_plate: licensePlate.trim().toUpperCase(),
-          make: vehicleMake || 'Unknown',
-          model: vehicleModel || 'Unknown',
-          color: vehicleColor || 'unknown',
-          registered_name: registeredName || null,
-          owner_id: null, // Owner is unknown at this point
-        };
-        
-        // Insert new vehicle
-        const { data: newVehicle, error: vehicleError } = await supabase
-          .from('vehicles')
-          .insert(newVehicleData)
-          .select()
-          .single();
-        
-        if (vehicleError) {
-          console.error('Error creating vehicle:', vehicleError.message);
-          Alert.alert('Warning', 'Could not create vehicle record. Proceeding with tow record only.');
-        } else if (newVehicle) {
+        try {
+          const newVehicle = await createVehicle({
+            license_plate: licensePlate,
+            plate_jurisdiction: plateJurisdiction.trim() || null,
+            make: vehicleMake || 'Unknown',
+            model: vehicleModel || 'Unknown',
+            color: vehicleColor || 'unknown',
+            registered_name: registeredName || null,
+            owner_id: null, // Owner is unknown at this point
+          });
           vehicleId = newVehicle.id;
           console.log('Created new vehicle with ID:', vehicleId);
+        } catch (vehicleError: any) {
+          console.error('Error creating vehicle:', vehicleError.message);
+          Alert.alert('Warning', 'Could not create vehicle record. Proceeding with tow record only.');
         }
       }
       
-      // Prepare tow data
-      const towPayload = {
-        vehicle_id: vehicleId, // Will be undefined if vehicle creation failed
-        license_plate: licensePlate.trim().toUpperCase(),
+      // Insert tow record
+      const createdTow = await recordTow({
+        vehicle_id: vehicleId || null, // Null if vehicle creation failed
+        license_plate: licensePlate,
         location: location.trim(),
-        reason: reason.trim(),
+        latitude: coordinates?.latitude ?? null,
+        longitude: coordinates?.longitude ?? null,
+        reason: reasonCode.title,
+        reason_code_id: reasonCode.id,
         tow_date: towDate.toISOString(),
-        status: 'active',
+        // Officers request the tow from a company; tow staff record vehicles
+        // they've already hooked
+        status: picksTowCompany ? 'requested' : 'hooked',
         notes: notes.trim(),
-        created_by: session?.user?.id,
-      };
-      
-      // Insert tow record
-      const { data: createdTow, error: towError } = await supabase
-        .from('tows')
-        .insert(towPayload)
-        .select()
-        .single();
-      
-      if (towError) throw towError;
+        created_by: session?.user?.id || null,
+        tow_company_id: picksTowCompany ? towCompanyId : null,
+      });
       
       // Issue fine if selected
-      if (issueFineToo && vehicleId) {
-        const fineData = {
+      if (issueFineToo && vehicleId && session?.user && amount !== null) {
+        await issueFine({
           vehicle_id: vehicleId,
-          amount: parseFloat(fineAmount),
+          amount,
           description: fineDescription.trim(),
           issue_date: new Date().toISOString(),
           due_date: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(), // 30 days from now
-          status: 'unpaid',
-          created_by: session?.user?.id,
+          created_by: session.user.id,
           tow_id: createdTow.id, // Link to the tow record
-        };
-        
-        const { error: fineError } = await supabase
-          .from('fines')
-          .insert(fineData);
-        
-        if (fineError) throw fineError;
+          violation_code_id: reasonCode.id,
+          amount_justification: fineOverriding ? fineJustification.trim() : null,
+        });
       }
       
       // Create notification for vehicle owner if vehicle exists in the system
       if (vehicleFound && vehicleFound.owner_id) {
-        const notificationData = {
+        await notifyUser({
           user_id: vehicleFound.owner_id,
           type: 'tow',
-          title: 'Vehicle Towed',
-          message: `Your vehicle (${licensePlate}) has been towed from ${location}`,
+          title: picksTowCompany ? 'Tow Requested' : 'Vehicle Towed',
+          message: picksTowCompany
+            ? `A tow has been requested for your vehicle (${licensePlate}) at ${location}`
+            : `Your vehicle (${licensePlate}) has been towed from ${location}`,
           related_id: createdTow.id,
-          is_read: false,
-        };
-        
-        // Insert notification (don't throw if this fails)
-        const { error: notificationError } = await supabase
-          .from('notifications')
-          .insert(notificationData);
-        
-        if (notificationError) {
-          console.error('Error creating notification:', notificationError.message);
-        }
+        });
       }
       
       // Success message
@@ -343,7 +377,7 @@ export default function RecordTowScreen() {
       );
     } catch (error: any) {
       console.error('Error recording tow:', error.message);
-      Alert.alert('Error', 'Failed to record the tow. Please try again.');
+      Alert.alert('Error', error.code === 'P0001' ? error.message : 'Failed to record the tow. Please try again.');
     } finally {
       setSubmitting(false);
     }
@@ -513,6 +547,13 @@ export default function RecordTowScreen() {
                   onChangeText={setLicensePlate}
                   autoCapitalize="characters"
                 />
+                <TextInput
+                  style={[styles.searchInput, styles.jurisdictionInput]}
+                  placeholder="State"
+                  value={plateJurisdiction}
+                  onChangeText={(text) => setPlateJurisdiction(text.toUpperCase())}
+                  autoCapitalize="characters"
+                />
                 <TouchableOpacity
                   style={styles.searchButton}
                   onPress={searchVehicle}
@@ -533,21 +574,42 @@ export default function RecordTowScreen() {
             
             <View style={styles.formGroup}>
               <Text style={styles.label}>Location</Text>
-              <TextInput
-                style={styles.input}
-                placeholder="Enter tow location"
-                value={location}
-                onChangeText={setLocation}
-              />
+              <View style={styles.searchInputContainer}>
+                <TextInput
+                  style={styles.searchInput}
+                  placeholder="Enter tow location"
+                  value={location}
+                  onChangeText={setLocation}
+                />
+                <TouchableOpacity
+                  style={styles.searchButton}
+                  onPress={() => locate(true)}
+                  disabled={locating}
+                >
+                  {locating ? (
+                    <ActivityIndicator size="small" color="white" />
+                  ) : (
+                    <FontAwesome5 name="crosshairs" size={16} color="white" />
+                  )}
+                </TouchableOpacity>
+              </View>
+              <Text style={styles.coordinatesText}>
+                {coordinates
+                  ? `GPS ${formatCoordinates(coordinates)}`
+                  : locating
+                    ? 'Getting your location...'
+                    : 'No GPS position; only the typed location will be saved'}
+              </Text>
             </View>
             
             <View style={styles.formGroup}>
               <Text style={styles.label}>Reason</Text>
-              <TextInput
-                style={styles.input}
-                placeholder="Enter reason for towing"
-                value={reason}
-                onChangeText={setReason}
+              <ViolationCodePicker
+                codes={reasonCodes}
+                value={reasonCode}
+                bodyType={bodyType}
+                placeholder="Choose the reason code"
+                onChange={handleReasonCodeChange}
               />
             </View>
             
@@ -573,6 +635,33 @@ export default function RecordTowScreen() {
               )}
             </View>
             
+            {picksTowCompany && (
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Tow Company</Text>
+                <View style={styles.companyContainer}>
+                  {towCompanies.map((company) => (
+                    <TouchableOpacity
+                      key={company.id}
+                      style={[
+                        styles.companyButton,
+                        towCompanyId === company.id && styles.companyButtonSelected,
+                      ]}
+                      onPress={() => setTowCompanyId(company.id)}
+                    >
+                      <Text
+                        style={[
+                          styles.companyButtonText,
+                          towCompanyId === company.id && styles.companyButtonTextSelected,
+                        ]}
+                      >
+                        {company.name}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            )}
+            
             <View style={styles.formGroup}>
               <Text style={styles.label}>Notes (Optional)</Text>
               <TextInput
@@ -606,13 +695,15 @@ export default function RecordTowScreen() {
             {issueFineToo && (
               <View style={styles.fineContainer}>
                 <View style={styles.formGroup}>
-                  <Text style={styles.label}>Fine Amount ($)</Text>
-                  <TextInput
-                    style={styles.input}
-                    placeholder="Enter fine amount"
-                    value={fineAmount}
-                    onChangeText={setFineAmount}
-                    keyboardType="numeric"
+                  <Text style={styles.label}>Fine Amount</Text>
+                  <FineAmountField
+                    scheduledAmount={scheduledAmount}
+                    overriding={fineOverriding}
+                    amount={fineAmount}
+                    justification={fineJustification}
+                    onOverridingChange={setFineOverriding}
+                    onAmountChange={setFineAmount}
+                    onJustificationChange={setFineJustification}
                   />
                 </View>
                 
@@ -706,6 +797,10 @@ const styles = StyleSheet.create({
     fontSize: 16,
     marginRight: 8,
   },
+  jurisdictionInput: {
+    flex: 0,
+    width: 72,
+  },
   searchButton: {
     backgroundColor: '#4F46E5',
     paddingVertical: 12,
@@ -714,6 +809,11 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  coordinatesText: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 6,
+  },
   searchButtonText: {
     color: 'white',
     fontWeight: '600',
@@ -841,6 +941,31 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#111827',
   },
+  companyContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  companyButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    marginBottom: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+  },
+  companyButtonSelected: {
+    backgroundColor: '#4F46E5',
+    borderColor: '#4F46E5',
+  },
+  companyButtonText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  companyButtonTextSelected: {
+    color: '#FFFFFF',
+  },
   fineToggleButton: {
     flexDirection: 'row',
     alignItems: 'center',
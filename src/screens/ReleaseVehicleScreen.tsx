@@ -0,0 +1,403 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { FontAwesome5 } from '@expo/vector-icons';
+import {
+  getTow,
+  getVehicle,
+  getProfileContact,
+  getImpoundLot,
+  getTowUnpaidFines,
+  releaseTow,
+  notifyUser,
+} from '../api/repository';
+import { ImpoundLot, ProfileContact, Tow, TowUnpaidFines, Vehicle } from '../api/types';
+import { RELEASE_ID_TYPES, normalizePersonName } from '../utils/tows';
+
+// Staff hand an impounded vehicle back to its owner. The name on the ID has
+// to match the owner's account or the registered name, and the tow's fines
+// have to be paid, storage included; release_tow checks both again after
+// charging any storage day that started since.
+export default function ReleaseVehicleScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [tow, setTow] = useState<Tow | null>(null);
+  const [vehicle, setVehicle] = useState<Vehicle | null>(null);
+  const [owner, setOwner] = useState<ProfileContact | null>(null);
+  const [lot, setLot] = useState<ImpoundLot | null>(null);
+  const [unpaidFines, setUnpaidFines] = useState<TowUnpaidFines | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [idName, setIdName] = useState('');
+  const [idType, setIdType] = useState(RELEASE_ID_TYPES[0]);
+  const [idNumber, setIdNumber] = useState('');
+  const [releasing, setReleasing] = useState(false);
+
+  const fetchRelease = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      setLoading(true);
+      const [towData, fines] = await Promise.all([getTow(id), getTowUnpaidFines(id)]);
+
+      if (!towData.vehicle_id) {
+        throw new Error('Vehicle information not found');
+      }
+
+      const vehicleData = await getVehicle(towData.vehicle_id);
+
+      setTow(towData);
+      setVehicle(vehicleData);
+      setUnpaidFines(fines);
+      setOwner(vehicleData.owner_id ? await getProfileContact(vehicleData.owner_id) : null);
+      setLot(towData.impound_lot_id ? await getImpoundLot(towData.impound_lot_id) : null);
+    } catch (error: any) {
+      console.error('Error fetching release details:', error.message);
+      Alert.alert('Error', 'Failed to load the tow');
+      router.back();
+    } finally {
+      setLoading(false);
+    }
+  }, [id, router]);
+
+  useEffect(() => {
+    fetchRelease();
+  }, [fetchRelease]);
+
+  const enteredName = normalizePersonName(idName);
+  const matchesOwner = !!enteredName && enteredName === normalizePersonName(owner?.full_name);
+  const matchesRegisteredName = !!enteredName && enteredName === normalizePersonName(vehicle?.registered_name);
+  const finesPaid = unpaidFines?.fine_count === 0;
+
+  const handleRelease = async () => {
+    if (!tow || !vehicle) return;
+
+    if (!matchesOwner && !matchesRegisteredName) {
+      Alert.alert('Error', "The name on the ID doesn't match the vehicle's owner or registered name");
+      return;
+    }
+
+    if (idNumber.replace(/[^A-Za-z0-9]/g, '').length < 4) {
+      Alert.alert('Error', 'Enter the ID number');
+      return;
+    }
+
+    if (!finesPaid) {
+      Alert.alert('Error', 'The fines and storage for this tow have to be paid before the vehicle is released');
+      return;
+    }
+
+    try {
+      setReleasing(true);
+      await releaseTow(tow.id, { id_name: idName, id_type: idType, id_number: idNumber });
+
+      if (vehicle.owner_id) {
+        await notifyUser({
+          user_id: vehicle.owner_id,
+          type: 'tow_update',
+          title: 'Vehicle Released',
+          message: `Your vehicle (${vehicle.license_plate}) has been released${lot ? ` from ${lot.name}` : ''}.`,
+          related_id: tow.id,
+        });
+      }
+
+      Alert.alert('Vehicle Released', `${vehicle.license_plate} has been released to ${idName.trim()}.`, [
+        { text: 'OK', onPress: () => router.back() },
+      ]);
+    } catch (error: any) {
+      console.error('Error releasing vehicle:', error.message);
+      Alert.alert('Error', error.code === 'P0001' ? error.message : 'Failed to release the vehicle');
+    } finally {
+      setReleasing(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#4F46E5" />
+      </View>
+    );
+  }
+
+  if (!tow || !vehicle) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.errorText}>Tow record not found</Text>
+      </View>
+    );
+  }
+
+  const CheckRow = ({ passed, label }: { passed: boolean; label: string }) => (
+    <View style={styles.checkRow}>
+      <FontAwesome5
+        name={passed ? 'check-circle' : 'times-circle'}
+        size={16}
+        color={passed ? '#10B981' : '#EF4444'}
+        solid
+      />
+      <Text style={styles.checkText}>{label}</Text>
+    </View>
+  );
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'Release Vehicle',
+          headerShown: true,
+          headerStyle: {
+            backgroundColor: '#F7F9FC',
+          },
+          headerTitleStyle: {
+            fontWeight: 'bold',
+          },
+          headerShadowVisible: false,
+        }}
+      />
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.container}
+      >
+        <ScrollView contentContainerStyle={styles.scrollContainer} keyboardShouldPersistTaps="handled">
+          <View style={styles.card}>
+            <Text style={styles.plate}>{vehicle.license_plate}</Text>
+            <Text style={styles.cardDetail}>
+              {[vehicle.make, vehicle.model, vehicle.color].filter(Boolean).join(' • ')}
+            </Text>
+            {lot && (
+              <Text style={styles.cardDetail}>
+                {lot.name}, space {tow.lot_space || 'N/A'}
+              </Text>
+            )}
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>Who can collect it</Text>
+            <View style={styles.dataRow}>
+              <Text style={styles.dataLabel}>Owner account:</Text>
+              <Text style={styles.dataValue}>{owner?.full_name || 'No owner on record'}</Text>
+            </View>
+            <View style={styles.dataRow}>
+              <Text style={styles.dataLabel}>Registered name:</Text>
+              <Text style={styles.dataValue}>{vehicle.registered_name || 'N/A'}</Text>
+            </View>
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>ID Check</Text>
+
+            <Text style={styles.label}>Name on ID</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Full name as printed on the ID"
+              value={idName}
+              onChangeText={setIdName}
+              autoCapitalize="words"
+              autoCorrect={false}
+            />
+
+            <Text style={styles.label}>ID type</Text>
+            <View style={styles.chipRow}>
+              {RELEASE_ID_TYPES.map(type => (
+                <TouchableOpacity
+                  key={type}
+                  style={[styles.chip, idType === type && styles.chipSelected]}
+                  onPress={() => setIdType(type)}
+                >
+                  <Text style={[styles.chipText, idType === type && styles.chipTextSelected]}>{type}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.label}>ID number</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Only the last 4 characters are kept"
+              value={idNumber}
+              onChangeText={setIdNumber}
+              autoCapitalize="characters"
+              autoCorrect={false}
+            />
+
+            <CheckRow
+              passed={matchesOwner || matchesRegisteredName}
+              label={
+                matchesOwner
+                  ? 'Matches the owner account'
+                  : matchesRegisteredName
+                    ? 'Matches the registered name'
+                    : "Name doesn't match the owner or registered name"
+              }
+            />
+            <CheckRow
+              passed={finesPaid}
+              label={
+                finesPaid
+                  ? 'Fines and storage for this tow are paid'
+                  : `${unpaidFines?.fine_count} unpaid fine${unpaidFines?.fine_count === 1 ? '' : 's'} ($${Number(unpaidFines?.amount_due || 0).toFixed(2)})`
+              }
+            />
+          </View>
+
+          <TouchableOpacity
+            style={[styles.button, (releasing || tow.status !== 'impounded') && styles.buttonDisabled]}
+            onPress={handleRelease}
+            disabled={releasing || tow.status !== 'impounded'}
+          >
+            {releasing ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <Text style={styles.buttonText}>
+                {tow.status === 'impounded' ? 'Release Vehicle' : 'Not Impounded'}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F7F9FC',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#F7F9FC',
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#EF4444',
+  },
+  scrollContainer: {
+    flexGrow: 1,
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  plate: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    letterSpacing: 1,
+    color: '#111827',
+    marginBottom: 4,
+  },
+  cardDetail: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 12,
+  },
+  dataRow: {
+    flexDirection: 'row',
+    marginBottom: 8,
+  },
+  dataLabel: {
+    width: 130,
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  dataValue: {
+    flex: 1,
+    fontSize: 14,
+    color: '#111827',
+    fontWeight: '500',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    height: 50,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    paddingHorizontal: 16,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 16,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#EEF2FF',
+    borderColor: '#4F46E5',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#4B5563',
+  },
+  chipTextSelected: {
+    color: '#4F46E5',
+    fontWeight: '600',
+  },
+  checkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  checkText: {
+    fontSize: 14,
+    color: '#374151',
+    marginLeft: 8,
+    flex: 1,
+  },
+  button: {
+    backgroundColor: '#4F46E5',
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  buttonDisabled: {
+    backgroundColor: '#A5B4FC',
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,287 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { router } from 'expo-router';
+import * as Linking from 'expo-linking';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { supabase } from '../api/supabase';
+import { createSessionFromUrl } from '../api/authLinks';
+
+type LinkState = 'verifying' | 'ready' | 'invalid';
+
+// Opened from the password reset email (towify://reset-password). The link
+// signs the user in with a recovery session, which is then used to set the
+// new password.
+export default function ResetPasswordScreen() {
+  const url = Linking.useURL();
+  const [linkState, setLinkState] = useState<LinkState>('verifying');
+  const [linkError, setLinkError] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [errors, setErrors] = useState({ password: '', confirmPassword: '' });
+  const [saving, setSaving] = useState(false);
+
+  // The URL is null until the link that opened the app is known, and stays
+  // null when the screen was opened without one. A recovery session from an
+  // earlier visit still lets the user set the password then. A newer URL
+  // replaces the result of an earlier check.
+  useEffect(() => {
+    let current = true;
+
+    const verifyLink = async () => {
+      try {
+        const signedIn = url ? await createSessionFromUrl(url) : false;
+
+        // Without tokens in the URL the link may already have been handled
+        if (!signedIn) {
+          const { data } = await supabase.auth.getSession();
+          if (!data.session) {
+            if (!current) return;
+            setLinkError('This page has to be opened from the link in your password reset email.');
+            setLinkState('invalid');
+            return;
+          }
+        }
+
+        if (current) setLinkState('ready');
+      } catch (error: any) {
+        console.error('Error verifying reset link:', error.message);
+        if (!current) return;
+        setLinkError(error.message || 'This reset link is invalid or has expired.');
+        setLinkState('invalid');
+      }
+    };
+
+    setLinkState('verifying');
+    verifyLink();
+
+    return () => {
+      current = false;
+    };
+  }, [url]);
+
+  const validateForm = () => {
+    const newErrors = { password: '', confirmPassword: '' };
+    let isValid = true;
+
+    if (!password) {
+      newErrors.password = 'Password is required';
+      isValid = false;
+    } else if (password.length < 6) {
+      newErrors.password = 'Password must be at least 6 characters';
+      isValid = false;
+    }
+
+    if (password !== confirmPassword) {
+      newErrors.confirmPassword = 'Passwords do not match';
+      isValid = false;
+    }
+
+    setErrors(newErrors);
+    return isValid;
+  };
+
+  const handleSave = async () => {
+    if (!validateForm()) return;
+
+    try {
+      setSaving(true);
+      const { error } = await supabase.auth.updateUser({ password });
+      if (error) throw error;
+
+      Alert.alert('Password Updated', 'Your new password has been saved.', [
+        // The splash screen sends the signed-in user to their dashboard
+        { text: 'Continue', onPress: () => router.replace('/') },
+      ]);
+    } catch (error: any) {
+      console.error('Error updating password:', error.message);
+      Alert.alert('Error', error.message || 'Failed to update password');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (linkState === 'verifying') {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#4F46E5" />
+        <Text style={styles.message}>Checking your reset link...</Text>
+      </View>
+    );
+  }
+
+  if (linkState === 'invalid') {
+    return (
+      <View style={styles.centered}>
+        <View style={styles.iconContainer}>
+          <FontAwesome5 name="unlink" size={28} color="#EF4444" />
+        </View>
+        <Text style={styles.title}>Link Not Valid</Text>
+        <Text style={styles.message}>{linkError}</Text>
+        <TouchableOpacity
+          style={styles.button}
+          onPress={() => router.replace('/forgot-password')}
+        >
+          <Text style={styles.buttonText}>Request a New Link</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => router.replace('/login')} style={styles.footer}>
+          <Text style={styles.linkText}>Back to Log In</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      style={styles.container}
+    >
+      <View style={styles.formContainer}>
+        <Text style={styles.logoText}>TOWIFY</Text>
+        <Text style={styles.subtitle}>Choose a New Password</Text>
+
+        <View style={styles.inputContainer}>
+          <Text style={styles.label}>New Password</Text>
+          <TextInput
+            value={password}
+            onChangeText={setPassword}
+            placeholder="Enter a new password"
+            secureTextEntry
+            style={styles.input}
+          />
+          {errors.password ? <Text style={styles.errorText}>{errors.password}</Text> : null}
+        </View>
+
+        <View style={styles.inputContainer}>
+          <Text style={styles.label}>Confirm Password</Text>
+          <TextInput
+            value={confirmPassword}
+            onChangeText={setConfirmPassword}
+            placeholder="Confirm your new password"
+            secureTextEntry
+            style={styles.input}
+          />
+          {errors.confirmPassword ? <Text style={styles.errorText}>{errors.confirmPassword}</Text> : null}
+        </View>
+
+        <TouchableOpacity style={styles.button} onPress={handleSave} disabled={saving}>
+          {saving ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.buttonText}>Save Password</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F7F9FC',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+    backgroundColor: '#F7F9FC',
+  },
+  formContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  logoText: {
+    fontSize: 42,
+    fontWeight: 'bold',
+    color: '#4F46E5',
+    letterSpacing: 2,
+    marginBottom: 10,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#6B7280',
+    marginBottom: 30,
+  },
+  iconContainer: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    backgroundColor: '#FEE2E2',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  message: {
+    fontSize: 14,
+    color: '#4B5563',
+    textAlign: 'center',
+    lineHeight: 20,
+    marginTop: 8,
+    marginBottom: 24,
+  },
+  inputContainer: {
+    width: '100%',
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    height: 50,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    paddingHorizontal: 16,
+    fontSize: 16,
+  },
+  errorText: {
+    color: '#EF4444',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  button: {
+    backgroundColor: '#4F46E5',
+    width: '100%',
+    height: 50,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  footer: {
+    marginTop: 24,
+  },
+  linkText: {
+    color: '#4F46E5',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
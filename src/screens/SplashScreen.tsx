@@ -1,41 +1,10 @@
-import React, { useEffect } from 'react';
-import { View, StyleSheet, Image, ActivityIndicator } from 'react-native';
+import React from 'react';
+import { View, StyleSheet, ActivityIndicator } from 'react-native';
 import { Text } from 'react-native';
-import { router } from 'expo-router';
-import { useSession } from '../context/SessionContext';
-import { navigateToDashboard } from '../utils/navigation';
 
+// Shown while the stored session and profile load. SessionContext replaces it
+// with the login screen or the user's dashboard.
 export default function SplashScreen() {
-  const { session, loading, userRole } = useSession();
-
-  useEffect(() => {
-    console.log('SplashScreen mounted, session state:', { 
-      hasSession: !!session, 
-      loading, 
-      userRole 
-    });
-
-    // When loading is finished, check if user is authenticated
-    if (!loading) {
-      console.log('Loading finished, navigating based on auth state');
-      
-      // Short delay to show the splash screen
-      const timer = setTimeout(() => {
-        if (session) {
-          // User is logged in, navigate to the appropriate dashboard
-          console.log('User is authenticated, navigating to dashboard with role:', userRole);
-          navigateToDashboard(userRole);
-        } else {
-          // User is not logged in, navigate to login screen
-          console.log('No user session, navigating to login');
-          router.replace({ pathname: "/login" });
-        }
-      }, 2000); // 2 second delay
-
-      return () => clearTimeout(timer);
-    }
-  }, [loading, session, userRole]);
-
   return (
     <View style={styles.container}>
       <View style={styles.logoContainer}>
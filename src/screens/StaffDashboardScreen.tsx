@@ -11,8 +11,26 @@ import {
 } from 'react-native';
 import { useRouter } from 'expo-router';
 import { FontAwesome5 } from '@expo/vector-icons';
-import { supabase } from '../api/supabase';
+import {
+  countTows,
+  countComplaints,
+  countFines,
+  countVehicles,
+  listRecentTows,
+  listRecentComplaints,
+  listRecentFines,
+} from '../api/repository';
+import { TowStatus } from '../api/types';
 import { useSession } from '../context/SessionContext';
+import { useNotifications } from '../context/NotificationContext';
+import NotificationBadge from '../components/NotificationBadge';
+import {
+  ACTIVE_TOW_STATUSES,
+  COMPLETED_TOW_STATUSES,
+  TOW_STATUS_COLORS,
+  TOW_STATUS_ICONS,
+  TOW_STATUS_LABELS,
+} from '../utils/tows';
 
 interface DashboardStats {
   pendingTows: number;
@@ -51,7 +69,8 @@ interface ActionButtonProps {
 
 export default function StaffDashboardScreen() {
   const router = useRouter();
-  const { session, signOut } = useSession();
+  const { session, profile, signOut } = useSession();
+  const { unreadCount } = useNotifications();
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [activityLoading, setActivityLoading] = useState(true);
@@ -78,64 +97,33 @@ export default function StaffDashboardScreen() {
     try {
       setLoading(true);
 
-      // Fetch pending tows
-      const { data: pendingTows, error: pendingTowsError } = await supabase
-        .from('tows')
-        .select('id', { count: 'exact' })
-        .eq('status', 'pending');
-
-      if (pendingTowsError) throw pendingTowsError;
-
-      // Fetch active tows
-      const { data: activeTows, error: activeTowsError } = await supabase
-        .from('tows')
-        .select('id', { count: 'exact' })
-        .eq('status', 'active');
-
-      if (activeTowsError) throw activeTowsError;
-
-      // Fetch completed tows for today
       const today = new Date();
       today.setHours(0, 0, 0, 0);
-      const { data: completedTowsToday, error: completedTowsTodayError } = await supabase
-        .from('tows')
-        .select('id', { count: 'exact' })
-        .eq('status', 'completed')
-        .gte('created_at', today.toISOString());
-
-      if (completedTowsTodayError) throw completedTowsTodayError;
 
-      // Fetch pending complaints
-      const { data: pendingComplaints, error: pendingComplaintsError } = await supabase
-        .from('complaints')
-        .select('id', { count: 'exact' })
-        .eq('status', 'pending');
-
-      if (pendingComplaintsError) throw pendingComplaintsError;
-
-      // Fetch unpaid fines
-      const { data: unpaidFines, error: unpaidFinesError } = await supabase
-        .from('fines')
-        .select('id', { count: 'exact' })
-        .eq('status', 'unpaid');
-
-      if (unpaidFinesError) throw unpaidFinesError;
-
-      // Fetch total vehicles
-      const { data: totalVehicles, error: totalVehiclesError } = await supabase
-        .from('vehicles')
-        .select('id', { count: 'exact' });
-
-      if (totalVehiclesError) throw totalVehiclesError;
+      const [
+        pendingTows,
+        activeTows,
+        completedTowsToday,
+        pendingComplaints,
+        unpaidFines,
+        totalVehicles,
+      ] = await Promise.all([
+        countTows({ statuses: ['requested'] }),
+        countTows({ statuses: ACTIVE_TOW_STATUSES }),
+        countTows({ statuses: COMPLETED_TOW_STATUSES, createdSince: today }),
+        countComplaints({ status: 'pending' }),
+        countFines({ status: 'unpaid' }),
+        countVehicles(),
+      ]);
 
       // Update the stats
       setStats({
-        pendingTows: pendingTows?.length || 0,
-        activeTows: activeTows?.length || 0,
-        completedTowsToday: completedTowsToday?.length || 0,
-        pendingComplaints: pendingComplaints?.length || 0,
-        unpaidFines: unpaidFines?.length || 0,
-        totalVehicles: totalVehicles?.length || 0,
+        pendingTows,
+        activeTows,
+        completedTowsToday,
+        pendingComplaints,
+        unpaidFines,
+        totalVehicles,
       });
     } catch (error: any) {
       console.error('Error fetching dashboard stats:', error.message);
@@ -152,35 +140,15 @@ export default function StaffDashboardScreen() {
     try {
       setActivityLoading(true);
       
-      // Fetch recent tows (last 5)
-      const { data: tows, error: towsError } = await supabase
-        .from('tows')
-        .select('id, created_at, location, status')
-        .order('created_at', { ascending: false })
-        .limit(3);
-
-      if (towsError) throw towsError;
-
-      // Fetch recent complaints (last 5)
-      const { data: complaints, error: complaintsError } = await supabase
-        .from('complaints')
-        .select('id, created_at, subject, status')
-        .order('created_at', { ascending: false })
-        .limit(3);
-
-      if (complaintsError) throw complaintsError;
-
-      // Fetch recent fines (last 5)
-      const { data: fines, error: finesError } = await supabase
-        .from('fines')
-        .select('id, created_at, amount, status')
-        .order('created_at', { ascending: false })
-        .limit(3);
-
-      if (finesError) throw finesError;
+      // Fetch the most recent tows, complaints and fines
+      const [tows, complaints, fines] = await Promise.all([
+        listRecentTows(3),
+        listRecentComplaints(3),
+        listRecentFines(3),
+      ]);
 
       // Format tows for display
-      const formattedTows = (tows || []).map(tow => ({
+      const formattedTows = tows.map(tow => ({
         id: tow.id,
         type: 'tow' as const,
         title: `Vehicle towed from ${tow.location || 'unknown location'}`,
@@ -190,7 +158,7 @@ export default function StaffDashboardScreen() {
       }));
 
       // Format complaints for display
-      const formattedComplaints = (complaints || []).map(complaint => ({
+      const formattedComplaints = complaints.map(complaint => ({
         id: complaint.id,
         type: 'complaint' as const,
         title: `Complaint: ${complaint.subject || 'New complaint'}`,
@@ -200,7 +168,7 @@ export default function StaffDashboardScreen() {
       }));
 
       // Format fines for display
-      const formattedFines = (fines || []).map(fine => ({
+      const formattedFines = fines.map(fine => ({
         id: fine.id,
         type: 'fine' as const,
         title: `Fine issued: $${fine.amount || 0}`,
@@ -300,9 +268,7 @@ export default function StaffDashboardScreen() {
   const getActivityIconAndColor = (type: string, status: string) => {
     switch (type) {
       case 'tow':
-        if (status === 'completed') return { icon: 'check-circle', color: '#10B981' };
-        if (status === 'active') return { icon: 'truck-pickup', color: '#4F46E5' };
-        return { icon: 'clock', color: '#F97316' };
+        return { icon: TOW_STATUS_ICONS[status as TowStatus], color: TOW_STATUS_COLORS[status as TowStatus] };
       case 'complaint':
         if (status === 'resolved') return { icon: 'check-circle', color: '#10B981' };
         if (status === 'in-progress') return { icon: 'comment-dots', color: '#4F46E5' };
@@ -332,9 +298,16 @@ export default function StaffDashboardScreen() {
     router.push('/staff/complaints');
   };
 
+  const navigateToVehicleClaims = () => {
+    router.push('/staff/vehicle-claims');
+  };
+
+  const navigateToNotifications = () => {
+    router.push('/notifications');
+  };
+
   const navigateToReports = () => {
-    // router.push('/reports');
-    Alert.alert('Coming Soon', 'Reports screen is under development');
+    router.push('/staff/reports');
   };
 
   const createTowRequest = () => {
@@ -352,11 +325,20 @@ export default function StaffDashboardScreen() {
       <View style={styles.header}>
         <View>
           <Text style={styles.greeting}>Welcome,</Text>
-          <Text style={styles.title}>Tow Staff</Text>
+          <Text style={styles.title}>{profile?.organization?.name || 'Tow Staff'}</Text>
+        </View>
+        <View style={styles.headerActions}>
+          <TouchableOpacity onPress={() => router.push('/profile')} style={styles.profileButton}>
+            <FontAwesome5 name="user" size={16} color="#4F46E5" />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={navigateToNotifications} style={styles.notificationButton}>
+            <FontAwesome5 name="bell" size={18} color="#4F46E5" />
+            <NotificationBadge count={unreadCount} style={styles.notificationBadge} />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={signOut} style={styles.logoutButton}>
+            <Text style={styles.logoutText}>Logout</Text>
+          </TouchableOpacity>
         </View>
-        <TouchableOpacity onPress={signOut} style={styles.logoutButton}>
-          <Text style={styles.logoutText}>Logout</Text>
-        </TouchableOpacity>
       </View>
 
       {/* Quick Actions */}
@@ -441,6 +423,16 @@ export default function StaffDashboardScreen() {
           </Text>
         </TouchableOpacity>
         
+        <TouchableOpacity style={styles.managementCard} onPress={navigateToVehicleClaims}>
+          <View style={styles.managementIconContainer}>
+            <FontAwesome5 name="file-signature" size={24} color="#4F46E5" />
+          </View>
+          <Text style={styles.managementTitle}>Vehicle Claims</Text>
+          <Text style={styles.managementDescription}>
+            Verify registration documents and approve ownership claims
+          </Text>
+        </TouchableOpacity>
+
         <TouchableOpacity style={styles.managementCard} onPress={navigateToReports}>
           <View style={styles.managementIconContainer}>
             <FontAwesome5 name="chart-bar" size={24} color="#4F46E5" />
@@ -465,7 +457,7 @@ export default function StaffDashboardScreen() {
                 key={`${activity.type}-${activity.id}`}
                 title={activity.title}
                 time={activity.time}
-                status={activity.status}
+                status={activity.type === 'tow' ? TOW_STATUS_LABELS[activity.status as TowStatus] : activity.status}
                 icon={icon}
                 color={color}
               />
@@ -510,6 +502,33 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#111827',
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  profileButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#EEF2FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  notificationButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#EEF2FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  notificationBadge: {
+    position: 'absolute',
+    top: -6,
+    right: -6,
+  },
   logoutButton: {
     backgroundColor: '#EF4444',
     paddingVertical: 8,
@@ -12,33 +12,19 @@ import {
 } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { FontAwesome5 } from '@expo/vector-icons';
-import { supabase } from '../api/supabase';
+import { listOwnerVehicles, listOwnerTows } from '../api/repository';
+import { TowWithVehicle, Vehicle } from '../api/types';
 import { useSession } from '../context/SessionContext';
 import TowItem from '../components/TowItem';
 
-interface Tow {
-  id: string;
-  vehicle_id: string;
-  location: string;
-  tow_date: string;
-  reason: string | null;
-  status: 'active' | 'released' | 'completed';
-  license_plate?: string;
-}
-
-interface VehicleOption {
-  id: string;
-  license_plate: string;
-}
-
 export default function TowHistoryScreen() {
   const router = useRouter();
   const params = useLocalSearchParams();
   const { session } = useSession();
-  const [tows, setTows] = useState<Tow[]>([]);
+  const [tows, setTows] = useState<TowWithVehicle[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [vehicles, setVehicles] = useState<VehicleOption[]>([]);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [selectedVehicleId, setSelectedVehicleId] = useState<string | null>(
     params.vehicle_id as string || null
   );
@@ -54,14 +40,8 @@ export default function TowHistoryScreen() {
     if (!session?.user) return;
 
     try {
-      const { data, error } = await supabase
-        .from('vehicles')
-        .select('id, license_plate')
-        .eq('owner_id', session.user.id);
-
-      if (error) throw error;
-
-      setVehicles(data || []);
+      const data = await listOwnerVehicles(session.user.id);
+      setVehicles(data);
     } catch (error: any) {
       console.error('Error fetching vehicles:', error.message);
       Alert.alert('Error', 'Failed to load your vehicles');
@@ -74,44 +54,10 @@ export default function TowHistoryScreen() {
     try {
       setLoading(true);
       
-      let query = supabase
-        .from('tows')
-        .select(`
-          id,
-          vehicle_id,
-          location,
-          tow_date,
-          reason,
-          status,
-          vehicles:vehicles(license_plate, owner_id)
-        `)
-        .eq('vehicles.owner_id', session.user.id);
-        
       // If a specific vehicle is selected, filter by that vehicle
-      if (selectedVehicleId) {
-        query = query.eq('vehicle_id', selectedVehicleId);
-      }
-      
-      // Order by most recent tows first
-      query = query.order('tow_date', { ascending: false });
-      
-      const { data, error } = await query;
-
-      if (error) throw error;
-
-      // Transform data to include license_plate in the main tow object
-      const towsWithPlate = data?.map(tow => {
-        // Handle the case where vehicles is an array
-        if (tow.vehicles && Array.isArray(tow.vehicles) && tow.vehicles.length > 0) {
-          return {
-            ...tow,
-            license_plate: tow.vehicles[0].license_plate,
-          };
-        }
-        return tow;
-      }) || [];
+      const data = await listOwnerTows(session.user.id, selectedVehicleId);
 
-      setTows(towsWithPlate);
+      setTows(data);
     } catch (error: any) {
       console.error('Error fetching tow history:', error.message);
       Alert.alert('Error', 'Failed to load tow history');
@@ -11,39 +11,19 @@ import {
 } from 'react-native';
 import { Stack, useRouter } from 'expo-router';
 import { FontAwesome5 } from '@expo/vector-icons';
-import { supabase } from '../api/supabase';
+import { listTowRequests, updateTow, getVehicle, notifyUser } from '../api/repository';
+import { Tow, TowRequestStatus, TowWithVehicle } from '../api/types';
 import { useSession } from '../context/SessionContext';
+import { TOW_STATUS_COLORS, TOW_STATUS_LABELS } from '../utils/tows';
 import { format } from 'date-fns';
 
-interface TowRequest {
-  id: string;
-  vehicle_id: string;
-  license_plate: string;
-  location: string;
-  reason: string;
-  tow_date: string;
-  status: 'pending' | 'active' | 'completed';
-  request_status: 'new' | 'accepted' | 'rejected' | 'completed';
-  notes?: string;
-  created_at: string;
-  created_by: string;
-  assigned_to?: string;
-  vehicle?: {
-    license_plate: string;
-    model: string;
-    make?: string;
-    color: string;
-    registered_name?: string;
-  };
-}
-
-type RequestStatusTab = 'new' | 'accepted' | 'rejected' | 'completed' | 'all';
+type RequestStatusTab = TowRequestStatus | 'all';
 
 export default function TowRequestsScreen() {
   const router = useRouter();
-  const { session } = useSession();
+  const { session, profile } = useSession();
   const [activeTab, setActiveTab] = useState<RequestStatusTab>('new');
-  const [towRequests, setTowRequests] = useState<TowRequest[]>([]);
+  const [towRequests, setTowRequests] = useState<TowWithVehicle[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [updating, setUpdating] = useState<string | null>(null);
@@ -60,38 +40,11 @@ export default function TowRequestsScreen() {
     try {
       setLoading(true);
 
-      let query = supabase
-        .from('tows')
-        .select(`
-          id,
-          vehicle_id,
-          license_plate,
-          location,
-          reason,
-          tow_date,
-          status,
-          request_status,
-          notes,
-          created_at,
-          created_by,
-          assigned_to,
-          vehicles:vehicle_id (license_plate, model, make, color, registered_name)
-        `);
-
       // Filter by request status if not viewing all
-      if (activeTab !== 'all') {
-        query = query.eq('request_status', activeTab);
-      }
-
-      // Order by most recent first
-      query = query.order('created_at', { ascending: false });
+      const data = await listTowRequests(activeTab === 'all' ? undefined : activeTab);
 
-      const { data, error } = await query;
-
-      if (error) throw error;
-
-      console.log('Tow requests:', data?.length || 0);
-      setTowRequests(data || []);
+      console.log('Tow requests:', data.length);
+      setTowRequests(data);
     } catch (error: any) {
       console.error('Error fetching tow requests:', error.message);
       Alert.alert('Error', 'Failed to load tow requests. Please try again.');
@@ -101,69 +54,52 @@ export default function TowRequestsScreen() {
     }
   };
 
-  const updateRequestStatus = async (id: string, newStatus: RequestStatusTab, assignToMe: boolean = false) => {
+  // Accepting dispatches the tow and rejecting cancels it; the database keeps
+  // the request status in step. Later steps happen on the tow details screen.
+  const updateRequestStatus = async (id: string, accept: boolean) => {
     if (!session?.user) return;
     
     setUpdating(id);
     
     try {
-      const updateData: any = {
-        request_status: newStatus,
-      };
-      
-      // Status mappings
-      if (newStatus === 'accepted') {
-        updateData.status = 'active';
-        if (assignToMe) {
-          updateData.assigned_to = session.user.id;
-        }
-      } else if (newStatus === 'completed') {
-        updateData.status = 'completed';
-      } else if (newStatus === 'rejected') {
-        updateData.status = 'cancelled';
-      }
+      const updateData: Partial<Pick<Tow, 'status' | 'request_status' | 'assigned_to'>> = accept
+        ? { status: 'dispatched', assigned_to: session.user.id }
+        : { status: 'cancelled' };
       
-      const { error } = await supabase
-        .from('tows')
-        .update(updateData)
-        .eq('id', id);
-        
-      if (error) throw error;
+      await updateTow(id, updateData);
       
-      // Create notification for vehicle owner if request was accepted or completed
-      if ((newStatus === 'accepted' || newStatus === 'completed') && session.user.id) {
+      // Create notification for vehicle owner if request was accepted
+      if (accept) {
         const requestToUpdate = towRequests.find(req => req.id === id);
         if (requestToUpdate && requestToUpdate.vehicle_id) {
-          // Get vehicle owner from vehicles table
-          const { data: vehicle, error: vehicleError } = await supabase
-            .from('vehicles')
-            .select('owner_id')
-            .eq('id', requestToUpdate.vehicle_id)
-            .single();
-            
-          if (!vehicleError && vehicle && vehicle.owner_id) {
-            const notificationData = {
-              user_id: vehicle.owner_id,
-              type: newStatus === 'accepted' ? 'tow_accepted' : 'tow_completed',
-              title: newStatus === 'accepted' ? 'Tow Request Accepted' : 'Tow Completed',
-              message: newStatus === 'accepted' 
-                ? `Your tow request for vehicle ${requestToUpdate.license_plate} has been accepted.`
-                : `The tow for your vehicle ${requestToUpdate.license_plate} has been completed.`,
-              related_id: id,
-              is_read: false,
-            };
-            
-            await supabase.from('notifications').insert(notificationData);
+          try {
+            // Get vehicle owner from vehicles table
+            const vehicle = await getVehicle(requestToUpdate.vehicle_id);
+
+            if (vehicle.owner_id) {
+              await notifyUser({
+                user_id: vehicle.owner_id,
+                type: 'tow_accepted',
+                title: 'Tow Request Accepted',
+                message: `Your tow request for vehicle ${requestToUpdate.license_plate} has been accepted.`,
+                related_id: id,
+              });
+            }
+          } catch (vehicleError: any) {
+            console.error('Error fetching vehicle owner:', vehicleError.message);
           }
         }
       }
       
       // Refresh the list
       fetchTowRequests();
-      Alert.alert('Success', `Tow request has been ${newStatus}.`);
+      Alert.alert('Success', `Tow request has been ${accept ? 'accepted' : 'rejected'}.`);
     } catch (error: any) {
       console.error('Error updating tow request:', error.message);
-      Alert.alert('Error', 'Failed to update tow request. Please try again.');
+      Alert.alert(
+        'Error',
+        error.code === 'P0001' ? error.message : 'Failed to update tow request. Please try again.'
+      );
     } finally {
       setUpdating(null);
     }
@@ -177,7 +113,7 @@ export default function TowRequestsScreen() {
         { text: 'Cancel', style: 'cancel' },
         { 
           text: 'Accept', 
-          onPress: () => updateRequestStatus(id, 'accepted', true)
+          onPress: () => updateRequestStatus(id, true)
         }
       ]
     );
@@ -191,21 +127,7 @@ export default function TowRequestsScreen() {
         { text: 'Cancel', style: 'cancel' },
         { 
           text: 'Reject', 
-          onPress: () => updateRequestStatus(id, 'rejected')
-        }
-      ]
-    );
-  };
-
-  const handleComplete = (id: string) => {
-    Alert.alert(
-      'Complete Tow',
-      'Are you sure you want to mark this tow as completed?',
-      [
-        { text: 'Cancel', style: 'cancel' },
-        { 
-          text: 'Complete', 
-          onPress: () => updateRequestStatus(id, 'completed')
+          onPress: () => updateRequestStatus(id, false)
         }
       ]
     );
@@ -216,10 +138,12 @@ export default function TowRequestsScreen() {
     fetchTowRequests();
   };
 
-  const renderTowRequest = ({ item }: { item: TowRequest }) => {
+  const renderTowRequest = ({ item }: { item: TowWithVehicle }) => {
     const isUpdating = updating === item.id;
-    const isNew = item.request_status === 'new';
-    const isAccepted = item.request_status === 'accepted';
+    const requestStatus = item.request_status || 'new';
+    const isNew = requestStatus === 'new';
+    // Only the tow company can take the job; whoever requested it can withdraw it
+    const isTowCompany = !!item.tow_company_id && item.tow_company_id === profile?.organization?.id;
     
     return (
       <View style={styles.requestCard}>
@@ -228,14 +152,21 @@ export default function TowRequestsScreen() {
             <FontAwesome5 name="truck-pickup" size={16} color="#4F46E5" />
             <Text style={styles.licensePlate}>{item.license_plate}</Text>
           </View>
-          <View style={[styles.statusBadge, getStatusStyles(item.request_status).badge]}>
-            <Text style={getStatusStyles(item.request_status).text}>
-              {item.request_status.charAt(0).toUpperCase() + item.request_status.slice(1)}
+          <View style={[styles.statusBadge, getStatusStyles(requestStatus).badge]}>
+            <Text style={getStatusStyles(requestStatus).text}>
+              {requestStatus.charAt(0).toUpperCase() + requestStatus.slice(1)}
             </Text>
           </View>
         </View>
         
         <View style={styles.requestDetails}>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Tow Status:</Text>
+            <Text style={[styles.detailValue, { color: TOW_STATUS_COLORS[item.status] }]}>
+              {TOW_STATUS_LABELS[item.status]}
+            </Text>
+          </View>
+
           <View style={styles.detailRow}>
             <Text style={styles.detailLabel}>Location:</Text>
             <Text style={styles.detailValue}>{item.location}</Text>
@@ -279,13 +210,15 @@ export default function TowRequestsScreen() {
             <>
               {isNew && (
                 <>
-                  <TouchableOpacity 
-                    style={[styles.actionButton, styles.acceptButton]}
-                    onPress={() => handleAccept(item.id)}
-                  >
-                    <FontAwesome5 name="check" size={14} color="white" />
-                    <Text style={styles.actionButtonText}>Accept</Text>
-                  </TouchableOpacity>
+                  {isTowCompany && (
+                    <TouchableOpacity 
+                      style={[styles.actionButton, styles.acceptButton]}
+                      onPress={() => handleAccept(item.id)}
+                    >
+                      <FontAwesome5 name="check" size={14} color="white" />
+                      <Text style={styles.actionButtonText}>Accept</Text>
+                    </TouchableOpacity>
+                  )}
                   
                   <TouchableOpacity 
                     style={[styles.actionButton, styles.rejectButton]}
@@ -297,16 +230,6 @@ export default function TowRequestsScreen() {
                 </>
               )}
               
-              {isAccepted && (
-                <TouchableOpacity 
-                  style={[styles.actionButton, styles.completeButton]}
-                  onPress={() => handleComplete(item.id)}
-                >
-                  <FontAwesome5 name="check-double" size={14} color="white" />
-                  <Text style={styles.actionButtonText}>Complete</Text>
-                </TouchableOpacity>
-              )}
-              
               <TouchableOpacity 
                 style={[styles.actionButton, styles.viewButton]}
                 onPress={() => router.push({
@@ -380,6 +303,12 @@ export default function TowRequestsScreen() {
       />
       
       <View style={styles.container}>
+        {profile?.organization && (
+          <View style={styles.organizationBanner}>
+            <FontAwesome5 name="building" size={12} color="#4F46E5" />
+            <Text style={styles.organizationText}>{profile.organization.name}</Text>
+          </View>
+        )}
         <View style={styles.tabsContainer}>
           {['new', 'accepted', 'completed', 'rejected', 'all'].map((tab) => (
             <TouchableOpacity
@@ -433,6 +362,19 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: '#F7F9FC',
   },
+  organizationBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#EEF2FF',
+  },
+  organizationText: {
+    marginLeft: 8,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#4F46E5',
+  },
   tabsContainer: {
     flexDirection: 'row',
     backgroundColor: '#FFFFFF',
@@ -545,9 +487,6 @@ const styles = StyleSheet.create({
   rejectButton: {
     backgroundColor: '#DC2626',
   },
-  completeButton: {
-    backgroundColor: '#2563EB',
-  },
   viewButton: {
     backgroundColor: '#4B5563',
   },
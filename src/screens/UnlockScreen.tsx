@@ -0,0 +1,100 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { FontAwesome5 } from '@expo/vector-icons';
+
+interface UnlockScreenProps {
+  unlocking: boolean;
+  onUnlock: () => void;
+  onLogout: () => void;
+}
+
+// Shown over the app by AppLockProvider until the user unlocks with
+// biometrics or the device PIN
+const UnlockScreen: React.FC<UnlockScreenProps> = ({ unlocking, onUnlock, onLogout }) => (
+  <View style={styles.container}>
+    <Text style={styles.logoText}>TOWIFY</Text>
+
+    <View style={styles.iconContainer}>
+      <FontAwesome5 name="lock" size={32} color="#4F46E5" />
+    </View>
+    <Text style={styles.title}>Towify is Locked</Text>
+    <Text style={styles.message}>
+      Use Face ID, your fingerprint or your device PIN to continue.
+    </Text>
+
+    <TouchableOpacity style={styles.button} onPress={onUnlock} disabled={unlocking}>
+      {unlocking ? (
+        <ActivityIndicator color="#FFFFFF" />
+      ) : (
+        <Text style={styles.buttonText}>Unlock</Text>
+      )}
+    </TouchableOpacity>
+
+    <TouchableOpacity style={styles.logoutButton} onPress={onLogout} disabled={unlocking}>
+      <Text style={styles.logoutText}>Log Out</Text>
+    </TouchableOpacity>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+    backgroundColor: '#F7F9FC',
+  },
+  logoText: {
+    fontSize: 42,
+    fontWeight: 'bold',
+    color: '#4F46E5',
+    letterSpacing: 2,
+    marginBottom: 40,
+  },
+  iconContainer: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    backgroundColor: '#EEF2FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  message: {
+    fontSize: 14,
+    color: '#4B5563',
+    textAlign: 'center',
+    lineHeight: 20,
+    marginBottom: 32,
+  },
+  button: {
+    backgroundColor: '#4F46E5',
+    width: '100%',
+    height: 50,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  logoutButton: {
+    marginTop: 20,
+    padding: 8,
+  },
+  logoutText: {
+    color: '#EF4444',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
+
+export default UnlockScreen;
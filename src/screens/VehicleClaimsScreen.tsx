@@ -0,0 +1,566 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+  TextInput,
+  Modal,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  Image,
+} from 'react-native';
+import { Stack } from 'expo-router';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { listVehicleClaims, getVehicleDocumentUrl, reviewVehicleClaim } from '../api/repository';
+import { VehicleClaimStatus, VehicleClaimWithDetails } from '../api/types';
+import { useSession } from '../context/SessionContext';
+
+type ClaimStatusTab = VehicleClaimStatus | 'all';
+
+const TABS: ClaimStatusTab[] = ['pending', 'approved', 'rejected', 'all'];
+
+const getStatusStyles = (status: VehicleClaimStatus) => {
+  switch (status) {
+    case 'approved':
+      return { badge: { backgroundColor: '#D1FAE5' }, text: { color: '#059669' } };
+    case 'rejected':
+      return { badge: { backgroundColor: '#FEE2E2' }, text: { color: '#DC2626' } };
+    default:
+      return { badge: { backgroundColor: '#FEF3C7' }, text: { color: '#D97706' } };
+  }
+};
+
+// Staff and admins review ownership claims for vehicles without an owner.
+// Approving a claim hands the vehicle and its history to the claimant.
+export default function VehicleClaimsScreen() {
+  const { session } = useSession();
+  const userId = session?.user?.id;
+  const [activeTab, setActiveTab] = useState<ClaimStatusTab>('pending');
+  const [claims, setClaims] = useState<VehicleClaimWithDetails[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  // Review modal state
+  const [selectedClaim, setSelectedClaim] = useState<VehicleClaimWithDetails | null>(null);
+  const [documentUrl, setDocumentUrl] = useState<string | null>(null);
+  const [reviewNote, setReviewNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchClaims = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await listVehicleClaims(activeTab === 'all' ? undefined : activeTab);
+      setClaims(data);
+    } catch (error: any) {
+      console.error('Error fetching vehicle claims:', error.message);
+      Alert.alert('Error', 'Failed to load vehicle claims. Please try again.');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [activeTab]);
+
+  useEffect(() => {
+    if (userId) {
+      fetchClaims();
+    }
+  }, [userId, fetchClaims]);
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    fetchClaims();
+  };
+
+  const handleOpenClaim = async (claim: VehicleClaimWithDetails) => {
+    setSelectedClaim(claim);
+    setReviewNote(claim.review_note || '');
+    setDocumentUrl(null);
+
+    try {
+      setDocumentUrl(await getVehicleDocumentUrl(claim.document_path));
+    } catch (error: any) {
+      console.error('Error loading claim document:', error.message);
+      Alert.alert('Error', 'Failed to load the registration document');
+    }
+  };
+
+  const handleCloseClaim = () => {
+    setSelectedClaim(null);
+    setDocumentUrl(null);
+    setReviewNote('');
+  };
+
+  const submitReview = async (approve: boolean) => {
+    if (!selectedClaim) return;
+
+    if (!approve && !reviewNote.trim()) {
+      Alert.alert('Error', 'Please tell the owner why the claim was rejected.');
+      return;
+    }
+
+    setSubmitting(true);
+
+    try {
+      await reviewVehicleClaim(selectedClaim.id, approve, reviewNote.trim());
+      handleCloseClaim();
+      fetchClaims();
+      Alert.alert(
+        'Success',
+        approve
+          ? `${selectedClaim.license_plate} now belongs to the claimant.`
+          : 'The claim has been rejected.'
+      );
+    } catch (error: any) {
+      console.error('Error reviewing vehicle claim:', error.message);
+      Alert.alert('Error', error.code === 'P0001' ? error.message : 'Failed to review the claim. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleApprove = () => {
+    if (!selectedClaim) return;
+
+    Alert.alert(
+      'Approve Claim',
+      `Transfer ${selectedClaim.license_plate} to ${selectedClaim.claimant?.full_name || selectedClaim.claimant?.email || 'this owner'}? Their tow and fine history for the vehicle will become visible to them.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Approve', onPress: () => submitReview(true) },
+      ]
+    );
+  };
+
+  const renderClaim = ({ item }: { item: VehicleClaimWithDetails }) => {
+    const statusStyles = getStatusStyles(item.status);
+
+    return (
+      <TouchableOpacity style={styles.card} onPress={() => handleOpenClaim(item)}>
+        <View style={styles.cardHeader}>
+          <View style={styles.cardIdentifier}>
+            <FontAwesome5 name="car" size={16} color="#4F46E5" />
+            <Text style={styles.cardTitle}>{item.license_plate}</Text>
+          </View>
+          <View style={[styles.statusBadge, statusStyles.badge]}>
+            <Text style={statusStyles.text}>
+              {item.status.charAt(0).toUpperCase() + item.status.slice(1)}
+            </Text>
+          </View>
+        </View>
+
+        <View style={styles.detailRow}>
+          <Text style={styles.detailLabel}>Vehicle:</Text>
+          <Text style={styles.detailValue}>
+            {item.vehicle
+              ? [item.vehicle.make, item.vehicle.model, item.vehicle.color].filter(Boolean).join(', ')
+              : 'Unknown'}
+          </Text>
+        </View>
+        <View style={styles.detailRow}>
+          <Text style={styles.detailLabel}>Claimant:</Text>
+          <Text style={styles.detailValue}>
+            {item.claimant?.full_name || item.claimant?.email || 'Unknown User'}
+          </Text>
+        </View>
+        <View style={styles.detailRow}>
+          <Text style={styles.detailLabel}>Date:</Text>
+          <Text style={styles.detailValue}>
+            {format(new Date(item.created_at), 'MMM d, yyyy h:mm a')}
+          </Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderEmptyList = () => (
+    <View style={styles.emptyContainer}>
+      <FontAwesome5 name="inbox" size={60} color="#D1D5DB" />
+      <Text style={styles.emptyTitle}>No Claims</Text>
+      <Text style={styles.emptyText}>There are no vehicle claims with the selected status.</Text>
+    </View>
+  );
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'Vehicle Claims',
+          headerShown: true,
+          headerStyle: {
+            backgroundColor: '#F7F9FC',
+          },
+          headerTitleStyle: {
+            fontWeight: 'bold',
+          },
+        }}
+      />
+
+      <View style={styles.container}>
+        <View style={styles.tabsContainer}>
+          {TABS.map((tab) => (
+            <TouchableOpacity
+              key={tab}
+              style={[styles.tab, activeTab === tab && styles.activeTab]}
+              onPress={() => setActiveTab(tab)}
+            >
+              <Text style={[styles.tabText, activeTab === tab && styles.activeTabText]}>
+                {tab.charAt(0).toUpperCase() + tab.slice(1)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {loading && !refreshing ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#4F46E5" />
+            <Text style={styles.loadingText}>Loading claims...</Text>
+          </View>
+        ) : (
+          <FlatList
+            data={claims}
+            renderItem={renderClaim}
+            keyExtractor={(item) => item.id}
+            contentContainerStyle={styles.listContainer}
+            ListEmptyComponent={renderEmptyList}
+            refreshControl={
+              <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={['#4F46E5']} />
+            }
+          />
+        )}
+      </View>
+
+      <Modal
+        visible={!!selectedClaim}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={handleCloseClaim}
+      >
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={styles.modalContainer}
+        >
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <TouchableOpacity style={styles.closeButton} onPress={handleCloseClaim}>
+                <FontAwesome5 name="times" size={20} color="#6B7280" />
+              </TouchableOpacity>
+              <Text style={styles.modalTitle}>Review Claim</Text>
+            </View>
+
+            {selectedClaim && (
+              <ScrollView style={styles.modalBody}>
+                <Text style={styles.summaryTitle}>{selectedClaim.license_plate}</Text>
+                <Text style={styles.summaryMetaText}>
+                  Claimed by {selectedClaim.claimant?.full_name || selectedClaim.claimant?.email || 'Unknown User'}
+                  {selectedClaim.claimant?.phone ? ` · ${selectedClaim.claimant.phone}` : ''}
+                </Text>
+                {selectedClaim.vehicle?.registered_name ? (
+                  <Text style={styles.summaryMetaText}>
+                    Registered name on record: {selectedClaim.vehicle.registered_name}
+                  </Text>
+                ) : null}
+
+                <View style={styles.documentContainer}>
+                  {documentUrl ? (
+                    <Image source={{ uri: documentUrl }} style={styles.document} resizeMode="contain" />
+                  ) : (
+                    <ActivityIndicator size="small" color="#4F46E5" />
+                  )}
+                </View>
+
+                {selectedClaim.claimant_note ? (
+                  <View style={styles.noteContainer}>
+                    <Text style={styles.noteLabel}>Note from the owner:</Text>
+                    <Text style={styles.noteText}>{selectedClaim.claimant_note}</Text>
+                  </View>
+                ) : null}
+
+                {selectedClaim.status === 'pending' ? (
+                  <>
+                    <Text style={styles.label}>Review Note</Text>
+                    <TextInput
+                      style={styles.noteInput}
+                      value={reviewNote}
+                      onChangeText={setReviewNote}
+                      placeholder="Required when rejecting a claim"
+                      multiline
+                      numberOfLines={4}
+                      textAlignVertical="top"
+                    />
+
+                    {submitting ? (
+                      <ActivityIndicator size="small" color="#4F46E5" style={styles.submitting} />
+                    ) : (
+                      <View style={styles.reviewActions}>
+                        <TouchableOpacity
+                          style={[styles.reviewButton, styles.rejectButton]}
+                          onPress={() => submitReview(false)}
+                        >
+                          <FontAwesome5 name="times" size={14} color="white" />
+                          <Text style={styles.reviewButtonText}>Reject</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                          style={[styles.reviewButton, styles.approveButton]}
+                          onPress={handleApprove}
+                        >
+                          <FontAwesome5 name="check" size={14} color="white" />
+                          <Text style={styles.reviewButtonText}>Approve</Text>
+                        </TouchableOpacity>
+                      </View>
+                    )}
+                  </>
+                ) : (
+                  <View style={styles.noteContainer}>
+                    <Text style={styles.noteLabel}>
+                      {selectedClaim.status === 'approved' ? 'Approved' : 'Rejected'}
+                      {selectedClaim.reviewed_at
+                        ? ` on ${format(new Date(selectedClaim.reviewed_at), 'MMM d, yyyy')}`
+                        : ''}
+                    </Text>
+                    {selectedClaim.review_note ? (
+                      <Text style={styles.noteText}>{selectedClaim.review_note}</Text>
+                    ) : null}
+                  </View>
+                )}
+              </ScrollView>
+            )}
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F7F9FC',
+  },
+  tabsContainer: {
+    flexDirection: 'row',
+    backgroundColor: '#FFFFFF',
+    paddingHorizontal: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  tab: {
+    paddingVertical: 12,
+    paddingHorizontal: 12,
+    marginRight: 4,
+  },
+  activeTab: {
+    borderBottomWidth: 2,
+    borderBottomColor: '#4F46E5',
+  },
+  tabText: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  activeTabText: {
+    color: '#4F46E5',
+    fontWeight: '600',
+  },
+  listContainer: {
+    padding: 16,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 8,
+    fontSize: 16,
+    color: '#6B7280',
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  cardIdentifier: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    letterSpacing: 1,
+    color: '#111827',
+    marginLeft: 8,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 4,
+    marginLeft: 8,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    marginBottom: 6,
+  },
+  detailLabel: {
+    fontSize: 14,
+    color: '#6B7280',
+    width: 80,
+  },
+  detailValue: {
+    fontSize: 14,
+    color: '#111827',
+    flex: 1,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalContent: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  closeButton: {
+    padding: 8,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+    flex: 1,
+    textAlign: 'center',
+    marginRight: 40, // To center the title with the close button on the left
+  },
+  modalBody: {
+    padding: 16,
+  },
+  summaryTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    letterSpacing: 1,
+    color: '#111827',
+    marginBottom: 4,
+  },
+  summaryMetaText: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 2,
+  },
+  documentContainer: {
+    height: 260,
+    marginVertical: 16,
+    borderRadius: 8,
+    backgroundColor: '#F3F4F6',
+    justifyContent: 'center',
+    alignItems: 'center',
+    overflow: 'hidden',
+  },
+  document: {
+    width: '100%',
+    height: '100%',
+  },
+  noteContainer: {
+    backgroundColor: '#F9FAFB',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 16,
+  },
+  noteLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#4F46E5',
+    marginBottom: 4,
+  },
+  noteText: {
+    fontSize: 14,
+    color: '#4B5563',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  noteInput: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    minHeight: 100,
+  },
+  submitting: {
+    marginVertical: 24,
+  },
+  reviewActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+    marginBottom: 32,
+  },
+  reviewButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  rejectButton: {
+    backgroundColor: '#EF4444',
+  },
+  approveButton: {
+    backgroundColor: '#059669',
+  },
+  reviewButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    marginLeft: 8,
+  },
+});
@@ -15,19 +15,12 @@ import {
 } from 'react-native';
 import { FontAwesome5 } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
-import { supabase } from '../api/supabase';
+import { listOwnerVehicles } from '../api/repository';
+import { Vehicle } from '../api/types';
 import { useSession } from '../context/SessionContext';
 import VehicleItem from '../components/VehicleItem';
 import { LinearGradient } from 'expo-linear-gradient';
 
-interface Vehicle {
-  id: string;
-  license_plate: string;
-  model: string;
-  color: string;
-  make: string;
-}
-
 export default function VehicleListScreen() {
   const router = useRouter();
   const { session } = useSession();
@@ -43,17 +36,10 @@ export default function VehicleListScreen() {
 
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('vehicles')
-        .select('*')
-        .eq('owner_id', session.user.id);
+      const data = await listOwnerVehicles(session.user.id);
 
-      if (error) {
-        throw error;
-      }
-
-      setVehicles(data || []);
-      setFilteredVehicles(data || []);
+      setVehicles(data);
+      setFilteredVehicles(data);
       
       // Animate the content in
       Animated.timing(fadeAnim, {
@@ -105,6 +91,10 @@ export default function VehicleListScreen() {
     router.push('/add-vehicle');
   };
 
+  const handleClaimVehicle = () => {
+    router.push('/claim-vehicle');
+  };
+
   const renderEmptyList = () => (
     <Animated.View style={[styles.emptyContainer, { opacity: fadeAnim }]}>
       <LinearGradient
@@ -167,6 +157,11 @@ export default function VehicleListScreen() {
           )}
         </View>
 
+        <TouchableOpacity style={styles.claimLink} onPress={handleClaimVehicle}>
+          <FontAwesome5 name="file-signature" size={14} color="#4F46E5" style={styles.buttonIcon} />
+          <Text style={styles.claimLinkText}>Vehicle already on record? Claim it</Text>
+        </TouchableOpacity>
+
         {loading && !refreshing ? (
           <View style={styles.loadingContainer}>
             <ActivityIndicator size="large" color="#4F46E5" />
@@ -180,7 +175,10 @@ export default function VehicleListScreen() {
               <VehicleItem
                 id={item.id}
                 licensePlate={item.license_plate}
+                plateJurisdiction={item.plate_jurisdiction}
                 model={item.model}
+                year={item.year}
+                bodyType={item.body_type}
                 color={item.color}
                 onPress={handleVehiclePress}
               />
@@ -260,6 +258,17 @@ const styles = StyleSheet.create({
   searchIcon: {
     marginRight: 12,
   },
+  claimLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 20,
+    marginBottom: 8,
+  },
+  claimLinkText: {
+    color: '#4F46E5',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   searchInput: {
     flex: 1,
     fontSize: 16,
@@ -5,50 +5,25 @@ import {
   StyleSheet,
   TextInput,
   TouchableOpacity,
-  ScrollView,
   ActivityIndicator,
   Alert,
   FlatList,
-  Image,
 } from 'react-native';
 import { Stack, useRouter, useLocalSearchParams } from 'expo-router';
 import { FontAwesome5 } from '@expo/vector-icons';
-import { supabase } from '../api/supabase';
+import {
+  findVehicleByPlate,
+  findTowsByPlate,
+  getProfileContact,
+  listVehicleTows,
+  listVehicleFines,
+  listVehiclePhotos,
+} from '../api/repository';
+import { Fine, Tow, VehiclePhotoWithUrl, VehicleWithOwner } from '../api/types';
 import { useSession } from '../context/SessionContext';
-
-interface Vehicle {
-  id: string;
-  license_plate: string;
-  make?: string;
-  model: string;
-  color: string;
-  owner_id: string;
-  registered_name?: string;
-  owner?: {
-    id: string;
-    email: string;
-    full_name: string;
-    phone?: string;
-  };
-}
-
-interface TowRecord {
-  id: string;
-  location: string;
-  reason: string;
-  tow_date: string;
-  status: string;
-  created_at: string;
-}
-
-interface FineRecord {
-  id: string;
-  amount: number;
-  description: string;
-  issue_date: string;
-  due_date: string;
-  status: string;
-}
+import VehiclePhotos from '../components/VehiclePhotos';
+import { BODY_TYPE_LABELS } from '../utils/vehicles';
+import { TOW_STATUS_COLORS, TOW_STATUS_LABELS } from '../utils/tows';
 
 export default function VehicleSearchScreen() {
   const router = useRouter();
@@ -66,13 +41,16 @@ export default function VehicleSearchScreen() {
   
   // Search state
   const [licensePlate, setLicensePlate] = useState(queryLicensePlate);
+  // Narrows the search to plates issued there; blank searches every state
+  const [plateJurisdiction, setPlateJurisdiction] = useState('');
   const [searching, setSearching] = useState(false);
-  const [vehicle, setVehicle] = useState<Vehicle | null>(null);
+  const [vehicle, setVehicle] = useState<VehicleWithOwner | null>(null);
   const [vehicleNotFound, setVehicleNotFound] = useState(false);
   
   // History state
-  const [towHistory, setTowHistory] = useState<TowRecord[]>([]);
-  const [fineHistory, setFineHistory] = useState<FineRecord[]>([]);
+  const [towHistory, setTowHistory] = useState<Tow[]>([]);
+  const [fineHistory, setFineHistory] = useState<Fine[]>([]);
+  const [photos, setPhotos] = useState<VehiclePhotoWithUrl[]>([]);
   const [loadingHistory, setLoadingHistory] = useState(false);
   
   // Tab state
@@ -91,73 +69,38 @@ export default function VehicleSearchScreen() {
       setVehicleNotFound(false);
       setTowHistory([]);
       setFineHistory([]);
+      setPhotos([]);
       
-      // Format license plate for consistency in search
-      const formattedLicensePlate = licensePlate.trim().toUpperCase();
-      console.log('DEBUG: Searching for vehicle with license plate:', formattedLicensePlate);
-      
-      // Try exact match first
-      console.log('DEBUG: Trying exact match query');
-      let { data: vehicleData, error: vehicleError } = await supabase
-        .from('vehicles')
-        .select('id, license_plate, make, model, color, owner_id, registered_name')
-        .eq('license_plate', formattedLicensePlate);
-      
-      console.log('DEBUG: Exact match results:', { count: vehicleData?.length, error: vehicleError });
-      
-      // If no exact match, try with ILIKE
-      if (!vehicleData || vehicleData.length === 0) {
-        console.log('DEBUG: No exact match found, trying ILIKE query');
-        const { data: ilikeData, error: ilikeError } = await supabase
-          .from('vehicles')
-          .select('id, license_plate, make, model, color, owner_id, registered_name')
-          .ilike('license_plate', `%${formattedLicensePlate}%`);
-        
-        console.log('DEBUG: ILIKE match results:', { count: ilikeData?.length, error: ilikeError });
-        
-        if (!ilikeError && ilikeData && ilikeData.length > 0) {
-          vehicleData = ilikeData;
-          vehicleError = null;
-        }
-      }
-      
+      console.log('DEBUG: Searching for vehicle with license plate:', licensePlate);
+      const vehicleData = await findVehicleByPlate(licensePlate, plateJurisdiction);
+
       console.log('DEBUG: Final vehicle search results:', { 
-        count: vehicleData?.length, 
-        data: vehicleData,
+        count: vehicleData.length, 
         userId: session?.user?.id 
       });
       
       // If we can't find in vehicles table, check if it exists in tows table
-      if (!vehicleData || vehicleData.length === 0) {
-        // Try exact match in tows
-        let { data: towData, error: towError } = await supabase
-          .from('tows')
-          .select('*')
-          .eq('license_plate', formattedLicensePlate);
-        
-        // If no exact match in tows, try with ILIKE
-        if (!towData || towData.length === 0) {
-          const { data: towIlikeData, error: towIlikeError } = await supabase
-            .from('tows')
-            .select('*')
-            .ilike('license_plate', `%${formattedLicensePlate}%`);
-          
-          if (!towIlikeError && towIlikeData && towIlikeData.length > 0) {
-            towData = towIlikeData;
-            towError = null;
-          }
-        }
+      if (vehicleData.length === 0) {
+        const towData = await findTowsByPlate(licensePlate);
+        console.log('Tow search results:', towData.length);
         
-        console.log('Tow search results:', towData, towError);
-        
-        if (towData && towData.length > 0) {
+        if (towData.length > 0) {
           // Create a minimal vehicle object from tow data
           setVehicle({
             id: towData[0].vehicle_id || 'unknown',
             license_plate: towData[0].license_plate,
+            make: null,
             model: 'Unknown Model',
             color: 'gray',
-            owner_id: ''
+            owner_id: null,
+            registered_name: null,
+            archived_at: null,
+            vin: null,
+            year: null,
+            plate_jurisdiction: null,
+            body_type: 'car',
+            created_at: towData[0].created_at,
+            owner: null,
           });
           
           // If we have a vehicle_id, try to get more complete data
@@ -168,49 +111,32 @@ export default function VehicleSearchScreen() {
             setTowHistory([towData[0]]);
           }
           
-          setSearching(false);
           return;
         }
         
         // If we still can't find it, set not found
         setVehicleNotFound(true);
-        setSearching(false);
         return;
       }
 
-      // If we found at least one vehicle
-      if (vehicleData && vehicleData.length > 0) {
-        const foundVehicle = vehicleData[0];
-        
-        // If we found a vehicle, fetch owner info separately
-        if (foundVehicle.owner_id) {
-          const { data: ownerData, error: ownerError } = await supabase
-            .from('profiles')
-            .select('id, email, full_name, phone')
-            .eq('id', foundVehicle.owner_id)
-            .single();
-          
-          if (!ownerError && ownerData) {
-            // Combine vehicle and owner data
-            setVehicle({
-              ...foundVehicle,
-              owner: ownerData
-            });
-          } else {
-            // If we can't get owner data, just use the vehicle
-            setVehicle(foundVehicle);
-            console.log('Could not fetch owner data:', ownerError?.message);
-          }
-          
-          // Fetch history after finding vehicle
-          fetchVehicleHistory(foundVehicle.id);
-        } else {
-          setVehicle(foundVehicle);
-          fetchVehicleHistory(foundVehicle.id);
+      const foundVehicle = vehicleData[0];
+      let owner = null;
+      
+      // If we found a vehicle, fetch owner info separately
+      if (foundVehicle.owner_id) {
+        try {
+          owner = await getProfileContact(foundVehicle.owner_id);
+        } catch (ownerError: any) {
+          // If we can't get owner data, just use the vehicle
+          console.log('Could not fetch owner data:', ownerError.message);
         }
-      } else {
-        setVehicleNotFound(true);
       }
+      
+      setVehicle({ ...foundVehicle, owner });
+      
+      // Fetch history and photos after finding vehicle
+      fetchVehicleHistory(foundVehicle.id);
+      fetchPhotos(foundVehicle.id);
     } catch (error: any) {
       console.error('Error searching vehicle:', error.message);
       Alert.alert('Error', 'Failed to search for the vehicle. Please try again.');
@@ -225,26 +151,13 @@ export default function VehicleSearchScreen() {
     setLoadingHistory(true);
     
     try {
-      // Fetch tow history
-      const { data: towData, error: towError } = await supabase
-        .from('tows')
-        .select('*')
-        .eq('vehicle_id', vehicleId)
-        .order('tow_date', { ascending: false });
-      
-      if (towError) throw towError;
+      const [towData, fineData] = await Promise.all([
+        listVehicleTows(vehicleId),
+        listVehicleFines(vehicleId),
+      ]);
       
-      // Fetch fine history
-      const { data: fineData, error: fineError } = await supabase
-        .from('fines')
-        .select('*')
-        .eq('vehicle_id', vehicleId)
-        .order('issue_date', { ascending: false });
-      
-      if (fineError) throw fineError;
-      
-      setTowHistory(towData || []);
-      setFineHistory(fineData || []);
+      setTowHistory(towData);
+      setFineHistory(fineData);
     } catch (error: any) {
       console.error('Error fetching vehicle history:', error.message);
       Alert.alert('Error', 'Failed to fetch vehicle history');
@@ -253,6 +166,14 @@ export default function VehicleSearchScreen() {
     }
   };
   
+  const fetchPhotos = async (vehicleId: string) => {
+    try {
+      setPhotos(await listVehiclePhotos(vehicleId));
+    } catch (error: any) {
+      console.error('Error fetching vehicle photos:', error.message);
+    }
+  };
+  
   // Navigate to record tow screen with vehicle pre-selected
   const handleRecordTow = () => {
     if (vehicle) {
@@ -285,6 +206,32 @@ export default function VehicleSearchScreen() {
             <Text style={styles.detailValue}>{vehicle.license_plate}</Text>
           </View>
           
+          {vehicle.plate_jurisdiction && (
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Plate Issued In:</Text>
+              <Text style={styles.detailValue}>{vehicle.plate_jurisdiction}</Text>
+            </View>
+          )}
+          
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Type:</Text>
+            <Text style={styles.detailValue}>{BODY_TYPE_LABELS[vehicle.body_type]}</Text>
+          </View>
+          
+          {vehicle.vin && (
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>VIN:</Text>
+              <Text style={styles.detailValue}>{vehicle.vin}</Text>
+            </View>
+          )}
+          
+          {vehicle.year && (
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Year:</Text>
+              <Text style={styles.detailValue}>{vehicle.year}</Text>
+            </View>
+          )}
+          
           {vehicle.make && (
             <View style={styles.detailRow}>
               <Text style={styles.detailLabel}>Make:</Text>
@@ -318,8 +265,22 @@ export default function VehicleSearchScreen() {
               <Text style={styles.detailValue}>{vehicle.registered_name}</Text>
             </View>
           )}
+
+          {vehicle.archived_at && (
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Removed by Owner:</Text>
+              <Text style={styles.detailValue}>{new Date(vehicle.archived_at).toLocaleDateString()}</Text>
+            </View>
+          )}
         </View>
         
+        {photos.length > 0 && (
+          <View style={styles.detailsSection}>
+            <Text style={styles.sectionTitle}>Photos</Text>
+            <VehiclePhotos photos={photos.map(photo => ({ key: photo.id, uri: photo.url }))} />
+          </View>
+        )}
+        
         {vehicle.owner && (
           <View style={styles.detailsSection}>
             <Text style={styles.sectionTitle}>Owner Information</Text>
@@ -400,7 +361,10 @@ export default function VehicleSearchScreen() {
         keyExtractor={(item) => item.id}
         contentContainerStyle={styles.listContent}
         renderItem={({ item }) => (
-          <View style={styles.historyCard}>
+          <TouchableOpacity
+            style={styles.historyCard}
+            onPress={() => router.push({ pathname: '/staff/tow-details', params: { id: item.id } })}
+          >
             <View style={styles.historyCardHeader}>
               <View style={styles.headerLeft}>
                 <FontAwesome5 name="truck-pickup" size={16} color="#4F46E5" />
@@ -410,16 +374,9 @@ export default function VehicleSearchScreen() {
               </View>
               <View style={[
                 styles.statusBadge, 
-                {
-                  backgroundColor: 
-                    item.status === 'completed' ? '#10B981' : 
-                    item.status === 'active' ? '#4F46E5' :
-                    item.status === 'pending' ? '#F59E0B' : '#6B7280',
-                }
+                { backgroundColor: TOW_STATUS_COLORS[item.status] }
               ]}>
-                <Text style={styles.statusText}>
-                  {item.status.charAt(0).toUpperCase() + item.status.slice(1)}
-                </Text>
+                <Text style={styles.statusText}>{TOW_STATUS_LABELS[item.status]}</Text>
               </View>
             </View>
             
@@ -441,7 +398,7 @@ export default function VehicleSearchScreen() {
                 </Text>
               </View>
             </View>
-          </View>
+          </TouchableOpacity>
         )}
       />
     );
@@ -509,7 +466,7 @@ export default function VehicleSearchScreen() {
               <View style={styles.historyDetailRow}>
                 <Text style={styles.historyLabel}>Due Date:</Text>
                 <Text style={styles.historyValue}>
-                  {new Date(item.due_date).toLocaleDateString()}
+                  {item.due_date ? new Date(item.due_date).toLocaleDateString() : 'N/A'}
                 </Text>
               </View>
             </View>
@@ -584,6 +541,13 @@ export default function VehicleSearchScreen() {
               onChangeText={setLicensePlate}
               autoCapitalize="characters"
             />
+            <TextInput
+              style={[styles.searchInput, styles.jurisdictionInput]}
+              placeholder="State"
+              value={plateJurisdiction}
+              onChangeText={(text) => setPlateJurisdiction(text.toUpperCase())}
+              autoCapitalize="characters"
+            />
             <TouchableOpacity
               style={styles.searchButton}
               onPress={searchVehicle}
@@ -612,7 +576,7 @@ export default function VehicleSearchScreen() {
               <View style={styles.vehicleHeaderInfo}>
                 <Text style={styles.vehiclePlate}>{vehicle.license_plate}</Text>
                 <Text style={styles.vehicleModel}>
-                  {vehicle.make ? `${vehicle.make} ${vehicle.model}` : vehicle.model}
+                  {[vehicle.year, vehicle.make, vehicle.model].filter(Boolean).join(' ')}
                 </Text>
                 {vehicle.registered_name && (
                   <Text style={styles.vehicleRegisteredName}>
@@ -732,6 +696,10 @@ const styles = StyleSheet.create({
     fontSize: 16,
     marginRight: 8,
   },
+  jurisdictionInput: {
+    flex: 0,
+    width: 72,
+  },
   searchButton: {
     backgroundColor: '#4F46E5',
     paddingVertical: 12,
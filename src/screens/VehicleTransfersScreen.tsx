@@ -0,0 +1,432 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import {
+  listVehicleTransfers,
+  startVehicleTransfer,
+  respondToVehicleTransfer,
+  cancelVehicleTransfer,
+} from '../api/repository';
+import { VehicleTransferStatus, VehicleTransferWithDetails } from '../api/types';
+import { useSession } from '../context/SessionContext';
+
+const getStatusStyles = (status: VehicleTransferStatus) => {
+  switch (status) {
+    case 'accepted':
+      return { badge: { backgroundColor: '#D1FAE5' }, text: { color: '#059669' } };
+    case 'declined':
+      return { badge: { backgroundColor: '#FEE2E2' }, text: { color: '#DC2626' } };
+    case 'cancelled':
+      return { badge: { backgroundColor: '#E5E7EB' }, text: { color: '#4B5563' } };
+    default:
+      return { badge: { backgroundColor: '#FEF3C7' }, text: { color: '#D97706' } };
+  }
+};
+
+// Lists the owner's incoming and outgoing transfers. Opened from vehicle
+// details with a vehicle_id, it also starts a transfer of that vehicle.
+export default function VehicleTransfersScreen() {
+  const router = useRouter();
+  const { vehicle_id: vehicleId, plate } = useLocalSearchParams<{ vehicle_id?: string; plate?: string }>();
+  const { session } = useSession();
+  const [transfers, setTransfers] = useState<VehicleTransferWithDetails[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [recipientEmail, setRecipientEmail] = useState('');
+  const [sending, setSending] = useState(false);
+  const [updating, setUpdating] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (session?.user) {
+      fetchTransfers();
+    }
+  }, [session]);
+
+  const fetchTransfers = async () => {
+    try {
+      setLoading(true);
+      setTransfers(await listVehicleTransfers());
+    } catch (error: any) {
+      console.error('Error fetching vehicle transfers:', error.message);
+      Alert.alert('Error', 'Failed to load vehicle transfers');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    fetchTransfers();
+  };
+
+  // Messages raised by the transfer functions explain what's wrong, e.g.
+  // unpaid fines blocking the transfer
+  const showTransferError = (error: any, fallback: string) => {
+    Alert.alert('Error', error.code === 'P0001' || error.code === 'P0002' ? error.message : fallback);
+  };
+
+  const handleStartTransfer = async () => {
+    if (!vehicleId) return;
+
+    if (!/\S+@\S+\.\S+/.test(recipientEmail.trim())) {
+      Alert.alert('Error', "Please enter the new owner's email address");
+      return;
+    }
+
+    setSending(true);
+
+    try {
+      const email = recipientEmail.trim();
+      await startVehicleTransfer(vehicleId, email);
+      setRecipientEmail('');
+      Alert.alert(
+        'Transfer Started',
+        `If ${email} belongs to a vehicle owner account, they'll be asked to accept the transfer. ` +
+          `${plate || 'The vehicle'} moves to their account once they do.`
+      );
+      router.setParams({ vehicle_id: undefined, plate: undefined });
+      fetchTransfers();
+    } catch (error: any) {
+      console.error('Error starting vehicle transfer:', error.message);
+      showTransferError(error, 'Failed to start the transfer. Please try again.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const respond = async (transfer: VehicleTransferWithDetails, accept: boolean) => {
+    setUpdating(transfer.id);
+
+    try {
+      await respondToVehicleTransfer(transfer.id, accept);
+      Alert.alert(
+        'Success',
+        accept
+          ? `${transfer.license_plate} has been added to your vehicles.`
+          : 'The transfer has been declined.'
+      );
+      fetchTransfers();
+    } catch (error: any) {
+      console.error('Error responding to vehicle transfer:', error.message);
+      showTransferError(error, 'Failed to update the transfer. Please try again.');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const handleAccept = (transfer: VehicleTransferWithDetails) => {
+    Alert.alert(
+      'Accept Transfer',
+      `Add ${transfer.license_plate} to your vehicles? Unpaid fines that move with the vehicle will become yours to pay.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Accept', onPress: () => respond(transfer, true) },
+      ]
+    );
+  };
+
+  const handleCancel = (transfer: VehicleTransferWithDetails) => {
+    Alert.alert('Cancel Transfer', `Cancel the transfer of ${transfer.license_plate}?`, [
+      { text: 'Keep', style: 'cancel' },
+      {
+        text: 'Cancel Transfer',
+        style: 'destructive',
+        onPress: async () => {
+          setUpdating(transfer.id);
+          try {
+            await cancelVehicleTransfer(transfer.id);
+            fetchTransfers();
+          } catch (error: any) {
+            console.error('Error cancelling vehicle transfer:', error.message);
+            showTransferError(error, 'Failed to cancel the transfer. Please try again.');
+          } finally {
+            setUpdating(null);
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderTransfer = (transfer: VehicleTransferWithDetails) => {
+    const statusStyles = getStatusStyles(transfer.status);
+    const isPending = transfer.status === 'pending';
+    const otherParty = transfer.other_party_name || transfer.other_party_email || 'Unknown User';
+
+    return (
+      <View key={transfer.id} style={styles.card}>
+        <View style={styles.cardHeader}>
+          <View style={styles.cardIdentifier}>
+            <FontAwesome5
+              name={transfer.outgoing ? 'arrow-up' : 'arrow-down'}
+              size={14}
+              color="#4F46E5"
+            />
+            <Text style={styles.cardTitle}>{transfer.license_plate}</Text>
+          </View>
+          <View style={[styles.statusBadge, statusStyles.badge]}>
+            <Text style={statusStyles.text}>
+              {transfer.status.charAt(0).toUpperCase() + transfer.status.slice(1)}
+            </Text>
+          </View>
+        </View>
+
+        <Text style={styles.cardDetail}>
+          {[transfer.make, transfer.model, transfer.color].filter(Boolean).join(', ')}
+        </Text>
+        <Text style={styles.cardDetail}>
+          {transfer.outgoing ? `To ${otherParty}` : `From ${otherParty}`} ·{' '}
+          {format(new Date(transfer.created_at), 'MMM d, yyyy')}
+        </Text>
+
+        {isPending && (
+          <View style={styles.cardActions}>
+            {updating === transfer.id ? (
+              <ActivityIndicator size="small" color="#4F46E5" />
+            ) : transfer.outgoing ? (
+              <TouchableOpacity
+                style={[styles.actionButton, styles.cancelButton]}
+                onPress={() => handleCancel(transfer)}
+              >
+                <Text style={styles.actionButtonText}>Cancel Transfer</Text>
+              </TouchableOpacity>
+            ) : (
+              <>
+                <TouchableOpacity
+                  style={[styles.actionButton, styles.declineButton]}
+                  onPress={() => respond(transfer, false)}
+                >
+                  <Text style={styles.actionButtonText}>Decline</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.actionButton, styles.acceptButton]}
+                  onPress={() => handleAccept(transfer)}
+                >
+                  <Text style={styles.actionButtonText}>Accept</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'Vehicle Transfers',
+          headerShown: true,
+          headerStyle: {
+            backgroundColor: '#F7F9FC',
+          },
+          headerTitleStyle: {
+            fontWeight: 'bold',
+          },
+          headerShadowVisible: false,
+        }}
+      />
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.container}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContainer}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={['#4F46E5']} />
+          }
+        >
+          {vehicleId ? (
+            <View style={styles.formCard}>
+              <Text style={styles.formTitle}>Transfer {plate}</Text>
+              <Text style={styles.formText}>
+                Enter the email address the new owner uses for Towify. The vehicle moves to their
+                account when they accept. Its tow and fine history up to then stays with you.
+              </Text>
+              <TextInput
+                value={recipientEmail}
+                onChangeText={setRecipientEmail}
+                placeholder="New owner's email"
+                style={styles.input}
+                autoCapitalize="none"
+                keyboardType="email-address"
+              />
+              <TouchableOpacity
+                style={styles.button}
+                onPress={handleStartTransfer}
+                disabled={sending}
+              >
+                {sending ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <Text style={styles.buttonText}>Start Transfer</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          ) : null}
+
+          {loading && !refreshing ? (
+            <ActivityIndicator size="large" color="#4F46E5" style={styles.loader} />
+          ) : transfers.length > 0 ? (
+            transfers.map(renderTransfer)
+          ) : (
+            <View style={styles.emptyContainer}>
+              <FontAwesome5 name="exchange-alt" size={48} color="#D1D5DB" />
+              <Text style={styles.emptyTitle}>No Transfers</Text>
+              <Text style={styles.emptyText}>
+                To sell a vehicle, open it from My Vehicles and choose Transfer Ownership.
+              </Text>
+            </View>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F7F9FC',
+  },
+  scrollContainer: {
+    flexGrow: 1,
+    padding: 16,
+  },
+  formCard: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+  },
+  formTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  formText: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginBottom: 16,
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    height: 50,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    paddingHorizontal: 16,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  button: {
+    backgroundColor: '#4F46E5',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  loader: {
+    marginTop: 20,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  cardIdentifier: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    letterSpacing: 1,
+    color: '#111827',
+    marginLeft: 8,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 4,
+  },
+  cardDetail: {
+    fontSize: 14,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  cardActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 12,
+  },
+  actionButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 6,
+    marginLeft: 8,
+  },
+  actionButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  acceptButton: {
+    backgroundColor: '#059669',
+  },
+  declineButton: {
+    backgroundColor: '#EF4444',
+  },
+  cancelButton: {
+    backgroundColor: '#6B7280',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,205 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { router } from 'expo-router';
+import * as Linking from 'expo-linking';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { createSessionFromUrl, resendVerificationEmail } from '../api/authLinks';
+
+type VerifyState = 'verifying' | 'verified' | 'failed';
+
+// Opened from the signup confirmation email (towify://verify-email). A valid
+// link confirms the address and signs the user in.
+export default function VerifyEmailScreen() {
+  const url = Linking.useURL();
+  const [verifyState, setVerifyState] = useState<VerifyState>('verifying');
+  const [errorMessage, setErrorMessage] = useState('');
+  const [email, setEmail] = useState('');
+  const [resending, setResending] = useState(false);
+
+  useEffect(() => {
+    if (url) {
+      verifyLink(url);
+    }
+  }, [url]);
+
+  const verifyLink = async (linkUrl: string) => {
+    try {
+      const signedIn = await createSessionFromUrl(linkUrl);
+
+      if (!signedIn) {
+        setErrorMessage('This page has to be opened from the link in your verification email.');
+        setVerifyState('failed');
+        return;
+      }
+
+      setVerifyState('verified');
+    } catch (error: any) {
+      console.error('Error verifying email:', error.message);
+      setErrorMessage(error.message || 'This verification link is invalid or has expired.');
+      setVerifyState('failed');
+    }
+  };
+
+  const handleResend = async () => {
+    if (!/\S+@\S+\.\S+/.test(email)) {
+      Alert.alert('Error', 'Please enter the email you signed up with.');
+      return;
+    }
+
+    try {
+      setResending(true);
+      await resendVerificationEmail(email);
+      Alert.alert('Email Sent', 'We sent a new verification link. Please check your inbox.');
+    } catch (error: any) {
+      console.error('Error resending verification:', error.message);
+      Alert.alert('Error', error.message || 'Failed to resend the verification email');
+    } finally {
+      setResending(false);
+    }
+  };
+
+  if (verifyState === 'verifying') {
+    return (
+      <View style={styles.container}>
+        <ActivityIndicator size="large" color="#4F46E5" />
+        <Text style={styles.message}>Verifying your email...</Text>
+      </View>
+    );
+  }
+
+  if (verifyState === 'verified') {
+    return (
+      <View style={styles.container}>
+        <View style={[styles.iconContainer, styles.successIcon]}>
+          <FontAwesome5 name="check" size={28} color="#10B981" />
+        </View>
+        <Text style={styles.title}>Email Verified</Text>
+        <Text style={styles.message}>Thanks for confirming your email address.</Text>
+        {/* The splash screen sends the signed-in user to their dashboard */}
+        <TouchableOpacity style={styles.button} onPress={() => router.replace('/')}>
+          <Text style={styles.buttonText}>Continue</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.iconContainer, styles.errorIcon]}>
+        <FontAwesome5 name="envelope" size={28} color="#EF4444" />
+      </View>
+      <Text style={styles.title}>Verification Failed</Text>
+      <Text style={styles.message}>{errorMessage}</Text>
+
+      <View style={styles.inputContainer}>
+        <Text style={styles.label}>Email</Text>
+        <TextInput
+          value={email}
+          onChangeText={setEmail}
+          placeholder="Enter your email"
+          keyboardType="email-address"
+          autoCapitalize="none"
+          style={styles.input}
+        />
+      </View>
+
+      <TouchableOpacity style={styles.button} onPress={handleResend} disabled={resending}>
+        {resending ? (
+          <ActivityIndicator color="#fff" />
+        ) : (
+          <Text style={styles.buttonText}>Resend Verification Email</Text>
+        )}
+      </TouchableOpacity>
+
+      <TouchableOpacity onPress={() => router.replace('/login')} style={styles.footer}>
+        <Text style={styles.linkText}>Back to Log In</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+    backgroundColor: '#F7F9FC',
+  },
+  iconContainer: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  successIcon: {
+    backgroundColor: '#D1FAE5',
+  },
+  errorIcon: {
+    backgroundColor: '#FEE2E2',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginBottom: 8,
+  },
+  message: {
+    fontSize: 14,
+    color: '#4B5563',
+    textAlign: 'center',
+    lineHeight: 20,
+    marginTop: 8,
+    marginBottom: 24,
+  },
+  inputContainer: {
+    width: '100%',
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#FFFFFF',
+    height: 50,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    paddingHorizontal: 16,
+    fontSize: 16,
+  },
+  button: {
+    backgroundColor: '#4F46E5',
+    width: '100%',
+    height: 50,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  footer: {
+    marginTop: 24,
+  },
+  linkText: {
+    color: '#4F46E5',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
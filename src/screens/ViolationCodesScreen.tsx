@@ -0,0 +1,523 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  ScrollView,
+  Switch,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { Stack } from 'expo-router';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { listViolationCodes, saveViolationCode } from '../api/repository';
+import { VehicleBodyType, ViolationCodeWithAmounts } from '../api/types';
+import { BODY_TYPES, BODY_TYPE_LABELS } from '../utils/vehicles';
+import { normalizeViolationCode } from '../utils/violations';
+
+interface CodeForm {
+  code: string;
+  title: string;
+  statute: string;
+  default_amount: string;
+  is_active: boolean;
+  // Blank body types are charged the default amount
+  amounts: Record<VehicleBodyType, string>;
+}
+
+const EMPTY_AMOUNTS = Object.fromEntries(BODY_TYPES.map(bodyType => [bodyType, ''])) as Record<
+  VehicleBodyType,
+  string
+>;
+
+const EMPTY_FORM: CodeForm = {
+  code: '',
+  title: '',
+  statute: '',
+  default_amount: '',
+  is_active: true,
+  amounts: EMPTY_AMOUNTS,
+};
+
+const toForm = (code: ViolationCodeWithAmounts): CodeForm => ({
+  code: code.code,
+  title: code.title,
+  statute: code.statute || '',
+  default_amount: Number(code.default_amount).toFixed(2),
+  is_active: code.is_active,
+  amounts: {
+    ...EMPTY_AMOUNTS,
+    ...Object.fromEntries(code.amounts.map(amount => [amount.body_type, Number(amount.amount).toFixed(2)])),
+  },
+});
+
+// The catalog of violation and tow reason codes with their fee schedule.
+// Codes already used on tows or fines are retired instead of deleted.
+export default function ViolationCodesScreen() {
+  const [codes, setCodes] = useState<ViolationCodeWithAmounts[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formVisible, setFormVisible] = useState(false);
+  const [form, setForm] = useState<CodeForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchCodes();
+  }, []);
+
+  const fetchCodes = async () => {
+    try {
+      setLoading(true);
+      setCodes(await listViolationCodes({ includeRetired: true }));
+    } catch (error: any) {
+      console.error('Error fetching violation codes:', error.message);
+      Alert.alert('Error', 'Failed to load violation codes');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    fetchCodes();
+  };
+
+  const openForm = (code: ViolationCodeWithAmounts | null) => {
+    setEditingId(code?.id || null);
+    setForm(code ? toForm(code) : EMPTY_FORM);
+    setFormVisible(true);
+  };
+
+  const handleSave = async () => {
+    const code = normalizeViolationCode(form.code);
+    const defaultAmount = parseFloat(form.default_amount);
+
+    if (!code || !form.title.trim()) {
+      Alert.alert('Error', 'Please enter the code and its title');
+      return;
+    }
+
+    if (isNaN(defaultAmount) || defaultAmount <= 0) {
+      Alert.alert('Error', 'Please enter a valid default amount');
+      return;
+    }
+
+    const amounts: Partial<Record<VehicleBodyType, number>> = {};
+    for (const bodyType of BODY_TYPES) {
+      if (!form.amounts[bodyType].trim()) continue;
+
+      const amount = parseFloat(form.amounts[bodyType]);
+      if (isNaN(amount) || amount <= 0) {
+        Alert.alert('Error', `Please enter a valid amount for ${BODY_TYPE_LABELS[bodyType].toLowerCase()}s`);
+        return;
+      }
+      amounts[bodyType] = amount;
+    }
+
+    try {
+      setSaving(true);
+      await saveViolationCode(editingId, {
+        code,
+        title: form.title.trim(),
+        statute: form.statute.trim() || null,
+        default_amount: defaultAmount,
+        is_active: form.is_active,
+        amounts,
+      });
+      setFormVisible(false);
+      fetchCodes();
+    } catch (error: any) {
+      console.error('Error saving violation code:', error.message);
+      if (error.code === '23505') {
+        Alert.alert('Error', `There is already a code ${code}`);
+      } else if (error.code === '23514') {
+        Alert.alert('Error', 'Codes can only contain letters, digits and dashes');
+      } else {
+        Alert.alert('Error', 'Failed to save the code');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderCode = ({ item }: { item: ViolationCodeWithAmounts }) => (
+    <TouchableOpacity style={[styles.codeCard, !item.is_active && styles.codeCardRetired]} onPress={() => openForm(item)}>
+      <View style={styles.codeContent}>
+        <View style={styles.codeHeader}>
+          <Text style={styles.codeText}>{item.code}</Text>
+          {!item.is_active && (
+            <View style={styles.retiredBadge}>
+              <Text style={styles.retiredText}>Retired</Text>
+            </View>
+          )}
+        </View>
+        <Text style={styles.codeTitle}>{item.title}</Text>
+        {item.statute && <Text style={styles.codeMeta}>{item.statute}</Text>}
+        {item.amounts.length > 0 && (
+          <Text style={styles.codeMeta}>
+            {item.amounts
+              .map(amount => `${BODY_TYPE_LABELS[amount.body_type]} $${Number(amount.amount).toFixed(2)}`)
+              .join(' • ')}
+          </Text>
+        )}
+      </View>
+      <Text style={styles.codeAmount}>${Number(item.default_amount).toFixed(2)}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderEmptyList = () => (
+    <View style={styles.emptyContainer}>
+      <FontAwesome5 name="list-ol" size={48} color="#D1D5DB" />
+      <Text style={styles.emptyTitle}>No codes yet</Text>
+      <Text style={styles.emptyText}>Add the violations officers and staff can tow and fine for.</Text>
+    </View>
+  );
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'Violation Codes',
+          headerShown: true,
+          headerStyle: {
+            backgroundColor: '#F7F9FC',
+          },
+          headerTitleStyle: {
+            fontWeight: 'bold',
+          },
+        }}
+      />
+
+      <View style={styles.container}>
+        {loading && !refreshing ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#4F46E5" />
+            <Text style={styles.loadingText}>Loading codes...</Text>
+          </View>
+        ) : (
+          <FlatList
+            data={codes}
+            renderItem={renderCode}
+            keyExtractor={(item) => item.id}
+            contentContainerStyle={styles.listContainer}
+            ListHeaderComponent={
+              <TouchableOpacity style={styles.addButton} onPress={() => openForm(null)}>
+                <FontAwesome5 name="plus" size={14} color="white" style={styles.addIcon} />
+                <Text style={styles.addText}>Add Code</Text>
+              </TouchableOpacity>
+            }
+            ListEmptyComponent={renderEmptyList}
+            refreshControl={
+              <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={['#4F46E5']} />
+            }
+          />
+        )}
+      </View>
+
+      <Modal visible={formVisible} animationType="slide" transparent={true} onRequestClose={() => setFormVisible(false)}>
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={styles.modalContainer}
+        >
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <TouchableOpacity style={styles.closeButton} onPress={() => setFormVisible(false)}>
+                <FontAwesome5 name="times" size={18} color="#6B7280" />
+              </TouchableOpacity>
+              <Text style={styles.modalTitle}>{editingId ? 'Edit Code' : 'New Code'}</Text>
+            </View>
+
+            <ScrollView contentContainerStyle={styles.modalBody} keyboardShouldPersistTaps="handled">
+              <Text style={styles.label}>Code</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g. FL-01"
+                value={form.code}
+                onChangeText={(text) => setForm({ ...form, code: text })}
+                autoCapitalize="characters"
+                autoCorrect={false}
+              />
+
+              <Text style={styles.label}>Title</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g. Parked in a fire lane"
+                value={form.title}
+                onChangeText={(text) => setForm({ ...form, title: text })}
+              />
+
+              <Text style={styles.label}>Statute (optional)</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g. Mun. Code §10.12.040"
+                value={form.statute}
+                onChangeText={(text) => setForm({ ...form, statute: text })}
+              />
+
+              <Text style={styles.label}>Default fine ($)</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="0.00"
+                value={form.default_amount}
+                onChangeText={(text) => setForm({ ...form, default_amount: text })}
+                keyboardType="decimal-pad"
+              />
+
+              <Text style={styles.label}>Fine by vehicle type</Text>
+              <Text style={styles.hint}>Leave blank to charge the default fine.</Text>
+              {BODY_TYPES.map(bodyType => (
+                <View key={bodyType} style={styles.amountRow}>
+                  <Text style={styles.amountLabel}>{BODY_TYPE_LABELS[bodyType]}</Text>
+                  <TextInput
+                    style={[styles.input, styles.amountInput]}
+                    placeholder={form.default_amount || 'Default'}
+                    value={form.amounts[bodyType]}
+                    onChangeText={(text) => setForm({ ...form, amounts: { ...form.amounts, [bodyType]: text } })}
+                    keyboardType="decimal-pad"
+                  />
+                </View>
+              ))}
+
+              <View style={styles.switchRow}>
+                <View style={styles.switchInfo}>
+                  <Text style={styles.switchLabel}>In use</Text>
+                  <Text style={styles.hint}>Retired codes stay on earlier tows and fines but can't be picked.</Text>
+                </View>
+                <Switch
+                  value={form.is_active}
+                  onValueChange={(value) => setForm({ ...form, is_active: value })}
+                  trackColor={{ false: '#D1D5DB', true: '#A5B4FC' }}
+                  thumbColor={form.is_active ? '#4F46E5' : '#F3F4F6'}
+                />
+              </View>
+
+              <TouchableOpacity
+                style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+                onPress={handleSave}
+                disabled={saving}
+              >
+                {saving ? <ActivityIndicator color="#FFFFFF" /> : <Text style={styles.saveText}>Save Code</Text>}
+              </TouchableOpacity>
+            </ScrollView>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F7F9FC',
+  },
+  listContainer: {
+    padding: 16,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 8,
+    fontSize: 16,
+    color: '#6B7280',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#4F46E5',
+    borderRadius: 8,
+    paddingVertical: 12,
+    marginBottom: 16,
+  },
+  addIcon: {
+    marginRight: 8,
+  },
+  addText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  codeCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  codeCardRetired: {
+    opacity: 0.6,
+  },
+  codeContent: {
+    flex: 1,
+    marginRight: 12,
+  },
+  codeHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  codeText: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#4F46E5',
+  },
+  retiredBadge: {
+    backgroundColor: '#F3F4F6',
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginLeft: 8,
+  },
+  retiredText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  codeTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+    marginTop: 2,
+  },
+  codeMeta: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 4,
+  },
+  codeAmount: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6B7280',
+    textAlign: 'center',
+  },
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalContent: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  closeButton: {
+    padding: 8,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#111827',
+    flex: 1,
+    textAlign: 'center',
+    marginRight: 40, // To center the title with the close button on the left
+  },
+  modalBody: {
+    padding: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: '#111827',
+  },
+  amountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  amountLabel: {
+    width: 100,
+    fontSize: 14,
+    color: '#374151',
+  },
+  amountInput: {
+    flex: 1,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  switchInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  switchLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 2,
+  },
+  saveButton: {
+    backgroundColor: '#4F46E5',
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderRadius: 8,
+    marginTop: 20,
+    marginBottom: 12,
+  },
+  saveButtonDisabled: {
+    backgroundColor: '#A5B4FC',
+  },
+  saveText: {
+    color: 'white',
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,51 @@
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { TowStatus } from '../../api/types';
+import { TOW_STATUS_TRANSITIONS, towStatusesAvailableTo } from '../tows';
+
+const MIGRATIONS_DIR = join(__dirname, '../../../supabase/migrations');
+
+// Reads the transitions from the latest migration that defines
+// tow_status_transition_allowed, one "when 'from' then to_status ..." line
+// per status
+const databaseTransitions = () => {
+  const definitions = readdirSync(MIGRATIONS_DIR)
+    .filter(file => file.endsWith('.sql'))
+    .sort()
+    .map(file => readFileSync(join(MIGRATIONS_DIR, file), 'utf8'))
+    .map(sql => sql.match(/function public\.tow_status_transition_allowed\([\s\S]*?\$\$([\s\S]*?)\$\$/))
+    .filter((match): match is RegExpMatchArray => match !== null);
+
+  const body = definitions[definitions.length - 1][1];
+  const transitions: Record<string, string[]> = {};
+
+  for (const [, from, list, single] of body.matchAll(/when '(\w+)' then to_status (?:in \(([^)]*)\)|= ('\w+'))/g)) {
+    transitions[from] = [...(list ?? single).matchAll(/'(\w+)'/g)].map(([, status]) => status);
+  }
+
+  return transitions;
+};
+
+describe('TOW_STATUS_TRANSITIONS', () => {
+  it('matches tow_status_transition_allowed in the database', () => {
+    const expected = Object.fromEntries(
+      Object.entries(TOW_STATUS_TRANSITIONS).filter(([, targets]) => targets.length > 0)
+    );
+
+    expect(databaseTransitions()).toEqual(expected);
+  });
+});
+
+describe('towStatusesAvailableTo', () => {
+  it('offers the tow company every next status', () => {
+    for (const status of Object.keys(TOW_STATUS_TRANSITIONS) as TowStatus[]) {
+      expect(towStatusesAvailableTo(status, true)).toEqual(TOW_STATUS_TRANSITIONS[status]);
+    }
+  });
+
+  it('only lets the requesting organization withdraw a request', () => {
+    expect(towStatusesAvailableTo('requested', false)).toEqual(['cancelled']);
+    expect(towStatusesAvailableTo('dispatched', false)).toEqual([]);
+    expect(towStatusesAvailableTo('impounded', false)).toEqual([]);
+  });
+});
@@ -0,0 +1,38 @@
+import { isValidVin } from '../vehicles';
+
+describe('isValidVin', () => {
+  it('accepts VINs with a matching check digit', () => {
+    expect(isValidVin('1HGCM82633A004352')).toBe(true);
+    expect(isValidVin('2T1BURHE5JC034461')).toBe(true);
+    expect(isValidVin('11111111111111111')).toBe(true);
+  });
+
+  it('accepts X as the check digit for a remainder of 10', () => {
+    expect(isValidVin('1M8GDM9AXKP042788')).toBe(true);
+  });
+
+  it('rejects VINs whose check digit does not match', () => {
+    expect(isValidVin('1HGCM82643A004352')).toBe(false);
+    expect(isValidVin('1M8GDM9A1KP042788')).toBe(false);
+  });
+
+  it('rejects a changed character elsewhere in the VIN', () => {
+    expect(isValidVin('1HGCM82633A004353')).toBe(false);
+  });
+
+  it('rejects VINs of the wrong length', () => {
+    expect(isValidVin('1HGCM82633A00435')).toBe(false);
+    expect(isValidVin('1HGCM82633A0043521')).toBe(false);
+    expect(isValidVin('')).toBe(false);
+  });
+
+  it('rejects I, O and Q', () => {
+    expect(isValidVin('1HGCM82633I004352')).toBe(false);
+    expect(isValidVin('1HGCM82633O004352')).toBe(false);
+    expect(isValidVin('1HGCM82633Q004352')).toBe(false);
+  });
+
+  it('expects capitals', () => {
+    expect(isValidVin('1hgcm82633a004352')).toBe(false);
+  });
+});
@@ -0,0 +1,55 @@
+import { AuditAction, AuditLogEntry, UserRole } from '../api/types';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  owner: 'Vehicle Owner',
+  staff: 'Tow Staff',
+  officer: 'Officer',
+  admin: 'Admin',
+};
+
+export const getRoleLabel = (role: string | null | undefined) =>
+  (role && ROLE_LABELS[role as UserRole]) || 'Unknown';
+
+export const getAuditIconAndColor = (action: string) => {
+  switch (action as AuditAction) {
+    case 'role_request_approved':
+      return { icon: 'user-check', color: '#10B981' };
+    case 'role_request_rejected':
+      return { icon: 'user-times', color: '#EF4444' };
+    case 'role_changed':
+      return { icon: 'user-tag', color: '#4F46E5' };
+    case 'user_deactivated':
+      return { icon: 'user-slash', color: '#EF4444' };
+    case 'user_reactivated':
+      return { icon: 'user-plus', color: '#10B981' };
+    case 'profile_updated':
+      return { icon: 'user-edit', color: '#F59E0B' };
+    default:
+      return { icon: 'history', color: '#6B7280' };
+  }
+};
+
+// One-line summary of an audit entry. The details shape depends on the action
+// and is written by the admin_* functions in the database.
+export const describeAuditEntry = (entry: AuditLogEntry) => {
+  const details = (entry.details || {}) as Record<string, any>;
+
+  switch (entry.action as AuditAction) {
+    case 'role_request_approved':
+      return details.organization
+        ? `Approved request for ${getRoleLabel(details.requested_role)} access at ${details.organization}`
+        : `Approved request for ${getRoleLabel(details.requested_role)} access`;
+    case 'role_request_rejected':
+      return `Rejected request for ${getRoleLabel(details.requested_role)} access`;
+    case 'role_changed':
+      return `Changed role from ${getRoleLabel(details.from)} to ${getRoleLabel(details.to)}`;
+    case 'user_deactivated':
+      return 'Deactivated the account';
+    case 'user_reactivated':
+      return 'Reactivated the account';
+    case 'profile_updated':
+      return 'Updated profile details';
+    default:
+      return entry.action;
+  }
+};
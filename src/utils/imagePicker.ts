@@ -0,0 +1,38 @@
+import { Alert } from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
+
+export interface PickedImage {
+  uri: string;
+  mimeType: string;
+}
+
+export type ImageSource = 'camera' | 'library';
+
+// Asks for the camera or photo library permission, then lets the user take
+// or choose one photo. subject completes the permission message, e.g. "your
+// registration document". Returns null when cancelled or not permitted.
+export const pickImage = async (source: ImageSource, subject: string): Promise<PickedImage | null> => {
+  const permission = source === 'camera'
+    ? await ImagePicker.requestCameraPermissionsAsync()
+    : await ImagePicker.requestMediaLibraryPermissionsAsync();
+
+  if (!permission.granted) {
+    Alert.alert(
+      'Permission Required',
+      source === 'camera'
+        ? `Allow camera access to photograph ${subject}.`
+        : `Allow photo access to upload ${subject}.`
+    );
+    return null;
+  }
+
+  const options: ImagePicker.ImagePickerOptions = { mediaTypes: ['images'], quality: 0.7 };
+  const result = source === 'camera'
+    ? await ImagePicker.launchCameraAsync(options)
+    : await ImagePicker.launchImageLibraryAsync(options);
+
+  if (result.canceled) return null;
+
+  const asset = result.assets[0];
+  return { uri: asset.uri, mimeType: asset.mimeType || 'image/jpeg' };
+};
@@ -0,0 +1,76 @@
+import { Alert } from 'react-native';
+import * as Location from 'expo-location';
+import { config } from '../api/config';
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface CapturedLocation extends Coordinates {
+  // The reverse-geocoded street address, or null when none was found
+  address: string | null;
+}
+
+// Where positions and addresses come from. The mock provider lets tows be
+// recorded on simulators without a GPS fix, or from a desk.
+export interface LocationProvider {
+  // Null when the user doesn't allow location access
+  getCurrentPosition: () => Promise<Coordinates | null>;
+  reverseGeocode: (coordinates: Coordinates) => Promise<string | null>;
+}
+
+const formatAddress = (address: Location.LocationGeocodedAddress) => {
+  const street = [address.streetNumber, address.street].filter(Boolean).join(' ') || address.name;
+  const region = [address.region, address.postalCode].filter(Boolean).join(' ');
+  return [street, address.city, region].filter(Boolean).join(', ') || null;
+};
+
+export const deviceLocationProvider: LocationProvider = {
+  getCurrentPosition: async () => {
+    const permission = await Location.requestForegroundPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert('Permission Required', 'Allow location access to record where the vehicle was towed from.');
+      return null;
+    }
+
+    const position = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.High });
+    return { latitude: position.coords.latitude, longitude: position.coords.longitude };
+  },
+  reverseGeocode: async (coordinates) => {
+    const [address] = await Location.reverseGeocodeAsync(coordinates);
+    return address ? formatAddress(address) : null;
+  },
+};
+
+// Downtown Oakland, near the demo tows in the seed data
+export const mockLocationProvider: LocationProvider = {
+  getCurrentPosition: async () => ({ latitude: 37.8044, longitude: -122.2712 }),
+  reverseGeocode: async () => '1 Frank H Ogawa Plaza, Oakland, CA 94612',
+};
+
+// Set EXPO_PUBLIC_MOCK_LOCATION=true to use the mock provider
+export const locationProvider = config.mockLocation ? mockLocationProvider : deviceLocationProvider;
+
+// The current position with its address. A failed lookup still returns the
+// position, since the address can be typed in.
+export const captureLocation = async (): Promise<CapturedLocation | null> => {
+  const position = await locationProvider.getCurrentPosition();
+  if (!position) return null;
+
+  try {
+    return { ...position, address: await locationProvider.reverseGeocode(position) };
+  } catch (error: any) {
+    console.error('Error looking up address:', error.message);
+    return { ...position, address: null };
+  }
+};
+
+export const formatCoordinates = ({ latitude, longitude }: Coordinates) =>
+  `${latitude.toFixed(5)}, ${longitude.toFixed(5)}`;
+
+// The coordinates of a tow or lot, when it has them
+export const coordinatesOf = (record: { latitude: number | null; longitude: number | null } | null) =>
+  record && record.latitude !== null && record.longitude !== null
+    ? { latitude: record.latitude, longitude: record.longitude }
+    : null;
@@ -1,38 +1,39 @@
-import { router } from 'expo-router';
+import { ApprovalStatus, Role } from '../api/types';
 
-// Function to navigate to the appropriate dashboard based on user role
-export const navigateToDashboard = (role: string | null) => {
-  console.log('Navigating to dashboard for role:', role);
-  
-  if (!role) {
-    console.log('No role detected, navigating to login');
-    // If no role, navigate to login
-    router.replace({ pathname: "/login" });
-    return;
+// Top-level routes a signed-out user may open. Everything else sends them to
+// the login screen.
+export const PUBLIC_ROUTES = [
+  'index',
+  'login',
+  'signup',
+  'forgot-password',
+  'reset-password',
+  'verify-email',
+  'magic-link',
+];
+
+// Routes that are only a step towards signing in. Once the session and
+// profile are loaded, SessionContext moves the user on to their dashboard.
+export const SIGN_IN_ROUTES = ['index', 'login', 'signup', 'magic-link'];
+
+// Dashboard route for a role. Accounts with a staff or officer request
+// awaiting approval go to the pending screen instead of their current
+// (owner) dashboard. Returns null for a missing role.
+export const getDashboardPath = (role: Role | null, approvalStatus?: ApprovalStatus | null) => {
+  if (!role) return null;
+
+  if (approvalStatus === 'pending') {
+    return '/pending-approval' as const;
   }
-  
-  try {
-    switch (role.toLowerCase()) {
-      case 'owner':
-        console.log('Navigating to owner dashboard');
-        router.replace({ pathname: "/owner" });
-        break;
-      case 'staff':
-        console.log('Navigating to staff dashboard');
-        router.replace({ pathname: "/staff" });
-        break;
-      case 'officer':
-        console.log('Navigating to officer dashboard');
-        router.replace({ pathname: "/officer" });
-        break;
-      default:
-        console.log('Unknown role, navigating to login');
-        // If unknown role, navigate to login
-        router.replace({ pathname: "/login" });
-    }
-  } catch (error) {
-    console.error('Error during navigation:', error);
-    // Fallback to login on error
-    router.replace({ pathname: "/login" });
+
+  switch (role) {
+    case Role.Owner:
+      return '/owner' as const;
+    case Role.Staff:
+      return '/staff' as const;
+    case Role.Officer:
+      return '/officer' as const;
+    case Role.Admin:
+      return '/admin' as const;
   }
-}; 
\ No newline at end of file
+};
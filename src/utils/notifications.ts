@@ -0,0 +1,61 @@
+import { Role, UserNotification } from '../api/types';
+
+export type NotificationCategory = 'tow' | 'fine' | 'complaint' | 'vehicle' | 'other';
+
+// Notification types are written by several screens ('tow', 'tow_update',
+// 'tow_accepted', 'complaint_update', ...), so group them by their prefix
+export const getNotificationCategory = (type: string): NotificationCategory => {
+  if (type.startsWith('tow')) return 'tow';
+  if (type.startsWith('fine')) return 'fine';
+  if (type.startsWith('complaint')) return 'complaint';
+  if (type.startsWith('vehicle')) return 'vehicle';
+  return 'other';
+};
+
+export const getCategoryIconAndColor = (category: NotificationCategory) => {
+  switch (category) {
+    case 'tow':
+      return { icon: 'truck-pickup', color: '#4F46E5' };
+    case 'fine':
+      return { icon: 'money-bill-wave', color: '#EF4444' };
+    case 'complaint':
+      return { icon: 'comment-alt', color: '#F59E0B' };
+    case 'vehicle':
+      return { icon: 'car', color: '#10B981' };
+    default:
+      return { icon: 'bell', color: '#6B7280' };
+  }
+};
+
+// Resolve the screen that shows the record a notification points at
+export const getNotificationRoute = (notification: UserNotification, role: Role | null) => {
+  if (!notification.related_id) return null;
+
+  const isStaffSide = role === Role.Staff || role === Role.Officer;
+
+  switch (getNotificationCategory(notification.type)) {
+    case 'tow':
+      return {
+        pathname: isStaffSide ? '/staff/tow-details' : '/tow-details',
+        params: { id: notification.related_id },
+      } as const;
+    case 'fine':
+      // Fine details are only available to the vehicle owner
+      return isStaffSide
+        ? null
+        : ({ pathname: '/fine-details', params: { id: notification.related_id } } as const);
+    case 'complaint':
+      return { pathname: isStaffSide ? '/staff/complaints' : '/my-complaints' } as const;
+    case 'vehicle':
+      if (notification.type.startsWith('vehicle_transfer')) {
+        return { pathname: '/vehicle-transfers' } as const;
+      }
+      // Claim decisions; related_id is the vehicle, which only an approved
+      // claimant can open
+      return notification.type === 'vehicle_claim_approved'
+        ? ({ pathname: '/vehicle-details', params: { id: notification.related_id } } as const)
+        : ({ pathname: '/claim-vehicle' } as const);
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,102 @@
+import { TowStatus } from '../api/types';
+
+export const TOW_STATUS_LABELS: Record<TowStatus, string> = {
+  requested: 'Requested',
+  dispatched: 'Dispatched',
+  en_route: 'En Route',
+  hooked: 'Hooked',
+  in_transit: 'In Transit',
+  impounded: 'Impounded',
+  released: 'Released',
+  auctioned: 'Auctioned',
+  cancelled: 'Cancelled',
+};
+
+export const TOW_STATUS_COLORS: Record<TowStatus, string> = {
+  requested: '#F59E0B',
+  dispatched: '#3B82F6',
+  en_route: '#3B82F6',
+  hooked: '#4F46E5',
+  in_transit: '#4F46E5',
+  impounded: '#EF4444',
+  released: '#10B981',
+  auctioned: '#6B7280',
+  cancelled: '#6B7280',
+};
+
+export const TOW_STATUS_ICONS: Record<TowStatus, string> = {
+  requested: 'clipboard-list',
+  dispatched: 'headset',
+  en_route: 'route',
+  hooked: 'link',
+  in_transit: 'truck-pickup',
+  impounded: 'warehouse',
+  released: 'check-circle',
+  auctioned: 'gavel',
+  cancelled: 'times-circle',
+};
+
+// Wording for the button that moves a tow to each status
+export const TOW_STATUS_ACTIONS: Record<TowStatus, string> = {
+  requested: 'Request Tow',
+  dispatched: 'Dispatch Driver',
+  en_route: 'Driver En Route',
+  hooked: 'Vehicle Hooked',
+  in_transit: 'Start Transport',
+  impounded: 'Arrived at Lot',
+  released: 'Release Vehicle',
+  auctioned: 'Send to Auction',
+  cancelled: 'Cancel Tow',
+};
+
+// The main path of a tow, without cancellation and auction
+export const TOW_LIFECYCLE: TowStatus[] = [
+  'requested',
+  'dispatched',
+  'en_route',
+  'hooked',
+  'in_transit',
+  'impounded',
+  'released',
+];
+
+// Matches tow_status_transition_allowed in the database, which has the final
+// say. Released, auctioned and cancelled tows are closed.
+export const TOW_STATUS_TRANSITIONS: Record<TowStatus, TowStatus[]> = {
+  requested: ['dispatched', 'cancelled'],
+  dispatched: ['en_route', 'cancelled'],
+  en_route: ['hooked', 'cancelled'],
+  hooked: ['in_transit'],
+  in_transit: ['impounded'],
+  impounded: ['released', 'auctioned'],
+  released: [],
+  auctioned: [],
+  cancelled: [],
+};
+
+// A driver is on the job: dispatched but not yet at the lot
+export const ACTIVE_TOW_STATUSES: TowStatus[] = ['dispatched', 'en_route', 'hooked', 'in_transit'];
+
+// The vehicle reached the lot, whatever happened to it afterwards
+export const COMPLETED_TOW_STATUSES: TowStatus[] = ['impounded', 'released', 'auctioned'];
+
+export const canChangeTowStatus = (from: TowStatus, to: TowStatus) =>
+  TOW_STATUS_TRANSITIONS[from].includes(to);
+
+export const isTowClosed = (status: TowStatus) => TOW_STATUS_TRANSITIONS[status].length === 0;
+
+// Only the tow company moves a tow along, as check_tow_status enforces. The
+// organization that requested the tow can only withdraw the request before a
+// driver is dispatched.
+export const towStatusesAvailableTo = (status: TowStatus, isTowCompany: boolean) =>
+  isTowCompany
+    ? TOW_STATUS_TRANSITIONS[status]
+    : TOW_STATUS_TRANSITIONS[status].filter(next => status === 'requested' && next === 'cancelled');
+
+// IDs accepted when a vehicle is released
+export const RELEASE_ID_TYPES = ["Driver's license", 'Passport', 'State ID'];
+
+// Matches normalize_person_name in the database, which release_tow uses to
+// compare the name on the ID with the owner and registered name
+export const normalizePersonName = (name: string | null | undefined) =>
+  (name || '').trim().replace(/\s+/g, ' ').toLowerCase();
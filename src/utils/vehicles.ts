@@ -0,0 +1,47 @@
+import { VehicleBodyType } from '../api/types';
+
+export const BODY_TYPE_LABELS: Record<VehicleBodyType, string> = {
+  car: 'Car',
+  motorcycle: 'Motorcycle',
+  truck: 'Truck',
+  trailer: 'Trailer',
+};
+
+export const BODY_TYPE_ICONS: Record<VehicleBodyType, string> = {
+  car: 'car',
+  motorcycle: 'motorcycle',
+  truck: 'truck',
+  trailer: 'trailer',
+};
+
+export const BODY_TYPES = Object.keys(BODY_TYPE_LABELS) as VehicleBodyType[];
+
+// VINs never use I, O or Q, so they can't be mistaken for 1 and 0
+const VIN_PATTERN = /^[A-HJ-NPR-Z0-9]{17}$/;
+
+const VIN_TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9,
+};
+
+const VIN_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+// Checks the format and the check digit in position 9 (ISO 3779 / 49 CFR
+// 565). Expects a VIN already in capitals.
+export const isValidVin = (vin: string) => {
+  if (!VIN_PATTERN.test(vin)) return false;
+
+  const sum = vin.split('').reduce((total, char, index) => {
+    const value = /\d/.test(char) ? Number(char) : VIN_TRANSLITERATION[char];
+    return total + value * VIN_WEIGHTS[index];
+  }, 0);
+
+  const remainder = sum % 11;
+  return vin[8] === (remainder === 10 ? 'X' : String(remainder));
+};
+
+// Oldest model year accepted, and one year ahead for next year's models
+export const MIN_VEHICLE_YEAR = 1886;
+
+export const getMaxVehicleYear = () => new Date().getFullYear() + 1;
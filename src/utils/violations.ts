@@ -0,0 +1,12 @@
+import { VehicleBodyType, ViolationCode, ViolationCodeWithAmounts } from '../api/types';
+
+// Matches violation_fine_amount in the database, which refuses other amounts
+// unless they come with a justification
+export const scheduledFineAmount = (code: ViolationCodeWithAmounts, bodyType: VehicleBodyType) =>
+  Number(code.amounts.find(amount => amount.body_type === bodyType)?.amount ?? code.default_amount);
+
+export const formatViolationCode = (code: Pick<ViolationCode, 'code' | 'title'>) => `${code.code} • ${code.title}`;
+
+// Admins type codes in any case; the database only takes capitals, digits
+// and dashes
+export const normalizeViolationCode = (code: string) => code.trim().toUpperCase().replace(/\s+/g, '-');
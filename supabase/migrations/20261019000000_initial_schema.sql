@@ -0,0 +1,125 @@
+-- Initial Towify schema: enums, tables, foreign keys and indexes.
+-- Keep src/api/database.types.ts in sync when changing this file.
+
+-- Enums
+
+create type public.user_role as enum ('owner', 'staff', 'officer');
+
+create type public.tow_status as enum ('pending', 'active', 'released', 'completed', 'cancelled');
+
+create type public.tow_request_status as enum ('new', 'accepted', 'rejected', 'completed');
+
+create type public.fine_status as enum ('unpaid', 'paid', 'overdue');
+
+create type public.complaint_type as enum ('general', 'vehicle', 'fine', 'tow');
+
+create type public.complaint_status as enum ('pending', 'in_review', 'in-progress', 'resolved', 'rejected');
+
+-- Profiles extend auth.users with the app role and contact details
+
+create table public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  full_name text,
+  role public.user_role not null default 'owner',
+  email text not null,
+  phone text,
+  created_at timestamptz not null default now()
+);
+
+-- Vehicles. Tows recorded for unregistered plates create vehicles without an owner.
+
+create table public.vehicles (
+  id uuid primary key default gen_random_uuid(),
+  license_plate text not null unique,
+  make text,
+  model text not null,
+  color text not null,
+  owner_id uuid references public.profiles (id) on delete set null,
+  registered_name text,
+  created_at timestamptz not null default now()
+);
+
+create index vehicles_owner_id_idx on public.vehicles (owner_id);
+
+-- Tows. license_plate is stored on the tow so plates can be searched even
+-- when no vehicle record exists.
+
+create table public.tows (
+  id uuid primary key default gen_random_uuid(),
+  vehicle_id uuid references public.vehicles (id) on delete set null,
+  license_plate text not null,
+  location text not null,
+  tow_date timestamptz not null default now(),
+  reason text,
+  status public.tow_status not null default 'pending',
+  request_status public.tow_request_status,
+  notes text,
+  created_at timestamptz not null default now(),
+  created_by uuid references public.profiles (id) on delete set null,
+  assigned_to uuid references public.profiles (id) on delete set null
+);
+
+create index tows_license_plate_idx on public.tows (license_plate);
+create index tows_vehicle_id_idx on public.tows (vehicle_id);
+create index tows_request_status_idx on public.tows (request_status);
+
+-- Fines, optionally linked to the tow they were issued with
+
+create table public.fines (
+  id uuid primary key default gen_random_uuid(),
+  vehicle_id uuid not null references public.vehicles (id) on delete cascade,
+  tow_id uuid references public.tows (id) on delete set null,
+  amount numeric(10, 2) not null check (amount > 0),
+  description text not null,
+  issue_date timestamptz not null default now(),
+  due_date timestamptz,
+  status public.fine_status not null default 'unpaid',
+  payment_date timestamptz,
+  transaction_id text,
+  created_by uuid references public.profiles (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index fines_vehicle_id_idx on public.fines (vehicle_id);
+create index fines_created_by_idx on public.fines (created_by);
+
+-- Complaints raised by owners about a tow, fine, vehicle or in general
+
+create table public.complaints (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  vehicle_id uuid references public.vehicles (id) on delete set null,
+  tow_id uuid references public.tows (id) on delete set null,
+  fine_id uuid references public.fines (id) on delete set null,
+  subject text not null,
+  description text not null,
+  type public.complaint_type not null default 'general',
+  status public.complaint_status not null default 'pending',
+  response text,
+  resolved_at timestamptz,
+  resolved_by uuid references public.profiles (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index complaints_user_id_idx on public.complaints (user_id);
+create index complaints_status_idx on public.complaints (status);
+
+-- In-app notifications. related_id points at the tow, fine or complaint
+-- the notification is about, depending on its type.
+
+create table public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  type text not null,
+  title text not null,
+  message text not null,
+  related_id uuid,
+  is_read boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index notifications_user_id_is_read_idx on public.notifications (user_id, is_read);
+
+-- NotificationContext listens for inserts and updates over Realtime
+
+alter publication supabase_realtime add table public.notifications;
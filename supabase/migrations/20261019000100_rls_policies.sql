@@ -0,0 +1,173 @@
+-- Row-level security for every Towify table.
+--
+-- Owners see their own profile, vehicles, and the tows, fines and complaints
+-- tied to them. Staff and officers can read and work on all records.
+
+-- Role lookup used by the policies below. security definer so it can read
+-- profiles without recursing into the profiles policies.
+create or replace function public.current_user_role()
+returns public.user_role
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.profiles where id = auth.uid();
+$$;
+
+create or replace function public.is_staff_or_officer()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(public.current_user_role() in ('staff', 'officer'), false);
+$$;
+
+create or replace function public.owns_vehicle(target_vehicle_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.vehicles
+    where id = target_vehicle_id and owner_id = auth.uid()
+  );
+$$;
+
+alter table public.profiles enable row level security;
+alter table public.vehicles enable row level security;
+alter table public.tows enable row level security;
+alter table public.fines enable row level security;
+alter table public.complaints enable row level security;
+alter table public.notifications enable row level security;
+
+-- Profiles
+
+create policy "Users can read their own profile"
+  on public.profiles for select to authenticated
+  using (id = auth.uid());
+
+create policy "Staff and officers can read all profiles"
+  on public.profiles for select to authenticated
+  using (public.is_staff_or_officer());
+
+create policy "Users can create their own profile"
+  on public.profiles for insert to authenticated
+  with check (id = auth.uid());
+
+create policy "Users can update their own profile"
+  on public.profiles for update to authenticated
+  using (id = auth.uid())
+  with check (id = auth.uid());
+
+-- Vehicles
+
+create policy "Owners can read their vehicles"
+  on public.vehicles for select to authenticated
+  using (owner_id = auth.uid());
+
+create policy "Staff and officers can read all vehicles"
+  on public.vehicles for select to authenticated
+  using (public.is_staff_or_officer());
+
+create policy "Owners can register their vehicles"
+  on public.vehicles for insert to authenticated
+  with check (owner_id = auth.uid());
+
+-- Recording a tow for an unknown plate creates an unowned vehicle
+create policy "Staff and officers can create vehicles"
+  on public.vehicles for insert to authenticated
+  with check (public.is_staff_or_officer());
+
+create policy "Owners can update their vehicles"
+  on public.vehicles for update to authenticated
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
+
+create policy "Staff and officers can update vehicles"
+  on public.vehicles for update to authenticated
+  using (public.is_staff_or_officer());
+
+create policy "Owners can delete their vehicles"
+  on public.vehicles for delete to authenticated
+  using (owner_id = auth.uid());
+
+-- Tows
+
+create policy "Owners can read tows of their vehicles"
+  on public.tows for select to authenticated
+  using (public.owns_vehicle(vehicle_id));
+
+create policy "Staff and officers can read all tows"
+  on public.tows for select to authenticated
+  using (public.is_staff_or_officer());
+
+create policy "Staff and officers can record tows"
+  on public.tows for insert to authenticated
+  with check (public.is_staff_or_officer());
+
+create policy "Staff and officers can update tows"
+  on public.tows for update to authenticated
+  using (public.is_staff_or_officer());
+
+-- Fines
+
+create policy "Owners can read fines of their vehicles"
+  on public.fines for select to authenticated
+  using (public.owns_vehicle(vehicle_id));
+
+create policy "Staff and officers can read all fines"
+  on public.fines for select to authenticated
+  using (public.is_staff_or_officer());
+
+create policy "Staff and officers can issue fines"
+  on public.fines for insert to authenticated
+  with check (public.is_staff_or_officer() and created_by = auth.uid());
+
+-- The mock payment flow marks a fine as paid from the owner's device
+create policy "Owners can pay fines of their vehicles"
+  on public.fines for update to authenticated
+  using (public.owns_vehicle(vehicle_id))
+  with check (public.owns_vehicle(vehicle_id) and status = 'paid');
+
+create policy "Staff and officers can update fines"
+  on public.fines for update to authenticated
+  using (public.is_staff_or_officer());
+
+-- Complaints
+
+create policy "Users can read their own complaints"
+  on public.complaints for select to authenticated
+  using (user_id = auth.uid());
+
+create policy "Staff and officers can read all complaints"
+  on public.complaints for select to authenticated
+  using (public.is_staff_or_officer());
+
+create policy "Users can submit complaints"
+  on public.complaints for insert to authenticated
+  with check (user_id = auth.uid() and status = 'pending');
+
+create policy "Staff and officers can review complaints"
+  on public.complaints for update to authenticated
+  using (public.is_staff_or_officer());
+
+-- Notifications
+
+create policy "Users can read their own notifications"
+  on public.notifications for select to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users can mark their own notifications as read"
+  on public.notifications for update to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Staff and officers notify owners about tows, fines and complaint updates
+create policy "Staff and officers can send notifications"
+  on public.notifications for insert to authenticated
+  with check (public.is_staff_or_officer());
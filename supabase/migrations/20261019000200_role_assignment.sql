@@ -0,0 +1,108 @@
+-- Server-enforced role assignment.
+--
+-- Profiles are now created by a trigger on auth.users and always start as
+-- owners. Staff and officer roles come from an invitation code issued for an
+-- organization, or from a request that stays pending until it is approved.
+
+create type public.approval_status as enum ('approved', 'pending', 'rejected');
+
+alter table public.profiles
+  add column organization text,
+  add column requested_role public.user_role,
+  add column approval_status public.approval_status not null default 'approved';
+
+-- Invitation codes for staff and officer accounts
+
+create table public.invitations (
+  code text primary key check (code = upper(code)),
+  role public.user_role not null check (role in ('staff', 'officer')),
+  organization text not null,
+  created_by uuid references public.profiles (id) on delete set null,
+  expires_at timestamptz,
+  used_by uuid references public.profiles (id) on delete set null,
+  used_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+-- No policies: invitations are only read and redeemed by the functions below
+alter table public.invitations enable row level security;
+
+-- Clients can no longer write roles. Profiles are inserted by the trigger and
+-- users may only edit their own contact details.
+drop policy "Users can create their own profile" on public.profiles;
+
+revoke insert, update on public.profiles from anon, authenticated;
+grant update (full_name, phone) on public.profiles to authenticated;
+
+-- Lets the signup screen validate a code before creating the account
+create or replace function public.check_invite_code(invite_code text)
+returns table (role public.user_role, organization text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select invitations.role, invitations.organization
+  from public.invitations
+  where invitations.code = upper(trim(invite_code))
+    and invitations.used_by is null
+    and (invitations.expires_at is null or invitations.expires_at > now());
+$$;
+
+revoke execute on function public.check_invite_code(text) from public;
+grant execute on function public.check_invite_code(text) to anon, authenticated;
+
+-- Creates the profile for every new auth user. The role is never taken from
+-- the client: only a valid invitation grants staff or officer access, and a
+-- requested role without one is recorded as pending.
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invite public.invitations;
+  requested public.user_role;
+begin
+  select * into invite
+  from public.invitations
+  where code = upper(trim(coalesce(new.raw_user_meta_data ->> 'invite_code', '')))
+    and used_by is null
+    and (expires_at is null or expires_at > now())
+  for update;
+
+  if found then
+    insert into public.profiles (id, full_name, email, role, organization)
+    values (new.id, new.raw_user_meta_data ->> 'full_name', new.email, invite.role, invite.organization);
+
+    update public.invitations
+    set used_by = new.id, used_at = now()
+    where code = invite.code;
+
+    return new;
+  end if;
+
+  requested := case new.raw_user_meta_data ->> 'requested_role'
+    when 'staff' then 'staff'::public.user_role
+    when 'officer' then 'officer'::public.user_role
+    else null
+  end;
+
+  insert into public.profiles (id, full_name, email, role, requested_role, approval_status)
+  values (
+    new.id,
+    new.raw_user_meta_data ->> 'full_name',
+    new.email,
+    'owner',
+    requested,
+    case when requested is null then 'approved' else 'pending' end::public.approval_status
+  );
+
+  return new;
+end;
+$$;
+
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_user();
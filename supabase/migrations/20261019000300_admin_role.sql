@@ -0,0 +1,5 @@
+-- Administrators manage accounts from the in-app console. The enum value is
+-- added in its own migration because Postgres can't use a new enum value in
+-- the transaction that created it.
+
+alter type public.user_role add value 'admin';
@@ -0,0 +1,221 @@
+-- User management for administrators.
+--
+-- Admins can read every profile and change accounts only through the
+-- functions below, each of which records the change in audit_log together
+-- with the admin who made it.
+
+alter table public.profiles
+  add column is_active boolean not null default true,
+  add column deactivated_at timestamptz;
+
+create table public.audit_log (
+  id uuid primary key default gen_random_uuid(),
+  actor_id uuid references public.profiles (id) on delete set null,
+  target_id uuid references public.profiles (id) on delete set null,
+  action text not null,
+  details jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index audit_log_target_id_idx on public.audit_log (target_id, created_at desc);
+create index audit_log_created_at_idx on public.audit_log (created_at desc);
+
+-- Deactivated users lose their role straight away, even if they still hold
+-- a valid access token
+create or replace function public.current_user_role()
+returns public.user_role
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.profiles where id = auth.uid() and is_active;
+$$;
+
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(public.current_user_role() = 'admin', false);
+$$;
+
+alter table public.audit_log enable row level security;
+
+create policy "Admins can read all profiles"
+  on public.profiles for select to authenticated
+  using (public.is_admin());
+
+create policy "Admins can read the audit log"
+  on public.audit_log for select to authenticated
+  using (public.is_admin());
+
+-- Shared checks for the admin functions. Admins can't change their own role
+-- or deactivate themselves, so the last admin can't lock everyone out.
+create or replace function public.assert_can_manage(target_id uuid)
+returns public.profiles
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.profiles;
+begin
+  if not public.is_admin() then
+    raise exception 'Only administrators can manage users' using errcode = '42501';
+  end if;
+
+  select * into target from public.profiles where id = target_id for update;
+
+  if not found then
+    raise exception 'User not found' using errcode = 'P0002';
+  end if;
+
+  return target;
+end;
+$$;
+
+create or replace function public.admin_review_role_request(target_id uuid, approve boolean)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.profiles := public.assert_can_manage(target_id);
+begin
+  if target.approval_status <> 'pending' or target.requested_role is null then
+    raise exception 'This user has no pending role request';
+  end if;
+
+  update public.profiles
+  set role = case when approve then target.requested_role else role end,
+      approval_status = case when approve then 'approved' else 'rejected' end::public.approval_status
+  where id = target_id;
+
+  insert into public.audit_log (actor_id, target_id, action, details)
+  values (
+    auth.uid(),
+    target_id,
+    case when approve then 'role_request_approved' else 'role_request_rejected' end,
+    jsonb_build_object('requested_role', target.requested_role, 'previous_role', target.role)
+  );
+end;
+$$;
+
+create or replace function public.admin_set_role(target_id uuid, new_role public.user_role)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.profiles := public.assert_can_manage(target_id);
+begin
+  if target_id = auth.uid() then
+    raise exception 'You can''t change your own role';
+  end if;
+
+  -- Setting a role directly also settles any open request
+  update public.profiles
+  set role = new_role,
+      approval_status = 'approved'
+  where id = target_id;
+
+  insert into public.audit_log (actor_id, target_id, action, details)
+  values (
+    auth.uid(),
+    target_id,
+    'role_changed',
+    jsonb_build_object('from', target.role, 'to', new_role)
+  );
+end;
+$$;
+
+create or replace function public.admin_set_active(target_id uuid, active boolean)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.profiles := public.assert_can_manage(target_id);
+begin
+  if target_id = auth.uid() then
+    raise exception 'You can''t deactivate your own account';
+  end if;
+
+  update public.profiles
+  set is_active = active,
+      deactivated_at = case when active then null else now() end
+  where id = target_id;
+
+  -- Block sign-in and revoke refresh tokens so existing sessions end too
+  update auth.users
+  set banned_until = case when active then null else 'infinity'::timestamptz end
+  where id = target_id;
+
+  if not active then
+    delete from auth.sessions where user_id = target_id;
+  end if;
+
+  insert into public.audit_log (actor_id, target_id, action, details)
+  values (
+    auth.uid(),
+    target_id,
+    case when active then 'user_reactivated' else 'user_deactivated' end,
+    '{}'::jsonb
+  );
+end;
+$$;
+
+create or replace function public.admin_update_profile(
+  target_id uuid,
+  new_full_name text,
+  new_phone text,
+  new_organization text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.profiles := public.assert_can_manage(target_id);
+begin
+  update public.profiles
+  set full_name = nullif(trim(new_full_name), ''),
+      phone = nullif(trim(new_phone), ''),
+      organization = nullif(trim(new_organization), '')
+  where id = target_id;
+
+  insert into public.audit_log (actor_id, target_id, action, details)
+  values (
+    auth.uid(),
+    target_id,
+    'profile_updated',
+    jsonb_build_object(
+      'from', jsonb_build_object('full_name', target.full_name, 'phone', target.phone, 'organization', target.organization),
+      'to', jsonb_build_object(
+        'full_name', nullif(trim(new_full_name), ''),
+        'phone', nullif(trim(new_phone), ''),
+        'organization', nullif(trim(new_organization), '')
+      )
+    )
+  );
+end;
+$$;
+
+-- Supabase grants execute on new functions to anon and authenticated by default
+revoke execute on function public.assert_can_manage(uuid) from public, anon, authenticated;
+revoke execute on function public.admin_review_role_request(uuid, boolean) from public, anon;
+revoke execute on function public.admin_set_role(uuid, public.user_role) from public, anon;
+revoke execute on function public.admin_set_active(uuid, boolean) from public, anon;
+revoke execute on function public.admin_update_profile(uuid, text, text, text) from public, anon;
+
+grant execute on function public.admin_review_role_request(uuid, boolean) to authenticated;
+grant execute on function public.admin_set_role(uuid, public.user_role) to authenticated;
+grant execute on function public.admin_set_active(uuid, boolean) to authenticated;
+grant execute on function public.admin_update_profile(uuid, text, text, text) to authenticated;
@@ -0,0 +1,62 @@
+-- Self-service profile settings.
+--
+-- Users can choose which kinds of notifications they receive, and a changed
+-- sign-in email is copied to their profile once it has been confirmed.
+
+alter table public.profiles
+  add column notify_tows boolean not null default true,
+  add column notify_fines boolean not null default true,
+  add column notify_complaints boolean not null default true;
+
+grant update (notify_tows, notify_fines, notify_complaints) on public.profiles to authenticated;
+
+-- Notifications are inserted by the screens of whoever triggered them, so the
+-- recipient's preferences are applied here. Types are grouped by prefix the
+-- same way as in src/utils/notifications.ts.
+create or replace function public.skip_muted_notification()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  recipient public.profiles;
+begin
+  select * into recipient from public.profiles where id = new.user_id;
+
+  if not found then
+    return new;
+  end if;
+
+  if (new.type like 'tow%' and not recipient.notify_tows)
+    or (new.type like 'fine%' and not recipient.notify_fines)
+    or (new.type like 'complaint%' and not recipient.notify_complaints) then
+    return null;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger notifications_skip_muted
+  before insert on public.notifications
+  for each row execute function public.skip_muted_notification();
+
+-- auth.users.email only changes after the new address has been confirmed
+create or replace function public.handle_user_email_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.profiles set email = new.email where id = new.id;
+  return new;
+end;
+$$;
+
+create trigger on_auth_user_email_changed
+  after update of email on auth.users
+  for each row
+  when (old.email is distinct from new.email)
+  execute function public.handle_user_email_change();
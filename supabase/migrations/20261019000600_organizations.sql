@@ -0,0 +1,376 @@
+-- Organizations: the tow companies staff work for and the police departments
+-- officers belong to.
+--
+-- Tows, fines and complaints are stamped with the organizations involved in
+-- them, and staff and officers only see and work on records of their own
+-- organization. Organizations are created from the Supabase dashboard, like
+-- invitations.
+
+create type public.organization_type as enum ('tow_company', 'police_department');
+
+create table public.organizations (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  type public.organization_type not null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.organizations enable row level security;
+
+-- Names are shown on tow records, the profile screen and the admin console
+create policy "Signed-in users can read organizations"
+  on public.organizations for select to authenticated
+  using (true);
+
+-- Existing free-text organizations become records. Staff accounts and staff
+-- invitations name tow companies; officer ones name police departments.
+
+insert into public.organizations (name, type)
+select distinct on (name) name, type
+from (
+  select trim(organization) as name, role
+  from public.profiles
+  where role in ('staff', 'officer')
+  union all
+  select trim(organization), role
+  from public.invitations
+) as named
+cross join lateral (
+  select case when named.role = 'staff' then 'tow_company' else 'police_department' end::public.organization_type as type
+) as mapped
+where named.name <> ''
+order by name, type
+on conflict (name) do nothing;
+
+alter table public.profiles
+  add column organization_id uuid references public.organizations (id) on delete set null;
+
+update public.profiles
+set organization_id = organizations.id
+from public.organizations
+where organizations.name = trim(profiles.organization);
+
+alter table public.profiles drop column organization;
+
+create index profiles_organization_id_idx on public.profiles (organization_id);
+
+alter table public.invitations
+  add column organization_id uuid references public.organizations (id) on delete cascade;
+
+update public.invitations
+set organization_id = organizations.id
+from public.organizations
+where organizations.name = trim(invitations.organization);
+
+alter table public.invitations
+  alter column organization_id set not null,
+  drop column organization;
+
+-- Tows belong to the organization that recorded them and to the tow company
+-- doing the tow. Fines belong to the issuing organization. Complaints about a
+-- tow or fine go to the organization responsible for it; general complaints
+-- have none and stay visible to all staff and officers.
+
+alter table public.tows
+  add column organization_id uuid references public.organizations (id) on delete set null,
+  add column tow_company_id uuid references public.organizations (id) on delete set null;
+
+alter table public.fines
+  add column organization_id uuid references public.organizations (id) on delete set null;
+
+alter table public.complaints
+  add column organization_id uuid references public.organizations (id) on delete set null;
+
+create index tows_organization_id_idx on public.tows (organization_id);
+create index tows_tow_company_id_idx on public.tows (tow_company_id);
+create index fines_organization_id_idx on public.fines (organization_id);
+create index complaints_organization_id_idx on public.complaints (organization_id);
+
+update public.tows
+set organization_id = creator.organization_id,
+    tow_company_id = coalesce(
+      (select organization_id from public.profiles where id = tows.assigned_to),
+      (select organizations.id from public.organizations
+        where organizations.id = creator.organization_id and organizations.type = 'tow_company')
+    )
+from public.profiles as creator
+where creator.id = tows.created_by;
+
+update public.fines
+set organization_id = issuer.organization_id
+from public.profiles as issuer
+where issuer.id = fines.created_by;
+
+update public.complaints
+set organization_id = coalesce(
+  (select coalesce(tow_company_id, organization_id) from public.tows where id = complaints.tow_id),
+  (select organization_id from public.fines where id = complaints.fine_id)
+);
+
+-- Organization lookup used by the policies below. Deactivated users have none.
+create or replace function public.current_user_organization()
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select organization_id from public.profiles where id = auth.uid() and is_active;
+$$;
+
+create or replace function public.in_my_organization(target_organization_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.is_staff_or_officer()
+    and target_organization_id is not null
+    and target_organization_id = public.current_user_organization();
+$$;
+
+-- The organization columns are set here rather than by the client, and never
+-- change afterwards. The seed runs without a user and sets them itself.
+
+create or replace function public.set_tow_organizations()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  own public.organizations;
+begin
+  if tg_op = 'UPDATE' then
+    new.organization_id := old.organization_id;
+    new.tow_company_id := old.tow_company_id;
+    return new;
+  end if;
+
+  if auth.uid() is null then
+    return new;
+  end if;
+
+  select * into own from public.organizations where id = public.current_user_organization();
+  new.organization_id := own.id;
+
+  -- Tow staff record tows for their own company; officers pick the company
+  if own.type = 'tow_company' then
+    new.tow_company_id := own.id;
+  elsif new.tow_company_id is not null and not exists (
+    select 1 from public.organizations where id = new.tow_company_id and type = 'tow_company'
+  ) then
+    raise exception 'Tows can only be assigned to a tow company';
+  end if;
+
+  return new;
+end;
+$$;
+
+create or replace function public.set_fine_organization()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' then
+    new.organization_id := old.organization_id;
+  elsif auth.uid() is not null then
+    new.organization_id := public.current_user_organization();
+  end if;
+
+  return new;
+end;
+$$;
+
+create or replace function public.set_complaint_organization()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' then
+    new.organization_id := old.organization_id;
+    return new;
+  end if;
+
+  new.organization_id := coalesce(
+    (select coalesce(tow_company_id, organization_id) from public.tows where id = new.tow_id),
+    (select organization_id from public.fines where id = new.fine_id)
+  );
+
+  return new;
+end;
+$$;
+
+create trigger tows_set_organizations
+  before insert or update on public.tows
+  for each row execute function public.set_tow_organizations();
+
+create trigger fines_set_organization
+  before insert or update on public.fines
+  for each row execute function public.set_fine_organization();
+
+create trigger complaints_set_organization
+  before insert or update on public.complaints
+  for each row execute function public.set_complaint_organization();
+
+revoke execute on function public.set_tow_organizations() from public, anon, authenticated;
+revoke execute on function public.set_fine_organization() from public, anon, authenticated;
+revoke execute on function public.set_complaint_organization() from public, anon, authenticated;
+
+-- Staff and officers now only see their own organization's records
+
+drop policy "Staff and officers can read all tows" on public.tows;
+drop policy "Staff and officers can update tows" on public.tows;
+drop policy "Staff and officers can read all fines" on public.fines;
+drop policy "Staff and officers can update fines" on public.fines;
+drop policy "Staff and officers can read all complaints" on public.complaints;
+drop policy "Staff and officers can review complaints" on public.complaints;
+
+create policy "Staff and officers can read their organization's tows"
+  on public.tows for select to authenticated
+  using (public.in_my_organization(organization_id) or public.in_my_organization(tow_company_id));
+
+create policy "Staff and officers can update their organization's tows"
+  on public.tows for update to authenticated
+  using (public.in_my_organization(organization_id) or public.in_my_organization(tow_company_id));
+
+create policy "Staff and officers can read their organization's fines"
+  on public.fines for select to authenticated
+  using (public.in_my_organization(organization_id));
+
+create policy "Staff and officers can update their organization's fines"
+  on public.fines for update to authenticated
+  using (public.in_my_organization(organization_id));
+
+create policy "Staff and officers can read their organization's complaints"
+  on public.complaints for select to authenticated
+  using (
+    public.in_my_organization(organization_id)
+    or (organization_id is null and public.is_staff_or_officer())
+  );
+
+create policy "Staff and officers can review their organization's complaints"
+  on public.complaints for update to authenticated
+  using (
+    public.in_my_organization(organization_id)
+    or (organization_id is null and public.is_staff_or_officer())
+  );
+
+-- Invitations and new profiles reference the organization record
+
+create or replace function public.check_invite_code(invite_code text)
+returns table (role public.user_role, organization text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select invitations.role, organizations.name
+  from public.invitations
+  join public.organizations on organizations.id = invitations.organization_id
+  where invitations.code = upper(trim(invite_code))
+    and invitations.used_by is null
+    and (invitations.expires_at is null or invitations.expires_at > now());
+$$;
+
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invite public.invitations;
+  requested public.user_role;
+begin
+  select * into invite
+  from public.invitations
+  where code = upper(trim(coalesce(new.raw_user_meta_data ->> 'invite_code', '')))
+    and used_by is null
+    and (expires_at is null or expires_at > now())
+  for update;
+
+  if found then
+    insert into public.profiles (id, full_name, email, role, organization_id)
+    values (new.id, new.raw_user_meta_data ->> 'full_name', new.email, invite.role, invite.organization_id);
+
+    update public.invitations
+    set used_by = new.id, used_at = now()
+    where code = invite.code;
+
+    return new;
+  end if;
+
+  requested := case new.raw_user_meta_data ->> 'requested_role'
+    when 'staff' then 'staff'::public.user_role
+    when 'officer' then 'officer'::public.user_role
+    else null
+  end;
+
+  insert into public.profiles (id, full_name, email, role, requested_role, approval_status)
+  values (
+    new.id,
+    new.raw_user_meta_data ->> 'full_name',
+    new.email,
+    'owner',
+    requested,
+    case when requested is null then 'approved' else 'pending' end::public.approval_status
+  );
+
+  return new;
+end;
+$$;
+
+-- Admins assign the organization from the user console. The audit log keeps
+-- the organization names so old entries stay readable.
+
+drop function public.admin_update_profile(uuid, text, text, text);
+
+create or replace function public.admin_update_profile(
+  target_id uuid,
+  new_full_name text,
+  new_phone text,
+  new_organization_id uuid
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.profiles := public.assert_can_manage(target_id);
+begin
+  update public.profiles
+  set full_name = nullif(trim(new_full_name), ''),
+      phone = nullif(trim(new_phone), ''),
+      organization_id = new_organization_id
+  where id = target_id;
+
+  insert into public.audit_log (actor_id, target_id, action, details)
+  values (
+    auth.uid(),
+    target_id,
+    'profile_updated',
+    jsonb_build_object(
+      'from', jsonb_build_object(
+        'full_name', target.full_name,
+        'phone', target.phone,
+        'organization', (select name from public.organizations where id = target.organization_id)
+      ),
+      'to', jsonb_build_object(
+        'full_name', nullif(trim(new_full_name), ''),
+        'phone', nullif(trim(new_phone), ''),
+        'organization', (select name from public.organizations where id = new_organization_id)
+      )
+    )
+  );
+end;
+$$;
+
+revoke execute on function public.admin_update_profile(uuid, text, text, uuid) from public, anon;
+grant execute on function public.admin_update_profile(uuid, text, text, uuid) to authenticated;
@@ -0,0 +1,258 @@
+-- Vehicle ownership claims.
+--
+-- Tows and fines for unknown plates create vehicles without an owner. An
+-- owner can claim such a vehicle by uploading proof of registration; staff or
+-- an administrator review the claim, and on approval the vehicle, with its
+-- tows and fines, moves to the owner's account.
+
+-- Plates are stored without spaces or dashes, so "ABC-123" and "abc 123" are
+-- the same vehicle and can't be registered twice. Fails if the existing data
+-- already holds such duplicates; merge them first.
+
+create or replace function public.normalize_plate(plate text)
+returns text
+language sql
+immutable
+as $$
+  select upper(regexp_replace(coalesce(plate, ''), '[^[:alnum:]]', '', 'g'));
+$$;
+
+create or replace function public.set_normalized_plate()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.license_plate := public.normalize_plate(new.license_plate);
+  return new;
+end;
+$$;
+
+update public.vehicles set license_plate = public.normalize_plate(license_plate);
+update public.tows set license_plate = public.normalize_plate(license_plate);
+
+create trigger vehicles_normalize_plate
+  before insert or update of license_plate on public.vehicles
+  for each row execute function public.set_normalized_plate();
+
+create trigger tows_normalize_plate
+  before insert or update of license_plate on public.tows
+  for each row execute function public.set_normalized_plate();
+
+-- Claims
+
+create type public.vehicle_claim_status as enum ('pending', 'approved', 'rejected');
+
+create table public.vehicle_claims (
+  id uuid primary key default gen_random_uuid(),
+  vehicle_id uuid not null references public.vehicles (id) on delete cascade,
+  -- Kept on the claim because claimants can't read vehicles they don't own
+  license_plate text not null,
+  claimant_id uuid not null references public.profiles (id) on delete cascade,
+  -- Path of the registration document in the vehicle-documents bucket
+  document_path text not null,
+  claimant_note text,
+  status public.vehicle_claim_status not null default 'pending',
+  reviewed_by uuid references public.profiles (id) on delete set null,
+  reviewed_at timestamptz,
+  review_note text,
+  created_at timestamptz not null default now()
+);
+
+create index vehicle_claims_claimant_id_idx on public.vehicle_claims (claimant_id);
+create index vehicle_claims_status_idx on public.vehicle_claims (status, created_at);
+
+-- One open claim per owner and vehicle
+create unique index vehicle_claims_pending_key
+  on public.vehicle_claims (vehicle_id, claimant_id)
+  where status = 'pending';
+
+create or replace function public.can_review_vehicle_claims()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(public.current_user_role() in ('staff', 'admin'), false);
+$$;
+
+alter table public.vehicle_claims enable row level security;
+
+-- Claims are created and reviewed only through the functions below
+create policy "Users can read their own vehicle claims"
+  on public.vehicle_claims for select to authenticated
+  using (claimant_id = auth.uid());
+
+create policy "Reviewers can read all vehicle claims"
+  on public.vehicle_claims for select to authenticated
+  using (public.can_review_vehicle_claims());
+
+-- Admins review claims from the console and need to see the vehicle
+create policy "Admins can read all vehicles"
+  on public.vehicles for select to authenticated
+  using (public.is_admin());
+
+-- Registration documents. Each user uploads into a folder named after their
+-- user id; reviewers can read every document.
+
+insert into storage.buckets (id, name, public)
+values ('vehicle-documents', 'vehicle-documents', false)
+on conflict (id) do nothing;
+
+create policy "Users can upload their own vehicle documents"
+  on storage.objects for insert to authenticated
+  with check (bucket_id = 'vehicle-documents' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can read their own vehicle documents"
+  on storage.objects for select to authenticated
+  using (bucket_id = 'vehicle-documents' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Claim reviewers can read vehicle documents"
+  on storage.objects for select to authenticated
+  using (bucket_id = 'vehicle-documents' and public.can_review_vehicle_claims());
+
+-- Lets the add vehicle screen offer a claim when a plate is taken by a
+-- vehicle without an owner
+create or replace function public.find_claimable_vehicle(plate_number text)
+returns table (id uuid, license_plate text, make text, model text, color text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select vehicles.id, vehicles.license_plate, vehicles.make, vehicles.model, vehicles.color
+  from public.vehicles
+  where vehicles.license_plate = public.normalize_plate(plate_number)
+    and vehicles.owner_id is null;
+$$;
+
+create or replace function public.submit_vehicle_claim(plate_number text, document text, note text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.vehicles;
+  new_claim_id uuid;
+begin
+  if public.current_user_role() is distinct from 'owner' then
+    raise exception 'Only vehicle owners can claim vehicles' using errcode = '42501';
+  end if;
+
+  select * into target
+  from public.vehicles
+  where license_plate = public.normalize_plate(plate_number);
+
+  if not found then
+    raise exception 'No vehicle with this license plate is on record' using errcode = 'P0002';
+  end if;
+
+  if target.owner_id is not null then
+    raise exception 'This vehicle is already registered to an owner';
+  end if;
+
+  if split_part(document, '/', 1) <> auth.uid()::text then
+    raise exception 'Upload your registration document before submitting the claim';
+  end if;
+
+  insert into public.vehicle_claims (vehicle_id, license_plate, claimant_id, document_path, claimant_note)
+  values (target.id, target.license_plate, auth.uid(), document, nullif(trim(note), ''))
+  returning id into new_claim_id;
+
+  return new_claim_id;
+exception
+  when unique_violation then
+    raise exception 'You already have a pending claim for this vehicle';
+end;
+$$;
+
+create or replace function public.review_vehicle_claim(target_claim_id uuid, approve boolean, note text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  claim public.vehicle_claims;
+  target public.vehicles;
+begin
+  if not public.can_review_vehicle_claims() then
+    raise exception 'Only staff and administrators can review vehicle claims' using errcode = '42501';
+  end if;
+
+  select * into claim from public.vehicle_claims where id = target_claim_id for update;
+
+  if not found then
+    raise exception 'Claim not found' using errcode = 'P0002';
+  end if;
+
+  if claim.status <> 'pending' then
+    raise exception 'This claim has already been reviewed';
+  end if;
+
+  select * into target from public.vehicles where id = claim.vehicle_id for update;
+
+  if approve and target.owner_id is not null then
+    raise exception 'This vehicle already has an owner';
+  end if;
+
+  update public.vehicle_claims
+  set status = case when approve then 'approved' else 'rejected' end::public.vehicle_claim_status,
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_note = nullif(trim(note), '')
+  where id = target_claim_id;
+
+  insert into public.notifications (user_id, type, title, message, related_id)
+  values (
+    claim.claimant_id,
+    case when approve then 'vehicle_claim_approved' else 'vehicle_claim_rejected' end,
+    case when approve then 'Vehicle Claim Approved' else 'Vehicle Claim Rejected' end,
+    case when approve
+      then format('Vehicle %s has been added to your account.', target.license_plate)
+      else format('Your claim for vehicle %s was rejected.', target.license_plate)
+    end || coalesce(' ' || nullif(trim(note), ''), ''),
+    target.id
+  );
+
+  if not approve then
+    return;
+  end if;
+
+  update public.vehicles set owner_id = claim.claimant_id where id = target.id;
+
+  -- Tows recorded before the vehicle record existed only carry the plate
+  update public.tows
+  set vehicle_id = target.id
+  where vehicle_id is null and license_plate = target.license_plate;
+
+  -- Other open claims for the vehicle can no longer succeed
+  with rejected as (
+    update public.vehicle_claims
+    set status = 'rejected',
+        reviewed_by = auth.uid(),
+        reviewed_at = now(),
+        review_note = 'Another claim for this vehicle was approved.'
+    where vehicle_id = target.id and status = 'pending'
+    returning claimant_id
+  )
+  insert into public.notifications (user_id, type, title, message, related_id)
+  select
+    rejected.claimant_id,
+    'vehicle_claim_rejected',
+    'Vehicle Claim Rejected',
+    format('Your claim for vehicle %s was rejected because another claim was approved.', target.license_plate),
+    target.id
+  from rejected;
+end;
+$$;
+
+-- Supabase grants execute on new functions to anon and authenticated by default
+revoke execute on function public.find_claimable_vehicle(text) from public, anon;
+revoke execute on function public.submit_vehicle_claim(text, text, text) from public, anon;
+revoke execute on function public.review_vehicle_claim(uuid, boolean, text) from public, anon;
+
+grant execute on function public.find_claimable_vehicle(text) to authenticated;
+grant execute on function public.submit_vehicle_claim(text, text, text) to authenticated;
+grant execute on function public.review_vehicle_claim(uuid, boolean, text) to authenticated;
@@ -0,0 +1,399 @@
+-- Vehicle ownership transfers.
+--
+-- An owner selling a car starts a transfer to the buyer's account email; the
+-- buyer accepts or declines it. Tows and fines are stamped with the owner at
+-- the time, so history from before a transfer stays with the previous owner.
+-- Unpaid fines either block the transfer or move to the new owner, depending
+-- on the policy of the organization that issued them.
+
+-- Record owners
+
+alter table public.tows
+  add column owner_id uuid references public.profiles (id) on delete set null;
+
+alter table public.fines
+  add column owner_id uuid references public.profiles (id) on delete set null;
+
+create index tows_owner_id_idx on public.tows (owner_id);
+create index fines_owner_id_idx on public.fines (owner_id);
+
+update public.tows
+set owner_id = vehicles.owner_id
+from public.vehicles
+where vehicles.id = tows.vehicle_id;
+
+update public.fines
+set owner_id = vehicles.owner_id
+from public.vehicles
+where vehicles.id = fines.vehicle_id;
+
+-- New tows and fines belong to the vehicle's current owner, and so do tows
+-- linked to a vehicle later on. Runs with the caller's rights: client updates
+-- can't move a record to another owner, while the security definer functions
+-- below, which run as the table owner, can.
+create or replace function public.set_record_owner()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'UPDATE' and current_user = 'authenticated' then
+    new.owner_id := old.owner_id;
+  end if;
+
+  if new.owner_id is null and new.vehicle_id is not null
+    and (tg_op = 'INSERT' or new.vehicle_id is distinct from old.vehicle_id) then
+    new.owner_id := (select owner_id from public.vehicles where id = new.vehicle_id);
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger tows_set_owner
+  before insert or update on public.tows
+  for each row execute function public.set_record_owner();
+
+create trigger fines_set_owner
+  before insert or update on public.fines
+  for each row execute function public.set_record_owner();
+
+-- Ownership only changes through claims and transfers. Staff could otherwise
+-- reassign a vehicle by editing it.
+create or replace function public.protect_vehicle_owner()
+returns trigger
+language plpgsql
+as $$
+begin
+  if current_user = 'authenticated' then
+    new.owner_id := old.owner_id;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger vehicles_protect_owner
+  before update of owner_id on public.vehicles
+  for each row execute function public.protect_vehicle_owner();
+
+-- The first owner of a vehicle, set by an approved claim, takes over the
+-- history recorded while it had none
+create or replace function public.assign_unowned_history()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.tows set owner_id = new.owner_id where vehicle_id = new.id and owner_id is null;
+  update public.fines set owner_id = new.owner_id where vehicle_id = new.id and owner_id is null;
+  return new;
+end;
+$$;
+
+create trigger vehicles_assign_unowned_history
+  after update of owner_id on public.vehicles
+  for each row
+  when (old.owner_id is null and new.owner_id is not null)
+  execute function public.assign_unowned_history();
+
+revoke execute on function public.set_record_owner() from public, anon, authenticated;
+revoke execute on function public.protect_vehicle_owner() from public, anon, authenticated;
+revoke execute on function public.assign_unowned_history() from public, anon, authenticated;
+
+-- Owners see the tows and fines recorded while they owned the vehicle
+
+drop policy "Owners can read tows of their vehicles" on public.tows;
+drop policy "Owners can read fines of their vehicles" on public.fines;
+drop policy "Owners can pay fines of their vehicles" on public.fines;
+
+create policy "Owners can read their tows"
+  on public.tows for select to authenticated
+  using (owner_id = auth.uid());
+
+create policy "Owners can read their fines"
+  on public.fines for select to authenticated
+  using (owner_id = auth.uid());
+
+-- The mock payment flow marks a fine as paid from the owner's device
+create policy "Owners can pay their fines"
+  on public.fines for update to authenticated
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid() and status = 'paid');
+
+create or replace function public.has_vehicle_history(target_vehicle_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.tows where vehicle_id = target_vehicle_id and owner_id = auth.uid())
+    or exists (select 1 from public.fines where vehicle_id = target_vehicle_id and owner_id = auth.uid());
+$$;
+
+-- Previous owners still see the plate and model on their old tows and fines
+create policy "Owners can read vehicles from their history"
+  on public.vehicles for select to authenticated
+  using (public.has_vehicle_history(id));
+
+-- Unpaid fine policy
+
+create type public.unpaid_fine_policy as enum ('block_transfer', 'move_with_vehicle');
+
+-- Set from the Supabase dashboard, like the organizations themselves. Fines
+-- without an organization block transfers.
+alter table public.organizations
+  add column unpaid_fine_policy public.unpaid_fine_policy not null default 'block_transfer';
+
+-- Only used by the transfer functions below
+create or replace function public.has_blocking_fines(target_vehicle_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.fines
+    left join public.organizations on organizations.id = fines.organization_id
+    where fines.vehicle_id = target_vehicle_id
+      and fines.status <> 'paid'
+      and coalesce(organizations.unpaid_fine_policy, 'block_transfer') = 'block_transfer'
+  );
+$$;
+
+-- Transfers
+
+create type public.vehicle_transfer_status as enum ('pending', 'accepted', 'declined', 'cancelled');
+
+create table public.vehicle_transfers (
+  id uuid primary key default gen_random_uuid(),
+  vehicle_id uuid not null references public.vehicles (id) on delete cascade,
+  from_owner_id uuid not null references public.profiles (id) on delete cascade,
+  to_owner_id uuid not null references public.profiles (id) on delete cascade,
+  status public.vehicle_transfer_status not null default 'pending',
+  created_at timestamptz not null default now(),
+  responded_at timestamptz
+);
+
+create index vehicle_transfers_from_owner_id_idx on public.vehicle_transfers (from_owner_id);
+create index vehicle_transfers_to_owner_id_idx on public.vehicle_transfers (to_owner_id);
+
+-- One open transfer per vehicle
+create unique index vehicle_transfers_pending_key
+  on public.vehicle_transfers (vehicle_id)
+  where status = 'pending';
+
+alter table public.vehicle_transfers enable row level security;
+
+-- Transfers are created and answered only through the functions below
+create policy "Owners can read their vehicle transfers"
+  on public.vehicle_transfers for select to authenticated
+  using (from_owner_id = auth.uid() or to_owner_id = auth.uid());
+
+-- The other party's profile and, before accepting, the vehicle aren't
+-- readable by the user, so the transfer list is returned with those details
+create or replace function public.list_vehicle_transfers()
+returns table (
+  id uuid,
+  vehicle_id uuid,
+  license_plate text,
+  make text,
+  model text,
+  color text,
+  status public.vehicle_transfer_status,
+  outgoing boolean,
+  other_party_name text,
+  other_party_email text,
+  created_at timestamptz,
+  responded_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    transfers.id,
+    transfers.vehicle_id,
+    vehicles.license_plate,
+    vehicles.make,
+    vehicles.model,
+    vehicles.color,
+    transfers.status,
+    transfers.from_owner_id = auth.uid(),
+    other_party.full_name,
+    other_party.email,
+    transfers.created_at,
+    transfers.responded_at
+  from public.vehicle_transfers as transfers
+  join public.vehicles on vehicles.id = transfers.vehicle_id
+  join public.profiles as other_party on other_party.id = case
+    when transfers.from_owner_id = auth.uid() then transfers.to_owner_id
+    else transfers.from_owner_id
+  end
+  where auth.uid() in (transfers.from_owner_id, transfers.to_owner_id)
+  order by transfers.created_at desc;
+$$;
+
+create or replace function public.start_vehicle_transfer(target_vehicle_id uuid, recipient_email text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.vehicles;
+  recipient public.profiles;
+  new_transfer_id uuid;
+begin
+  select * into target
+  from public.vehicles
+  where id = target_vehicle_id and owner_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'You can only transfer your own vehicles' using errcode = '42501';
+  end if;
+
+  select * into recipient
+  from public.profiles
+  where lower(email) = lower(trim(recipient_email))
+    and role = 'owner'
+    and is_active;
+
+  if not found then
+    raise exception 'No vehicle owner account uses this email address' using errcode = 'P0002';
+  end if;
+
+  if recipient.id = auth.uid() then
+    raise exception 'You already own this vehicle';
+  end if;
+
+  if public.has_blocking_fines(target.id) then
+    raise exception 'Pay the outstanding fines on this vehicle before transferring it';
+  end if;
+
+  insert into public.vehicle_transfers (vehicle_id, from_owner_id, to_owner_id)
+  values (target.id, auth.uid(), recipient.id)
+  returning id into new_transfer_id;
+
+  insert into public.notifications (user_id, type, title, message, related_id)
+  values (
+    recipient.id,
+    'vehicle_transfer_requested',
+    'Vehicle Transfer',
+    format('%s wants to transfer vehicle %s to you.',
+      coalesce((select full_name from public.profiles where id = auth.uid()), 'An owner'),
+      target.license_plate),
+    new_transfer_id
+  );
+
+  return new_transfer_id;
+exception
+  when unique_violation then
+    raise exception 'A transfer for this vehicle is already pending';
+end;
+$$;
+
+create or replace function public.respond_to_vehicle_transfer(target_transfer_id uuid, accept boolean)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  transfer public.vehicle_transfers;
+  target public.vehicles;
+begin
+  select * into transfer
+  from public.vehicle_transfers
+  where id = target_transfer_id and to_owner_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Transfer not found' using errcode = 'P0002';
+  end if;
+
+  if transfer.status <> 'pending' then
+    raise exception 'This transfer is no longer pending';
+  end if;
+
+  select * into target from public.vehicles where id = transfer.vehicle_id for update;
+
+  if target.owner_id is distinct from transfer.from_owner_id then
+    raise exception 'The sender no longer owns this vehicle';
+  end if;
+
+  if accept then
+    -- Fines may have been issued since the transfer was started
+    if public.has_blocking_fines(target.id) then
+      raise exception 'This vehicle has unpaid fines that must be paid before the transfer';
+    end if;
+
+    update public.vehicles
+    set owner_id = transfer.to_owner_id,
+        registered_name = (select full_name from public.profiles where id = transfer.to_owner_id)
+    where id = target.id;
+
+    -- Only fines whose organization lets them move are still unpaid here
+    update public.fines
+    set owner_id = transfer.to_owner_id
+    where vehicle_id = target.id
+      and owner_id = transfer.from_owner_id
+      and status <> 'paid';
+  end if;
+
+  update public.vehicle_transfers
+  set status = case when accept then 'accepted' else 'declined' end::public.vehicle_transfer_status,
+      responded_at = now()
+  where id = transfer.id;
+
+  insert into public.notifications (user_id, type, title, message, related_id)
+  values (
+    transfer.from_owner_id,
+    case when accept then 'vehicle_transfer_accepted' else 'vehicle_transfer_declined' end,
+    case when accept then 'Vehicle Transfer Accepted' else 'Vehicle Transfer Declined' end,
+    format(
+      case when accept
+        then 'Vehicle %s has been transferred to its new owner.'
+        else 'The transfer of vehicle %s was declined.'
+      end,
+      target.license_plate
+    ),
+    transfer.id
+  );
+end;
+$$;
+
+create or replace function public.cancel_vehicle_transfer(target_transfer_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.vehicle_transfers
+  set status = 'cancelled', responded_at = now()
+  where id = target_transfer_id
+    and from_owner_id = auth.uid()
+    and status = 'pending';
+
+  if not found then
+    raise exception 'This transfer is no longer pending';
+  end if;
+end;
+$$;
+
+revoke execute on function public.has_blocking_fines(uuid) from public, anon, authenticated;
+revoke execute on function public.list_vehicle_transfers() from public, anon;
+revoke execute on function public.start_vehicle_transfer(uuid, text) from public, anon;
+revoke execute on function public.respond_to_vehicle_transfer(uuid, boolean) from public, anon;
+revoke execute on function public.cancel_vehicle_transfer(uuid) from public, anon;
+
+grant execute on function public.list_vehicle_transfers() to authenticated;
+grant execute on function public.start_vehicle_transfer(uuid, text) to authenticated;
+grant execute on function public.respond_to_vehicle_transfer(uuid, boolean) to authenticated;
+grant execute on function public.cancel_vehicle_transfer(uuid) to authenticated;
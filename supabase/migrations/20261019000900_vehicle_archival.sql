@@ -0,0 +1,114 @@
+-- Vehicle archival.
+--
+-- Owners used to delete vehicles outright, which broke the tow and fine
+-- details and searches that join on them. Vehicles are now archived instead:
+-- they drop out of the owner's list, while staff, officers and the tow and
+-- fine details still resolve them.
+
+alter table public.vehicles
+  add column archived_at timestamptz;
+
+drop policy "Owners can delete their vehicles" on public.vehicles;
+
+-- Vehicles are archived and restored only through the functions below, which
+-- check for unpaid fines and active tows first
+create or replace function public.protect_vehicle_archival()
+returns trigger
+language plpgsql
+as $$
+begin
+  if current_user = 'authenticated' then
+    new.archived_at := old.archived_at;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger vehicles_protect_archival
+  before update of archived_at on public.vehicles
+  for each row execute function public.protect_vehicle_archival();
+
+-- An archived vehicle has to be restored before it can be handed over
+create or replace function public.check_transfer_vehicle_active()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if exists (select 1 from public.vehicles where id = new.vehicle_id and archived_at is not null) then
+    raise exception 'Restore this vehicle before transferring it';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger vehicle_transfers_check_vehicle_active
+  before insert on public.vehicle_transfers
+  for each row execute function public.check_transfer_vehicle_active();
+
+revoke execute on function public.protect_vehicle_archival() from public, anon, authenticated;
+revoke execute on function public.check_transfer_vehicle_active() from public, anon, authenticated;
+
+create or replace function public.archive_vehicle(target_vehicle_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.vehicles;
+begin
+  select * into target
+  from public.vehicles
+  where id = target_vehicle_id and owner_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'You can only remove your own vehicles' using errcode = '42501';
+  end if;
+
+  if target.archived_at is not null then
+    return;
+  end if;
+
+  if exists (select 1 from public.fines where vehicle_id = target.id and status <> 'paid') then
+    raise exception 'Pay the outstanding fines on this vehicle before removing it';
+  end if;
+
+  if exists (select 1 from public.tows where vehicle_id = target.id and status in ('pending', 'active')) then
+    raise exception 'This vehicle can''t be removed while it has an active tow';
+  end if;
+
+  if exists (select 1 from public.vehicle_transfers where vehicle_id = target.id and status = 'pending') then
+    raise exception 'Cancel the pending transfer of this vehicle before removing it';
+  end if;
+
+  update public.vehicles set archived_at = now() where id = target.id;
+end;
+$$;
+
+create or replace function public.restore_vehicle(target_vehicle_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.vehicles
+  set archived_at = null
+  where id = target_vehicle_id and owner_id = auth.uid();
+
+  if not found then
+    raise exception 'You can only restore your own vehicles' using errcode = '42501';
+  end if;
+end;
+$$;
+
+revoke execute on function public.archive_vehicle(uuid) from public, anon;
+revoke execute on function public.restore_vehicle(uuid) from public, anon;
+
+grant execute on function public.archive_vehicle(uuid) to authenticated;
+grant execute on function public.restore_vehicle(uuid) to authenticated;
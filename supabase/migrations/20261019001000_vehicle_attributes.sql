@@ -0,0 +1,85 @@
+-- Extended vehicle attributes and photos.
+--
+-- Tow yards price by vehicle type and need the VIN to identify a vehicle when
+-- its plate is missing or was issued elsewhere, so vehicles now record the
+-- VIN, model year, the state or province that issued the plate, and the body
+-- type. Owners can also add photos of their vehicles.
+
+create type public.vehicle_body_type as enum ('car', 'motorcycle', 'truck', 'trailer');
+
+-- The app checks the VIN check digit before saving; the database only
+-- enforces the format, since VINs from outside North America don't use one
+alter table public.vehicles
+  add column vin text unique constraint vehicles_vin_format check (vin ~ '^[A-HJ-NPR-Z0-9]{17}$'),
+  add column year smallint constraint vehicles_year_range check (year between 1886 and 2100),
+  add column plate_jurisdiction text,
+  add column body_type public.vehicle_body_type not null default 'car';
+
+-- Photos
+
+create table public.vehicle_photos (
+  id uuid primary key default gen_random_uuid(),
+  vehicle_id uuid not null references public.vehicles (id) on delete cascade,
+  -- Path of the photo in the vehicle-photos bucket
+  storage_path text not null,
+  uploaded_by uuid references public.profiles (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index vehicle_photos_vehicle_id_idx on public.vehicle_photos (vehicle_id, created_at);
+
+alter table public.vehicle_photos enable row level security;
+
+create policy "Owners can read photos of their vehicles"
+  on public.vehicle_photos for select to authenticated
+  using (public.owns_vehicle(vehicle_id));
+
+create policy "Staff, officers and admins can read all vehicle photos"
+  on public.vehicle_photos for select to authenticated
+  using (public.is_staff_or_officer() or public.is_admin());
+
+create policy "Owners can add photos of their vehicles"
+  on public.vehicle_photos for insert to authenticated
+  with check (public.owns_vehicle(vehicle_id) and uploaded_by = auth.uid());
+
+create policy "Owners can remove photos of their vehicles"
+  on public.vehicle_photos for delete to authenticated
+  using (public.owns_vehicle(vehicle_id));
+
+-- Photo files are kept in a folder named after the vehicle id
+
+insert into storage.buckets (id, name, public)
+values ('vehicle-photos', 'vehicle-photos', false)
+on conflict (id) do nothing;
+
+create or replace function public.owns_vehicle_folder(folder text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.vehicles
+    where id::text = folder and owner_id = auth.uid()
+  );
+$$;
+
+revoke execute on function public.owns_vehicle_folder(text) from public, anon;
+grant execute on function public.owns_vehicle_folder(text) to authenticated;
+
+create policy "Owners can upload vehicle photo files"
+  on storage.objects for insert to authenticated
+  with check (bucket_id = 'vehicle-photos' and public.owns_vehicle_folder((storage.foldername(name))[1]));
+
+create policy "Owners can read vehicle photo files"
+  on storage.objects for select to authenticated
+  using (bucket_id = 'vehicle-photos' and public.owns_vehicle_folder((storage.foldername(name))[1]));
+
+create policy "Owners can remove vehicle photo files"
+  on storage.objects for delete to authenticated
+  using (bucket_id = 'vehicle-photos' and public.owns_vehicle_folder((storage.foldername(name))[1]));
+
+create policy "Staff, officers and admins can read vehicle photo files"
+  on storage.objects for select to authenticated
+  using (bucket_id = 'vehicle-photos' and (public.is_staff_or_officer() or public.is_admin()));
@@ -0,0 +1,213 @@
+-- Tow lifecycle.
+--
+-- Tow statuses were used inconsistently by the screens. Tows now follow one
+-- lifecycle:
+--
+--   requested -> dispatched -> en_route -> hooked -> in_transit -> impounded -> released
+--                                                                            -> auctioned
+--
+-- Requested, dispatched and en route tows can also be cancelled. Officers
+-- request tows from a tow company; tow staff who find a vehicle themselves
+-- record the tow once it's hooked. Every change is kept in
+-- tow_status_history with the user who made it.
+
+alter type public.tow_status rename to tow_status_old;
+
+create type public.tow_status as enum (
+  'requested',
+  'dispatched',
+  'en_route',
+  'hooked',
+  'in_transit',
+  'impounded',
+  'released',
+  'auctioned',
+  'cancelled'
+);
+
+alter table public.tows alter column status drop default;
+
+-- Active tows were on their way to the lot. Completed tows had delivered the
+-- vehicle, so they become impounded and staff release them from there.
+alter table public.tows
+  alter column status type public.tow_status using (
+    case status::text
+      when 'pending' then 'requested'
+      when 'active' then 'in_transit'
+      when 'completed' then 'impounded'
+      else status::text
+    end
+  )::public.tow_status;
+
+alter table public.tows alter column status set default 'requested';
+
+drop type public.tow_status_old;
+
+-- Mirrored by TOW_STATUS_TRANSITIONS in src/utils/tows.ts
+create or replace function public.tow_status_transition_allowed(
+  from_status public.tow_status,
+  to_status public.tow_status
+)
+returns boolean
+language sql
+immutable
+as $$
+  select case from_status
+    when 'requested' then to_status in ('dispatched', 'cancelled')
+    when 'dispatched' then to_status in ('en_route', 'cancelled')
+    when 'en_route' then to_status in ('hooked', 'cancelled')
+    when 'hooked' then to_status = 'in_transit'
+    when 'in_transit' then to_status = 'impounded'
+    when 'impounded' then to_status in ('released', 'auctioned')
+    else false
+  end;
+$$;
+
+-- Validates status changes and keeps the request status of tows requested
+-- from a tow company in step. The seed and the database functions may insert
+-- tows at any step.
+create or replace function public.check_tow_status()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    if current_user = 'authenticated' and new.status not in ('requested', 'hooked') then
+      raise exception 'New tows start as requested or hooked';
+    end if;
+
+    if new.status = 'requested' and new.request_status is null then
+      new.request_status := 'new';
+    end if;
+
+    return new;
+  end if;
+
+  if new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  if not public.tow_status_transition_allowed(old.status, new.status) then
+    raise exception 'A tow can''t go from % to %',
+      replace(old.status::text, '_', ' '), replace(new.status::text, '_', ' ');
+  end if;
+
+  if new.request_status is not null then
+    new.request_status := case
+      when new.status = 'dispatched' then 'accepted'
+      when new.status = 'cancelled' then 'rejected'
+      when new.status in ('impounded', 'released', 'auctioned') then 'completed'
+      else new.request_status
+    end::public.tow_request_status;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger tows_check_status
+  before insert or update of status on public.tows
+  for each row execute function public.check_tow_status();
+
+-- History
+
+create table public.tow_status_history (
+  id uuid primary key default gen_random_uuid(),
+  tow_id uuid not null references public.tows (id) on delete cascade,
+  from_status public.tow_status,
+  to_status public.tow_status not null,
+  changed_by uuid references public.profiles (id) on delete set null,
+  -- Kept on the entry because owners can't read staff profiles
+  changed_by_name text,
+  created_at timestamptz not null default now()
+);
+
+create index tow_status_history_tow_id_idx on public.tow_status_history (tow_id, created_at);
+
+alter table public.tow_status_history enable row level security;
+
+-- Whoever can read the tow can read its history. Entries are only written by
+-- the trigger below.
+create policy "Users can read the history of tows they can read"
+  on public.tow_status_history for select to authenticated
+  using (exists (select 1 from public.tows where tows.id = tow_status_history.tow_id));
+
+create or replace function public.record_tow_status_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' and new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  insert into public.tow_status_history (tow_id, from_status, to_status, changed_by, changed_by_name)
+  values (
+    new.id,
+    case when tg_op = 'UPDATE' then old.status end,
+    new.status,
+    auth.uid(),
+    (select full_name from public.profiles where id = auth.uid())
+  );
+
+  return new;
+end;
+$$;
+
+create trigger tows_record_status_change
+  after insert or update of status on public.tows
+  for each row execute function public.record_tow_status_change();
+
+revoke execute on function public.check_tow_status() from public, anon, authenticated;
+revoke execute on function public.record_tow_status_change() from public, anon, authenticated;
+
+-- Existing tows start their history at their current status
+insert into public.tow_status_history (tow_id, from_status, to_status, changed_by, changed_by_name, created_at)
+select tows.id, null, tows.status, tows.created_by, profiles.full_name, tows.created_at
+from public.tows
+left join public.profiles on profiles.id = tows.created_by;
+
+-- Vehicle archival checked for the old active statuses
+
+create or replace function public.archive_vehicle(target_vehicle_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.vehicles;
+begin
+  select * into target
+  from public.vehicles
+  where id = target_vehicle_id and owner_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'You can only remove your own vehicles' using errcode = '42501';
+  end if;
+
+  if target.archived_at is not null then
+    return;
+  end if;
+
+  if exists (select 1 from public.fines where vehicle_id = target.id and status <> 'paid') then
+    raise exception 'Pay the outstanding fines on this vehicle before removing it';
+  end if;
+
+  if exists (
+    select 1 from public.tows
+    where vehicle_id = target.id and status not in ('released', 'auctioned', 'cancelled')
+  ) then
+    raise exception 'This vehicle can''t be removed while it has an active tow';
+  end if;
+
+  if exists (select 1 from public.vehicle_transfers where vehicle_id = target.id and status = 'pending') then
+    raise exception 'Cancel the pending transfer of this vehicle before removing it';
+  end if;
+
+  update public.vehicles set archived_at = now() where id = target.id;
+end;
+$$;
@@ -0,0 +1,231 @@
+-- Impound lots and vehicle release.
+--
+-- Impounded vehicles are kept at one of the tow company's lots, in a named
+-- space. Staff hand a vehicle back through release_tow, which checks the ID
+-- against the vehicle's owner or registered name and that the tow's fines are
+-- paid, and keeps a release record. Lots are created from the Supabase
+-- dashboard, like organizations.
+
+create table public.impound_lots (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations (id) on delete cascade,
+  name text not null,
+  address text not null,
+  -- Opening hours as shown to owners, e.g. "Mon-Fri 8am-6pm"
+  hours text not null,
+  capacity integer not null constraint impound_lots_capacity_positive check (capacity > 0),
+  created_at timestamptz not null default now(),
+  unique (organization_id, name)
+);
+
+alter table public.impound_lots enable row level security;
+
+-- Owners need the address and hours to collect their vehicle
+create policy "Signed-in users can read impound lots"
+  on public.impound_lots for select to authenticated
+  using (true);
+
+alter table public.tows
+  add column impound_lot_id uuid references public.impound_lots (id) on delete set null,
+  add column lot_space text;
+
+create index tows_impound_lot_id_idx on public.tows (impound_lot_id);
+
+-- One vehicle per space while it's impounded
+create unique index tows_impound_lot_space_key on public.tows (impound_lot_id, lot_space)
+  where status = 'impounded';
+
+-- Releases
+
+create type public.tow_release_verification as enum ('owner', 'registered_name');
+
+create table public.tow_releases (
+  id uuid primary key default gen_random_uuid(),
+  tow_id uuid not null unique references public.tows (id) on delete cascade,
+  -- Name on the ID shown at pick-up
+  released_to text not null,
+  id_type text not null,
+  -- Only the last four characters of the ID number are kept
+  id_number_last4 text not null,
+  verified_against public.tow_release_verification not null,
+  released_by uuid references public.profiles (id) on delete set null,
+  released_by_name text,
+  created_at timestamptz not null default now()
+);
+
+alter table public.tow_releases enable row level security;
+
+-- Whoever can read the tow can read its release. Releases are only written by
+-- release_tow.
+create policy "Users can read the release of tows they can read"
+  on public.tow_releases for select to authenticated
+  using (exists (select 1 from public.tows where tows.id = tow_releases.tow_id));
+
+-- Impounded tows need a lot of the tow company with room left and a free
+-- space; released tows need a release record, so vehicles can only leave
+-- through release_tow. Runs as the definer to count every vehicle in the lot.
+create or replace function public.check_tow_custody()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  lot public.impound_lots;
+begin
+  if tg_op = 'UPDATE' and new.status = 'released' and old.status <> 'released'
+    and not exists (select 1 from public.tow_releases where tow_id = new.id) then
+    raise exception 'Vehicles are released with the release form, after checking the owner''s ID';
+  end if;
+
+  if new.status <> 'impounded' then
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE' and old.status = 'impounded'
+    and new.impound_lot_id is not distinct from old.impound_lot_id
+    and new.lot_space is not distinct from old.lot_space then
+    return new;
+  end if;
+
+  new.lot_space := nullif(upper(trim(new.lot_space)), '');
+
+  if new.impound_lot_id is null or new.lot_space is null then
+    raise exception 'Choose the lot and space the vehicle is kept in';
+  end if;
+
+  select * into lot from public.impound_lots where id = new.impound_lot_id;
+
+  if lot.organization_id is distinct from new.tow_company_id then
+    raise exception 'Vehicles can only be kept at the tow company''s own lots';
+  end if;
+
+  if (
+    select count(*) from public.tows
+    where impound_lot_id = lot.id and status = 'impounded' and id <> new.id
+  ) >= lot.capacity then
+    raise exception '% is full', lot.name;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger tows_check_custody
+  before insert or update of status, impound_lot_id, lot_space on public.tows
+  for each row execute function public.check_tow_custody();
+
+revoke execute on function public.check_tow_custody() from public, anon, authenticated;
+
+-- Names are compared without case and extra spaces
+create or replace function public.normalize_person_name(name text)
+returns text
+language sql
+immutable
+as $$
+  select nullif(lower(regexp_replace(trim(name), '\s+', ' ', 'g')), '');
+$$;
+
+-- Unpaid fines linked to a tow. Tow companies can't read fines issued by the
+-- police, so this runs as the definer for anyone who can see the tow.
+create or replace function public.tow_unpaid_fines(target_tow_id uuid)
+returns table (fine_count integer, amount_due numeric)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  target public.tows;
+begin
+  select * into target from public.tows where id = target_tow_id;
+
+  if not found or not (
+    target.owner_id = auth.uid()
+    or public.in_my_organization(target.organization_id)
+    or public.in_my_organization(target.tow_company_id)
+  ) then
+    raise exception 'Tow not found' using errcode = 'P0002';
+  end if;
+
+  return query
+  select count(*)::integer, coalesce(sum(amount), 0)
+  from public.fines
+  where tow_id = target.id and status <> 'paid';
+end;
+$$;
+
+create or replace function public.release_tow(
+  target_tow_id uuid,
+  id_name text,
+  id_type text,
+  id_number text
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.tows;
+  vehicle public.vehicles;
+  owner_name text;
+  verified public.tow_release_verification;
+  cleaned_number text := upper(regexp_replace(coalesce(id_number, ''), '[^A-Za-z0-9]', '', 'g'));
+  release_id uuid;
+begin
+  select * into target from public.tows where id = target_tow_id for update;
+
+  if not found or not public.in_my_organization(target.tow_company_id) then
+    raise exception 'Only the tow company holding the vehicle can release it' using errcode = '42501';
+  end if;
+
+  if target.status <> 'impounded' then
+    raise exception 'Only impounded vehicles can be released';
+  end if;
+
+  if public.normalize_person_name(id_name) is null
+    or coalesce(trim(id_type), '') = ''
+    or length(cleaned_number) < 4 then
+    raise exception 'Enter the name, type and number of the ID';
+  end if;
+
+  select * into vehicle from public.vehicles where id = target.vehicle_id;
+  select full_name into owner_name from public.profiles where id = vehicle.owner_id;
+
+  if public.normalize_person_name(id_name) = public.normalize_person_name(owner_name) then
+    verified := 'owner';
+  elsif public.normalize_person_name(id_name) = public.normalize_person_name(vehicle.registered_name) then
+    verified := 'registered_name';
+  else
+    raise exception 'The name on the ID doesn''t match the vehicle''s owner or registered name';
+  end if;
+
+  if exists (select 1 from public.fines where tow_id = target.id and status <> 'paid') then
+    raise exception 'The fines for this tow have to be paid before the vehicle is released';
+  end if;
+
+  insert into public.tow_releases (
+    tow_id, released_to, id_type, id_number_last4, verified_against, released_by, released_by_name
+  )
+  values (
+    target.id,
+    trim(id_name),
+    trim(id_type),
+    right(cleaned_number, 4),
+    verified,
+    auth.uid(),
+    (select full_name from public.profiles where id = auth.uid())
+  )
+  returning id into release_id;
+
+  update public.tows set status = 'released' where id = target.id;
+
+  return release_id;
+end;
+$$;
+
+revoke execute on function public.tow_unpaid_fines(uuid) from public, anon;
+revoke execute on function public.release_tow(uuid, text, text, text) from public, anon;
+grant execute on function public.tow_unpaid_fines(uuid) to authenticated;
+grant execute on function public.release_tow(uuid, text, text, text) to authenticated;
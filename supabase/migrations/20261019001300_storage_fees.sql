@@ -0,0 +1,329 @@
+-- Daily storage fees for impounded vehicles.
+--
+-- Each lot has a storage rate schedule: a daily rate per vehicle body type,
+-- with an optional default for the other types. Storage is charged for every
+-- day started at the lot, as a storage fine on the tow, so owners pay it with
+-- the rest of the tow's fines and release_tow waits for it. The open storage
+-- fine grows each day until it's paid; days after that go on a new one.
+-- Rates are set from the Supabase dashboard, like lots.
+
+create table public.impound_lot_storage_rates (
+  id uuid primary key default gen_random_uuid(),
+  impound_lot_id uuid not null references public.impound_lots (id) on delete cascade,
+  -- Null is the rate for body types without their own
+  body_type public.vehicle_body_type,
+  daily_rate numeric(10, 2) not null constraint impound_lot_storage_rates_daily_rate_positive check (daily_rate > 0),
+  created_at timestamptz not null default now(),
+  unique nulls not distinct (impound_lot_id, body_type)
+);
+
+alter table public.impound_lot_storage_rates enable row level security;
+
+-- Owners see what storage will cost them, like the lot's hours
+create policy "Signed-in users can read storage rates"
+  on public.impound_lot_storage_rates for select to authenticated
+  using (true);
+
+create type public.fine_kind as enum ('violation', 'storage');
+
+alter table public.fines
+  add column kind public.fine_kind not null default 'violation',
+  -- Days of storage a storage fine covers
+  add column storage_days integer constraint fines_storage_days_positive check (storage_days > 0);
+
+create index fines_tow_id_idx on public.fines (tow_id);
+
+-- When the vehicle arrived at the lot, which storage is counted from
+alter table public.tows add column impounded_at timestamptz;
+
+update public.tows
+set impounded_at = coalesce(
+  (
+    select max(created_at) from public.tow_status_history
+    where tow_id = tows.id and to_status = 'impounded'
+  ),
+  tow_date
+)
+where status in ('impounded', 'released', 'auctioned');
+
+create or replace function public.set_tow_impounded_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    if new.status = 'impounded' then
+      new.impounded_at := coalesce(new.impounded_at, now());
+    end if;
+  elsif new.status = 'impounded' and old.status <> 'impounded' then
+    new.impounded_at := now();
+  else
+    new.impounded_at := old.impounded_at;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger tows_set_impounded_at
+  before insert or update on public.tows
+  for each row execute function public.set_tow_impounded_at();
+
+revoke execute on function public.set_tow_impounded_at() from public, anon, authenticated;
+
+-- The lot's rate for a body type, falling back to its default rate
+create or replace function public.storage_daily_rate(
+  target_lot_id uuid,
+  target_body_type public.vehicle_body_type
+)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select daily_rate from public.impound_lot_storage_rates
+  where impound_lot_id = target_lot_id
+    and (body_type = target_body_type or body_type is null)
+  order by body_type nulls last
+  limit 1;
+$$;
+
+-- Charges the days an impounded tow has been at the lot since its last
+-- accrual, at the lot's current rate
+create or replace function public.accrue_tow_storage(target_tow_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.tows;
+  lot public.impound_lots;
+  rate numeric;
+  due_days integer;
+  charged_days integer;
+  open_fine public.fines;
+begin
+  select * into target from public.tows where id = target_tow_id;
+
+  if not found or target.status <> 'impounded' or target.vehicle_id is null then
+    return;
+  end if;
+
+  select * into lot from public.impound_lots where id = target.impound_lot_id;
+  rate := public.storage_daily_rate(
+    lot.id,
+    (select body_type from public.vehicles where id = target.vehicle_id)
+  );
+
+  if rate is null then
+    return;
+  end if;
+
+  -- The first day is charged as soon as the vehicle arrives
+  due_days := greatest(1, ceil(extract(epoch from now() - target.impounded_at) / 86400)::integer);
+
+  select coalesce(sum(storage_days), 0) into charged_days
+  from public.fines
+  where tow_id = target.id and kind = 'storage';
+
+  if due_days <= charged_days then
+    return;
+  end if;
+
+  select * into open_fine
+  from public.fines
+  where tow_id = target.id and kind = 'storage' and status <> 'paid'
+  order by issue_date desc
+  limit 1
+  for update;
+
+  if found then
+    update public.fines
+    set
+      amount = amount + (due_days - charged_days) * rate,
+      storage_days = storage_days + due_days - charged_days,
+      description = format(
+        'Storage at %s (%s days)', lot.name, open_fine.storage_days + due_days - charged_days
+      )
+    where id = open_fine.id;
+  else
+    insert into public.fines (
+      vehicle_id, tow_id, kind, amount, storage_days, description, status, organization_id
+    )
+    values (
+      target.vehicle_id,
+      target.id,
+      'storage',
+      (due_days - charged_days) * rate,
+      due_days - charged_days,
+      format(
+        'Storage at %s (%s day%s)',
+        lot.name,
+        due_days - charged_days,
+        case when due_days - charged_days = 1 then '' else 's' end
+      ),
+      'unpaid',
+      target.tow_company_id
+    );
+  end if;
+end;
+$$;
+
+-- Run hourly, so a new day shows up soon after it starts
+create or replace function public.accrue_storage_fees()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  impounded_tow_id uuid;
+begin
+  for impounded_tow_id in select id from public.tows where status = 'impounded' loop
+    perform public.accrue_tow_storage(impounded_tow_id);
+  end loop;
+end;
+$$;
+
+-- The first day is due as soon as the vehicle is impounded
+create or replace function public.accrue_storage_on_impound()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.accrue_tow_storage(new.id);
+  return new;
+end;
+$$;
+
+create trigger tows_accrue_storage
+  after update of status on public.tows
+  for each row
+  when (new.status = 'impounded' and old.status <> 'impounded')
+  execute function public.accrue_storage_on_impound();
+
+revoke execute on function public.storage_daily_rate(uuid, public.vehicle_body_type) from public, anon;
+revoke execute on function public.accrue_tow_storage(uuid) from public, anon, authenticated;
+revoke execute on function public.accrue_storage_fees() from public, anon, authenticated;
+revoke execute on function public.accrue_storage_on_impound() from public, anon, authenticated;
+grant execute on function public.storage_daily_rate(uuid, public.vehicle_body_type) to authenticated;
+
+create extension if not exists pg_cron with schema pg_catalog;
+
+select cron.schedule('accrue-storage-fees', '0 * * * *', 'select public.accrue_storage_fees()');
+
+-- Storage charged on a tow so far, for anyone who can see the tow. Tow
+-- companies can read their storage fines, but owners see the rate too.
+create or replace function public.tow_storage_charges(target_tow_id uuid)
+returns table (daily_rate numeric, storage_days integer, accrued numeric, amount_due numeric)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  target public.tows;
+begin
+  select * into target from public.tows where id = target_tow_id;
+
+  if not found or not (
+    target.owner_id = auth.uid()
+    or public.in_my_organization(target.organization_id)
+    or public.in_my_organization(target.tow_company_id)
+  ) then
+    raise exception 'Tow not found' using errcode = 'P0002';
+  end if;
+
+  return query
+  select
+    public.storage_daily_rate(
+      target.impound_lot_id,
+      (select body_type from public.vehicles where id = target.vehicle_id)
+    ),
+    coalesce(sum(fines.storage_days), 0)::integer,
+    coalesce(sum(fines.amount), 0),
+    coalesce(sum(fines.amount) filter (where fines.status <> 'paid'), 0)
+  from public.fines
+  where fines.tow_id = target.id and fines.kind = 'storage';
+end;
+$$;
+
+revoke execute on function public.tow_storage_charges(uuid) from public, anon;
+grant execute on function public.tow_storage_charges(uuid) to authenticated;
+
+-- Storage up to the moment of release is paid before the vehicle leaves
+create or replace function public.release_tow(
+  target_tow_id uuid,
+  id_name text,
+  id_type text,
+  id_number text
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.tows;
+  vehicle public.vehicles;
+  owner_name text;
+  verified public.tow_release_verification;
+  cleaned_number text := upper(regexp_replace(coalesce(id_number, ''), '[^A-Za-z0-9]', '', 'g'));
+  release_id uuid;
+begin
+  select * into target from public.tows where id = target_tow_id for update;
+
+  if not found or not public.in_my_organization(target.tow_company_id) then
+    raise exception 'Only the tow company holding the vehicle can release it' using errcode = '42501';
+  end if;
+
+  if target.status <> 'impounded' then
+    raise exception 'Only impounded vehicles can be released';
+  end if;
+
+  if public.normalize_person_name(id_name) is null
+    or coalesce(trim(id_type), '') = ''
+    or length(cleaned_number) < 4 then
+    raise exception 'Enter the name, type and number of the ID';
+  end if;
+
+  select * into vehicle from public.vehicles where id = target.vehicle_id;
+  select full_name into owner_name from public.profiles where id = vehicle.owner_id;
+
+  if public.normalize_person_name(id_name) = public.normalize_person_name(owner_name) then
+    verified := 'owner';
+  elsif public.normalize_person_name(id_name) = public.normalize_person_name(vehicle.registered_name) then
+    verified := 'registered_name';
+  else
+    raise exception 'The name on the ID doesn''t match the vehicle''s owner or registered name';
+  end if;
+
+  perform public.accrue_tow_storage(target.id);
+
+  if exists (select 1 from public.fines where tow_id = target.id and status <> 'paid') then
+    raise exception 'The fines and storage for this tow have to be paid before the vehicle is released';
+  end if;
+
+  insert into public.tow_releases (
+    tow_id, released_to, id_type, id_number_last4, verified_against, released_by, released_by_name
+  )
+  values (
+    target.id,
+    trim(id_name),
+    trim(id_type),
+    right(cleaned_number, 4),
+    verified,
+    auth.uid(),
+    (select full_name from public.profiles where id = auth.uid())
+  )
+  returning id into release_id;
+
+  update public.tows set status = 'released' where id = target.id;
+
+  return release_id;
+end;
+$$;
@@ -0,0 +1,214 @@
+-- Violation and tow reason codes.
+--
+-- A catalog of codes, each with its statutory reference and a fee schedule:
+-- a default fine amount and optional amounts per vehicle body type. Tows
+-- record the code they were towed for and fines the code they were issued
+-- for, so reports group by code rather than by free text. A fine can differ
+-- from the schedule only with a written justification. Administrators manage
+-- the catalog; codes in use are retired rather than deleted.
+
+create table public.violation_codes (
+  id uuid primary key default gen_random_uuid(),
+  code text not null unique constraint violation_codes_code_format check (code ~ '^[A-Z0-9-]+$'),
+  title text not null,
+  -- The statute or ordinance the code enforces, e.g. "Mun. Code §10.12.040"
+  statute text,
+  default_amount numeric(10, 2) not null constraint violation_codes_default_amount_positive check (default_amount > 0),
+  is_active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create table public.violation_code_amounts (
+  id uuid primary key default gen_random_uuid(),
+  violation_code_id uuid not null references public.violation_codes (id) on delete cascade,
+  body_type public.vehicle_body_type not null,
+  amount numeric(10, 2) not null constraint violation_code_amounts_amount_positive check (amount > 0),
+  unique (violation_code_id, body_type)
+);
+
+alter table public.violation_codes enable row level security;
+alter table public.violation_code_amounts enable row level security;
+
+-- Owners see the code and statute behind their fines
+create policy "Signed-in users can read violation codes"
+  on public.violation_codes for select to authenticated
+  using (true);
+
+create policy "Admins can add violation codes"
+  on public.violation_codes for insert to authenticated
+  with check (public.is_admin());
+
+create policy "Admins can update violation codes"
+  on public.violation_codes for update to authenticated
+  using (public.is_admin());
+
+create policy "Signed-in users can read violation code amounts"
+  on public.violation_code_amounts for select to authenticated
+  using (true);
+
+create policy "Admins can add violation code amounts"
+  on public.violation_code_amounts for insert to authenticated
+  with check (public.is_admin());
+
+create policy "Admins can update violation code amounts"
+  on public.violation_code_amounts for update to authenticated
+  using (public.is_admin());
+
+create policy "Admins can remove violation code amounts"
+  on public.violation_code_amounts for delete to authenticated
+  using (public.is_admin());
+
+alter table public.tows
+  add column reason_code_id uuid references public.violation_codes (id) on delete restrict;
+
+alter table public.fines
+  add column violation_code_id uuid references public.violation_codes (id) on delete restrict,
+  -- Why the amount differs from the fee schedule
+  add column amount_justification text;
+
+create index tows_reason_code_id_idx on public.tows (reason_code_id);
+create index fines_violation_code_id_idx on public.fines (violation_code_id);
+
+-- The scheduled fine for a vehicle body type, falling back to the default
+create or replace function public.violation_fine_amount(
+  target_code_id uuid,
+  target_body_type public.vehicle_body_type
+)
+returns numeric
+language sql
+stable
+as $$
+  select coalesce(
+    (
+      select amount from public.violation_code_amounts
+      where violation_code_id = target_code_id and body_type = target_body_type
+    ),
+    (select default_amount from public.violation_codes where id = target_code_id)
+  );
+$$;
+
+-- New tows from the app pick a reason code that's still in use
+create or replace function public.check_tow_reason_code()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.reason_code_id is null then
+    if tg_op = 'INSERT' and auth.uid() is not null then
+      raise exception 'Choose the reason code for this tow';
+    end if;
+
+    return new;
+  end if;
+
+  if (tg_op = 'INSERT' or new.reason_code_id is distinct from old.reason_code_id)
+    and not exists (select 1 from public.violation_codes where id = new.reason_code_id and is_active) then
+    raise exception 'That reason code is no longer in use';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger tows_check_reason_code
+  before insert or update of reason_code_id on public.tows
+  for each row execute function public.check_tow_reason_code();
+
+-- New violation fines from the app pick a code, and an amount other than the
+-- scheduled one for the vehicle needs a justification. Storage fines are
+-- charged by the lot's rates instead.
+create or replace function public.check_fine_schedule()
+returns trigger
+language plpgsql
+as $$
+declare
+  violation public.violation_codes;
+  scheduled numeric;
+begin
+  if new.kind <> 'violation' then
+    return new;
+  end if;
+
+  if new.violation_code_id is null then
+    if tg_op = 'INSERT' and auth.uid() is not null then
+      raise exception 'Choose the violation code for this fine';
+    end if;
+
+    return new;
+  end if;
+
+  select * into violation from public.violation_codes where id = new.violation_code_id;
+
+  if (tg_op = 'INSERT' or new.violation_code_id is distinct from old.violation_code_id)
+    and not violation.is_active then
+    raise exception '% is no longer in use', violation.code;
+  end if;
+
+  scheduled := public.violation_fine_amount(
+    violation.id,
+    (select body_type from public.vehicles where id = new.vehicle_id)
+  );
+  new.amount_justification := nullif(trim(new.amount_justification), '');
+
+  if new.amount = scheduled then
+    new.amount_justification := null;
+  elsif new.amount_justification is null then
+    raise exception 'Explain why the amount differs from the $% in the fee schedule for %',
+      scheduled, violation.code;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger fines_check_schedule
+  before insert or update of amount, violation_code_id, amount_justification on public.fines
+  for each row execute function public.check_fine_schedule();
+
+revoke execute on function public.check_tow_reason_code() from public, anon, authenticated;
+revoke execute on function public.check_fine_schedule() from public, anon, authenticated;
+
+-- Tows and fines per code since a date. Runs with the caller's rights, so
+-- staff and officers count their own organization's records.
+create or replace function public.violation_code_report(since timestamptz)
+returns table (
+  violation_code_id uuid,
+  code text,
+  title text,
+  tow_count integer,
+  fine_count integer,
+  fine_total numeric
+)
+language sql
+stable
+as $$
+  with tow_counts as (
+    select reason_code_id as id, count(*)::integer as tow_count
+    from public.tows
+    where reason_code_id is not null and tow_date >= since
+    group by reason_code_id
+  ),
+  fine_counts as (
+    select violation_code_id as id, count(*)::integer as fine_count, sum(amount) as fine_total
+    from public.fines
+    where violation_code_id is not null and issue_date >= since
+    group by violation_code_id
+  )
+  select
+    violation_codes.id,
+    violation_codes.code,
+    violation_codes.title,
+    coalesce(tow_counts.tow_count, 0),
+    coalesce(fine_counts.fine_count, 0),
+    coalesce(fine_counts.fine_total, 0)
+  from public.violation_codes
+  left join tow_counts on tow_counts.id = violation_codes.id
+  left join fine_counts on fine_counts.id = violation_codes.id
+  where tow_counts.id is not null or fine_counts.id is not null
+  order by coalesce(tow_counts.tow_count, 0) + coalesce(fine_counts.fine_count, 0) desc, violation_codes.code;
+$$;
+
+revoke execute on function public.violation_fine_amount(uuid, public.vehicle_body_type) from public, anon;
+revoke execute on function public.violation_code_report(timestamptz) from public, anon;
+grant execute on function public.violation_fine_amount(uuid, public.vehicle_body_type) to authenticated;
+grant execute on function public.violation_code_report(timestamptz) to authenticated;
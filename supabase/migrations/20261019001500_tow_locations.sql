@@ -0,0 +1,23 @@
+-- Tow and impound lot coordinates.
+--
+-- Tows recorded in the app keep the GPS position of the device next to the
+-- typed location, which is prefilled with the reverse-geocoded address.
+-- Impound lots get coordinates too, so the tow details can map where the
+-- vehicle was towed from and where it's kept. Both pairs are optional:
+-- older tows and lots without coordinates just aren't mapped.
+
+alter table public.tows
+  add column latitude double precision,
+  add column longitude double precision,
+  add constraint tows_coordinates_check check (
+    (latitude is null and longitude is null)
+    or (latitude between -90 and 90 and longitude between -180 and 180)
+  );
+
+alter table public.impound_lots
+  add column latitude double precision,
+  add column longitude double precision,
+  add constraint impound_lots_coordinates_check check (
+    (latitude is null and longitude is null)
+    or (latitude between -90 and 90 and longitude between -180 and 180)
+  );
@@ -0,0 +1,118 @@
+-- Plates are unique per jurisdiction.
+--
+-- The same plate text can be issued by two states or provinces, so a plate
+-- is now only unique together with the jurisdiction that issued it. Vehicles
+-- without a jurisdiction, such as those created by a tow of an unregistered
+-- plate, still can't share a plate with each other. Plate lookups for claims
+-- take the jurisdiction too, so they don't match another state's vehicle.
+
+-- Stored in capitals without surrounding spaces, so "ca" and "CA " match
+create or replace function public.normalize_plate_jurisdiction(jurisdiction text)
+returns text
+language sql
+immutable
+as $$
+  select nullif(upper(trim(jurisdiction)), '');
+$$;
+
+create or replace function public.set_normalized_plate_jurisdiction()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.plate_jurisdiction := public.normalize_plate_jurisdiction(new.plate_jurisdiction);
+  return new;
+end;
+$$;
+
+revoke execute on function public.set_normalized_plate_jurisdiction() from public, anon, authenticated;
+
+update public.vehicles set plate_jurisdiction = public.normalize_plate_jurisdiction(plate_jurisdiction);
+
+create trigger vehicles_normalize_plate_jurisdiction
+  before insert or update of plate_jurisdiction on public.vehicles
+  for each row execute function public.set_normalized_plate_jurisdiction();
+
+alter table public.vehicles
+  drop constraint vehicles_license_plate_key,
+  add constraint vehicles_license_plate_jurisdiction_key
+    unique nulls not distinct (license_plate, plate_jurisdiction);
+
+-- Claim lookups match the jurisdiction as well; an unknown jurisdiction only
+-- matches vehicles recorded without one
+
+drop function public.find_claimable_vehicle(text);
+drop function public.submit_vehicle_claim(text, text, text);
+
+create or replace function public.find_claimable_vehicle(plate_number text, jurisdiction text)
+returns table (id uuid, license_plate text, plate_jurisdiction text, make text, model text, color text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    vehicles.id,
+    vehicles.license_plate,
+    vehicles.plate_jurisdiction,
+    vehicles.make,
+    vehicles.model,
+    vehicles.color
+  from public.vehicles
+  where vehicles.license_plate = public.normalize_plate(plate_number)
+    and vehicles.plate_jurisdiction is not distinct from public.normalize_plate_jurisdiction(jurisdiction)
+    and vehicles.owner_id is null;
+$$;
+
+create or replace function public.submit_vehicle_claim(
+  plate_number text,
+  jurisdiction text,
+  document text,
+  note text
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.vehicles;
+  new_claim_id uuid;
+begin
+  if public.current_user_role() is distinct from 'owner' then
+    raise exception 'Only vehicle owners can claim vehicles' using errcode = '42501';
+  end if;
+
+  select * into target
+  from public.vehicles
+  where license_plate = public.normalize_plate(plate_number)
+    and plate_jurisdiction is not distinct from public.normalize_plate_jurisdiction(jurisdiction);
+
+  if not found then
+    raise exception 'No vehicle with this license plate is on record' using errcode = 'P0002';
+  end if;
+
+  if target.owner_id is not null then
+    raise exception 'This vehicle is already registered to an owner';
+  end if;
+
+  if split_part(document, '/', 1) <> auth.uid()::text then
+    raise exception 'Upload your registration document before submitting the claim';
+  end if;
+
+  insert into public.vehicle_claims (vehicle_id, license_plate, claimant_id, document_path, claimant_note)
+  values (target.id, target.license_plate, auth.uid(), document, nullif(trim(note), ''))
+  returning id into new_claim_id;
+
+  return new_claim_id;
+exception
+  when unique_violation then
+    raise exception 'You already have a pending claim for this vehicle';
+end;
+$$;
+
+revoke execute on function public.find_claimable_vehicle(text, text) from public, anon;
+revoke execute on function public.submit_vehicle_claim(text, text, text, text) from public, anon;
+
+grant execute on function public.find_claimable_vehicle(text, text) to authenticated;
+grant execute on function public.submit_vehicle_claim(text, text, text, text) to authenticated;
@@ -0,0 +1,54 @@
+-- Only the tow company moves a tow along.
+--
+-- The update policy on tows lets both the organization that requested a tow
+-- and the tow company doing it update the tow, so an officer could dispatch,
+-- impound or auction a tow they had only requested. Status changes now have
+-- to come from the tow company. The requesting organization can still
+-- withdraw a request before the tow company dispatches a driver.
+
+create or replace function public.check_tow_status()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    if current_user = 'authenticated' and new.status not in ('requested', 'hooked') then
+      raise exception 'New tows start as requested or hooked';
+    end if;
+
+    if new.status = 'requested' and new.request_status is null then
+      new.request_status := 'new';
+    end if;
+
+    return new;
+  end if;
+
+  if new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  if not public.tow_status_transition_allowed(old.status, new.status) then
+    raise exception 'A tow can''t go from % to %',
+      replace(old.status::text, '_', ' '), replace(new.status::text, '_', ' ');
+  end if;
+
+  if current_user = 'authenticated'
+    and not public.in_my_organization(old.tow_company_id)
+    and not (old.status = 'requested' and new.status = 'cancelled') then
+    raise exception 'Only the tow company doing the tow can change its status' using errcode = '42501';
+  end if;
+
+  if new.request_status is not null then
+    new.request_status := case
+      when new.status = 'dispatched' then 'accepted'
+      when new.status = 'cancelled' then 'rejected'
+      when new.status in ('impounded', 'released', 'auctioned') then 'completed'
+      else new.request_status
+    end::public.tow_request_status;
+  end if;
+
+  return new;
+end;
+$$;
+
+revoke execute on function public.check_tow_status() from public, anon, authenticated;
@@ -0,0 +1,31 @@
+-- Limits who can edit a vehicle, and what.
+--
+-- Any staff or officer account could update any vehicle, including its
+-- registered name, which release_tow accepts as proof that the person
+-- collecting the vehicle may take it. Staff and officers can now only edit
+-- vehicles their organization has towed or fined, and nobody can change a
+-- vehicle's plate, registered name, owner or archival directly. Those change
+-- through the insert, claims, transfers and archive_vehicle.
+
+drop policy "Staff and officers can update vehicles" on public.vehicles;
+
+create policy "Staff and officers can update their organization's vehicles"
+  on public.vehicles for update to authenticated
+  using (
+    public.is_staff_or_officer()
+    and (
+      exists (
+        select 1 from public.tows
+        where tows.vehicle_id = vehicles.id
+          and (public.in_my_organization(tows.organization_id) or public.in_my_organization(tows.tow_company_id))
+      )
+      or exists (
+        select 1 from public.fines
+        where fines.vehicle_id = vehicles.id and public.in_my_organization(fines.organization_id)
+      )
+    )
+  );
+
+-- Only the description of the vehicle can be corrected
+revoke update on public.vehicles from authenticated;
+grant update (make, model, year, color, body_type, vin) on public.vehicles to authenticated;
@@ -0,0 +1,98 @@
+-- Fine payments only touch the payment columns.
+--
+-- The policy that lets owners pay their fines checks the row, not the
+-- columns, so an owner could also change the amount or detach the fine from
+-- its tow or vehicle while marking it paid. Fines are otherwise only changed
+-- by the database functions, so updates from the app are limited to the
+-- payment columns.
+
+revoke update on public.fines from authenticated;
+grant update (status, payment_date, transaction_id) on public.fines to authenticated;
+
+-- Charges the days an impounded tow has been at the lot since its last
+-- accrual, at the lot's current rate. A growing storage fine now words its
+-- days like a new one.
+create or replace function public.accrue_tow_storage(target_tow_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.tows;
+  lot public.impound_lots;
+  rate numeric;
+  due_days integer;
+  charged_days integer;
+  open_fine public.fines;
+begin
+  select * into target from public.tows where id = target_tow_id;
+
+  if not found or target.status <> 'impounded' or target.vehicle_id is null then
+    return;
+  end if;
+
+  select * into lot from public.impound_lots where id = target.impound_lot_id;
+  rate := public.storage_daily_rate(
+    lot.id,
+    (select body_type from public.vehicles where id = target.vehicle_id)
+  );
+
+  if rate is null then
+    return;
+  end if;
+
+  -- The first day is charged as soon as the vehicle arrives
+  due_days := greatest(1, ceil(extract(epoch from now() - target.impounded_at) / 86400)::integer);
+
+  select coalesce(sum(storage_days), 0) into charged_days
+  from public.fines
+  where tow_id = target.id and kind = 'storage';
+
+  if due_days <= charged_days then
+    return;
+  end if;
+
+  select * into open_fine
+  from public.fines
+  where tow_id = target.id and kind = 'storage' and status <> 'paid'
+  order by issue_date desc
+  limit 1
+  for update;
+
+  if found then
+    update public.fines
+    set
+      amount = amount + (due_days - charged_days) * rate,
+      storage_days = storage_days + due_days - charged_days,
+      description = format(
+        'Storage at %s (%s day%s)',
+        lot.name,
+        open_fine.storage_days + due_days - charged_days,
+        case when open_fine.storage_days + due_days - charged_days = 1 then '' else 's' end
+      )
+    where id = open_fine.id;
+  else
+    insert into public.fines (
+      vehicle_id, tow_id, kind, amount, storage_days, description, status, organization_id
+    )
+    values (
+      target.vehicle_id,
+      target.id,
+      'storage',
+      (due_days - charged_days) * rate,
+      due_days - charged_days,
+      format(
+        'Storage at %s (%s day%s)',
+        lot.name,
+        due_days - charged_days,
+        case when due_days - charged_days = 1 then '' else 's' end
+      ),
+      'unpaid',
+      target.tow_company_id
+    );
+  end if;
+end;
+$$;
+
+revoke execute on function public.accrue_tow_storage(uuid) from public, anon, authenticated;
@@ -0,0 +1,9 @@
+-- Users can only mark their notifications read.
+--
+-- The update policy on notifications checks whose notification it is, not
+-- which columns change, so a user could rewrite the type, title, message or
+-- related record of a notification sent to them. Updates from the app are
+-- limited to is_read.
+
+revoke update on public.notifications from authenticated;
+grant update (is_read) on public.notifications to authenticated;
@@ -0,0 +1,60 @@
+-- Approving a role request assigns the organization.
+--
+-- Staff and officers only see the records of their organization, but
+-- approving a request left the account without one, so the new staff member
+-- or officer saw nothing, not even the tows they recorded. Approving now
+-- takes the tow company or police department the user works for.
+
+drop function public.admin_review_role_request(uuid, boolean);
+
+create or replace function public.admin_review_role_request(
+  target_id uuid,
+  approve boolean,
+  new_organization_id uuid default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.profiles := public.assert_can_manage(target_id);
+  organization public.organizations;
+begin
+  if target.approval_status <> 'pending' or target.requested_role is null then
+    raise exception 'This user has no pending role request';
+  end if;
+
+  if approve then
+    select * into organization from public.organizations where id = new_organization_id;
+
+    if not found then
+      raise exception 'Choose the organization the user works for';
+    end if;
+
+    if organization.type is distinct from (
+      case when target.requested_role = 'staff' then 'tow_company' else 'police_department' end
+    )::public.organization_type then
+      raise exception 'Staff belong to a tow company and officers to a police department';
+    end if;
+  end if;
+
+  update public.profiles
+  set role = case when approve then target.requested_role else role end,
+      organization_id = case when approve then organization.id else organization_id end,
+      approval_status = case when approve then 'approved' else 'rejected' end::public.approval_status
+  where id = target_id;
+
+  insert into public.audit_log (actor_id, target_id, action, details)
+  values (
+    auth.uid(),
+    target_id,
+    case when approve then 'role_request_approved' else 'role_request_rejected' end,
+    jsonb_build_object('requested_role', target.requested_role, 'previous_role', target.role)
+      || case when approve then jsonb_build_object('organization', organization.name) else '{}'::jsonb end
+  );
+end;
+$$;
+
+revoke execute on function public.admin_review_role_request(uuid, boolean, uuid) from public, anon;
+grant execute on function public.admin_review_role_request(uuid, boolean, uuid) to authenticated;
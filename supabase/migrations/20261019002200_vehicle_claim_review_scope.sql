@@ -0,0 +1,137 @@
+-- Limits claim review to the organization holding the vehicle.
+--
+-- Any staff account could read every claim and registration document and
+-- approve any claim, handing a vehicle to whoever claimed it even when their
+-- tow company had never seen it. Staff can now only review claims for
+-- vehicles their organization has towed or fined. Administrators still
+-- review every claim.
+
+create or replace function public.can_review_vehicle_claim(target_vehicle_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.is_admin()
+    or (
+      public.current_user_role() is not distinct from 'staff'
+      and (
+        exists (
+          select 1 from public.tows
+          where tows.vehicle_id = target_vehicle_id
+            and (public.in_my_organization(tows.organization_id) or public.in_my_organization(tows.tow_company_id))
+        )
+        or exists (
+          select 1 from public.fines
+          where fines.vehicle_id = target_vehicle_id and public.in_my_organization(fines.organization_id)
+        )
+      )
+    );
+$$;
+
+drop policy "Reviewers can read all vehicle claims" on public.vehicle_claims;
+
+create policy "Reviewers can read the vehicle claims they review"
+  on public.vehicle_claims for select to authenticated
+  using (public.can_review_vehicle_claim(vehicle_id));
+
+drop policy "Claim reviewers can read vehicle documents" on storage.objects;
+
+create policy "Claim reviewers can read the documents of claims they review"
+  on storage.objects for select to authenticated
+  using (
+    bucket_id = 'vehicle-documents'
+    and exists (
+      select 1 from public.vehicle_claims
+      where vehicle_claims.document_path = objects.name
+        and public.can_review_vehicle_claim(vehicle_claims.vehicle_id)
+    )
+  );
+
+create or replace function public.review_vehicle_claim(target_claim_id uuid, approve boolean, note text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  claim public.vehicle_claims;
+  target public.vehicles;
+begin
+  select * into claim from public.vehicle_claims where id = target_claim_id for update;
+
+  if not found then
+    raise exception 'Claim not found' using errcode = 'P0002';
+  end if;
+
+  if not public.can_review_vehicle_claim(claim.vehicle_id) then
+    raise exception 'Only administrators and staff of the organization that towed or fined the vehicle can review this claim'
+      using errcode = '42501';
+  end if;
+
+  if claim.status <> 'pending' then
+    raise exception 'This claim has already been reviewed';
+  end if;
+
+  select * into target from public.vehicles where id = claim.vehicle_id for update;
+
+  if approve and target.owner_id is not null then
+    raise exception 'This vehicle already has an owner';
+  end if;
+
+  update public.vehicle_claims
+  set status = case when approve then 'approved' else 'rejected' end::public.vehicle_claim_status,
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_note = nullif(trim(note), '')
+  where id = target_claim_id;
+
+  insert into public.notifications (user_id, type, title, message, related_id)
+  values (
+    claim.claimant_id,
+    case when approve then 'vehicle_claim_approved' else 'vehicle_claim_rejected' end,
+    case when approve then 'Vehicle Claim Approved' else 'Vehicle Claim Rejected' end,
+    case when approve
+      then format('Vehicle %s has been added to your account.', target.license_plate)
+      else format('Your claim for vehicle %s was rejected.', target.license_plate)
+    end || coalesce(' ' || nullif(trim(note), ''), ''),
+    target.id
+  );
+
+  if not approve then
+    return;
+  end if;
+
+  update public.vehicles set owner_id = claim.claimant_id where id = target.id;
+
+  -- Tows recorded before the vehicle record existed only carry the plate
+  update public.tows
+  set vehicle_id = target.id
+  where vehicle_id is null and license_plate = target.license_plate;
+
+  -- Other open claims for the vehicle can no longer succeed
+  with rejected as (
+    update public.vehicle_claims
+    set status = 'rejected',
+        reviewed_by = auth.uid(),
+        reviewed_at = now(),
+        review_note = 'Another claim for this vehicle was approved.'
+    where vehicle_id = target.id and status = 'pending'
+    returning claimant_id
+  )
+  insert into public.notifications (user_id, type, title, message, related_id)
+  select
+    rejected.claimant_id,
+    'vehicle_claim_rejected',
+    'Vehicle Claim Rejected',
+    format('Your claim for vehicle %s was rejected because another claim was approved.', target.license_plate),
+    target.id
+  from rejected;
+end;
+$$;
+
+drop function public.can_review_vehicle_claims();
+
+revoke execute on function public.can_review_vehicle_claim(uuid) from public, anon;
+grant execute on function public.can_review_vehicle_claim(uuid) to authenticated;
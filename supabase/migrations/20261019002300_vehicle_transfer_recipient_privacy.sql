@@ -0,0 +1,130 @@
+-- Starting a transfer no longer reveals whether an email has an account.
+--
+-- start_vehicle_transfer failed with "No vehicle owner account uses this
+-- email address" for unknown emails, so any owner could check which emails
+-- belong to Towify accounts, and the transfer list then showed the
+-- recipient's name. A transfer is now recorded against the email the sender
+-- entered, whether or not an owner account uses it, and only that owner, if
+-- any, is notified. The sender sees the email until the recipient answers; a
+-- transfer nobody can answer stays pending until the sender cancels it.
+
+alter table public.vehicle_transfers add column recipient_email text;
+
+update public.vehicle_transfers
+set recipient_email = profiles.email
+from public.profiles
+where profiles.id = vehicle_transfers.to_owner_id;
+
+alter table public.vehicle_transfers
+  alter column recipient_email set not null,
+  alter column to_owner_id drop not null;
+
+-- The sender could otherwise read to_owner_id from the table and tell
+-- whether the email has an account. Both owners read transfers through
+-- list_vehicle_transfers.
+revoke select on public.vehicle_transfers from authenticated;
+grant select (id, vehicle_id, from_owner_id, recipient_email, status, created_at, responded_at)
+  on public.vehicle_transfers to authenticated;
+
+create or replace function public.list_vehicle_transfers()
+returns table (
+  id uuid,
+  vehicle_id uuid,
+  license_plate text,
+  make text,
+  model text,
+  color text,
+  status public.vehicle_transfer_status,
+  outgoing boolean,
+  other_party_name text,
+  other_party_email text,
+  created_at timestamptz,
+  responded_at timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    transfers.id,
+    transfers.vehicle_id,
+    vehicles.license_plate,
+    vehicles.make,
+    vehicles.model,
+    vehicles.color,
+    transfers.status,
+    transfers.from_owner_id = auth.uid(),
+    case
+      when transfers.from_owner_id <> auth.uid() then sender.full_name
+      when transfers.status in ('accepted', 'declined') then recipient.full_name
+    end,
+    case when transfers.from_owner_id = auth.uid() then transfers.recipient_email else sender.email end,
+    transfers.created_at,
+    transfers.responded_at
+  from public.vehicle_transfers as transfers
+  join public.vehicles on vehicles.id = transfers.vehicle_id
+  join public.profiles as sender on sender.id = transfers.from_owner_id
+  left join public.profiles as recipient on recipient.id = transfers.to_owner_id
+  where auth.uid() = transfers.from_owner_id or auth.uid() = transfers.to_owner_id
+  order by transfers.created_at desc;
+$$;
+
+create or replace function public.start_vehicle_transfer(target_vehicle_id uuid, recipient_email text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.vehicles;
+  recipient public.profiles;
+  normalized_email text := lower(trim(recipient_email));
+  new_transfer_id uuid;
+begin
+  select * into target
+  from public.vehicles
+  where id = target_vehicle_id and owner_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'You can only transfer your own vehicles' using errcode = '42501';
+  end if;
+
+  if normalized_email = (select lower(profiles.email) from public.profiles where id = auth.uid()) then
+    raise exception 'You already own this vehicle';
+  end if;
+
+  if public.has_blocking_fines(target.id) then
+    raise exception 'Pay the outstanding fines on this vehicle before transferring it';
+  end if;
+
+  select * into recipient
+  from public.profiles
+  where lower(profiles.email) = normalized_email
+    and role = 'owner'
+    and is_active;
+
+  insert into public.vehicle_transfers (vehicle_id, from_owner_id, to_owner_id, recipient_email)
+  values (target.id, auth.uid(), recipient.id, normalized_email)
+  returning id into new_transfer_id;
+
+  if recipient.id is not null then
+    insert into public.notifications (user_id, type, title, message, related_id)
+    values (
+      recipient.id,
+      'vehicle_transfer_requested',
+      'Vehicle Transfer',
+      format('%s wants to transfer vehicle %s to you.',
+        coalesce((select full_name from public.profiles where id = auth.uid()), 'An owner'),
+        target.license_plate),
+      new_transfer_id
+    );
+  end if;
+
+  return new_transfer_id;
+exception
+  when unique_violation then
+    raise exception 'A transfer for this vehicle is already pending';
+end;
+$$;
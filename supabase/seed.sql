@@ -0,0 +1,245 @@
+-- Demo data for a local Supabase instance. Runs after the migrations on
+-- `supabase db reset`. Every account uses the password "password123".
+--
+--   owner@towify.test    vehicle owner with two vehicles
+--   staff@towify.test    tow company staff
+--   officer@towify.test  law enforcement officer
+--   admin@towify.test    administrator with access to the user console
+--   pending@towify.test  owner whose request for staff access awaits approval
+--
+-- The staff and officer accounts can also log in with an SMS code: phone
+-- +15555550102 (staff) or +15555550103 (officer), code 123456.
+--
+-- New staff and officer accounts can sign up with the invitation codes
+-- TOWCO-DEMO and POLICE-DEMO.
+--
+-- Staff work for Demo Towing Co. and officers for Demo Police Department.
+-- Northside Towing has no accounts; officers can send tows to it.
+--
+-- The unpaid fine on XYZ789 blocks transferring it, since Demo Police
+-- Department keeps the default block_transfer policy. ABC123 can be
+-- transferred, e.g. to pending@towify.test.
+--
+-- XYZ789 is impounded at the Harbor Road Lot. Staff can release it to
+-- "Demo Owner" once its fine and storage are paid. Storage goes up by $25 a
+-- day while it stays there.
+
+-- Organizations
+
+insert into public.organizations (id, name, type) values
+  ('dddddddd-0000-0000-0000-000000000001', 'Demo Towing Co.', 'tow_company'),
+  ('dddddddd-0000-0000-0000-000000000002', 'Demo Police Department', 'police_department'),
+  ('dddddddd-0000-0000-0000-000000000003', 'Northside Towing', 'tow_company');
+
+-- Accounts
+
+insert into auth.users (
+  instance_id, id, aud, role, email, encrypted_password, email_confirmed_at,
+  raw_app_meta_data, raw_user_meta_data, created_at, updated_at,
+  confirmation_token, email_change, email_change_token_new, recovery_token
+)
+select
+  '00000000-0000-0000-0000-000000000000',
+  account.id,
+  'authenticated',
+  'authenticated',
+  account.email,
+  extensions.crypt('password123', extensions.gen_salt('bf')),
+  now(),
+  '{"provider": "email", "providers": ["email"]}'::jsonb,
+  jsonb_build_object('full_name', account.full_name),
+  now(),
+  now(),
+  '', '', '', ''
+from (values
+  ('11111111-1111-1111-1111-111111111111'::uuid, 'owner@towify.test', 'Demo Owner'),
+  ('22222222-2222-2222-2222-222222222222'::uuid, 'staff@towify.test', 'Demo Staff'),
+  ('33333333-3333-3333-3333-333333333333'::uuid, 'officer@towify.test', 'Demo Officer'),
+  ('44444444-4444-4444-4444-444444444444'::uuid, 'admin@towify.test', 'Demo Admin'),
+  ('55555555-5555-5555-5555-555555555555'::uuid, 'pending@towify.test', 'Pending Staff')
+) as account (id, email, full_name);
+
+-- Verified phone numbers for the SMS code login, matching the test codes in
+-- config.toml
+update auth.users set phone = account.phone, phone_confirmed_at = now()
+from (values
+  ('22222222-2222-2222-2222-222222222222'::uuid, '15555550102'),
+  ('33333333-3333-3333-3333-333333333333'::uuid, '15555550103')
+) as account (id, phone)
+where users.id = account.id;
+
+insert into auth.identities (
+  id, user_id, provider_id, identity_data, provider, last_sign_in_at, created_at, updated_at
+)
+select
+  gen_random_uuid(),
+  users.id,
+  users.id::text,
+  jsonb_build_object('sub', users.id::text, 'email', users.email, 'email_verified', true),
+  'email',
+  now(),
+  now(),
+  now()
+from auth.users as users
+where users.email like '%@towify.test';
+
+-- The on_auth_user_created trigger creates every profile as an owner;
+-- promote the demo staff, officer and admin accounts directly
+insert into public.profiles (id, full_name, role, email, phone, organization_id, requested_role, approval_status) values
+  ('11111111-1111-1111-1111-111111111111', 'Demo Owner', 'owner', 'owner@towify.test', '555-0101', null, null, 'approved'),
+  ('22222222-2222-2222-2222-222222222222', 'Demo Staff', 'staff', 'staff@towify.test', '555-0102', 'dddddddd-0000-0000-0000-000000000001', null, 'approved'),
+  ('33333333-3333-3333-3333-333333333333', 'Demo Officer', 'officer', 'officer@towify.test', '555-0103', 'dddddddd-0000-0000-0000-000000000002', null, 'approved'),
+  ('44444444-4444-4444-4444-444444444444', 'Demo Admin', 'admin', 'admin@towify.test', '555-0104', null, null, 'approved'),
+  ('55555555-5555-5555-5555-555555555555', 'Pending Staff', 'owner', 'pending@towify.test', '555-0105', null, 'staff', 'pending')
+on conflict (id) do update set
+  full_name = excluded.full_name,
+  role = excluded.role,
+  phone = excluded.phone,
+  organization_id = excluded.organization_id,
+  requested_role = excluded.requested_role,
+  approval_status = excluded.approval_status;
+
+-- Invitation codes for trying the staff and officer signup flow
+insert into public.invitations (code, role, organization_id, created_by) values
+  ('TOWCO-DEMO', 'staff', 'dddddddd-0000-0000-0000-000000000001', '22222222-2222-2222-2222-222222222222'),
+  ('POLICE-DEMO', 'officer', 'dddddddd-0000-0000-0000-000000000002', '33333333-3333-3333-3333-333333333333');
+
+-- Vehicles
+
+insert into public.vehicles (id, license_plate, make, model, color, owner_id, registered_name, vin, year, plate_jurisdiction, body_type) values
+  ('aaaaaaaa-0000-0000-0000-000000000001', 'ABC123', 'Toyota', 'Corolla', 'blue', '11111111-1111-1111-1111-111111111111', 'Demo Owner', '2T1BURHE5JC034461', 2018, 'CA', 'car'),
+  ('aaaaaaaa-0000-0000-0000-000000000002', 'XYZ789', 'Honda', 'Civic', 'red', '11111111-1111-1111-1111-111111111111', 'Demo Owner', '1HGCM82633A004352', 2003, 'CA', 'car'),
+  ('aaaaaaaa-0000-0000-0000-000000000003', 'UNK001', null, 'Unknown Model', 'gray', null, null, null, null, null, 'car');
+
+-- Impound lots of Demo Towing Co.
+
+insert into public.impound_lots (id, organization_id, name, address, hours, capacity, latitude, longitude) values
+  ('eeeeeeee-0000-0000-0000-000000000001', 'dddddddd-0000-0000-0000-000000000001', 'Harbor Road Lot',
+   '900 Harbor Rd', 'Mon-Sat 8am-6pm', 40, 37.7955, -122.2790),
+  ('eeeeeeee-0000-0000-0000-000000000002', 'dddddddd-0000-0000-0000-000000000001', 'North Yard',
+   '12 Industrial Way', 'Mon-Fri 9am-5pm', 15, 37.8270, -122.2890);
+
+insert into public.impound_lot_storage_rates (impound_lot_id, body_type, daily_rate) values
+  ('eeeeeeee-0000-0000-0000-000000000001', null, 25.00),
+  ('eeeeeeee-0000-0000-0000-000000000001', 'motorcycle', 15.00),
+  ('eeeeeeee-0000-0000-0000-000000000001', 'truck', 45.00),
+  ('eeeeeeee-0000-0000-0000-000000000001', 'trailer', 45.00),
+  ('eeeeeeee-0000-0000-0000-000000000002', null, 20.00);
+
+-- Violation codes and their fee schedule. PK-04 is retired, so it shows in
+-- the admin catalog but can't be picked for new tows or fines.
+
+insert into public.violation_codes (id, code, title, statute, default_amount, is_active) values
+  ('ffffffff-0000-0000-0000-000000000001', 'FL-01', 'Parked in a fire lane', 'Mun. Code §10.12.040', 150.00, true),
+  ('ffffffff-0000-0000-0000-000000000002', 'PP-02', 'Expired parking permit', 'Mun. Code §10.20.110', 75.00, true),
+  ('ffffffff-0000-0000-0000-000000000003', 'AB-03', 'Abandoned vehicle', 'Veh. Code §22523', 200.00, true),
+  ('ffffffff-0000-0000-0000-000000000004', 'PK-04', 'Overnight street parking', 'Mun. Code §10.20.300', 40.00, false),
+  ('ffffffff-0000-0000-0000-000000000005', 'HY-05', 'Blocking a fire hydrant', 'Veh. Code §22514', 120.00, true),
+  ('ffffffff-0000-0000-0000-000000000006', 'NP-06', 'No parking zone', null, 60.00, true);
+
+insert into public.violation_code_amounts (violation_code_id, body_type, amount) values
+  ('ffffffff-0000-0000-0000-000000000001', 'truck', 250.00),
+  ('ffffffff-0000-0000-0000-000000000003', 'motorcycle', 100.00),
+  ('ffffffff-0000-0000-0000-000000000003', 'truck', 350.00),
+  ('ffffffff-0000-0000-0000-000000000003', 'trailer', 350.00);
+
+-- Tows: one released, one impounded and one open request. The seed runs
+-- without a user, so the organization columns are set here. The
+-- coordinates are around Oakland, where the mock location provider is.
+
+insert into public.tows (
+  id, vehicle_id, license_plate, location, tow_date, reason, reason_code_id, status, request_status, notes, created_by,
+  assigned_to, organization_id, tow_company_id, impound_lot_id, lot_space, impounded_at, latitude, longitude
+) values
+  ('bbbbbbbb-0000-0000-0000-000000000001', 'aaaaaaaa-0000-0000-0000-000000000001', 'ABC123', '123 Main St',
+   now() - interval '30 days', 'Parked in a fire lane', 'ffffffff-0000-0000-0000-000000000001', 'released',
+   'completed', null, '22222222-2222-2222-2222-222222222222', '22222222-2222-2222-2222-222222222222',
+   'dddddddd-0000-0000-0000-000000000001', 'dddddddd-0000-0000-0000-000000000001',
+   'eeeeeeee-0000-0000-0000-000000000001', 'B3', now() - interval '30 days' + interval '40 minutes',
+   37.8031, -122.2697),
+  ('bbbbbbbb-0000-0000-0000-000000000002', 'aaaaaaaa-0000-0000-0000-000000000002', 'XYZ789', '45 Market Ave',
+   now() - interval '2 days', 'Expired parking permit', 'ffffffff-0000-0000-0000-000000000002', 'impounded',
+   'completed', 'Keys left with the lot attendant', '33333333-3333-3333-3333-333333333333',
+   '22222222-2222-2222-2222-222222222222',
+   'dddddddd-0000-0000-0000-000000000002', 'dddddddd-0000-0000-0000-000000000001',
+   'eeeeeeee-0000-0000-0000-000000000001', 'A12', now() - interval '2 days' + interval '90 minutes',
+   37.8068, -122.2745),
+  ('bbbbbbbb-0000-0000-0000-000000000003', 'aaaaaaaa-0000-0000-0000-000000000003', 'UNK001', 'Lot C, North Campus',
+   now() - interval '3 hours', 'Abandoned vehicle', 'ffffffff-0000-0000-0000-000000000003', 'requested',
+   'new', null, '33333333-3333-3333-3333-333333333333', null,
+   'dddddddd-0000-0000-0000-000000000002', 'dddddddd-0000-0000-0000-000000000001',
+   null, null, null, 37.8719, -122.2585);
+
+insert into public.tow_releases (
+  tow_id, released_to, id_type, id_number_last4, verified_against, released_by, released_by_name, created_at
+) values
+  ('bbbbbbbb-0000-0000-0000-000000000001', 'Demo Owner', 'Driver''s license', '4821', 'owner',
+   '22222222-2222-2222-2222-222222222222', 'Demo Staff', now() - interval '20 days');
+
+-- The status trigger only recorded where each tow starts, without a user;
+-- replace that with the steps the demo tows went through
+delete from public.tow_status_history;
+
+insert into public.tow_status_history (tow_id, from_status, to_status, changed_by, changed_by_name, created_at)
+select
+  history.tow_id::uuid,
+  history.from_status::public.tow_status,
+  history.to_status::public.tow_status,
+  history.changed_by::uuid,
+  profiles.full_name,
+  history.created_at
+from (values
+  ('bbbbbbbb-0000-0000-0000-000000000001', null, 'hooked', '22222222-2222-2222-2222-222222222222', now() - interval '30 days'),
+  ('bbbbbbbb-0000-0000-0000-000000000001', 'hooked', 'in_transit', '22222222-2222-2222-2222-222222222222', now() - interval '30 days' + interval '10 minutes'),
+  ('bbbbbbbb-0000-0000-0000-000000000001', 'in_transit', 'impounded', '22222222-2222-2222-2222-222222222222', now() - interval '30 days' + interval '40 minutes'),
+  ('bbbbbbbb-0000-0000-0000-000000000001', 'impounded', 'released', '22222222-2222-2222-2222-222222222222', now() - interval '20 days'),
+  ('bbbbbbbb-0000-0000-0000-000000000002', null, 'requested', '33333333-3333-3333-3333-333333333333', now() - interval '2 days'),
+  ('bbbbbbbb-0000-0000-0000-000000000002', 'requested', 'dispatched', '22222222-2222-2222-2222-222222222222', now() - interval '2 days' + interval '15 minutes'),
+  ('bbbbbbbb-0000-0000-0000-000000000002', 'dispatched', 'en_route', '22222222-2222-2222-2222-222222222222', now() - interval '2 days' + interval '20 minutes'),
+  ('bbbbbbbb-0000-0000-0000-000000000002', 'en_route', 'hooked', '22222222-2222-2222-2222-222222222222', now() - interval '2 days' + interval '45 minutes'),
+  ('bbbbbbbb-0000-0000-0000-000000000002', 'hooked', 'in_transit', '22222222-2222-2222-2222-222222222222', now() - interval '2 days' + interval '55 minutes'),
+  ('bbbbbbbb-0000-0000-0000-000000000002', 'in_transit', 'impounded', '22222222-2222-2222-2222-222222222222', now() - interval '2 days' + interval '90 minutes'),
+  ('bbbbbbbb-0000-0000-0000-000000000003', null, 'requested', '33333333-3333-3333-3333-333333333333', now() - interval '3 hours')
+) as history (tow_id, from_status, to_status, changed_by, created_at)
+join public.profiles on profiles.id = history.changed_by::uuid;
+
+-- Fines
+
+insert into public.fines (
+  id, vehicle_id, tow_id, violation_code_id, amount, description, issue_date, due_date, status, payment_date,
+  transaction_id, created_by, organization_id
+) values
+  ('cccccccc-0000-0000-0000-000000000001', 'aaaaaaaa-0000-0000-0000-000000000001', 'bbbbbbbb-0000-0000-0000-000000000001',
+   'ffffffff-0000-0000-0000-000000000001', 150.00, 'Fire lane violation', now() - interval '30 days', now(), 'paid',
+   now() - interval '20 days', 'TX-100001-DEMO', '33333333-3333-3333-3333-333333333333',
+   'dddddddd-0000-0000-0000-000000000002'),
+  ('cccccccc-0000-0000-0000-000000000002', 'aaaaaaaa-0000-0000-0000-000000000002', 'bbbbbbbb-0000-0000-0000-000000000002',
+   'ffffffff-0000-0000-0000-000000000002', 75.00, 'Expired parking permit', now() - interval '2 days', now() + interval '28 days', 'unpaid',
+   null, null, '33333333-3333-3333-3333-333333333333',
+   'dddddddd-0000-0000-0000-000000000002');
+
+-- Storage at the Harbor Road Lot: ten days for ABC123, paid at pick-up, and
+-- two days so far for XYZ789
+
+insert into public.fines (
+  id, vehicle_id, tow_id, kind, amount, storage_days, description, issue_date, status, payment_date, transaction_id,
+  organization_id
+) values
+  ('cccccccc-0000-0000-0000-000000000003', 'aaaaaaaa-0000-0000-0000-000000000001', 'bbbbbbbb-0000-0000-0000-000000000001',
+   'storage', 250.00, 10, 'Storage at Harbor Road Lot (10 days)', now() - interval '30 days' + interval '40 minutes', 'paid',
+   now() - interval '20 days', 'TX-100002-DEMO', 'dddddddd-0000-0000-0000-000000000001'),
+  ('cccccccc-0000-0000-0000-000000000004', 'aaaaaaaa-0000-0000-0000-000000000002', 'bbbbbbbb-0000-0000-0000-000000000002',
+   'storage', 50.00, 2, 'Storage at Harbor Road Lot (2 days)', now() - interval '2 days' + interval '90 minutes', 'unpaid',
+   null, null, 'dddddddd-0000-0000-0000-000000000001');
+
+-- Complaints and notifications for the owner
+
+insert into public.complaints (user_id, vehicle_id, fine_id, subject, description, type, status) values
+  ('11111111-1111-1111-1111-111111111111', 'aaaaaaaa-0000-0000-0000-000000000002', 'cccccccc-0000-0000-0000-000000000002',
+   'Complaint about Fine', 'My permit was renewed the day before the fine was issued.', 'fine', 'pending');
+
+insert into public.notifications (user_id, type, title, message, related_id) values
+  ('11111111-1111-1111-1111-111111111111', 'tow', 'Vehicle Towed',
+   'Your vehicle XYZ789 has been towed from 45 Market Ave.', 'bbbbbbbb-0000-0000-0000-000000000002'),
+  ('11111111-1111-1111-1111-111111111111', 'tow_accepted', 'Tow Request Accepted',
+   'Your tow request for vehicle XYZ789 has been accepted.', 'bbbbbbbb-0000-0000-0000-000000000002');